@@ -0,0 +1,103 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title RiskAccessControl
+ * @dev Ownership and role management shared by the risk assessment contracts.
+ * The owner implicitly holds every role and is the only account that can grant or revoke roles.
+ */
+abstract contract RiskAccessControl {
+    
+    // Risk officers may submit assessments
+    bytes32 public constant RISK_OFFICER_ROLE = keccak256("RISK_OFFICER_ROLE");
+    
+    // Senior officers may override automated decisions and resolve appeals
+    bytes32 public constant SENIOR_OFFICER_ROLE = keccak256("SENIOR_OFFICER_ROLE");
+    
+    // Parameter admins may update the risk parameters
+    bytes32 public constant PARAMETER_ADMIN_ROLE = keccak256("PARAMETER_ADMIN_ROLE");
+    
+    // Auditors have read-only access to assessment records
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    
+    // Pausers may halt state-changing entry points in an emergency
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    
+    // Contract owner address
+    address internal owner;
+    
+    // Explicitly granted roles by account
+    mapping(bytes32 => mapping(address => bool)) private roles;
+    
+    // Reserved slots so that new access control state does not shift the variables of inheritors
+    uint256[48] private __gap;
+    
+    // Events for role changes
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    
+    // Modifier to restrict functions to owner only
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only contract owner can perform this action");
+        _;
+    }
+    
+    // Modifier to restrict functions to holders of a role
+    modifier onlyRole(bytes32 _role) {
+        require(hasRole(_role, msg.sender), "Caller does not have the required role");
+        _;
+    }
+    
+    /**
+     * @dev Check whether an account holds a role
+     * @param _role Role identifier
+     * @param _account Account to check
+     * @return Whether the account is the owner or has been granted the role
+     */
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return _account == owner || roles[_role][_account];
+    }
+    
+    /**
+     * @dev Grant a role to an account (owner only)
+     * @param _role Role identifier
+     * @param _account Account receiving the role
+     */
+    function grantRole(bytes32 _role, address _account) public onlyOwner {
+        require(_account != address(0), "Account cannot be zero address");
+        if (!roles[_role][_account]) {
+            roles[_role][_account] = true;
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+    
+    /**
+     * @dev Revoke a role from an account (owner only)
+     * @param _role Role identifier
+     * @param _account Account losing the role
+     */
+    function revokeRole(bytes32 _role, address _account) public onlyOwner {
+        if (roles[_role][_account]) {
+            roles[_role][_account] = false;
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
+    }
+    
+    /**
+     * @dev Transfer contract ownership
+     * @param _newOwner Address of the new owner
+     */
+    function transferOwnership(address _newOwner) public virtual onlyOwner {
+        require(_newOwner != address(0), "New owner cannot be zero address");
+        owner = _newOwner;
+    }
+    
+    /**
+     * @dev Get contract owner address
+     * @return Address of the contract owner
+     */
+    function getOwner() public view returns (address) {
+        return owner;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { RiskAccessControl } from "./RiskAccessControl.sol";
+
+/**
+ * @title RiskAssessmentExpiry
+ * @dev Validity period shared by the risk assessment contracts. A client's latest assessment is
+ * current until the renewal window before its expiry, due soon during that window and expired
+ * once the validity period has elapsed. Inheriting contracts expose their client list and
+ * assessment timestamps through the hooks below.
+ */
+abstract contract RiskAssessmentExpiry is RiskAccessControl {
+    
+    // Freshness of a client's latest assessment
+    enum AssessmentStatus {
+        None,
+        Current,
+        DueSoon,
+        Expired
+    }
+    
+    // Validity settings applied by _initAssessmentExpiry
+    uint256 private constant DEFAULT_VALIDITY_PERIOD = 365 days;
+    uint256 private constant DEFAULT_RENEWAL_WINDOW = 30 days;
+    
+    // How long an assessment stays valid
+    uint256 public validityPeriod;
+    
+    // How long before expiry an assessment is reported as due soon
+    uint256 public renewalWindow;
+    
+    // Reserved slots for validity settings added by later versions of an upgradeable inheritor
+    uint256[48] private __gap;
+    
+    // Event for validity period updates
+    event ValidityPeriodUpdated(uint256 validityPeriod, uint256 renewalWindow);
+    
+    /**
+     * @dev Apply the default validity period. Inheritors call this from their constructor or
+     * initializer, as inline initializers would not run in a proxy's storage
+     */
+    function _initAssessmentExpiry() internal {
+        validityPeriod = DEFAULT_VALIDITY_PERIOD;
+        renewalWindow = DEFAULT_RENEWAL_WINDOW;
+    }
+    
+    /**
+     * @dev Timestamp of a client's latest assessment
+     * @param _clientId Pseudonymous client identifier
+     * @return Assessment timestamp, or 0 if the client has not been assessed
+     */
+    function _latestAssessmentTimestamp(string memory _clientId) internal view virtual returns (uint256);
+    
+    /**
+     * @dev Number of distinct clients that have been assessed
+     * @return Number of assessed clients
+     */
+    function _clientCount() internal view virtual returns (uint256);
+    
+    /**
+     * @dev Client ID at a position of the first-assessment order
+     * @param _index Position of the client
+     * @return Client ID
+     */
+    function _clientIdAt(uint256 _index) internal view virtual returns (string memory);
+    
+    /**
+     * @dev Configure how long assessments stay valid (parameter admins only)
+     * @param _validityPeriod Validity period in seconds
+     * @param _renewalWindow Seconds before expiry from which an assessment is due soon
+     */
+    function setValidityPeriod(uint256 _validityPeriod, uint256 _renewalWindow) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        require(_validityPeriod > 0, "Validity period must be positive");
+        require(_renewalWindow <= _validityPeriod, "Renewal window exceeds validity period");
+        
+        validityPeriod = _validityPeriod;
+        renewalWindow = _renewalWindow;
+        
+        emit ValidityPeriodUpdated(_validityPeriod, _renewalWindow);
+    }
+    
+    /**
+     * @dev Classify an assessment timestamp under the current validity period
+     * @param _timestamp Assessment timestamp, 0 for no assessment
+     * @return Freshness of the assessment
+     */
+    function _assessmentStatus(uint256 _timestamp) internal view returns (AssessmentStatus) {
+        if (_timestamp == 0) {
+            return AssessmentStatus.None;
+        }
+        
+        uint256 expiresAt = _timestamp + validityPeriod;
+        if (block.timestamp >= expiresAt) {
+            return AssessmentStatus.Expired;
+        }
+        if (block.timestamp + renewalWindow >= expiresAt) {
+            return AssessmentStatus.DueSoon;
+        }
+        
+        return AssessmentStatus.Current;
+    }
+    
+    /**
+     * @dev Report whether a client's latest assessment is current, due soon or expired
+     * @param _clientId Pseudonymous client identifier
+     * @return status Freshness of the latest assessment (None if never assessed)
+     * @return expiresAt When the latest assessment expires (0 if never assessed)
+     */
+    function getAssessmentStatus(string memory _clientId) public view returns (AssessmentStatus status, uint256 expiresAt) {
+        uint256 timestamp = _latestAssessmentTimestamp(_clientId);
+        if (timestamp == 0) {
+            return (AssessmentStatus.None, 0);
+        }
+        
+        return (_assessmentStatus(timestamp), timestamp + validityPeriod);
+    }
+    
+    /**
+     * @dev Find clients whose latest assessment has expired, scanning in first-assessment order
+     * @param _offset Index of the first client to scan
+     * @param _limit Maximum number of expired client IDs to return
+     * @return clientIds Expired client IDs found
+     * @return nextOffset Index to resume scanning from; equals the client count once every client was scanned
+     */
+    function getExpiredClients(
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (string[] memory clientIds, uint256 nextOffset) {
+        uint256 total = _clientCount();
+        nextOffset = _offset > total ? total : _offset;
+        
+        // At most every remaining client can match
+        string[] memory found = new string[](_limit < total - nextOffset ? _limit : total - nextOffset);
+        uint256 count = 0;
+        while (nextOffset < total && count < found.length) {
+            string memory clientId = _clientIdAt(nextOffset);
+            if (_assessmentStatus(_latestAssessmentTimestamp(clientId)) == AssessmentStatus.Expired) {
+                found[count++] = clientId;
+            }
+            nextOffset++;
+        }
+        
+        clientIds = new string[](count);
+        for (uint256 i = 0; i < count; i++) {
+            clientIds[i] = found[i];
+        }
+        
+        return (clientIds, nextOffset);
+    }
+}
\ No newline at end of file
@@ -1,124 +1,355 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { RiskAssessmentExpiry } from "./RiskAssessmentExpiry.sol";
+import { RiskControlLogic } from "./RiskControlLogic.sol";
+import { RiskPausable } from "./RiskPausable.sol";
+import { RiskScoringSpec } from "./RiskScoringSpec.sol";
+
 /**
  * @title RiskControl
  * @dev A smart contract for financial institutions to assess client risk profiles
  * while maintaining data compliance. Supports single and batch processing of client data
- * and outputs only assessment results (credit limit/risk score/approval status)
+ * and outputs only assessment results (credit limit/risk score/approval status).
+ * Scores, tiers and credit limits follow RiskScoringSpec.
+ * Deployed behind a RiskControlProxy (UUPS): state lives in the proxy, is set up by initialize and
+ * survives upgrades by the owner. New state variables must be appended after the existing ones.
  */
-contract RiskControl {
+contract RiskControl is Initializable, UUPSUpgradeable, RiskScoringSpec, RiskAssessmentExpiry, RiskPausable {
+    
+    // Reason recorded when a senior officer overrides an automated decision
+    enum OverrideReason {
+        Other,
+        VerifiedIncome,
+        Collateral,
+        ExistingRelationship,
+        PolicyException,
+        AdverseInformation
+    }
+    
+    // Appeal state of a client's decision
+    enum AppealStatus {
+        None,
+        Pending,
+        Resolved
+    }
+    
+    // Client data submitted for an assessment
+    struct ClientProfile {
+        uint256 age;
+        uint256 annualIncome; // Annual income in USDT (with 6 decimals)
+        uint256 debtToIncome; // Monthly debt payments as a percentage of monthly income
+        uint256 employmentYears;
+        uint256 existingObligations; // Number of open loans and credit lines
+        uint256 delinquencyCount; // Number of past delinquencies
+    }
+    
+    // Struct to configure how one profile field contributes to the risk score
+    struct ScoringFactor {
+        uint256 weight; // Percentage applied to the factor's points (100 = full points)
+        uint256 cap; // Points awarded at full weight once every breakpoint is reached
+        bool inverse; // Whether higher values mean higher risk (points are earned per breakpoint not reached)
+        uint256[] breakpoints; // Ascending bucket boundaries
+    }
+    
+    // Struct to configure one approving tier. A tier's score band runs from its minimum score
+    // up to the next tier's minimum score
+    struct TierConfig {
+        uint256 minScore; // Lowest risk score placed in the tier
+        uint256 incomeMultiplier; // Credit limit multiplier applied to monthly income
+        uint256 maxCreditLimit; // Credit limit cap in USDT (with 6 decimals)
+        uint256 minInterestRate; // Suggested interest rate band, in basis points
+        uint256 maxInterestRate;
+    }
     
-    // Struct to store risk assessment parameters (configured by contract owner)
+    // Struct to store risk assessment parameters (configured by parameter admins)
     struct RiskParameters {
-        uint256 incomeMultiplier;
-        uint256 riskThreshold;
+        TierConfig[TIER_COUNT] tiers; // Indexed from tier D (0) to tier A (3)
+        ScoringFactor[FACTOR_COUNT] factors;
     }
     
     // Struct to store assessment results
     struct AssessmentResult {
         uint256 creditLimit; // Credit limit in USDT
         uint256 riskScore;
-        bool approved;
+        bool approved; // Whether the client was placed in an approving tier
+        RiskTier tier;
+        bool overridden; // Whether a senior officer replaced the automated decision
         string clientId;
         uint256 timestamp;
     }
     
-    // Contract owner address
-    address private owner;
+    // Struct to record a manual override of an assessment record
+    struct DecisionOverride {
+        bool originalApproved; // Automated decision
+        uint256 originalCreditLimit;
+        bool approved; // Decision after the override
+        uint256 creditLimit;
+        OverrideReason reason;
+        address overriddenBy;
+        uint256 timestamp;
+        RiskTier originalTier; // Appended after the first release; see storage-layout/
+        RiskTier tier;
+    }
+    
+    // Struct to bound one profile field; values outside [min, max] are rejected
+    struct InputRange {
+        uint256 min; // Inclusive lower bound
+        uint256 max; // Inclusive upper bound
+    }
+    
+    // Struct to record the outcome of one batchAssessRisk call
+    struct BatchOutcome {
+        address submittedBy;
+        uint256 timestamp;
+        uint256 successCount; // Rows assessed; the batch had successCount + failedIndexes.length rows
+        uint256[] failedIndexes; // Positions of skipped rows in the submitted arrays
+        string[] failureReasons; // Revert reason of each skipped row, in failedIndexes order
+    }
     
     // Current risk assessment parameters
-    RiskParameters public riskParameters;
+    RiskParameters private riskParameters;
     
-    // Mapping to store assessment results by client ID
-    mapping(string => AssessmentResult) public assessmentResults;
+    // Mapping to store every assessment performed for a client ID, oldest first
+    mapping(string => AssessmentResult[]) private assessmentHistory;
     
     // Array to store all client IDs for batch retrieval
     string[] private allClientIds;
     
+    // Hashed client IDs already present in allClientIds, for constant-time lookups
+    mapping(bytes32 => bool) private knownClientIds;
+    
+    // Overrides by client ID and assessment record index
+    mapping(string => mapping(uint256 => DecisionOverride)) private decisionOverrides;
+    
+    // Appeal state by client ID
+    mapping(string => AppealStatus) private appealStatus;
+    
+    // Client IDs awaiting appeal review, and each one's position in that list plus one
+    string[] private pendingAppeals;
+    mapping(string => uint256) private pendingAppealPositions;
+    
+    // Number of batches submitted; batch IDs start at 1
+    uint256 public batchCount;
+    
+    // Outcome of each batch by batch ID
+    mapping(uint256 => BatchOutcome) private batchOutcomes;
+    
+    // Valid range of each profile field, indexed by Factor
+    InputRange[FACTOR_COUNT] private inputRanges;
+    
     // Events to log assessments
     event AssessmentPerformed(
         string indexed clientId,
         uint256 creditLimit,
         uint256 riskScore,
         bool approved,
+        RiskTier tier,
         uint256 timestamp
     );
     
     event BatchAssessmentPerformed(
+        uint256 indexed batchId,
         uint256 count,
         uint256 timestamp
     );
     
+    // Outcome of each batch row; index is the row's position in the submitted arrays
+    event BatchItemAssessed(uint256 indexed batchId, uint256 index, string clientId);
+    event BatchItemFailed(uint256 indexed batchId, uint256 index, string clientId, string reason);
+    
     // Event for parameter updates
     event ParametersUpdated(uint256 timestamp);
     
-    // Modifier to restrict functions to owner only
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only contract owner can perform this action");
-        _;
-    }
+    // Events for manual overrides and appeals
+    event DecisionOverridden(
+        string indexed clientId,
+        uint256 index,
+        bool approved,
+        RiskTier tier,
+        uint256 creditLimit,
+        bool originalApproved,
+        RiskTier originalTier,
+        uint256 originalCreditLimit,
+        OverrideReason reason,
+        address indexed overriddenBy,
+        uint256 timestamp
+    );
+    
+    event AppealFlagged(string indexed clientId, address indexed flaggedBy, uint256 timestamp);
+    
+    event AppealResolved(string indexed clientId, address indexed resolvedBy, bool overridden, uint256 timestamp);
     
     /**
-     * @dev Constructor to initialize contract with default risk parameters
+     * @dev Lock the implementation contract so that it can only be used through a proxy
      */
+    /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
+        _disableInitializers();
+    }
+    
+    /**
+     * @dev Initialize the proxy's storage with default risk parameters; the caller becomes the owner
+     */
+    function initialize() public initializer {
         owner = msg.sender;
+        _initAssessmentExpiry();
         
-        // Set default risk assessment parameters
-        riskParameters = RiskParameters({
-            incomeMultiplier: 2, // Credit limit multiplier based on income
-            riskThreshold: 50 // Risk score threshold for approval
-        });
+        // Default tiers and scoring model from the shared specification, with USDT amounts in 6 decimals
+        TierConfig[TIER_COUNT] memory tiers;
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            (
+                uint32 minScore,
+                uint32 incomeMultiplier,
+                uint32 maxCreditLimit,
+                uint256 minInterestRate,
+                uint256 maxInterestRate
+            ) = _defaultRiskTier(i);
+            tiers[i] = TierConfig(minScore, incomeMultiplier, maxCreditLimit * USDT_UNIT, minInterestRate, maxInterestRate);
+        }
+        _setRiskTiers(tiers);
+        
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            (uint32 weight, uint32 cap, bool inverse, uint32[] memory defaults) = _defaultScoringFactor(Factor(i));
+            uint256 unit = Factor(i) == Factor.AnnualIncome ? USDT_UNIT : 1;
+            uint256[] memory breakpoints = new uint256[](defaults.length);
+            for (uint256 j = 0; j < defaults.length; j++) {
+                breakpoints[j] = defaults[j] * unit;
+            }
+            _setScoringFactor(Factor(i), weight, cap, inverse, breakpoints);
+        }
+        _setDefaultInputRanges();
+    }
+    
+    /**
+     * @dev Apply the default input ranges to a proxy initialized before input ranges existed.
+     * deploy/deploy.ts runs it through upgradeToAndCall when upgrading such a proxy. Proxies whose ranges
+     * were set by initialize are rejected so that customized ranges are not reset
+     */
+    function initializeInputRanges() public reinitializer(2) onlyOwner {
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            require(inputRanges[i].max == 0, "Input ranges already set");
+        }
+        _setDefaultInputRanges();
+    }
+    
+    /**
+     * @dev Store the default range of every profile field from the shared specification
+     */
+    function _setDefaultInputRanges() private {
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            (uint32 min, uint32 max) = _defaultInputRange(Factor(i));
+            uint256 unit = Factor(i) == Factor.AnnualIncome ? USDT_UNIT : 1;
+            _setInputRange(Factor(i), min * unit, max * unit);
+        }
     }
     
+    /**
+     * @dev Restrict upgrades of the proxy to the owner
+     * @param _newImplementation Address of the new RiskControl implementation
+     */
+    function _authorizeUpgrade(address _newImplementation) internal override onlyOwner {}
+    
     /**
      * @dev Perform risk assessment for a single client
-     * @param _age Client's age
-     * @param _annualIncome Client's annual income in USDT (with 6 decimals)
+     * @param _profile Client's scoring inputs
      * @param _clientId Pseudonymous client identifier for compliance
      * @return creditLimit The approved credit limit in USDT
      * @return riskScore The calculated risk score
      * @return approved Whether the client is approved
+     * @return tier The risk tier the client was placed in
      */
     function assessRisk(
-        uint256 _age,
-        uint256 _annualIncome,
+        ClientProfile memory _profile,
         string memory _clientId
-    ) public returns (uint256 creditLimit, uint256 riskScore, bool approved) {
-        // Only require client ID to be non-empty
-        require(bytes(_clientId).length > 0, "Client ID cannot be empty");
+    ) public onlyRole(RISK_OFFICER_ROLE) whenNotPaused returns (uint256 creditLimit, uint256 riskScore, bool approved, RiskTier tier) {
+        return _assessRisk(_profile, _clientId);
+    }
+    
+    /**
+     * @dev Assess a single batch row. Only callable by the contract itself so that
+     * batchAssessRisk can catch a failing row after the caller's role was checked once
+     * @param _profile Client's scoring inputs
+     * @param _clientId Pseudonymous client identifier for compliance
+     * @return creditLimit The approved credit limit in USDT
+     * @return riskScore The calculated risk score
+     * @return approved Whether the client is approved
+     * @return tier The risk tier the client was placed in
+     */
+    function assessBatchItem(
+        ClientProfile memory _profile,
+        string memory _clientId
+    ) external returns (uint256 creditLimit, uint256 riskScore, bool approved, RiskTier tier) {
+        require(msg.sender == address(this), "Only callable from batchAssessRisk");
+        return _assessRisk(_profile, _clientId);
+    }
+    
+    /**
+     * @dev Score, decide and record an assessment
+     * @param _profile Client's scoring inputs
+     * @param _clientId Pseudonymous client identifier for compliance
+     * @return creditLimit The approved credit limit in USDT
+     * @return riskScore The calculated risk score
+     * @return approved Whether the client is approved
+     * @return tier The risk tier the client was placed in
+     */
+    function _assessRisk(
+        ClientProfile memory _profile,
+        string memory _clientId
+    ) private returns (uint256 creditLimit, uint256 riskScore, bool approved, RiskTier tier) {
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
+        
+        uint256[FACTOR_COUNT] memory values = [
+            _profile.age,
+            _profile.annualIncome,
+            _profile.debtToIncome,
+            _profile.employmentYears,
+            _profile.existingObligations,
+            _profile.delinquencyCount
+        ];
+        _checkInputRanges(values);
         
         // Calculate risk score using internal function
-        riskScore = calculateRiskScore(_age, _annualIncome);
+        riskScore = calculateRiskScore(values);
         
-        // Determine approval status based on risk threshold
-        approved = riskScore >= riskParameters.riskThreshold;
+        // Place the client in a tier; only the approving tiers grant credit
+        tier = determineTier(riskScore);
+        approved = tier != RiskTier.Decline;
         
         // Calculate credit limit if approved (in USDT)
         creditLimit = 0;
         if (approved) {
-            creditLimit = (_annualIncome / 12) * riskParameters.incomeMultiplier; // Monthly income * multiplier
+            TierConfig storage config = riskParameters.tiers[uint256(tier) - 1];
+            // Monthly income in whole USDT * multiplier
+            creditLimit = (_profile.annualIncome / 12 / USDT_UNIT) * USDT_UNIT * config.incomeMultiplier;
+            if (creditLimit > config.maxCreditLimit) {
+                creditLimit = config.maxCreditLimit;
+            }
+        }
+        
+        // Add to client IDs array if not already present
+        if (!clientIdExists(_clientId)) {
+            knownClientIds[keccak256(bytes(_clientId))] = true;
+            allClientIds.push(_clientId);
         }
         
-        // Store assessment results
-        assessmentResults[_clientId] = AssessmentResult({
+        // Append a new record so earlier decisions stay auditable
+        assessmentHistory[_clientId].push(AssessmentResult({
             creditLimit: creditLimit,
             riskScore: riskScore,
             approved: approved,
+            tier: tier,
+            overridden: false,
             clientId: _clientId,
             timestamp: block.timestamp
-        });
-        
-        // Add to client IDs array if not already present
-        if (!clientIdExists(_clientId)) {
-            allClientIds.push(_clientId);
-        }
+        }));
         
         // Emit event for off-chain tracking
-        emit AssessmentPerformed(_clientId, creditLimit, riskScore, approved, block.timestamp);
+        emit AssessmentPerformed(_clientId, creditLimit, riskScore, approved, tier, block.timestamp);
         
-        return (creditLimit, riskScore, approved);
+        return (creditLimit, riskScore, approved, tier);
     }
     
     /**
@@ -127,67 +358,124 @@ contract RiskControl {
      * @return exists Whether the client ID exists
      */
     function clientIdExists(string memory _clientId) private view returns (bool exists) {
-        for (uint256 i = 0; i < allClientIds.length; i++) {
-            if (keccak256(abi.encodePacked(allClientIds[i])) == keccak256(abi.encodePacked(_clientId))) {
-                return true;
+        return knownClientIds[keccak256(bytes(_clientId))];
+    }
+    
+    /**
+     * @dev Timestamp of a client's latest assessment, for RiskAssessmentExpiry
+     * @param _clientId Pseudonymous client identifier
+     * @return Assessment timestamp, or 0 if the client has not been assessed
+     */
+    function _latestAssessmentTimestamp(string memory _clientId) internal view override returns (uint256) {
+        AssessmentResult[] storage history = assessmentHistory[_clientId];
+        return history.length > 0 ? history[history.length - 1].timestamp : 0;
+    }
+    
+    /**
+     * @dev Number of assessed clients, for RiskAssessmentExpiry
+     * @return Number of assessed clients
+     */
+    function _clientCount() internal view override returns (uint256) {
+        return allClientIds.length;
+    }
+    
+    /**
+     * @dev Client ID at a position of the first-assessment order, for RiskAssessmentExpiry
+     * @param _index Position of the client
+     * @return Client ID
+     */
+    function _clientIdAt(uint256 _index) internal view override returns (string memory) {
+        return allClientIds[_index];
+    }
+    
+    /**
+     * @dev Revert with InputOutOfRange for the first profile field outside its valid range
+     * @param _values Client's scoring inputs, indexed by Factor
+     */
+    function _checkInputRanges(uint256[FACTOR_COUNT] memory _values) private view {
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            InputRange storage range = inputRanges[i];
+            if (_values[i] < range.min || _values[i] > range.max) {
+                revert InputOutOfRange(Factor(i), _values[i], range.min, range.max);
             }
         }
-        return false;
     }
     
     /**
-     * @dev Internal function to calculate risk score based on age and income
-     * @param _age Client's age
-     * @param _annualIncome Client's annual income in USDT
-     * @return Calculated risk score
+     * @dev Internal function to calculate the weighted risk score over every configured factor
+     * @param _values Client's scoring inputs, indexed by Factor
+     * @return score Calculated risk score
+     */
+    function calculateRiskScore(uint256[FACTOR_COUNT] memory _values) internal view returns (uint256 score) {
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            score += factorPoints(riskParameters.factors[i], _values[i]);
+        }
+        
+        return score;
+    }
+    
+    /**
+     * @dev Weighted points for one factor: an equal share of the weighted cap for every breakpoint
+     * reached, or for every breakpoint not reached when the factor is inverse
+     * @param _factor Factor configuration
+     * @param _value Client's value for the factor
+     * @return Points between 0 and the factor's weighted cap
      */
-    function calculateRiskScore(
-        uint256 _age,
-        uint256 _annualIncome
-    ) internal pure returns (uint256) {
-        // Risk calculation algorithm with weighted factors
+    function factorPoints(ScoringFactor storage _factor, uint256 _value) internal view returns (uint256) {
+        uint256 buckets = _factor.breakpoints.length;
+        if (buckets == 0) {
+            return 0;
+        }
         
-        // Age factor: Older clients get higher scores (up to 40 points)
-        uint256 ageFactor = _age > 40 ? 40 : (_age * 40) / 40;
+        uint256 reached = 0;
+        while (reached < buckets && _value >= _factor.breakpoints[reached]) {
+            reached++;
+        }
         
-        // Income factor: Higher income clients get higher scores (up to 60 points)
-        // Convert USDT to dollars (divide by 10^6) then calculate factor
-        uint256 incomeInDollars = _annualIncome / 10**6;
-        uint256 incomeFactor = (incomeInDollars / 1000) > 60 ? 60 : (incomeInDollars / 1000);
+        uint256 bucketPoints = _bucketPoints(_factor.cap, _factor.weight, buckets);
+        return bucketPoints * (_factor.inverse ? buckets - reached : reached);
+    }
+    
+    /**
+     * @dev Find the best tier whose minimum score the risk score reaches
+     * @param _riskScore Calculated risk score
+     * @return The client's tier, or Decline below tier D
+     */
+    function determineTier(uint256 _riskScore) internal view returns (RiskTier) {
+        for (uint256 i = TIER_COUNT; i > 0; i--) {
+            if (_riskScore >= riskParameters.tiers[i - 1].minScore) {
+                return RiskTier(i);
+            }
+        }
         
-        return ageFactor + incomeFactor;
+        return RiskTier.Decline;
     }
     
     /**
-     * @dev Batch assess multiple clients
-     * @param _ages Array of client ages
-     * @param _incomes Array of client annual incomes in USDT
+     * @dev Batch assess multiple clients under a new batch ID, emitting BatchItemAssessed or BatchItemFailed
+     * for every row. The outcome is kept for getBatchOutcome
+     * @param _profiles Array of client scoring inputs
      * @param _clientIds Array of pseudonymous client identifiers
      * @return successCount Number of successfully processed assessments
      */
     function batchAssessRisk(
-        uint256[] memory _ages,
-        uint256[] memory _incomes,
+        ClientProfile[] memory _profiles,
         string[] memory _clientIds
-    ) external returns (uint256 successCount) {
-        require(
-            _ages.length == _incomes.length && 
-            _incomes.length == _clientIds.length,
-            "Input arrays must have the same length"
-        );
-        
-        successCount = 0;
-        for (uint256 i = 0; i < _ages.length; i++) {
-            try this.assessRisk(_ages[i], _incomes[i], _clientIds[i]) {
-                successCount++;
-            } catch {
-                // Skip failed assessments and continue with next
-                continue;
-            }
-        }
+    ) external onlyRole(RISK_OFFICER_ROLE) whenNotPaused returns (uint256 successCount) {
+        if (_profiles.length != _clientIds.length) revert InputLengthMismatch();
         
-        emit BatchAssessmentPerformed(successCount, block.timestamp);
-        return successCount;
+        uint256 batchId = ++batchCount;
+        return RiskControlLogic.assessBatch(batchOutcomes[batchId], batchId, _profiles, _clientIds);
+    }
+    
+    /**
+     * @dev Get the outcome of a batch submission, for reconciling without replaying its transaction
+     * @param _batchId Batch ID from BatchAssessmentPerformed
+     * @return Submitter, time, success count, and every skipped row with its revert reason.
+     * Unknown batch IDs return an empty outcome with a zero submitter
+     */
+    function getBatchOutcome(uint256 _batchId) external view returns (BatchOutcome memory) {
+        return batchOutcomes[_batchId];
     }
     
     /**
@@ -204,17 +492,75 @@ contract RiskControl {
         bool approved,
         uint256 timestamp
     ) {
-        require(bytes(_clientId).length > 0, "Client ID cannot be empty");
-        AssessmentResult memory result = assessmentResults[_clientId];
-        require(bytes(result.clientId).length > 0, "No assessment found for this client ID");
+        AssessmentResult memory result = getLatestAssessment(_clientId);
         
         return (result.creditLimit, result.riskScore, result.approved, result.timestamp);
     }
     
     /**
-     * @dev Retrieve assessment results for multiple clients
+     * @dev Retrieve the most recent assessment record for a client
+     * @param _clientId Pseudonymous client identifier
+     * @return The latest assessment result
+     */
+    function getLatestAssessment(string memory _clientId) public view returns (AssessmentResult memory) {
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
+        AssessmentResult[] storage history = assessmentHistory[_clientId];
+        require(history.length > 0, "No assessment found for this client ID");
+        
+        return history[history.length - 1];
+    }
+    
+    /**
+     * @dev Retrieve a specific assessment record for a client
+     * @param _clientId Pseudonymous client identifier
+     * @param _index Record number, starting at 0 for the first assessment
+     * @return The assessment result at the given index
+     */
+    function getAssessmentAt(string memory _clientId, uint256 _index) public view returns (AssessmentResult memory) {
+        require(_index < assessmentHistory[_clientId].length, "Assessment index out of range");
+        
+        return assessmentHistory[_clientId][_index];
+    }
+    
+    /**
+     * @dev Get the number of assessment records kept for a client
+     * @param _clientId Pseudonymous client identifier
+     * @return Number of records
+     */
+    function getAssessmentHistoryLength(string memory _clientId) public view returns (uint256) {
+        return assessmentHistory[_clientId].length;
+    }
+    
+    /**
+     * @dev Retrieve a page of a client's assessment history, oldest first
+     * @param _clientId Pseudonymous client identifier
+     * @param _offset Index of the first record to return
+     * @param _limit Maximum number of records to return
+     * @return results Assessment records in the requested range
+     */
+    function getAssessmentHistory(
+        string memory _clientId,
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (AssessmentResult[] memory results) {
+        AssessmentResult[] storage history = assessmentHistory[_clientId];
+        if (_offset >= history.length) {
+            return new AssessmentResult[](0);
+        }
+        
+        uint256 end = _offset + _limit > history.length ? history.length : _offset + _limit;
+        results = new AssessmentResult[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            results[i - _offset] = history[i];
+        }
+        
+        return results;
+    }
+    
+    /**
+     * @dev Retrieve the latest assessment results for multiple clients
      * @param _clientIds Array of client IDs to retrieve
-     * @return results Array of assessment results
+     * @return results Array of assessment results (empty entries for unknown IDs)
      */
     function getBatchAssessmentResults(
         string[] memory _clientIds
@@ -222,14 +568,17 @@ contract RiskControl {
         results = new AssessmentResult[](_clientIds.length);
         
         for (uint256 i = 0; i < _clientIds.length; i++) {
-            results[i] = assessmentResults[_clientIds[i]];
+            AssessmentResult[] storage history = assessmentHistory[_clientIds[i]];
+            if (history.length > 0) {
+                results[i] = history[history.length - 1];
+            }
         }
         
         return results;
     }
     
     /**
-     * @dev Get all client IDs that have been assessed
+     * @dev Get all client IDs that have been assessed. Unbounded: prefer getClientIds for large data sets
      * @return Array of all client IDs
      */
     function getAllClientIds() public view returns (string[] memory) {
@@ -237,52 +586,240 @@ contract RiskControl {
     }
     
     /**
-     * @dev Get the total number of assessments performed
-     * @return count Number of assessments
+     * @dev Get a page of assessed client IDs in first-assessment order
+     * @param _offset Index of the first client ID to return
+     * @param _limit Maximum number of client IDs to return
+     * @return clientIds Client IDs in the requested range
+     */
+    function getClientIds(uint256 _offset, uint256 _limit) public view returns (string[] memory clientIds) {
+        if (_offset >= allClientIds.length) {
+            return new string[](0);
+        }
+        
+        uint256 end = _offset + _limit > allClientIds.length ? allClientIds.length : _offset + _limit;
+        clientIds = new string[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            clientIds[i - _offset] = allClientIds[i];
+        }
+        
+        return clientIds;
+    }
+    
+    /**
+     * @dev Get the latest assessment of each client in a page of client IDs
+     * @param _offset Index of the first client to return
+     * @param _limit Maximum number of clients to return
+     * @return results Latest assessment results in first-assessment order
+     */
+    function getAssessmentsPage(uint256 _offset, uint256 _limit) public view returns (AssessmentResult[] memory results) {
+        return getBatchAssessmentResults(getClientIds(_offset, _limit));
+    }
+    
+    /**
+     * @dev Get the number of distinct clients that have been assessed
+     * @return count Number of assessed clients
      */
     function getAssessmentCount() public view returns (uint256 count) {
         return allClientIds.length;
     }
     
     /**
-     * @dev Update risk assessment parameters (owner only)
-     * @param _incomeMultiplier Multiplier for credit limit calculation
-     * @param _riskThreshold Risk score threshold for approval
+     * @dev Replace the automated decision of a client's latest assessment (senior officers only).
+     * The automated values are kept in the override record, and a pending appeal is resolved
+     * @param _clientId Pseudonymous client identifier
+     * @param _tier Tier to apply; RiskTier.Decline declines the client, any other tier approves
+     * @param _creditLimit Credit limit to apply in USDT, 0 when declining
+     * @param _reason Reason code for the override
      */
-    function updateRiskParameters(
-        uint256 _incomeMultiplier,
-        uint256 _riskThreshold
-    ) public onlyOwner {
-        riskParameters = RiskParameters({
-            incomeMultiplier: _incomeMultiplier,
-            riskThreshold: _riskThreshold
-        });
+    function overrideDecision(
+        string memory _clientId,
+        RiskTier _tier,
+        uint256 _creditLimit,
+        OverrideReason _reason
+    ) public onlyRole(SENIOR_OFFICER_ROLE) whenNotPaused {
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
+        RiskControlLogic.overrideDecision(
+            assessmentHistory[_clientId],
+            decisionOverrides[_clientId],
+            _clientId,
+            _tier,
+            _creditLimit,
+            _reason
+        );
+        
+        if (appealStatus[_clientId] == AppealStatus.Pending) {
+            RiskControlLogic.resolveAppeal(appealStatus, pendingAppeals, pendingAppealPositions, _clientId, true);
+        }
+    }
+    
+    /**
+     * @dev Get the override recorded for an assessment record
+     * @param _clientId Pseudonymous client identifier
+     * @param _index Record number, starting at 0 for the first assessment
+     * @return DecisionOverride struct with the automated and applied decisions
+     */
+    function getDecisionOverride(string memory _clientId, uint256 _index) public view returns (DecisionOverride memory) {
+        require(
+            _index < assessmentHistory[_clientId].length && assessmentHistory[_clientId][_index].overridden,
+            "No override recorded for this assessment"
+        );
+        
+        return decisionOverrides[_clientId][_index];
+    }
+    
+    /**
+     * @dev Flag a client's decision for appeal review by a senior officer
+     * @param _clientId Pseudonymous client identifier
+     */
+    function flagForAppeal(string memory _clientId) public onlyRole(RISK_OFFICER_ROLE) whenNotPaused {
+        require(assessmentHistory[_clientId].length > 0, "No assessment found for this client ID");
+        
+        RiskControlLogic.flagForAppeal(appealStatus, pendingAppeals, pendingAppealPositions, _clientId);
+    }
+    
+    /**
+     * @dev Close a pending appeal without changing the decision (senior officers only)
+     * @param _clientId Pseudonymous client identifier
+     */
+    function resolveAppeal(string memory _clientId) public onlyRole(SENIOR_OFFICER_ROLE) whenNotPaused {
+        require(appealStatus[_clientId] == AppealStatus.Pending, "No pending appeal for this client ID");
+        
+        RiskControlLogic.resolveAppeal(appealStatus, pendingAppeals, pendingAppealPositions, _clientId, false);
+    }
+    
+    /**
+     * @dev Get the appeal state of a client
+     * @param _clientId Pseudonymous client identifier
+     * @return None, Pending or Resolved
+     */
+    function getAppealStatus(string memory _clientId) public view returns (AppealStatus) {
+        return appealStatus[_clientId];
+    }
+    
+    /**
+     * @dev Get the client IDs awaiting appeal review, in no particular order
+     * @return Array of client IDs with a pending appeal
+     */
+    function getPendingAppeals() public view returns (string[] memory) {
+        return pendingAppeals;
+    }
+    
+    /**
+     * @dev Replace the tier configuration (parameter admins only)
+     * @param _tiers Tier settings from tier D to tier A, with strictly ascending minimum scores
+     */
+    function updateRiskTiers(TierConfig[TIER_COUNT] memory _tiers) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        _setRiskTiers(_tiers);
         
         emit ParametersUpdated(block.timestamp);
     }
     
     /**
-     * @dev Get current risk parameters
-     * @return RiskParameters struct containing all current parameters
+     * @dev Validate and store the tier configuration
+     * @param _tiers Tier settings from tier D to tier A
      */
-    function getRiskParameters() public view returns (RiskParameters memory) {
-        return riskParameters;
+    function _setRiskTiers(TierConfig[TIER_COUNT] memory _tiers) private {
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            require(i == 0 || _tiers[i].minScore > _tiers[i - 1].minScore, "Tier minimum scores must be strictly ascending");
+            require(_tiers[i].minInterestRate <= _tiers[i].maxInterestRate, "Interest rate band is inverted");
+            riskParameters.tiers[i] = _tiers[i];
+        }
+    }
+    
+    /**
+     * @dev Get the configuration of one approving tier
+     * @param _tier Tier to look up
+     * @return TierConfig struct with score floor, multiplier, credit cap and interest rate band
+     */
+    function getRiskTier(RiskTier _tier) public view returns (TierConfig memory) {
+        require(_tier != RiskTier.Decline, "Decline has no tier configuration");
+        
+        return riskParameters.tiers[uint256(_tier) - 1];
+    }
+    
+    /**
+     * @dev Configure one scoring factor (parameter admins only)
+     * @param _factor Factor to configure
+     * @param _weight Percentage applied to the factor's points (0 disables the factor)
+     * @param _cap Points awarded at full weight once every breakpoint is reached
+     * @param _inverse Whether higher values mean higher risk
+     * @param _breakpoints Strictly ascending bucket boundaries
+     */
+    function updateScoringFactor(
+        Factor _factor,
+        uint256 _weight,
+        uint256 _cap,
+        bool _inverse,
+        uint256[] memory _breakpoints
+    ) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        _setScoringFactor(_factor, _weight, _cap, _inverse, _breakpoints);
+        
+        emit ParametersUpdated(block.timestamp);
+    }
+    
+    /**
+     * @dev Validate and store a scoring factor
+     * @param _factor Factor to configure
+     * @param _weight Percentage applied to the factor's points
+     * @param _cap Points awarded once every breakpoint is reached
+     * @param _inverse Whether higher values mean higher risk
+     * @param _breakpoints Strictly ascending bucket boundaries
+     */
+    function _setScoringFactor(
+        Factor _factor,
+        uint256 _weight,
+        uint256 _cap,
+        bool _inverse,
+        uint256[] memory _breakpoints
+    ) private {
+        RiskControlLogic.setScoringFactor(riskParameters.factors[uint256(_factor)], _weight, _cap, _inverse, _breakpoints);
+    }
+    
+    /**
+     * @dev Get the configuration of one scoring factor
+     * @param _factor Factor to look up
+     * @return ScoringFactor struct with weight, cap, direction and breakpoints
+     */
+    function getScoringFactor(Factor _factor) public view returns (ScoringFactor memory) {
+        return riskParameters.factors[uint256(_factor)];
+    }
+    
+    /**
+     * @dev Set the valid range of one profile field (parameter admins only)
+     * @param _factor Factor whose profile field to bound
+     * @param _min Lowest valid value
+     * @param _max Highest valid value (USDT with 6 decimals for annual income)
+     */
+    function updateInputRange(Factor _factor, uint256 _min, uint256 _max) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        _setInputRange(_factor, _min, _max);
+        
+        emit ParametersUpdated(block.timestamp);
     }
     
     /**
-     * @dev Transfer contract ownership
-     * @param _newOwner Address of the new owner
+     * @dev Validate and store the valid range of a profile field
+     * @param _factor Factor whose profile field to bound
+     * @param _min Lowest valid value
+     * @param _max Highest valid value
      */
-    function transferOwnership(address _newOwner) public onlyOwner {
-        require(_newOwner != address(0), "New owner cannot be zero address");
-        owner = _newOwner;
+    function _setInputRange(Factor _factor, uint256 _min, uint256 _max) private {
+        if (_min > _max) revert InvalidInputRange(_factor, _min, _max);
+        inputRanges[uint256(_factor)] = InputRange(_min, _max);
     }
     
     /**
-     * @dev Get contract owner address
-     * @return Address of the contract owner
+     * @dev Get the valid range of every profile field
+     * @return Ranges indexed by Factor
      */
-    function getOwner() public view returns (address) {
-        return owner;
+    function getInputRanges() public view returns (InputRange[FACTOR_COUNT] memory) {
+        return inputRanges;
+    }
+    
+    /**
+     * @dev Get current risk parameters
+     * @return RiskParameters struct containing all current parameters
+     */
+    function getRiskParameters() public view returns (RiskParameters memory) {
+        return riskParameters;
     }
 }
\ No newline at end of file
@@ -1,34 +1,92 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { RiskAssessmentExpiry } from "./RiskAssessmentExpiry.sol";
+import { RiskPausable } from "./RiskPausable.sol";
+import { RiskScoringSpec } from "./RiskScoringSpec.sol";
 
 /**
  * @title FHE RiskControl
- * @dev A smart contract for privacy-preserving client risk assessment using Zama's FHE technology
+ * @dev A smart contract for privacy-preserving client risk assessment using Zama's FHE technology.
+ * Client inputs are encrypted off-chain and submitted as external handles with an input proof.
+ * Annual income is expressed in whole USDT so that it fits in a 32-bit ciphertext.
+ * Scores, tiers and credit limits follow RiskScoringSpec, evaluated homomorphically.
  */
-contract FHERC {
+contract RiskControlFHE is SepoliaConfig, RiskScoringSpec, RiskAssessmentExpiry, RiskPausable {
+    // Encrypted client data submitted for an assessment, all covered by one input proof
+    struct EncryptedClientProfile {
+        externalEuint32 age;
+        externalEuint32 annualIncome; // Annual income in whole USDT
+        externalEuint32 debtToIncome; // Monthly debt payments as a percentage of monthly income
+        externalEuint32 employmentYears;
+        externalEuint32 existingObligations; // Number of open loans and credit lines
+        externalEuint32 delinquencyCount; // Number of past delinquencies
+    }
+    
+    // Struct to configure how one profile field contributes to the risk score.
+    // Weight, cap and breakpoints are encrypted; the direction and the number of buckets are public
+    struct EncryptedScoringFactor {
+        euint32 weight; // Percentage applied to the factor's points (100 = full points)
+        euint32 cap; // Points awarded at full weight once every breakpoint is reached
+        euint32 bucketPoints; // cap * weight / (100 * breakpoints.length), derived once when configured
+        bool inverse; // Whether higher values mean higher risk (points are earned per breakpoint not reached)
+        euint32[] breakpoints; // Ascending bucket boundaries
+    }
+    
+    // Struct to configure one approving tier. Score band, multiplier and credit cap are encrypted;
+    // the suggested interest rate band is public since it reveals nothing about a client
+    struct EncryptedTierConfig {
+        euint32 minScore; // Lowest risk score placed in the tier
+        euint32 incomeMultiplier; // Credit limit multiplier applied to monthly income
+        euint32 maxCreditLimit; // Credit limit cap in whole USDT
+        uint256 minInterestRate; // Suggested interest rate band, in basis points
+        uint256 maxInterestRate;
+    }
+    
+    // Encrypted tier settings submitted by a parameter admin, all covered by one input proof
+    struct EncryptedTierInput {
+        externalEuint32 minScore;
+        externalEuint32 incomeMultiplier;
+        externalEuint32 maxCreditLimit;
+        uint256 minInterestRate;
+        uint256 maxInterestRate;
+    }
+    
     // Struct to store risk assessment parameters
     struct RiskParameters {
-        euint32 incomeMultiplier;
-        euint32 riskThreshold;
+        EncryptedTierConfig[TIER_COUNT] tiers; // Indexed from tier D (0) to tier A (3)
+        EncryptedScoringFactor[FACTOR_COUNT] factors;
     }
     
     // Struct to store encrypted assessment results
     struct EncryptedAssessment {
-        euint32 creditLimit; // Encrypted credit limit in USDT
+        euint32 creditLimit; // Encrypted credit limit in whole USDT
         euint32 riskScore;   // Encrypted risk score
         ebool approved;     // Encrypted approval status
+        euint8 tier;         // Encrypted RiskTier
         string clientId;     // Pseudonymous client identifier
         uint256 timestamp;   // Assessment timestamp
     }
     
-    // Contract owner address
-    address private owner;
+    // Struct to bound one profile field. The bounds are public; encrypted values are clamped into them
+    struct InputRange {
+        uint32 min; // Inclusive lower bound
+        uint32 max; // Inclusive upper bound
+    }
+    
+    // Struct to record the outcome of one batchAssessRiskEncrypted call
+    struct BatchOutcome {
+        address submittedBy;
+        uint256 timestamp;
+        uint256 successCount; // Rows assessed; the batch had successCount + failedIndexes.length rows
+        uint256[] failedIndexes; // Positions of skipped rows in the submitted arrays
+        string[] failureReasons; // Reason each row was skipped, in failedIndexes order
+    }
     
     // Current risk assessment parameters (encrypted)
-    RiskParameters public riskParameters;
+    RiskParameters private riskParameters;
     
     // Mapping to store encrypted assessment results by client ID
     mapping(string => EncryptedAssessment) public encryptedAssessments;
@@ -36,168 +94,388 @@ contract FHERC {
     // Array to store all client IDs for batch retrieval
     string[] private allClientIds;
     
-    // Events to log assessments
+    // Hashed client IDs already present in allClientIds, for constant-time lookups
+    mapping(bytes32 => bool) private knownClientIds;
+    
+    // Number of batches submitted; batch IDs start at 1
+    uint256 public batchCount;
+    
+    // Outcome of each batch by batch ID
+    mapping(uint256 => BatchOutcome) private batchOutcomes;
+    
+    // Valid range of each profile field, indexed by Factor
+    InputRange[FACTOR_COUNT] private inputRanges;
+    
+    // Scoring all six encrypted factors costs enough HCU that only this many clients
+    // fit within a single transaction's homomorphic compute budget
+    uint256 public constant MAX_BATCH_SIZE = 3;
+    
+    // Rejects batches with more rows than MAX_BATCH_SIZE
+    error BatchTooLarge(uint256 length, uint256 maxLength);
+    
+    // Events to log assessments (result handles only, never cleartext)
     event AssessmentPerformed(
         string indexed clientId,
-        bytes encryptedCreditLimit,
-        bytes encryptedRiskScore,
-        bytes encryptedApproved,
+        euint32 encryptedCreditLimit,
+        euint32 encryptedRiskScore,
+        ebool encryptedApproved,
+        euint8 encryptedTier,
         uint256 timestamp
     );
     
     event BatchAssessmentPerformed(
+        uint256 indexed batchId,
         uint256 count,
         uint256 timestamp
     );
     
+    // Outcome of each batch row; index is the row's position in the submitted arrays
+    event BatchItemAssessed(uint256 indexed batchId, uint256 index, string clientId);
+    event BatchItemFailed(uint256 indexed batchId, uint256 index, string clientId, string reason);
+    
     // Event for parameter updates
     event ParametersUpdated(uint256 timestamp);
     
-    // Modifier to restrict functions to owner only
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only contract owner can perform this action");
-        _;
-    }
+    // Event for auditors obtaining decryption rights on an assessment
+    event AuditAccessGranted(string indexed clientId, address indexed auditor, uint256 timestamp);
     
     /**
      * @dev Constructor to initialize contract with default risk parameters
      */
     constructor() {
         owner = msg.sender;
+        _initAssessmentExpiry();
         
-        // Set default risk assessment parameters (encrypted)
-        riskParameters = RiskParameters({
-            incomeMultiplier: FHE.asEuint32(2),   // Credit limit multiplier
-            riskThreshold: FHE.asEuint32(50)        // Risk score threshold
-        });
+        // Defaults from the shared specification. They are visible in the deployment transaction,
+        // so a proprietary model must be set with updateRiskTiersEncrypted and updateScoringFactorEncrypted
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            (
+                uint32 minScore,
+                uint32 incomeMultiplier,
+                uint32 maxCreditLimit,
+                uint256 minInterestRate,
+                uint256 maxInterestRate
+            ) = _defaultRiskTier(i);
+            _setRiskTier(
+                i,
+                FHE.asEuint32(minScore),
+                FHE.asEuint32(incomeMultiplier),
+                FHE.asEuint32(maxCreditLimit),
+                minInterestRate,
+                maxInterestRate
+            );
+        }
+        
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            (uint32 weight, uint32 cap, bool inverse, uint32[] memory breakpoints) = _defaultScoringFactor(Factor(i));
+            _setDefaultScoringFactor(Factor(i), weight, cap, inverse, breakpoints);
+            
+            (uint32 min, uint32 max) = _defaultInputRange(Factor(i));
+            _setInputRange(Factor(i), min, max);
+        }
+        
+        _allowRiskParameters(owner);
     }
     
     /**
      * @dev Perform encrypted risk assessment for a single client
-     * @param encryptedAge Client's encrypted age
-     * @param encryptedIncome Client's encrypted annual income in USDT
+     * @param _profile Handles of the client's encrypted scoring inputs
+     * @param inputProof Proof binding the handles to this contract and the caller
      * @param _clientId Pseudonymous client identifier
      * @return encryptedCreditLimit The approved encrypted credit limit
      * @return encryptedRiskScore The calculated encrypted risk score
      * @return encryptedApproved Encrypted approval status
+     * @return encryptedTier Encrypted RiskTier
      */
     function assessRiskEncrypted(
-        euint32 calldata encryptedAge,
-        euint32 calldata encryptedIncome,
+        EncryptedClientProfile calldata _profile,
+        bytes calldata inputProof,
         string memory _clientId
-    ) public returns (euint32 encryptedCreditLimit, euint32 encryptedRiskScore, ebool encryptedApproved) {
-        // Only require client ID to be non-empty
-        require(bytes(_clientId).length > 0, "Client ID cannot be empty");
+    ) public onlyRole(RISK_OFFICER_ROLE) whenNotPaused returns (
+        euint32 encryptedCreditLimit,
+        euint32 encryptedRiskScore,
+        ebool encryptedApproved,
+        euint8 encryptedTier
+    ) {
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
         
-        // Calculate encrypted risk score using FHE operations
-        encryptedRiskScore = calculateEncryptedRiskScore(encryptedAge, encryptedIncome);
+        EncryptedAssessment memory result = _assessRiskEncrypted(
+            _verifyProfile(_profile, inputProof),
+            _clientId,
+            msg.sender
+        );
+        return (result.creditLimit, result.riskScore, result.approved, result.tier);
+    }
+    
+    /**
+     * @dev Verify every handle of an encrypted profile against the caller's input proof and clamp
+     * each input into its valid range, since out-of-range values cannot be detected and rejected
+     * @param _profile Handles of the client's encrypted scoring inputs
+     * @param inputProof Proof binding the handles to this contract and the caller
+     * @return values Verified and clamped encrypted inputs, indexed by Factor
+     */
+    function _verifyProfile(
+        EncryptedClientProfile calldata _profile,
+        bytes calldata inputProof
+    ) private returns (euint32[FACTOR_COUNT] memory values) {
+        values[uint256(Factor.Age)] = FHE.fromExternal(_profile.age, inputProof);
+        values[uint256(Factor.AnnualIncome)] = FHE.fromExternal(_profile.annualIncome, inputProof);
+        values[uint256(Factor.DebtToIncome)] = FHE.fromExternal(_profile.debtToIncome, inputProof);
+        values[uint256(Factor.EmploymentYears)] = FHE.fromExternal(_profile.employmentYears, inputProof);
+        values[uint256(Factor.ExistingObligations)] = FHE.fromExternal(_profile.existingObligations, inputProof);
+        values[uint256(Factor.DelinquencyCount)] = FHE.fromExternal(_profile.delinquencyCount, inputProof);
         
-        // Determine encrypted approval status based on risk threshold
-        encryptedApproved = FHE.gt(encryptedRiskScore, riskParameters.riskThreshold);
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            InputRange storage range = inputRanges[i];
+            // Bounds that cannot clip a uint32 are skipped to save HCU
+            if (range.min > 0) {
+                values[i] = FHE.max(values[i], range.min);
+            }
+            if (range.max < type(uint32).max) {
+                values[i] = FHE.min(values[i], range.max);
+            }
+        }
         
-        // Calculate encrypted credit limit if approved
-        encryptedCreditLimit = FHE.mul(
-            FHE.div(encryptedIncome, FHE.asEuint32(12)), // Monthly income
-            riskParameters.incomeMultiplier
-        );
+        return values;
+    }
+    
+    /**
+     * @dev Score, store and grant access to an encrypted assessment
+     * @param values Verified encrypted inputs, indexed by Factor
+     * @param _clientId Pseudonymous client identifier
+     * @param _officer Risk officer who submitted the assessment
+     * @return result The stored assessment
+     */
+    function _assessRiskEncrypted(
+        euint32[FACTOR_COUNT] memory values,
+        string memory _clientId,
+        address _officer
+    ) internal returns (EncryptedAssessment memory result) {
+        // Calculate encrypted risk score using FHE operations
+        result.riskScore = calculateEncryptedRiskScore(values);
         
-        // Only apply credit limit if approved
-        encryptedCreditLimit = FHE.cmux(
-            encryptedApproved,
-            encryptedCreditLimit,
-            FHE.asEuint32(0)
+        // Place the client in a tier and derive the credit limit from the tier's settings
+        (result.tier, result.approved, result.creditLimit) = determineEncryptedTier(
+            result.riskScore,
+            values[uint256(Factor.AnnualIncome)]
         );
+        result.clientId = _clientId;
+        result.timestamp = block.timestamp;
+        
+        // Keep the results usable by this contract and decryptable by the officer and the owner
+        FHE.allowThis(result.creditLimit);
+        FHE.allowThis(result.riskScore);
+        FHE.allowThis(result.approved);
+        FHE.allowThis(result.tier);
+        _allowAssessment(result, _officer);
+        if (_officer != owner) {
+            _allowAssessment(result, owner);
+        }
         
         // Store encrypted assessment results
-        encryptedAssessments[_clientId] = EncryptedAssessment({
-            creditLimit: encryptedCreditLimit,
-            riskScore: encryptedRiskScore,
-            approved: encryptedApproved,
-            clientId: _clientId,
-            timestamp: block.timestamp
-        });
+        encryptedAssessments[_clientId] = result;
         
         // Add to client IDs array if not already present
         if (!clientIdExists(_clientId)) {
+            knownClientIds[keccak256(bytes(_clientId))] = true;
             allClientIds.push(_clientId);
         }
         
-        // Emit event with encrypted data for off-chain processing
+        // Emit result handles for off-chain decryption
         emit AssessmentPerformed(
             _clientId,
-            FHE.sealoutput(encryptedCreditLimit),
-            FHE.sealoutput(encryptedRiskScore),
-            FHE.sealoutput(encryptedApproved),
+            result.creditLimit,
+            result.riskScore,
+            result.approved,
+            result.tier,
             block.timestamp
         );
         
-        return (encryptedCreditLimit, encryptedRiskScore, encryptedApproved);
+        return result;
     }
     
     /**
-     * @dev Internal function to calculate encrypted risk score using FHE operations
-     * @param encryptedAge Client's encrypted age
-     * @param encryptedIncome Client's encrypted annual income
+     * @dev Let an account decrypt every value of an assessment
+     * @param _result Assessment to share
+     * @param _account Account allowed to decrypt the results
+     */
+    function _allowAssessment(EncryptedAssessment memory _result, address _account) private {
+        FHE.allow(_result.creditLimit, _account);
+        FHE.allow(_result.riskScore, _account);
+        FHE.allow(_result.approved, _account);
+        FHE.allow(_result.tier, _account);
+    }
+    
+    /**
+     * @dev Homomorphic tier placement. Walking the tiers from D to A, every minimum score reached
+     * replaces the settings of the tier below, so the best tier reached wins. Minimum scores are
+     * encrypted and cannot be checked on-chain, so parameter admins must keep them ascending
+     * @param _riskScore Encrypted risk score
+     * @param _annualIncome Encrypted annual income in whole USDT
+     * @return tier Encrypted RiskTier
+     * @return approved Whether tier D's minimum score was reached
+     * @return creditLimit Monthly income times the tier's multiplier, capped at the tier's maximum
+     */
+    function determineEncryptedTier(
+        euint32 _riskScore,
+        euint32 _annualIncome
+    ) internal returns (euint8 tier, ebool approved, euint32 creditLimit) {
+        tier = FHE.asEuint8(uint8(RiskTier.Decline));
+        euint32 multiplier = FHE.asEuint32(0);
+        euint32 maxCreditLimit = FHE.asEuint32(0);
+        
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            EncryptedTierConfig storage config = riskParameters.tiers[i];
+            ebool reached = FHE.ge(_riskScore, config.minScore);
+            if (i == 0) {
+                approved = reached;
+            }
+            tier = FHE.select(reached, FHE.asEuint8(uint8(i + 1)), tier);
+            multiplier = FHE.select(reached, config.incomeMultiplier, multiplier);
+            maxCreditLimit = FHE.select(reached, config.maxCreditLimit, maxCreditLimit);
+        }
+        
+        // A declined client keeps a zero multiplier and cap, and so a zero credit limit
+        creditLimit = FHE.min(FHE.mul(FHE.div(_annualIncome, 12), multiplier), maxCreditLimit);
+        
+        return (tier, approved, creditLimit);
+    }
+    
+    /**
+     * @dev Internal function to calculate the weighted risk score over every configured factor
+     * @param values Client's encrypted inputs, indexed by Factor
      * @return encryptedRiskScore Calculated encrypted risk score
      */
     function calculateEncryptedRiskScore(
-        euint32 encryptedAge,
-        euint32 encryptedIncome
-    ) internal pure returns (euint32 encryptedRiskScore) {
-        // Risk calculation algorithm with FHE operations
-        
-        // Age factor: Older clients get higher scores (up to 40 points)
-        euint32 ageFactor = FHE.cmux(
-            FHE.gt(encryptedAge, FHE.asEuint32(40)),
-            FHE.asEuint32(40),
-            FHE.div(FHE.mul(encryptedAge, FHE.asEuint32(40)), FHE.asEuint32(40))
-        );
+        euint32[FACTOR_COUNT] memory values
+    ) internal returns (euint32 encryptedRiskScore) {
+        encryptedRiskScore = encryptedFactorPoints(riskParameters.factors[0], values[0]);
+        for (uint256 i = 1; i < FACTOR_COUNT; i++) {
+            encryptedRiskScore = FHE.add(encryptedRiskScore, encryptedFactorPoints(riskParameters.factors[i], values[i]));
+        }
         
-        // Income factor: Higher income clients get higher scores (up to 60 points)
-        // Convert USDT to dollars (divide by 10^6) then calculate factor
-        euint32 incomeInDollars = FHE.div(encryptedIncome, FHE.asEuint32(10**6));
-        euint32 incomeFactor = FHE.cmux(
-            FHE.gt(FHE.div(incomeInDollars, FHE.asEuint32(1000)), FHE.asEuint32(60)),
-            FHE.asEuint32(60),
-            FHE.div(incomeInDollars, FHE.asEuint32(1000))
-        );
+        return encryptedRiskScore;
+    }
+    
+    /**
+     * @dev Weighted points for one factor: the bucket share for every breakpoint reached,
+     * or for every breakpoint not reached when the factor is inverse.
+     * Selecting precomputed shares keeps a full assessment within the per-transaction HCU limit
+     * @param _factor Factor configuration
+     * @param _value Client's encrypted value for the factor
+     * @return points Encrypted weighted points
+     */
+    function encryptedFactorPoints(
+        EncryptedScoringFactor storage _factor,
+        euint32 _value
+    ) internal returns (euint32 points) {
+        uint256 buckets = _factor.breakpoints.length;
+        if (buckets == 0) {
+            return FHE.asEuint32(0);
+        }
+        
+        euint32 reachedPoints = _factor.inverse ? FHE.asEuint32(0) : _factor.bucketPoints;
+        euint32 missedPoints = _factor.inverse ? _factor.bucketPoints : FHE.asEuint32(0);
+        
+        points = FHE.select(FHE.ge(_value, _factor.breakpoints[0]), reachedPoints, missedPoints);
+        for (uint256 i = 1; i < buckets; i++) {
+            points = FHE.add(points, FHE.select(FHE.ge(_value, _factor.breakpoints[i]), reachedPoints, missedPoints));
+        }
         
-        // Combine factors using FHE addition
-        return FHE.add(ageFactor, incomeFactor);
+        return points;
     }
     
     /**
-     * @dev Batch assess multiple clients with encrypted data
-     * @param encryptedAges Array of encrypted client ages
-     * @param encryptedIncomes Array of encrypted client annual incomes
+     * @dev Batch assess up to MAX_BATCH_SIZE clients with encrypted data under a new batch ID, emitting
+     * BatchItemAssessed or BatchItemFailed for every row. The outcome is kept for getBatchOutcome
+     * @param _profiles Array of encrypted client profiles
+     * @param inputProof Single proof covering every handle in the batch
      * @param _clientIds Array of pseudonymous client identifiers
      * @return successCount Number of successfully processed assessments
      */
     function batchAssessRiskEncrypted(
-        euint32[] calldata encryptedAges,
-        euint32[] calldata encryptedIncomes,
+        EncryptedClientProfile[] calldata _profiles,
+        bytes calldata inputProof,
         string[] memory _clientIds
-    ) external returns (uint256 successCount) {
-        require(
-            encryptedAges.length == encryptedIncomes.length && 
-            encryptedIncomes.length == _clientIds.length,
-            "Input arrays must have the same length"
-        );
+    ) external onlyRole(RISK_OFFICER_ROLE) whenNotPaused returns (uint256 successCount) {
+        if (_profiles.length != _clientIds.length) revert InputLengthMismatch();
+        if (_profiles.length > MAX_BATCH_SIZE) revert BatchTooLarge(_profiles.length, MAX_BATCH_SIZE);
+        
+        uint256 batchId = ++batchCount;
+        BatchOutcome storage outcome = batchOutcomes[batchId];
+        outcome.submittedBy = msg.sender;
+        outcome.timestamp = block.timestamp;
         
         successCount = 0;
-        for (uint256 i = 0; i < encryptedAges.length; i++) {
-            try this.assessRiskEncrypted(encryptedAges[i], encryptedIncomes[i], _clientIds[i]) {
+        for (uint256 i = 0; i < _profiles.length; i++) {
+            if (bytes(_clientIds[i]).length == 0) {
+                _recordBatchFailure(outcome, batchId, i, _clientIds[i], "Client ID cannot be empty");
+                continue;
+            }
+            // Input proofs are bound to the caller, so handles are verified here; a bad proof fails the batch
+            euint32[FACTOR_COUNT] memory values = _verifyProfile(_profiles[i], inputProof);
+            
+            // Failed rows are skipped and reported with the reason they were rejected
+            try this.assessBatchItemEncrypted(values, _clientIds[i], msg.sender) {
                 successCount++;
+                emit BatchItemAssessed(batchId, i, _clientIds[i]);
             } catch {
-                // Skip failed assessments and continue with next
-                continue;
+                // Panics and running out of gas or HCU
+                _recordBatchFailure(outcome, batchId, i, _clientIds[i], "Assessment reverted");
             }
         }
+        outcome.successCount = successCount;
         
-        emit BatchAssessmentPerformed(successCount, block.timestamp);
+        emit BatchAssessmentPerformed(batchId, successCount, block.timestamp);
         return successCount;
     }
     
+    /**
+     * @dev Assess one verified batch row. Only callable by this contract, so that batchAssessRiskEncrypted
+     * can skip a reverting row instead of reverting the whole batch
+     * @param values Verified encrypted inputs, indexed by Factor
+     * @param _clientId Pseudonymous client identifier
+     * @param _officer Risk officer who submitted the batch
+     */
+    function assessBatchItemEncrypted(
+        euint32[FACTOR_COUNT] memory values,
+        string memory _clientId,
+        address _officer
+    ) external {
+        require(msg.sender == address(this), "Only callable from batchAssessRiskEncrypted");
+        _assessRiskEncrypted(values, _clientId, _officer);
+    }
+    
+    /**
+     * @dev Store a skipped batch row in the batch's outcome and report it
+     * @param _outcome Outcome of the batch being processed
+     * @param _batchId ID of that batch
+     * @param _index Row's position in the submitted arrays
+     * @param _clientId Row's client identifier
+     * @param _reason Reason the row was skipped
+     */
+    function _recordBatchFailure(
+        BatchOutcome storage _outcome,
+        uint256 _batchId,
+        uint256 _index,
+        string memory _clientId,
+        string memory _reason
+    ) private {
+        _outcome.failedIndexes.push(_index);
+        _outcome.failureReasons.push(_reason);
+        emit BatchItemFailed(_batchId, _index, _clientId, _reason);
+    }
+    
+    /**
+     * @dev Get the outcome of a batch submission, for reconciling without replaying its transaction
+     * @param _batchId Batch ID from BatchAssessmentPerformed
+     * @return Submitter, time, success count, and every skipped row with its reason.
+     * Unknown batch IDs return an empty outcome with a zero submitter
+     */
+    function getBatchOutcome(uint256 _batchId) external view returns (BatchOutcome memory) {
+        return batchOutcomes[_batchId];
+    }
+    
     /**
      * @dev Retrieve encrypted assessment results for a single client
      * @param _clientId Pseudonymous client identifier
@@ -212,35 +490,153 @@ contract FHERC {
         ebool encryptedApproved,
         uint256 timestamp
     ) {
-        require(bytes(_clientId).length > 0, "Client ID cannot be empty");
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
         EncryptedAssessment memory result = encryptedAssessments[_clientId];
         require(bytes(result.clientId).length > 0, "No assessment found for this client ID");
         
         return (result.creditLimit, result.riskScore, result.approved, result.timestamp);
     }
     
+    /**
+     * @dev Grant the calling auditor decryption rights on a client's current assessment (auditors only)
+     * @param _clientId Pseudonymous client identifier
+     */
+    function grantAuditAccess(string memory _clientId) public onlyRole(AUDITOR_ROLE) {
+        _grantAuditAccess(_clientId);
+    }
+    
+    /**
+     * @dev Grant the calling auditor decryption rights on several clients' current assessments
+     * in one transaction (auditors only)
+     * @param _clientIds Pseudonymous client identifiers
+     */
+    function batchGrantAuditAccess(string[] memory _clientIds) public onlyRole(AUDITOR_ROLE) {
+        for (uint256 i = 0; i < _clientIds.length; i++) {
+            _grantAuditAccess(_clientIds[i]);
+        }
+    }
+    
+    /**
+     * @dev Add the calling auditor to the ACL of a client's current assessment
+     * @param _clientId Pseudonymous client identifier
+     */
+    function _grantAuditAccess(string memory _clientId) private {
+        if (bytes(_clientId).length == 0) revert EmptyClientId();
+        EncryptedAssessment storage result = encryptedAssessments[_clientId];
+        require(bytes(result.clientId).length > 0, "No assessment found for this client ID");
+        
+        _allowAssessment(result, msg.sender);
+        
+        emit AuditAccessGranted(_clientId, msg.sender, block.timestamp);
+    }
+    
+    /**
+     * @dev Check which clients' current assessments an account can decrypt, so that auditors only
+     * request the access they are missing
+     * @param _clientIds Pseudonymous client identifiers
+     * @param _account Account to check
+     * @return allowed Whether the account may decrypt every value of each client's assessment, in _clientIds order.
+     * Unknown client IDs return false
+     */
+    function getAuditAccess(
+        string[] memory _clientIds,
+        address _account
+    ) public view returns (bool[] memory allowed) {
+        allowed = new bool[](_clientIds.length);
+        for (uint256 i = 0; i < _clientIds.length; i++) {
+            EncryptedAssessment storage result = encryptedAssessments[_clientIds[i]];
+            allowed[i] =
+                FHE.isAllowed(result.creditLimit, _account) &&
+                FHE.isAllowed(result.riskScore, _account) &&
+                FHE.isAllowed(result.approved, _account) &&
+                FHE.isAllowed(result.tier, _account);
+        }
+        
+        return allowed;
+    }
+    
     /**
      * @dev Check if a client ID already exists in the system
      * @param _clientId Client ID to check
      * @return exists Whether the client ID exists
      */
     function clientIdExists(string memory _clientId) private view returns (bool exists) {
-        for (uint256 i = 0; i < allClientIds.length; i++) {
-            if (keccak256(abi.encodePacked(allClientIds[i])) == keccak256(abi.encodePacked(_clientId))) {
-                return true;
-            }
-        }
-        return false;
+        return knownClientIds[keccak256(bytes(_clientId))];
     }
     
     /**
-     * @dev Get all client IDs that have been assessed
+     * @dev Timestamp of a client's latest assessment, for RiskAssessmentExpiry
+     * @param _clientId Pseudonymous client identifier
+     * @return Assessment timestamp, or 0 if the client has not been assessed
+     */
+    function _latestAssessmentTimestamp(string memory _clientId) internal view override returns (uint256) {
+        return encryptedAssessments[_clientId].timestamp;
+    }
+    
+    /**
+     * @dev Number of assessed clients, for RiskAssessmentExpiry
+     * @return Number of assessed clients
+     */
+    function _clientCount() internal view override returns (uint256) {
+        return allClientIds.length;
+    }
+    
+    /**
+     * @dev Client ID at a position of the first-assessment order, for RiskAssessmentExpiry
+     * @param _index Position of the client
+     * @return Client ID
+     */
+    function _clientIdAt(uint256 _index) internal view override returns (string memory) {
+        return allClientIds[_index];
+    }
+    
+    /**
+     * @dev Get all client IDs that have been assessed. Unbounded: prefer getClientIds for large data sets
      * @return Array of all client IDs
      */
     function getAllClientIds() public view returns (string[] memory) {
         return allClientIds;
     }
     
+    /**
+     * @dev Get a page of assessed client IDs in first-assessment order
+     * @param _offset Index of the first client ID to return
+     * @param _limit Maximum number of client IDs to return
+     * @return clientIds Client IDs in the requested range
+     */
+    function getClientIds(uint256 _offset, uint256 _limit) public view returns (string[] memory clientIds) {
+        if (_offset >= allClientIds.length) {
+            return new string[](0);
+        }
+        
+        uint256 end = _offset + _limit > allClientIds.length ? allClientIds.length : _offset + _limit;
+        clientIds = new string[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            clientIds[i - _offset] = allClientIds[i];
+        }
+        
+        return clientIds;
+    }
+    
+    /**
+     * @dev Get the encrypted assessment of each client in a page of client IDs
+     * @param _offset Index of the first client to return
+     * @param _limit Maximum number of clients to return
+     * @return results Client IDs with their result handles, in first-assessment order
+     */
+    function getEncryptedAssessmentsPage(
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (EncryptedAssessment[] memory results) {
+        string[] memory clientIds = getClientIds(_offset, _limit);
+        results = new EncryptedAssessment[](clientIds.length);
+        for (uint256 i = 0; i < clientIds.length; i++) {
+            results[i] = encryptedAssessments[clientIds[i]];
+        }
+        
+        return results;
+    }
+    
     /**
      * @dev Get the total number of assessments performed
      * @return count Number of assessments
@@ -250,36 +646,242 @@ contract FHERC {
     }
     
     /**
-     * @dev Update encrypted risk assessment parameters (owner only)
-     * @param encryptedMultiplier Encrypted multiplier for credit limit calculation
-     * @param encryptedThreshold Encrypted risk score threshold for approval
+     * @dev Replace the tier configuration with encrypted values (parameter admins only).
+     * Minimum scores cannot be checked while encrypted, so the caller must submit them in ascending order
+     * @param _tiers Encrypted tier settings from tier D to tier A
+     * @param inputProof Proof binding the handles to this contract and the caller
      */
-    function updateRiskParametersEncrypted(
-        euint32 calldata encryptedMultiplier,
-        euint32 calldata encryptedThreshold
-    ) public onlyOwner {
-        riskParameters = RiskParameters({
-            incomeMultiplier: FHE.asEuint32(encryptedMultiplier),
-            riskThreshold: FHE.asEuint32(encryptedThreshold)
+    function updateRiskTiersEncrypted(
+        EncryptedTierInput[TIER_COUNT] calldata _tiers,
+        bytes calldata inputProof
+    ) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            require(_tiers[i].minInterestRate <= _tiers[i].maxInterestRate, "Interest rate band is inverted");
+            _setRiskTier(
+                i,
+                FHE.fromExternal(_tiers[i].minScore, inputProof),
+                FHE.fromExternal(_tiers[i].incomeMultiplier, inputProof),
+                FHE.fromExternal(_tiers[i].maxCreditLimit, inputProof),
+                _tiers[i].minInterestRate,
+                _tiers[i].maxInterestRate
+            );
+        }
+        _allowRiskParameters(owner);
+        if (msg.sender != owner) {
+            _allowRiskParameters(msg.sender);
+        }
+        
+        emit ParametersUpdated(block.timestamp);
+    }
+    
+    /**
+     * @dev Get the encrypted configuration of one approving tier
+     * @param _tier Tier to look up
+     * @return EncryptedTierConfig struct with score floor, multiplier and credit cap handles
+     */
+    function getEncryptedRiskTier(RiskTier _tier) public view returns (EncryptedTierConfig memory) {
+        require(_tier != RiskTier.Decline, "Decline has no tier configuration");
+        
+        return riskParameters.tiers[uint256(_tier) - 1];
+    }
+    
+    /**
+     * @dev Store the settings of one tier
+     * @param _index Tier index, from tier D (0) to tier A (3)
+     * @param _minScore Encrypted minimum score
+     * @param _incomeMultiplier Encrypted income multiplier
+     * @param _maxCreditLimit Encrypted credit cap in whole USDT
+     * @param _minInterestRate Lower end of the suggested interest rate band, in basis points
+     * @param _maxInterestRate Upper end of the suggested interest rate band, in basis points
+     */
+    function _setRiskTier(
+        uint256 _index,
+        euint32 _minScore,
+        euint32 _incomeMultiplier,
+        euint32 _maxCreditLimit,
+        uint256 _minInterestRate,
+        uint256 _maxInterestRate
+    ) private {
+        riskParameters.tiers[_index] = EncryptedTierConfig({
+            minScore: _minScore,
+            incomeMultiplier: _incomeMultiplier,
+            maxCreditLimit: _maxCreditLimit,
+            minInterestRate: _minInterestRate,
+            maxInterestRate: _maxInterestRate
         });
+    }
+    
+    /**
+     * @dev Configure one scoring factor with encrypted values (parameter admins only).
+     * Breakpoints cannot be checked while encrypted, so the caller must submit them in ascending order
+     * @param _factor Factor to configure
+     * @param encryptedWeight Handle of the encrypted weight percentage (0 disables the factor)
+     * @param encryptedCap Handle of the encrypted cap
+     * @param _inverse Whether higher values mean higher risk
+     * @param encryptedBreakpoints Handles of the encrypted bucket boundaries
+     * @param inputProof Proof binding the handles to this contract and the caller
+     */
+    function updateScoringFactorEncrypted(
+        Factor _factor,
+        externalEuint32 encryptedWeight,
+        externalEuint32 encryptedCap,
+        bool _inverse,
+        externalEuint32[] calldata encryptedBreakpoints,
+        bytes calldata inputProof
+    ) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        euint32[] memory breakpoints = new euint32[](encryptedBreakpoints.length);
+        for (uint256 i = 0; i < encryptedBreakpoints.length; i++) {
+            breakpoints[i] = FHE.fromExternal(encryptedBreakpoints[i], inputProof);
+        }
+        
+        euint32 weight = FHE.fromExternal(encryptedWeight, inputProof);
+        euint32 cap = FHE.fromExternal(encryptedCap, inputProof);
+        euint32 bucketPoints = breakpoints.length == 0
+            ? FHE.asEuint32(0)
+            : FHE.div(FHE.mul(cap, weight), uint32(100 * breakpoints.length));
+        
+        _setScoringFactor(_factor, weight, cap, bucketPoints, _inverse, breakpoints);
+        _allowRiskParameters(owner);
+        if (msg.sender != owner) {
+            _allowRiskParameters(msg.sender);
+        }
         
         emit ParametersUpdated(block.timestamp);
     }
     
     /**
-     * @dev Transfer contract ownership
-     * @param _newOwner Address of the new owner
+     * @dev Get the encrypted configuration of one scoring factor
+     * @param _factor Factor to look up
+     * @return EncryptedScoringFactor struct with weight, cap and breakpoint handles
+     */
+    function getEncryptedScoringFactor(Factor _factor) public view returns (EncryptedScoringFactor memory) {
+        return riskParameters.factors[uint256(_factor)];
+    }
+    
+    /**
+     * @dev Set the valid range of one profile field (parameter admins only)
+     * @param _factor Factor whose profile field to bound
+     * @param _min Lowest valid value
+     * @param _max Highest valid value (whole USDT for annual income)
+     */
+    function updateInputRange(Factor _factor, uint32 _min, uint32 _max) public onlyRole(PARAMETER_ADMIN_ROLE) {
+        _setInputRange(_factor, _min, _max);
+        
+        emit ParametersUpdated(block.timestamp);
+    }
+    
+    /**
+     * @dev Validate and store the valid range of a profile field
+     * @param _factor Factor whose profile field to bound
+     * @param _min Lowest valid value
+     * @param _max Highest valid value
      */
-    function transferOwnership(address _newOwner) public onlyOwner {
-        require(_newOwner != address(0), "New owner cannot be zero address");
-        owner = _newOwner;
+    function _setInputRange(Factor _factor, uint32 _min, uint32 _max) private {
+        if (_min > _max) revert InvalidInputRange(_factor, _min, _max);
+        inputRanges[uint256(_factor)] = InputRange(_min, _max);
     }
     
     /**
-     * @dev Get contract owner address
-     * @return Address of the contract owner
+     * @dev Get the valid range of every profile field
+     * @return Ranges indexed by Factor
+     */
+    function getInputRanges() public view returns (InputRange[FACTOR_COUNT] memory) {
+        return inputRanges;
+    }
+    
+    /**
+     * @dev Store a scoring factor
+     * @param _factor Factor to configure
+     * @param _weight Encrypted weight percentage
+     * @param _cap Encrypted cap
+     * @param _bucketPoints Encrypted points per bucket
+     * @param _inverse Whether higher values mean higher risk
+     * @param _breakpoints Encrypted bucket boundaries
+     */
+    function _setScoringFactor(
+        Factor _factor,
+        euint32 _weight,
+        euint32 _cap,
+        euint32 _bucketPoints,
+        bool _inverse,
+        euint32[] memory _breakpoints
+    ) private {
+        EncryptedScoringFactor storage factor = riskParameters.factors[uint256(_factor)];
+        factor.weight = _weight;
+        factor.cap = _cap;
+        factor.bucketPoints = _bucketPoints;
+        factor.inverse = _inverse;
+        factor.breakpoints = _breakpoints;
+    }
+    
+    /**
+     * @dev Store a scoring factor from cleartext defaults
+     * @param _factor Factor to configure
+     * @param _weight Weight percentage
+     * @param _cap Cap
+     * @param _inverse Whether higher values mean higher risk
+     * @param _breakpoints Ascending bucket boundaries
+     */
+    function _setDefaultScoringFactor(
+        Factor _factor,
+        uint32 _weight,
+        uint32 _cap,
+        bool _inverse,
+        uint32[] memory _breakpoints
+    ) private {
+        euint32[] memory breakpoints = new euint32[](_breakpoints.length);
+        for (uint256 i = 0; i < _breakpoints.length; i++) {
+            breakpoints[i] = FHE.asEuint32(_breakpoints[i]);
+        }
+        
+        uint32 bucketPoints = uint32(_bucketPoints(_cap, _weight, _breakpoints.length));
+        _setScoringFactor(
+            _factor,
+            FHE.asEuint32(_weight),
+            FHE.asEuint32(_cap),
+            FHE.asEuint32(bucketPoints),
+            _inverse,
+            breakpoints
+        );
+    }
+    
+    /**
+     * @dev Grant the contract and an account access to the current risk parameters
+     * @param _account Account allowed to decrypt the parameters
+     */
+    function _allowRiskParameters(address _account) private {
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            EncryptedTierConfig storage tier = riskParameters.tiers[i];
+            FHE.allowThis(tier.minScore);
+            FHE.allowThis(tier.incomeMultiplier);
+            FHE.allowThis(tier.maxCreditLimit);
+            FHE.allow(tier.minScore, _account);
+            FHE.allow(tier.incomeMultiplier, _account);
+            FHE.allow(tier.maxCreditLimit, _account);
+        }
+        
+        for (uint256 i = 0; i < FACTOR_COUNT; i++) {
+            EncryptedScoringFactor storage factor = riskParameters.factors[i];
+            FHE.allowThis(factor.weight);
+            FHE.allowThis(factor.cap);
+            FHE.allowThis(factor.bucketPoints);
+            FHE.allow(factor.weight, _account);
+            FHE.allow(factor.cap, _account);
+            FHE.allow(factor.bucketPoints, _account);
+            for (uint256 j = 0; j < factor.breakpoints.length; j++) {
+                FHE.allowThis(factor.breakpoints[j]);
+                FHE.allow(factor.breakpoints[j], _account);
+            }
+        }
+    }
+    
+    /**
+     * @dev Transfer contract ownership. The new owner is granted access to the current
+     * risk parameters and to assessments performed from now on.
+     * @param _newOwner Address of the new owner
      */
-    function getOwner() public view returns (address) {
-        return owner;
+    function transferOwnership(address _newOwner) public override onlyOwner {
+        super.transferOwnership(_newOwner);
+        _allowRiskParameters(_newOwner);
     }
 }
\ No newline at end of file
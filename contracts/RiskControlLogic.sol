@@ -0,0 +1,291 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { RiskControl } from "./RiskControl.sol";
+import { RiskScoringSpec } from "./RiskScoringSpec.sol";
+
+/**
+ * @title RiskControlLogic
+ * @dev Override, appeal, batch and scoring factor bookkeeping of RiskControl, deployed once and linked so that
+ * RiskControl stays under the 24 KiB contract size limit. Its functions run through DELEGATECALL on
+ * the storage RiskControl passes in, and emit RiskControl's events from the proxy's address.
+ */
+library RiskControlLogic {
+    
+    /**
+     * @dev Replace the automated decision of a client's latest assessment, keeping the automated
+     * values in the override record the first time the record is overridden
+     * @param _history Client's assessment records, oldest first
+     * @param _overrides Client's override records by assessment record index
+     * @param _clientId Pseudonymous client identifier
+     * @param _tier Tier to apply; RiskTier.Decline declines the client, any other tier approves
+     * @param _creditLimit Credit limit to apply in USDT, 0 when declining
+     * @param _reason Reason code for the override
+     */
+    function overrideDecision(
+        RiskControl.AssessmentResult[] storage _history,
+        mapping(uint256 => RiskControl.DecisionOverride) storage _overrides,
+        string memory _clientId,
+        RiskScoringSpec.RiskTier _tier,
+        uint256 _creditLimit,
+        RiskControl.OverrideReason _reason
+    ) external {
+        bool approved = _tier != RiskScoringSpec.RiskTier.Decline;
+        require(approved || _creditLimit == 0, "Declined decisions cannot carry a credit limit");
+        require(_history.length > 0, "No assessment found for this client ID");
+        
+        uint256 index = _history.length - 1;
+        RiskControl.AssessmentResult storage result = _history[index];
+        RiskControl.DecisionOverride storage record = _overrides[index];
+        
+        // Keep the automated values when a decision is overridden more than once
+        if (!result.overridden) {
+            record.originalApproved = result.approved;
+            record.originalCreditLimit = result.creditLimit;
+            record.originalTier = result.tier;
+        }
+        record.approved = approved;
+        record.tier = _tier;
+        record.creditLimit = _creditLimit;
+        record.reason = _reason;
+        record.overriddenBy = msg.sender;
+        record.timestamp = block.timestamp;
+        
+        result.approved = approved;
+        result.tier = _tier;
+        result.creditLimit = _creditLimit;
+        result.overridden = true;
+        
+        _emitDecisionOverridden(_clientId, index, record);
+    }
+    
+    /**
+     * @dev Emit DecisionOverridden for a stored override record
+     * @param _clientId Pseudonymous client identifier
+     * @param _index Record number of the overridden assessment
+     * @param _record Override record as just written
+     */
+    function _emitDecisionOverridden(
+        string memory _clientId,
+        uint256 _index,
+        RiskControl.DecisionOverride storage _record
+    ) private {
+        emit RiskControl.DecisionOverridden(
+            _clientId,
+            _index,
+            _record.approved,
+            _record.tier,
+            _record.creditLimit,
+            _record.originalApproved,
+            _record.originalTier,
+            _record.originalCreditLimit,
+            _record.reason,
+            _record.overriddenBy,
+            _record.timestamp
+        );
+    }
+    
+    /**
+     * @dev Mark a client's decision as awaiting appeal review
+     * @param _status Appeal state by client ID
+     * @param _pending Client IDs awaiting appeal review
+     * @param _positions Each pending client ID's position in _pending plus one
+     * @param _clientId Pseudonymous client identifier
+     */
+    function flagForAppeal(
+        mapping(string => RiskControl.AppealStatus) storage _status,
+        string[] storage _pending,
+        mapping(string => uint256) storage _positions,
+        string memory _clientId
+    ) external {
+        require(_status[_clientId] != RiskControl.AppealStatus.Pending, "Appeal already pending for this client ID");
+        
+        _status[_clientId] = RiskControl.AppealStatus.Pending;
+        _pending.push(_clientId);
+        _positions[_clientId] = _pending.length;
+        
+        emit RiskControl.AppealFlagged(_clientId, msg.sender, block.timestamp);
+    }
+    
+    /**
+     * @dev Remove a client from the pending appeals and mark its appeal resolved
+     * @param _status Appeal state by client ID
+     * @param _pending Client IDs awaiting appeal review
+     * @param _positions Each pending client ID's position in _pending plus one
+     * @param _clientId Pseudonymous client identifier with a pending appeal
+     * @param _overridden Whether the appeal was resolved by an override
+     */
+    function resolveAppeal(
+        mapping(string => RiskControl.AppealStatus) storage _status,
+        string[] storage _pending,
+        mapping(string => uint256) storage _positions,
+        string memory _clientId,
+        bool _overridden
+    ) external {
+        // Swap the last pending appeal into the resolved one's slot
+        uint256 position = _positions[_clientId];
+        string memory last = _pending[_pending.length - 1];
+        _pending[position - 1] = last;
+        _positions[last] = position;
+        _pending.pop();
+        delete _positions[_clientId];
+        
+        _status[_clientId] = RiskControl.AppealStatus.Resolved;
+        
+        emit RiskControl.AppealResolved(_clientId, msg.sender, _overridden, block.timestamp);
+    }
+    
+    /**
+     * @dev Validate and store a scoring factor
+     * @param _factor Stored factor to configure
+     * @param _weight Percentage applied to the factor's points
+     * @param _cap Points awarded once every breakpoint is reached
+     * @param _inverse Whether higher values mean higher risk
+     * @param _breakpoints Strictly ascending bucket boundaries
+     */
+    function setScoringFactor(
+        RiskControl.ScoringFactor storage _factor,
+        uint256 _weight,
+        uint256 _cap,
+        bool _inverse,
+        uint256[] memory _breakpoints
+    ) external {
+        require(_breakpoints.length > 0 || _cap == 0, "Breakpoints required for a non-zero cap");
+        for (uint256 i = 1; i < _breakpoints.length; i++) {
+            require(_breakpoints[i] > _breakpoints[i - 1], "Breakpoints must be strictly ascending");
+        }
+        
+        _factor.weight = _weight;
+        _factor.cap = _cap;
+        _factor.inverse = _inverse;
+        _factor.breakpoints = _breakpoints;
+    }
+    
+    /**
+     * @dev Assess the rows of a batch through RiskControl.assessBatchItem, emitting BatchItemAssessed or
+     * BatchItemFailed for every row, and keep the batch's outcome
+     * @param _outcome Outcome of the batch, still empty
+     * @param _batchId ID of that batch
+     * @param _profiles Array of client scoring inputs
+     * @param _clientIds Array of pseudonymous client identifiers, as long as _profiles
+     * @return successCount Number of successfully processed assessments
+     */
+    function assessBatch(
+        RiskControl.BatchOutcome storage _outcome,
+        uint256 _batchId,
+        RiskControl.ClientProfile[] memory _profiles,
+        string[] memory _clientIds
+    ) external returns (uint256 successCount) {
+        _outcome.submittedBy = msg.sender;
+        _outcome.timestamp = block.timestamp;
+        
+        for (uint256 i = 0; i < _profiles.length; i++) {
+            // Failed rows are skipped and reported with the reason they were rejected
+            try RiskControl(address(this)).assessBatchItem(_profiles[i], _clientIds[i]) {
+                successCount++;
+                emit RiskControl.BatchItemAssessed(_batchId, i, _clientIds[i]);
+            } catch (bytes memory revertData) {
+                _recordBatchFailure(_outcome, _batchId, i, _clientIds[i], revertData);
+            }
+        }
+        _outcome.successCount = successCount;
+        
+        emit RiskControl.BatchAssessmentPerformed(_batchId, successCount, block.timestamp);
+    }
+    
+    /**
+     * @dev Store a skipped batch row in the batch's outcome and report it
+     * @param _outcome Outcome of the batch being processed
+     * @param _batchId ID of that batch
+     * @param _index Row's position in the submitted arrays
+     * @param _clientId Row's client identifier
+     * @param _error Revert data of the row's assessment
+     */
+    function _recordBatchFailure(
+        RiskControl.BatchOutcome storage _outcome,
+        uint256 _batchId,
+        uint256 _index,
+        string memory _clientId,
+        bytes memory _error
+    ) private {
+        string memory reason = _failureReason(_error);
+        _outcome.failedIndexes.push(_index);
+        _outcome.failureReasons.push(reason);
+        emit RiskControl.BatchItemFailed(_batchId, _index, _clientId, reason);
+    }
+    
+    /**
+     * @dev Describe why a batch row was rejected. Out-of-range rows name the profile field and its valid
+     * range the way the frontend's describeAssessmentError does, e.g. "Age 16 is outside the valid range 18–120"
+     * @param _error Revert data of the row's assessment
+     * @return Reason recorded for the row
+     */
+    function _failureReason(bytes memory _error) private pure returns (string memory) {
+        bytes4 selector = bytes4(_error);
+        if (selector == RiskScoringSpec.EmptyClientId.selector) return "Client ID cannot be empty";
+        if (selector == RiskScoringSpec.InputOutOfRange.selector && _error.length == 4 + 4 * 32) {
+            // abi.decode needs the arguments without the selector
+            bytes memory args = new bytes(_error.length - 4);
+            for (uint256 i = 0; i < args.length; i++) {
+                args[i] = _error[i + 4];
+            }
+            (RiskScoringSpec.Factor factor, uint256 value, uint256 min, uint256 max) = abi.decode(
+                args,
+                (RiskScoringSpec.Factor, uint256, uint256, uint256)
+            );
+            return string.concat(
+                _fieldLabel(factor),
+                " ",
+                _formatBound(factor, value),
+                " is outside the valid range ",
+                _formatBound(factor, min),
+                unicode"–",
+                _formatBound(factor, max)
+            );
+        }
+        // Panics and out-of-gas
+        return "Assessment reverted";
+    }
+    
+    /**
+     * @dev Label of a profile field, as shown by the frontend
+     * @param _factor Factor of the profile field
+     * @return Field label
+     */
+    function _fieldLabel(RiskScoringSpec.Factor _factor) private pure returns (string memory) {
+        if (_factor == RiskScoringSpec.Factor.Age) return "Age";
+        if (_factor == RiskScoringSpec.Factor.AnnualIncome) return "Income";
+        if (_factor == RiskScoringSpec.Factor.DebtToIncome) return "Debt-to-income";
+        if (_factor == RiskScoringSpec.Factor.EmploymentYears) return "Employment years";
+        if (_factor == RiskScoringSpec.Factor.ExistingObligations) return "Obligations";
+        return "Delinquencies";
+    }
+    
+    /**
+     * @dev Format a profile field value, with annual income in USDT rather than 6-decimal units
+     * @param _factor Factor of the profile field
+     * @param _value Value as submitted
+     * @return Decimal representation, e.g. "20000" or "20000.5" for an income of 20000500000
+     */
+    function _formatBound(RiskScoringSpec.Factor _factor, uint256 _value) private pure returns (string memory) {
+        if (_factor != RiskScoringSpec.Factor.AnnualIncome) return Strings.toString(_value);
+        
+        uint256 unit = 10**6; // RiskScoringSpec.USDT_UNIT is internal to its contracts
+        string memory whole = Strings.toString(_value / unit);
+        uint256 fraction = _value % unit;
+        if (fraction == 0) return whole;
+        
+        // Six fraction digits without trailing zeros
+        uint256 digits = 6;
+        while (fraction % 10 == 0) {
+            fraction /= 10;
+            digits--;
+        }
+        string memory decimals = Strings.toString(fraction);
+        while (bytes(decimals).length < digits) {
+            decimals = string.concat("0", decimals);
+        }
+        return string.concat(whole, ".", decimals);
+    }
+}
\ No newline at end of file
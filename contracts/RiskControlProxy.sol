@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC1967Proxy } from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+/**
+ * @title RiskControlProxy
+ * @dev ERC-1967 proxy that holds RiskControl's state. Deployed once with the encoded call to
+ * RiskControl.initialize; later versions are installed with RiskControl.upgradeToAndCall.
+ */
+contract RiskControlProxy is ERC1967Proxy {
+    
+    /**
+     * @dev Point the proxy at its first implementation and initialize it
+     * @param _implementation Address of the RiskControl implementation
+     * @param _data Encoded initialize call
+     */
+    constructor(address _implementation, bytes memory _data) ERC1967Proxy(_implementation, _data) {}
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { RiskAccessControl } from "./RiskAccessControl.sol";
+
+/**
+ * @title RiskPausable
+ * @dev Emergency stop shared by the risk assessment contracts. While paused, entry points marked
+ * whenNotPaused revert; views, parameter updates and role management stay available so that a
+ * scoring bug can be fixed before unpausing.
+ */
+abstract contract RiskPausable is RiskAccessControl {
+    
+    // Whether state-changing entry points are halted
+    bool public paused;
+    
+    // Reserved slots for pause-related state in later versions
+    uint256[49] private __gap;
+    
+    // Events for pause state changes
+    event Paused(address indexed account);
+    
+    event Unpaused(address indexed account);
+    
+    // Modifier to block an entry point while the contract is paused
+    modifier whenNotPaused() {
+        require(!paused, "Contract is paused");
+        _;
+    }
+    
+    /**
+     * @dev Halt state-changing entry points (pausers only)
+     */
+    function pause() public onlyRole(PAUSER_ROLE) {
+        require(!paused, "Contract is already paused");
+        paused = true;
+        
+        emit Paused(msg.sender);
+    }
+    
+    /**
+     * @dev Resume normal operation (pausers only)
+     */
+    function unpause() public onlyRole(PAUSER_ROLE) {
+        require(paused, "Contract is not paused");
+        paused = false;
+        
+        emit Unpaused(msg.sender);
+    }
+}
\ No newline at end of file
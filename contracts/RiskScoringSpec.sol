@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title RiskScoringSpec
+ * @dev Scoring specification implemented by both RiskControl and RiskControlFHE, so that an identical
+ * client profile receives the same score, tier and credit limit from either contract:
+ *
+ * 0. Every profile field has a configurable valid range. RiskControl rejects a profile with a field
+ *    outside its range; RiskControlFHE cannot inspect encrypted fields and clamps them into the range.
+ * 1. Each factor earns floor(cap * weight / (100 * breakpoints)) points for every breakpoint the client's
+ *    value reaches (value >= breakpoint), or for every breakpoint not reached when the factor is inverse.
+ *    The risk score is the sum over all factors.
+ * 2. The client is placed in the best tier whose minimum score the risk score reaches
+ *    (score >= minScore). Below tier D's minimum the application is declined.
+ * 3. The credit limit is the monthly income in whole USDT (annual income / 12, rounded down) times the
+ *    tier's income multiplier, capped at the tier's maximum credit limit. Declined clients get no credit.
+ *
+ * Defaults are expressed in whole USDT, as used by RiskControlFHE; RiskControl scales income
+ * amounts by USDT_UNIT.
+ */
+abstract contract RiskScoringSpec {
+    
+    // Scoring factors, in the order of the client profile fields
+    enum Factor {
+        Age,
+        AnnualIncome,
+        DebtToIncome,
+        EmploymentYears,
+        ExistingObligations,
+        DelinquencyCount
+    }
+    
+    uint256 public constant FACTOR_COUNT = 6;
+    
+    // Risk tiers from worst to best. Decline is assigned below tier D's minimum score
+    enum RiskTier {
+        Decline,
+        D,
+        C,
+        B,
+        A
+    }
+    
+    // Number of approving tiers (D to A)
+    uint256 public constant TIER_COUNT = 4;
+    
+    // One USDT in 6-decimal token units
+    uint256 internal constant USDT_UNIT = 10**6;
+    
+    // Assessment inputs rejected by either contract
+    error EmptyClientId();
+    error InputLengthMismatch();
+    error InputOutOfRange(Factor factor, uint256 value, uint256 min, uint256 max);
+    error InvalidInputRange(Factor factor, uint256 min, uint256 max);
+    
+    /**
+     * @dev Default valid range of a profile field
+     * @param _factor Factor whose profile field to bound
+     * @return min Lowest valid value
+     * @return max Highest valid value (whole USDT for annual income)
+     */
+    function _defaultInputRange(Factor _factor) internal pure returns (uint32 min, uint32 max) {
+        if (_factor == Factor.Age) return (18, 120);
+        if (_factor == Factor.AnnualIncome) return (0, 10_000_000);
+        if (_factor == Factor.DebtToIncome) return (0, 100); // Percent
+        if (_factor == Factor.EmploymentYears) return (0, 80);
+        return (0, 100); // Existing obligations and delinquencies
+    }
+    
+    /**
+     * @dev Default configuration of a scoring factor: age and income only, the other factors
+     * are configured but carry no weight
+     * @param _factor Factor to look up
+     * @return weight Percentage applied to the factor's points
+     * @return cap Points awarded at full weight once every breakpoint is reached
+     * @return inverse Whether higher values mean higher risk
+     * @return breakpoints Ascending bucket boundaries (whole USDT for annual income)
+     */
+    function _defaultScoringFactor(Factor _factor) internal pure returns (
+        uint32 weight,
+        uint32 cap,
+        bool inverse,
+        uint32[] memory breakpoints
+    ) {
+        if (_factor == Factor.Age) {
+            breakpoints = new uint32[](5);
+            for (uint256 i = 0; i < 5; i++) {
+                breakpoints[i] = uint32(20 + i * 5); // 20, 25, 30, 35, 40
+            }
+            return (100, 40, false, breakpoints);
+        }
+        if (_factor == Factor.AnnualIncome) {
+            breakpoints = new uint32[](6);
+            for (uint256 i = 0; i < 6; i++) {
+                breakpoints[i] = uint32((i + 1) * 10000); // 10k to 60k USDT
+            }
+            return (100, 60, false, breakpoints);
+        }
+        if (_factor == Factor.DebtToIncome) {
+            breakpoints = new uint32[](3);
+            breakpoints[0] = 20;
+            breakpoints[1] = 35;
+            breakpoints[2] = 50;
+            return (0, 30, true, breakpoints);
+        }
+        if (_factor == Factor.EmploymentYears) {
+            breakpoints = new uint32[](4);
+            breakpoints[0] = 1;
+            breakpoints[1] = 3;
+            breakpoints[2] = 5;
+            breakpoints[3] = 10;
+            return (0, 20, false, breakpoints);
+        }
+        
+        breakpoints = new uint32[](3);
+        if (_factor == Factor.ExistingObligations) {
+            breakpoints[0] = 2;
+            breakpoints[1] = 4;
+            breakpoints[2] = 6;
+            return (0, 15, true, breakpoints);
+        }
+        breakpoints[0] = 1;
+        breakpoints[1] = 2;
+        breakpoints[2] = 3;
+        return (0, 30, true, breakpoints);
+    }
+    
+    /**
+     * @dev Default settings of an approving tier
+     * @param _index Tier index, from tier D (0) to tier A (3)
+     * @return minScore Lowest risk score placed in the tier
+     * @return incomeMultiplier Credit limit multiplier applied to monthly income
+     * @return maxCreditLimit Credit limit cap in whole USDT
+     * @return minInterestRate Lower end of the suggested interest rate band, in basis points
+     * @return maxInterestRate Upper end of the suggested interest rate band, in basis points
+     */
+    function _defaultRiskTier(uint256 _index) internal pure returns (
+        uint32 minScore,
+        uint32 incomeMultiplier,
+        uint32 maxCreditLimit,
+        uint256 minInterestRate,
+        uint256 maxInterestRate
+    ) {
+        if (_index == 0) return (50, 1, 5000, 1800, 2400);
+        if (_index == 1) return (60, 2, 15000, 1200, 1800);
+        if (_index == 2) return (75, 3, 40000, 800, 1200);
+        return (90, 4, 100000, 500, 800);
+    }
+    
+    /**
+     * @dev Points for one bucket of a factor
+     * @param _cap Points awarded at full weight once every breakpoint is reached
+     * @param _weight Percentage applied to the factor's points
+     * @param _buckets Number of breakpoints
+     * @return Points per breakpoint, rounded down
+     */
+    function _bucketPoints(uint256 _cap, uint256 _weight, uint256 _buckets) internal pure returns (uint256) {
+        return _buckets == 0 ? 0 : (_cap * _weight) / (100 * _buckets);
+    }
+}
\ No newline at end of file
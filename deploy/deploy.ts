@@ -1,88 +1,87 @@
 // deploy/deploy.ts
-import fs from "fs";
-import path from "path";
-import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { compareStorageLayouts, normalizeStorageLayout, readStorageLayout } from "../tasks/storageLayout";
 
-async function ask(prompt: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise<string>((resolve) =>
-    rl.question(prompt, (ans) => {
-      rl.close();
-      resolve(ans.trim());
-    })
-  );
-}
+// Deploys RiskControl behind a RiskControlProxy, or upgrades the proxy when the compiled implementation
+// differs from the one recorded in deployments/<network>. Rerunning with unchanged bytecode deploys nothing.
+// deploy/frontend.ts writes the resulting address and ABI to the frontend.
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, ethers, network } = hre;
+  const { deploy, execute, fetchIfDifferent, getOrNull, save, log } = deployments;
+  const { deployer } = await getNamedAccounts();
 
-async function main() {
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
-
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
+  log("Deployer account:", deployer);
 
   // ----------------- Deploy RiskControl -----------------
-  // deploy/deploy.ts
-  const RiskControlFactory = await hardhatEthers.getContractFactory("RiskControl", wallet);
-  const riskControl = await RiskControlFactory.deploy();
-  await riskControl.waitForDeployment();
+  // RiskControl links this library to stay under the contract size limit
+  const logic = await deploy("RiskControlLogic", { from: deployer, log: true });
+  const implementationOptions = {
+    contract: "RiskControl",
+    from: deployer,
+    log: true,
+    libraries: { RiskControlLogic: logic.address },
+  };
+  const existingProxy = await getOrNull("RiskControl_Proxy");
+  const previous = await getOrNull("RiskControl");
+  const { differences } = await fetchIfDifferent("RiskControl_Implementation", implementationOptions);
 
-  const deployedAddress = (riskControl as any).target || (riskControl as any).address;
-  console.log("RiskControl contract deployed at:", deployedAddress);
+  // Refuse to upgrade when the new version would read existing assessments from the wrong slots
+  if (existingProxy && differences) {
+    const deployed = await getOrNull("RiskControl_Implementation");
+    if (deployed?.storageLayout) {
+      const problems = compareStorageLayouts(
+        normalizeStorageLayout(deployed.storageLayout),
+        await readStorageLayout(hre, "RiskControl")
+      );
+      if (problems.length > 0) {
+        problems.forEach((problem) => log(`  - ${problem}`));
+        throw new Error(`RiskControl storage layout is not compatible with the version deployed on ${network.name}`);
+      }
+      log("Storage layout is compatible with the deployed version");
+    }
+  }
 
-  // ----------------- Write frontend config -----------------
-  const frontendSrcDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendSrcDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendSrcDir);
-  } else {
-    // Write config.json
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(path.join(frontendSrcDir, "config.json"), JSON.stringify(config, null, 2));
-    console.log("Wrote frontend config: frontend/web/src/config.json");
+  // The implementation holds the code, the proxy holds the state and is the address clients use
+  const implementation = await deploy("RiskControl_Implementation", implementationOptions);
 
-    // ----------------- Extract and save pure ABI -----------------
-    try {
-      const artifactPath = path.join(__dirname, "..", "artifacts", "contracts", "RiskControl.sol", "RiskControl.json");
-      if (!fs.existsSync(artifactPath)) {
-        throw new Error("ABI file not found. Did you compile the contract?");
-      }
+  let proxyAddress = existingProxy?.address;
+  if (!proxyAddress) {
+    const proxy = await deploy("RiskControl_Proxy", {
+      contract: "RiskControlProxy",
+      from: deployer,
+      args: [implementation.address, new ethers.Interface(implementation.abi).encodeFunctionData("initialize")],
+      log: true,
+    });
+    proxyAddress = proxy.address;
+  }
 
-      // Read the full artifact
-      const artifactContent = fs.readFileSync(artifactPath, "utf-8");
-      const artifact = JSON.parse(artifactContent);
-      
-      // Extract the ABI array
-      const abi = artifact.abi;
-      if (!abi || !Array.isArray(abi)) {
-        throw new Error("ABI not found in artifact");
-      }
+  // RiskControl is the proxy address with the implementation's ABI
+  await save("RiskControl", {
+    address: proxyAddress,
+    abi: implementation.abi,
+    implementation: implementation.address,
+  });
 
-      const abiDir = path.join(frontendSrcDir, "abi");
-      if (!fs.existsSync(abiDir)) fs.mkdirSync(abiDir, { recursive: true });
+  if (existingProxy && implementation.newlyDeployed) {
+    // Proxies from before input ranges were added get the default ranges written during the upgrade
+    const hadInputRanges = previous?.abi.some((fragment) => fragment.name === "getInputRanges");
+    const upgradeCall = hadInputRanges
+      ? "0x"
+      : new ethers.Interface(implementation.abi).encodeFunctionData("initializeInputRanges");
 
-      const targetAbiPath = path.join(abiDir, "RiskControlABI.json");
-      
-      // Write only the ABI array to the file
-      fs.writeFileSync(targetAbiPath, JSON.stringify(abi, null, 2));
-      console.log("Extracted and saved pure ABI to frontend/web/src/abi/RiskControlABI.json");
-    } catch (e) {
-      console.error("Failed to extract and save ABI:", e);
-      console.warn(
-        "Please manually extract the ABI from artifacts/.../RiskControl.json and save it to frontend/web/src/abi/RiskControlABI.json"
-      );
-    }
+    // Only the owner passes _authorizeUpgrade
+    await execute(
+      "RiskControl",
+      { from: deployer, log: true },
+      "upgradeToAndCall",
+      implementation.address,
+      upgradeCall
+    );
+    log("RiskControl proxy", proxyAddress, "now uses implementation", implementation.address);
   }
-}
+};
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
\ No newline at end of file
+export default func;
+func.id = "deploy_riskControl";
+func.tags = ["RiskControl"];
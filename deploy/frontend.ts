@@ -0,0 +1,47 @@
+// deploy/frontend.ts
+import fs from "fs";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  ContractEntry,
+  FRONTEND_CONTRACTS,
+  FRONTEND_SRC_DIR,
+  writeChainEntry,
+} from "../tasks/frontend";
+
+// Runs after the contract deploy scripts and writes every variant deployed on this network to the frontend:
+// the addresses under this chain's entry in config.json
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts, network } = hre;
+  const { getOrNull, log } = deployments;
+
+  // The in-process hardhat network is gone after the run, so keep the frontend pointed at a real one
+  if (network.name === "hardhat") return;
+
+  if (!fs.existsSync(FRONTEND_SRC_DIR)) {
+    console.warn("Frontend src directory not found, skipping frontend config:", FRONTEND_SRC_DIR);
+    return;
+  }
+
+  const contracts: Record<string, ContractEntry> = {};
+  for (const contractName of FRONTEND_CONTRACTS) {
+    const deployment = await getOrNull(contractName);
+    if (!deployment) continue;
+
+    contracts[contractName] = {
+      address: deployment.address,
+      ...(deployment.implementation && { implementation: deployment.implementation }),
+    };
+  }
+
+  const chainId = await hre.getChainId();
+  const { deployer } = await getNamedAccounts();
+  // The network's RPC URL is left out: it may carry an API key, and the frontend uses a public RPC per chain
+  writeChainEntry(chainId, { deployer, contracts });
+  log(`Wrote ${Object.keys(contracts).join(", ")} addresses for chain ${chainId} to frontend/web/src/config.json`);
+};
+
+export default func;
+func.id = "export_frontend";
+func.tags = ["RiskControl", "RiskControlFHE", "frontend"];
+func.runAtTheEnd = true;
@@ -2,33 +2,161 @@
 import React, { useEffect, useState, useCallback } from "react";
 import Particles from "react-tsparticles";
 import { loadFull } from "tsparticles";
-import { FaStar, FaChartBar, FaUsers, FaQuestionCircle, FaDownload, FaUser, FaMoneyBill, FaCreditCard, FaShieldAlt } from "react-icons/fa";
+import { FaStar, FaChartBar, FaUsers, FaQuestionCircle, FaDownload, FaUser, FaMoneyBill, FaCreditCard, FaShieldAlt, FaLock, FaLockOpen, FaHistory, FaRedo } from "react-icons/fa";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import EncryptedAssessmentCard, { EncryptedAssessment } from "./components/EncryptedAssessmentCard";
+import AssessmentTimeline from "./components/AssessmentTimeline";
+import IndexedHistory from "./components/IndexedHistory";
+import AdminPanel from "./components/AdminPanel";
+import DecisionReview, { OVERRIDE_COLOR } from "./components/DecisionReview";
+import PauseBanner from "./components/PauseBanner";
+import NetworkSelector from "./components/NetworkSelector";
+import BatchImport, { BatchPreview } from "./components/BatchImport";
+import BatchProgress from "./components/BatchProgress";
+import type { BatchRow } from "./batchImport";
+import {
+  BatchRun,
+  BatchSubmitter,
+  batchRunKey,
+  loadBatchRun,
+  createBatchRun,
+  clearBatchRun,
+  runBatch,
+  fitChunkToGas,
+  isRunComplete
+} from "./batchRun";
 import { ethers} from "ethers";
-import { getContractReadOnly, normAddr, ABI, config } from "./contract";
+import {
+  getContractReadOnly,
+  getFheContractReadOnly,
+  getFheContractWithSigner,
+  isFheEnabled,
+  hasPlaintextContract,
+  getRoles,
+  NO_ROLES,
+  Roles,
+  connectRiskControl,
+  getActiveChainId,
+  setActiveChainId,
+  getActiveDeployment,
+  requireDeployment
+} from "./contract";
+import { networkName, switchWalletNetwork } from "./networks";
+import {
+  encryptClientProfile,
+  encryptClientProfiles,
+  userDecryptAssessment,
+  clearDecryptionSessions,
+  DecryptedAssessment,
+  MAX_ENCRYPTED_BATCH_SIZE
+} from "./fhe";
+import { TierConfig, TIER_COLORS, tierConfig, tierLabel, toTierConfig, formatRateBand } from "./tiers";
+import {
+  AssessmentStatus,
+  ValidityConfig,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  assessmentStatus,
+  formatExpiry,
+  loadValidityConfig,
+  needsReassessment
+} from "./expiry";
+import { InputRanges, describeAssessmentError, formatRange, loadInputRanges, profileErrors } from "./inputRanges";
+
+// Element the re-assess shortcut scrolls to
+const ASSESSMENT_FORM_ID = "assessment-form";
+
+// Number of clients fetched per paginated view call
+const ASSESSMENT_PAGE_SIZE = 50;
+
+// Most clients an auditor requests decryption rights on in one transaction
+const AUDIT_ACCESS_BATCH_SIZE = 20;
+
+// Optional scoring inputs beyond age and income, in ClientProfile field order
+const RISK_FACTOR_FIELDS = [
+  { key: "debtToIncome", label: "DEBT-TO-INCOME (%)" },
+  { key: "employmentYears", label: "EMPLOYMENT YEARS" },
+  { key: "existingObligations", label: "OPEN LOANS / CREDIT LINES" },
+  { key: "delinquencyCount", label: "PAST DELINQUENCIES" }
+] as const;
+
+type RiskFactorKey = typeof RISK_FACTOR_FIELDS[number]["key"];
+
+const EMPTY_SINGLE_CLIENT = {
+  age: "",
+  income: "",
+  clientId: "",
+  debtToIncome: "",
+  employmentYears: "",
+  existingObligations: "",
+  delinquencyCount: ""
+};
+
+// blank optional factors count as zero
+const parseFactor = (value?: string) => (value && value.trim() ? parseInt(value.trim()) : 0);
+
+// build the client profile expected by assessRisk (bigint income) or the FHE encryptor (whole USDT)
+const toClientProfile = <T,>(age: string, annualIncome: T, factors: Partial<Record<RiskFactorKey, string>>) => ({
+  age: parseInt(age.trim()),
+  annualIncome,
+  debtToIncome: parseFactor(factors.debtToIncome),
+  employmentYears: parseFactor(factors.employmentYears),
+  existingObligations: parseFactor(factors.existingObligations),
+  delinquencyCount: parseFactor(factors.delinquencyCount)
+});
 
 export default function App() {
   const [account, setAccount] = useState("");
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [roles, setRoles] = useState<Roles>(NO_ROLES);
+  const [fheRoles, setFheRoles] = useState<Roles>(NO_ROLES);
   const [loading, setLoading] = useState(true);
   const [assessments, setAssessments] = useState<Assessment[]>([]);
+  // current RiskControl tiers, used for the suggested interest rate of each result
+  const [riskTiers, setRiskTiers] = useState<TierConfig[]>([]);
+  // validity settings of each contract, used to badge stale results
+  const [validity, setValidity] = useState<ValidityConfig | null>(null);
+  const [fheValidity, setFheValidity] = useState<ValidityConfig | null>(null);
+  // valid range of each profile field on each contract, enforced by the assessment forms
+  const [inputRanges, setInputRanges] = useState<InputRanges | null>(null);
+  const [fheInputRanges, setFheInputRanges] = useState<InputRanges | null>(null);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
-  const [singleClient, setSingleClient] = useState({
-    age: "",
-    income: "",
-    clientId: ""
-  });
-  const [batchData, setBatchData] = useState("");
+  // the wallet's EIP-1193 provider, which network switch requests go to
+  const [walletProvider, setWalletProvider] = useState<any>(null);
+  const [singleClient, setSingleClient] = useState(EMPTY_SINGLE_CLIENT);
+  // parsed batch input with per-row validation; only rows without errors are submitted
+  const [batchRows, setBatchRows] = useState<BatchRow[]>([]);
+  // bumped after a successful batch to reset the import form
+  const [batchFormKey, setBatchFormKey] = useState(0);
+  // chunked batch submission of this account and contract, restored from storage if it was interrupted
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  const [batchRunning, setBatchRunning] = useState(false);
   const [activeTab, setActiveTab] = useState("single");
+  // FHE mode encrypts inputs in the browser and submits them to RiskControlFHE
+  const [fheMode, setFheMode] = useState(isFheEnabled());
+  const [submitting, setSubmitting] = useState(false);
+  const [encryptedAssessments, setEncryptedAssessments] = useState<EncryptedAssessment[]>([]);
+  // cleartext results live only in memory for the connected officer's session
+  const [decryptedResults, setDecryptedResults] = useState<Record<string, DecryptedAssessment>>({});
+  const [decryptingId, setDecryptingId] = useState<string | null>(null);
+  const [expandedTimeline, setExpandedTimeline] = useState<string | null>(null);
+  // client IDs flagged for appeal review on RiskControl
+  const [pendingAppeals, setPendingAppeals] = useState<Set<string>>(new Set());
+  // emergency stop state of each contract
+  const [paused, setPaused] = useState(false);
+  const [fhePaused, setFhePaused] = useState(false);
+  // chain whose contracts are shown; follows the wallet's chain once connected
+  const [chainId, setChainId] = useState(getActiveChainId());
 
   interface Assessment {
     clientId: string;
-    creditLimit: ethers.BigNumberish;
-    riskScore: ethers.BigNumberish;
+    creditLimit: bigint;
+    riskScore: bigint;
     approved: boolean;
-    timestamp: ethers.BigNumberish;
+    tier: number;
+    overridden: boolean;
+    timestamp: bigint;
   }
 
   const particlesInit = useCallback(async (engine: any) => {
@@ -50,29 +178,35 @@ export default function App() {
       const provider = new ethers.BrowserProvider(window.ethereum);
       
       // 3. 检查网络连接
+      const activeChainId = getActiveChainId();
       try {
         const network = await provider.getNetwork();
         console.log("Network info:", {
           name: network.name,
           chainId: network.chainId.toString(),
-          isSepolia: network.chainId === 11155111n
+          isActiveNetwork: Number(network.chainId) === activeChainId
         });
         
-        if (network.chainId !== 11155111n) {
-          console.error("❌ Not connected to Sepolia network");
+        if (Number(network.chainId) !== activeChainId) {
+          console.error(`❌ Not connected to ${networkName(activeChainId)} network`);
         } else {
-          console.log("✅ Connected to Sepolia network");
+          console.log(`✅ Connected to ${networkName(activeChainId)} network`);
         }
       } catch (e) {
         console.error("Failed to get network info:", e);
       }
       
       // 4. 检查合约地址
-      console.log("Contract address from config:", config.contractAddress);
+      const contractAddress = getActiveDeployment()?.contractAddress;
+      console.log("Contract address from config:", contractAddress);
+      if (!contractAddress) {
+        console.error(`❌ No plaintext contract deployed on ${networkName(activeChainId)}`);
+        return;
+      }
       
       // 5. 检查合约代码
       try {
-        const code = await provider.getCode(config.contractAddress);
+        const code = await provider.getCode(contractAddress);
         console.log("Contract code:", code !== "0x" ? "✅ Exists" : "❌ Does not exist");
         console.log("Code length:", code.length);
         
@@ -100,7 +234,7 @@ export default function App() {
       // 7. 测试简单合约调用
       try {
         const simpleContract = new ethers.Contract(
-          config.contractAddress,
+          contractAddress,
           ["function getOwner() external view returns (address)"],
           provider
         );
@@ -115,11 +249,7 @@ export default function App() {
       // 8. 测试 getAllClientIds
       try {
         // 创建合约实例
-        const contract = new ethers.Contract(
-          config.contractAddress,
-          ABI,
-          provider
-        );
+        const contract = connectRiskControl(provider);
         
         console.log("Testing getAllClientIds function...");
         const clientIds = await contract.getAllClientIds();
@@ -132,11 +262,7 @@ export default function App() {
           console.log("Attempting low-level call...");
           
           // 再次创建合约实例
-          const contract = new ethers.Contract(
-            config.contractAddress,
-            ABI,
-            provider
-          );
+          const contract = connectRiskControl(provider);
           
           // 安全获取函数片段
           const fragment = contract.interface.getFunction("getAllClientIds");
@@ -146,11 +272,11 @@ export default function App() {
             return;
           }
           
-          const data = contract.interface.encodeFunctionData(fragment, []);
+          const data = contract.interface.encodeFunctionData("getAllClientIds");
           console.log("Encoded function data:", data);
           
           const result = await provider.call({
-            to: config.contractAddress,
+            to: contractAddress,
             data
           });
           console.log("Raw result from contract:", result);
@@ -159,7 +285,7 @@ export default function App() {
             console.error("❌ Contract returned empty data");
           } else {
             try {
-              const decoded = contract.interface.decodeFunctionResult(fragment, result);
+              const decoded = contract.interface.decodeFunctionResult("getAllClientIds", result);
               console.log("Decoded result:", decoded);
             } catch (decodeError) {
               console.error("Failed to decode result:", decodeError);
@@ -179,34 +305,131 @@ export default function App() {
   useEffect(() => {
     console.log("=== APP INITIALIZATION ===");
     console.log("Environment:", process.env.NODE_ENV);
-    console.log("Contract config:", config);
-    console.log("Using ABI:", ABI ? "Loaded" : "Not loaded");
+    console.log("Contract config:", getActiveDeployment());
     diagnoseNetwork().then(() => {
       loadAssessments().finally(() => setLoading(false));
     });
     loadAssessments().finally(() => setLoading(false));
+    loadEncryptedAssessments();
+    loadPauseState();
     
-  }, []);
+  }, [chainId]);
+
+  // roles are per contract, so reload them for a new account or chain
+  useEffect(() => {
+    loadRoles(account);
+  }, [account, chainId]);
 
-  const checkAdmin = async (addr: string) => {
+  // Point the app at another chain's contracts and drop everything loaded from the previous one;
+  // the effects above reload it
+  const changeChain = (nextChainId: number) => {
+    setActiveChainId(nextChainId);
+    setChainId(nextChainId);
+    setLoading(true);
+    setAssessments([]);
+    setEncryptedAssessments([]);
+    setRiskTiers([]);
+    setValidity(null);
+    setFheValidity(null);
+    setInputRanges(null);
+    setFheInputRanges(null);
+    setPendingAppeals(new Set());
+    setPaused(false);
+    setFhePaused(false);
+    setRoles(NO_ROLES);
+    setFheRoles(NO_ROLES);
+    clearDecryptionSessions();
+    setDecryptedResults({});
+    setFheMode(isFheEnabled());
+  };
+
+  // Without a wallet the selector only changes what is read; with one, the wallet switches
+  // chains and its chainChanged event calls changeChain
+  const selectNetwork = async (nextChainId: number) => {
+    if (!account || !walletProvider) {
+      changeChain(nextChainId);
+      return;
+    }
     try {
-      console.log("Checking admin status for address:", addr);
-      const contract = await getContractReadOnly();
-      if (!contract) {
-        console.error("Contract not available for admin check");
-        return;
+      await switchWalletNetwork(walletProvider, nextChainId);
+    } catch (e: any) {
+      console.error("Failed to switch network", e);
+      alert(`Failed to switch to ${networkName(nextChainId)}: ` + (e?.message || e));
+    }
+  };
+
+  const loadPauseState = async () => {
+    if (hasPlaintextContract()) {
+      try {
+        const contract = await getContractReadOnly();
+        setPaused(await contract.paused());
+      } catch (e) {
+        console.error("Failed to load pause state", e);
       }
-      const adminAddr: string = await contract.getOwner();
-      console.log("Contract owner address:", adminAddr);
-      const isAdmin = normAddr(addr) === normAddr(adminAddr);
-      console.log("Is admin:", isAdmin);
-      setIsAdmin(isAdmin);
+    }
+
+    if (!isFheEnabled()) return;
+    try {
+      const fheContract = await getFheContractReadOnly();
+      setFhePaused(await fheContract.paused());
     } catch (e) {
-      console.error("Failed to check admin", e);
-      setIsAdmin(false);
+      console.error("Failed to load FHE contract pause state", e);
     }
   };
 
+  // roles are granted per contract, so look them up on both the plaintext and the FHE contract
+  const loadRoles = async (addr: string) => {
+    if (hasPlaintextContract()) {
+      try {
+        console.log("Loading roles for address:", addr);
+        const contract = await getContractReadOnly();
+        const accountRoles = await getRoles(contract, addr);
+        console.log("Roles:", accountRoles);
+        setRoles(accountRoles);
+      } catch (e) {
+        console.error("Failed to load roles", e);
+        setRoles(NO_ROLES);
+      }
+    }
+
+    if (!isFheEnabled()) return;
+    try {
+      const fheContract = await getFheContractReadOnly();
+      const accountFheRoles = await getRoles(fheContract, addr);
+      console.log("FHE contract roles:", accountFheRoles);
+      setFheRoles(accountFheRoles);
+    } catch (e) {
+      console.error("Failed to load FHE contract roles", e);
+      setFheRoles(NO_ROLES);
+    }
+  };
+
+  // follow the connected wallet's account and chain; the listeners go with the wallet on disconnect
+  useEffect(() => {
+    if (!walletProvider) return;
+
+    const onAccountsChanged = (accounts: string[]) => {
+      console.log("Accounts changed:", accounts);
+      const newAcc = accounts[0] || "";
+      clearDecryptionSessions();
+      setDecryptedResults({});
+      setAccount(newAcc);
+    };
+    const onChainChanged = (hexChainId: string) => {
+      console.log("Chain changed:", hexChainId);
+      // an ethers provider stays bound to the network it was created on
+      setProvider(new ethers.BrowserProvider(walletProvider));
+      changeChain(Number(hexChainId));
+    };
+
+    walletProvider.on("accountsChanged", onAccountsChanged);
+    walletProvider.on("chainChanged", onChainChanged);
+    return () => {
+      walletProvider.removeListener("accountsChanged", onAccountsChanged);
+      walletProvider.removeListener("chainChanged", onChainChanged);
+    };
+  }, [walletProvider]);
+
   const onWalletSelect = async (wallet: any) => {
     console.log("Wallet selected:", wallet?.name || "Unknown wallet");
     if (!wallet.provider) {
@@ -216,18 +439,17 @@ export default function App() {
     try {
       const web3Provider = new ethers.BrowserProvider(wallet.provider);
       setProvider(web3Provider);
+      setWalletProvider(wallet.provider);
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
       console.log("Connected account:", acc);
-      setAccount(acc);
-      await checkAdmin(acc);
 
-      wallet.provider.on("accountsChanged", async (accounts: string[]) => {
-        console.log("Accounts changed:", accounts);
-        const newAcc = accounts[0] || "";
-        setAccount(newAcc);
-        await checkAdmin(newAcc);
-      });
+      // show the contracts of the chain the wallet is on
+      const network = await web3Provider.getNetwork();
+      if (Number(network.chainId) !== getActiveChainId()) {
+        changeChain(Number(network.chainId));
+      }
+      setAccount(acc);
     } catch (e) {
       console.error("Failed to connect wallet", e);
       alert("Failed to connect wallet: " + e);
@@ -242,13 +464,19 @@ export default function App() {
   const onDisconnect = () => {
     console.log("Wallet disconnected");
     setAccount("");
-    setIsAdmin(false);
+    setRoles(NO_ROLES);
+    setFheRoles(NO_ROLES);
     setProvider(null);
+    setWalletProvider(null);
+    clearDecryptionSessions();
+    setDecryptedResults({});
   };
 
   // ----------------- Load Assessments -----------------
   const loadAssessments = async () => {
+    if (!hasPlaintextContract()) return;
     console.log("=== LOADING ASSESSMENTS ===");
+    const loadChainId = getActiveChainId();
     try {
       console.log("Getting read-only contract instance...");
       const contract = await getContractReadOnly();
@@ -258,32 +486,38 @@ export default function App() {
       }
       
       console.log("Contract address:", contract.target);
-      console.log("Calling getAllClientIds...");
-      
-      // Get all client IDs
-      const clientIds = await contract.getAllClientIds();
-      console.log("Client IDs received:", clientIds);
-      console.log("Number of client IDs:", clientIds.length);
-      
-      // Get assessments for each client
+
+      // Page through the latest assessment of every client instead of one RPC per ID
+      const total = Number(await contract.getAssessmentCount());
+      console.log("Number of assessed clients:", total);
+
       const assessmentList: Assessment[] = [];
-      for (let i = 0; i < clientIds.length; i++) {
-        try {
-          console.log(`Getting assessment for client ${i}: ${clientIds[i]}`);
-          const result = await contract.getAssessmentResult(clientIds[i]);
-          console.log(`Assessment result for ${clientIds[i]}:`, result);
-          
+      for (let offset = 0; offset < total; offset += ASSESSMENT_PAGE_SIZE) {
+        const page = await contract.getAssessmentsPage(offset, ASSESSMENT_PAGE_SIZE);
+        for (const result of page) {
           assessmentList.push({
-            clientId: clientIds[i],
+            clientId: result.clientId,
             creditLimit: result.creditLimit,
             riskScore: result.riskScore,
             approved: result.approved,
+            tier: Number(result.tier),
+            overridden: result.overridden,
             timestamp: result.timestamp
           });
-        } catch (e) {
-          console.warn(`Failed to load assessment for ${clientIds[i]}`, e);
         }
       }
+
+      const params = await contract.getRiskParameters();
+      const validityConfig = await loadValidityConfig(contract);
+      const ranges = await loadInputRanges(contract, false);
+      const appeals = await contract.getPendingAppeals();
+      // the user switched networks while this was loading
+      if (loadChainId !== getActiveChainId()) return;
+
+      setRiskTiers(params.tiers.map(toTierConfig));
+      setValidity(validityConfig);
+      setInputRanges(ranges);
+      setPendingAppeals(new Set<string>(appeals));
       
       console.log("Total assessments loaded:", assessmentList.length);
       setAssessments(assessmentList);
@@ -301,6 +535,87 @@ export default function App() {
     }
   };
 
+  const loadEncryptedAssessments = async () => {
+    if (!isFheEnabled()) return;
+    console.log("=== LOADING ENCRYPTED ASSESSMENTS ===");
+    const loadChainId = getActiveChainId();
+    try {
+      const contract = await getFheContractReadOnly();
+      // Page through every client's result handles instead of one RPC per ID
+      const total = Number(await contract.getAssessmentCount());
+      const list: EncryptedAssessment[] = [];
+      for (let offset = 0; offset < total; offset += ASSESSMENT_PAGE_SIZE) {
+        const page = await contract.getEncryptedAssessmentsPage(offset, ASSESSMENT_PAGE_SIZE);
+        for (const result of page) {
+          list.push({
+            clientId: result.clientId,
+            handles: {
+              creditLimit: result.creditLimit,
+              riskScore: result.riskScore,
+              approved: result.approved,
+              tier: result.tier
+            },
+            timestamp: result.timestamp
+          });
+        }
+      }
+
+      const validityConfig = await loadValidityConfig(contract);
+      const ranges = await loadInputRanges(contract, true);
+      if (loadChainId !== getActiveChainId()) return;
+
+      console.log("Total encrypted assessments loaded:", list.length);
+      setEncryptedAssessments(list);
+      setFheValidity(validityConfig);
+      setFheInputRanges(ranges);
+    } catch (e) {
+      console.error("Failed to load encrypted assessments", e);
+    }
+  };
+
+  // ----------------- Decrypt Assessment -----------------
+  // Send an access request only when the ACL lacks the auditor for this client, and cover the other
+  // listed clients still missing access in the same transaction so their decryptions need none
+  const requestAuditAccess = async (clientId: string, auditor: string) => {
+    const { contract } = await getFheContractWithSigner();
+    const clientIds = [clientId, ...encryptedAssessments.map(a => a.clientId).filter(id => id !== clientId)]
+      .slice(0, AUDIT_ACCESS_BATCH_SIZE);
+    const access = await contract.getAuditAccess(clientIds, auditor);
+    if (access[0]) return;
+
+    const tx = await contract.batchGrantAuditAccess(clientIds.filter((_, i) => !access[i]));
+    console.log("Audit access transaction sent:", tx.hash);
+    await tx.wait();
+  };
+
+  const decryptAssessment = async (assessment: EncryptedAssessment) => {
+    if (!provider) { alert("Please connect wallet first"); return; }
+    setDecryptingId(assessment.clientId);
+    try {
+      const signer = await provider.getSigner();
+      // auditors are not on the result's ACL until they request access on-chain
+      if (fheRoles.auditor && !fheRoles.isOwner) {
+        await requestAuditAccess(assessment.clientId, await signer.getAddress());
+      }
+      const result = await userDecryptAssessment(requireDeployment().fheContractAddress, signer, assessment.handles);
+      setDecryptedResults(prev => ({ ...prev, [assessment.clientId]: result }));
+    } catch (e: any) {
+      console.error("Decryption failed", e);
+      alert("Decryption failed: " + (e?.message || e));
+    } finally {
+      setDecryptingId(null);
+    }
+  };
+
+  // ----------------- Re-assessment -----------------
+  // pre-fill the single-assessment form with a stale result's client ID on the contract that holds it
+  const startReassessment = (clientId: string, encrypted: boolean) => {
+    setFheMode(encrypted);
+    setActiveTab("single");
+    setSingleClient({ ...EMPTY_SINGLE_CLIENT, clientId });
+    document.getElementById(ASSESSMENT_FORM_ID)?.scrollIntoView({ behavior: "smooth" });
+  };
+
   // ----------------- Single Assessment -----------------
   const assessSingleClient = async () => {
     console.log("=== SINGLE ASSESSMENT ===");
@@ -314,30 +629,36 @@ export default function App() {
       alert("Please fill all fields"); 
       return;
     }
+    const errors = profileErrors(singleClient, fheMode, fheMode ? fheInputRanges : inputRanges);
+    if (errors.length > 0) {
+      alert(errors.join("\n"));
+      return;
+    }
+
+    if (fheMode) {
+      await assessSingleClientEncrypted();
+      return;
+    }
 
     try {
       console.log("Getting signer...");
       const signer = await provider.getSigner();
       console.log("Signer address:", await signer.getAddress());
       
-      const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+      const contract = connectRiskControl(signer);
       console.log("Contract with signer created at:", contract.target);
       
       // Convert income to USDT units (6 decimals)
       const incomeInUSDT = ethers.parseUnits(singleClient.income, 6);
       console.log("Income converted to USDT units:", incomeInUSDT);
       
+      const profile = toClientProfile(singleClient.age, incomeInUSDT, singleClient);
       console.log("Calling assessRisk with params:", {
-        age: parseInt(singleClient.age),
-        income: incomeInUSDT,
+        profile,
         clientId: singleClient.clientId
       });
       
-      const tx = await contract.assessRisk(
-        parseInt(singleClient.age),
-        incomeInUSDT,
-        singleClient.clientId
-      );
+      const tx = await contract.assessRisk(profile, singleClient.clientId);
       
       console.log("Transaction sent, hash:", tx.hash);
       await tx.wait();
@@ -347,66 +668,153 @@ export default function App() {
       setTimeout(loadAssessments, 3000);
       
       // Clear form
-      setSingleClient({
-        age: "",
-        income: "",
-        clientId: ""
-      });
+      setSingleClient(EMPTY_SINGLE_CLIENT);
       
       alert("Assessment completed!");
     } catch (e: any) {
       console.error("Assessment failed", e);
-      alert("Assessment failed: " + (e?.message || e));
+      alert("Assessment failed: " + describeAssessmentError(e));
+    }
+  };
+
+  const assessSingleClientEncrypted = async () => {
+    console.log("=== ENCRYPTED SINGLE ASSESSMENT ===");
+    setSubmitting(true);
+    try {
+      const { contract, signer } = await getFheContractWithSigner();
+      const userAddress = await signer.getAddress();
+
+      // FHE inputs are euint32, so income is submitted in whole USDT
+      const incomeUsdt = Math.floor(Number(singleClient.income));
+
+      console.log("Encrypting client profile in browser...");
+      const { profile, inputProof } = await encryptClientProfile(
+        requireDeployment().fheContractAddress,
+        userAddress,
+        toClientProfile(singleClient.age, incomeUsdt, singleClient)
+      );
+
+      const tx = await contract.assessRiskEncrypted(profile, inputProof, singleClient.clientId);
+      console.log("Encrypted assessment sent, hash:", tx.hash);
+      await tx.wait();
+      console.log("Encrypted assessment confirmed");
+
+      setTimeout(loadEncryptedAssessments, 3000);
+
+      setSingleClient(EMPTY_SINGLE_CLIENT);
+
+      alert("Encrypted assessment completed!");
+    } catch (e: any) {
+      console.error("Encrypted assessment failed", e);
+      alert("Encrypted assessment failed: " + describeAssessmentError(e));
+    } finally {
+      setSubmitting(false);
     }
   };
 
   // ----------------- Batch Assessment -----------------
-  const assessBatchClients = async () => {
+  const validBatchRows = batchRows.filter(row => row.errors.length === 0);
+
+  // storage key of the batch run for the connected account on the selected contract
+  const currentBatchRunKey = () => {
+    const deployment = getActiveDeployment();
+    const contractAddress = fheMode ? deployment?.fheContractAddress : deployment?.contractAddress;
+    return account && contractAddress ? batchRunKey(chainId, contractAddress, account) : null;
+  };
+
+  useEffect(() => {
+    const key = currentBatchRunKey();
+    setBatchRun(key ? loadBatchRun(key) : null);
+  }, [account, chainId, fheMode]);
+
+  // Plaintext chunks are sized by gas estimate
+  const plaintextSubmitter = async (): Promise<BatchSubmitter> => {
+    const contract = connectRiskControl(await provider!.getSigner());
+    // Rows were validated by the import preview; convert income to USDT units (6 decimals)
+    const toArgs = (rows: BatchRow[]) =>
+      [
+        rows.map(({ values }) => toClientProfile(values.age, ethers.parseUnits(values.income, 6), values)),
+        rows.map(({ values }) => values.clientId)
+      ] as const;
+    return {
+      contract,
+      chunkSize: (rows, start, previous) =>
+        fitChunkToGas(rows, start, previous, chunk => contract.batchAssessRisk.estimateGas(...toArgs(chunk))),
+      send: rows => contract.batchAssessRisk(...toArgs(rows))
+    };
+  };
+
+  // Encrypted chunks are limited by the size of one input proof, and each is encrypted just before it is sent
+  const encryptedSubmitter = async (): Promise<BatchSubmitter> => {
+    const { contract, signer } = await getFheContractWithSigner();
+    const signerAddress = await signer.getAddress();
+    return {
+      contract,
+      chunkSize: async (rows, start) => Math.min(MAX_ENCRYPTED_BATCH_SIZE, rows.length - start),
+      send: async rows => {
+        // validated as whole USDT in FHE mode
+        const { profiles, inputProof } = await encryptClientProfiles(
+          requireDeployment().fheContractAddress,
+          signerAddress,
+          rows.map(({ values }) => toClientProfile(values.age, Number(values.income), values))
+        );
+        return contract.batchAssessRiskEncrypted(profiles, inputProof, rows.map(({ values }) => values.clientId));
+      }
+    };
+  };
+
+  // Send the run's remaining chunks; on failure the run stays saved so it can be resumed
+  const continueBatchRun = async (run: BatchRun) => {
     if (!provider) { alert("Please connect wallet first"); return; }
-    if (!batchData) { alert("Please enter batch data"); return; }
 
+    setBatchRunning(true);
     try {
-      // Parse batch data (format: age,income,clientId)
-      const lines = batchData.split('\n').filter(line => line.trim() !== '');
-      const ages: number[] = [];
-      const incomes: bigint[] = [];
-      const clientIds: string[] = [];
-      
-      for (const line of lines) {
-        const [age, income, clientId] = line.split(',');
-        ages.push(parseInt(age.trim()));
-        // Convert income to USDT units (6 decimals)
-        incomes.push(ethers.parseUnits(income.trim(), 6));
-        clientIds.push(clientId.trim());
-      }
-      
-      const signer = await provider.getSigner();
-      const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-      
-      const tx = await contract.batchAssessRisk(ages, incomes, clientIds);
-      await tx.wait();
-      
-      // Reload assessments after delay
-      setTimeout(loadAssessments, 3000);
-      
-      // Clear batch data
-      setBatchData("");
-      
-      alert(`Batch assessment completed for ${lines.length} clients!`);
+      const submitter = run.fhe ? await encryptedSubmitter() : await plaintextSubmitter();
+      const finished = await runBatch(run, submitter, setBatchRun);
+      setBatchFormKey(key => key + 1);
+
+      const failed = finished.chunks.flatMap(chunk => chunk.outcomes ?? []).filter(outcome => !outcome.ok).length;
+      alert(`Batch finished: ${finished.rows.length - failed} clients assessed, ${failed} failed`);
     } catch (e: any) {
-      console.error("Batch assessment failed", e);
-      alert("Batch assessment failed: " + (e?.message || e));
+      console.error("Batch run interrupted", e);
+      alert("Batch run interrupted, resume it to send the remaining rows: " + describeAssessmentError(e));
+    } finally {
+      setBatchRunning(false);
+      // Reload assessments after delay
+      setTimeout(run.fhe ? loadEncryptedAssessments : loadAssessments, 3000);
     }
   };
 
+  const assessBatchClients = async () => {
+    if (!provider) { alert("Please connect wallet first"); return; }
+    if (validBatchRows.length === 0) { alert("Please enter batch data with at least one valid row"); return; }
+
+    const key = currentBatchRunKey();
+    if (!key) { alert(`No ${fheMode ? "RiskControlFHE" : "RiskControl"} contract on ${networkName(chainId)}`); return; }
+    const run = createBatchRun(key, fheMode, validBatchRows);
+    setBatchRun(run);
+    await continueBatchRun(run);
+  };
+
+  const discardBatchRun = () => {
+    if (batchRun) clearBatchRun(batchRun.key);
+    setBatchRun(null);
+  };
+
   // ----------------- Download Results -----------------
+  // suggested interest rate band of a result's tier under the current tier configuration
+  const suggestedRate = (tier: number) => {
+    const settings = tierConfig(tier, riskTiers);
+    return settings ? formatRateBand(settings) : "-";
+  };
+
   const downloadResults = () => {
     if (assessments.length === 0) return;
     
     const csvContent = [
-      'Client ID, Credit Limit (USDT), Risk Score, Approved, Timestamp',
+      'Client ID, Credit Limit (USDT), Risk Score, Approved, Overridden, Risk Tier, Suggested Rate, Timestamp',
       ...assessments.map(a => 
-        `${a.clientId}, ${ethers.formatUnits(a.creditLimit, 6)}, ${a.riskScore.toString()}, ${a.approved}, ${new Date(Number(a.timestamp) * 1000).toLocaleString()}`
+        `${a.clientId}, ${ethers.formatUnits(a.creditLimit, 6)}, ${a.riskScore.toString()}, ${a.approved}, ${a.overridden}, ${tierLabel(a.tier)}, ${suggestedRate(a.tier)}, ${new Date(Number(a.timestamp) * 1000).toLocaleString()}`
       )
     ].join('\n');
     
@@ -465,6 +873,27 @@ export default function App() {
     </div>
   );
 
+  // ----------------- Roles -----------------
+  const activeRoles = fheMode ? fheRoles : roles;
+  // the mode follows config.json; the switch is only offered where both contract variants are deployed
+  const canSwitchMode = isFheEnabled() && hasPlaintextContract();
+  const activePaused = fheMode ? fhePaused : paused;
+  const canAssess = !!account && activeRoles.riskOfficer && !activePaused;
+  const activeInputRanges = fheMode ? fheInputRanges : inputRanges;
+  // query API of packages/indexer for the active chain, if config.json names one
+  const indexerUrl = getActiveDeployment()?.indexerUrl ?? "";
+  // a new batch replaces the saved run, so an interrupted one has to be resumed or discarded first
+  const unfinishedBatchRun = batchRun !== null && !isRunComplete(batchRun);
+  const batchBlocked = !canAssess || validBatchRows.length === 0 || batchRunning || unfinishedBatchRun;
+  const roleLabels = [
+    activeRoles.isOwner && "Owner",
+    activeRoles.riskOfficer && "Risk Officer",
+    activeRoles.seniorOfficer && "Senior Officer",
+    activeRoles.parameterAdmin && "Parameter Admin",
+    activeRoles.auditor && "Auditor",
+    activeRoles.pauser && "Pauser"
+  ].filter(Boolean);
+
   // ----------------- Aggregate Stats -----------------
   const totalAssessments = assessments.length;
   const approvedCount = assessments.filter(a => a.approved).length;
@@ -588,6 +1017,7 @@ export default function App() {
               <span>Export Data</span>
             </button>
           )}
+          <NetworkSelector chainId={chainId} onSelect={selectNetwork} />
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -778,8 +1208,29 @@ export default function App() {
           </div>
         </div>
 
+        {!getActiveDeployment() && (
+          <div style={{
+            padding: "15px 20px",
+            marginBottom: "20px",
+            border: "1px solid #ff00c8",
+            background: "rgba(255, 0, 200, 0.1)",
+            color: "#ff00c8",
+            letterSpacing: "1px"
+          }}>
+            RiskControl is not deployed on {networkName(chainId)}. Pick a supported network from the selector.
+          </div>
+        )}
+
+        {/* Emergency Stop */}
+        <PauseBanner
+          fheMode={fheMode}
+          paused={activePaused}
+          canPause={!!account && activeRoles.pauser}
+          onChanged={loadPauseState}
+        />
+
         {/* Assessment Tabs */}
-        <div style={{ 
+        <div id={ASSESSMENT_FORM_ID} style={{ 
           background: "rgba(10, 15, 41, 0.7)",
           backdropFilter: "blur(10px)",
           border: "1px solid rgba(0, 247, 255, 0.3)",
@@ -835,6 +1286,58 @@ export default function App() {
             </button>
           </div>
           
+          {/* Privacy Mode */}
+          <div style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: 20,
+            padding: "15px 30px",
+            borderBottom: "1px solid rgba(0, 247, 255, 0.3)",
+            background: fheMode ? "rgba(0, 255, 157, 0.05)" : "rgba(255, 0, 200, 0.05)"
+          }}>
+            <div style={{ color: fheMode ? "#00ff9d" : "#ff00c8", display: "flex", alignItems: "center", gap: 10 }}>
+              {fheMode ? <FaLock /> : <FaLockOpen />}
+              {fheMode
+                ? "FHE MODE: all six profile fields are encrypted in your browser before submission"
+                : "PLAINTEXT MODE: all six profile fields are sent as readable calldata"}
+            </div>
+            <button
+              onClick={() => setFheMode(!fheMode)}
+              disabled={!canSwitchMode}
+              title={!isFheEnabled()
+                ? "No FHE contract deployed on this network"
+                : !hasPlaintextContract() ? "No plaintext contract deployed on this network" : undefined}
+              style={{
+                padding: "8px 16px",
+                background: "transparent",
+                color: "#00f7ff",
+                border: "1px solid #00f7ff",
+                cursor: canSwitchMode ? "pointer" : "not-allowed",
+                fontWeight: "600",
+                textTransform: "uppercase",
+                letterSpacing: "1px",
+                opacity: canSwitchMode ? 1 : 0.5
+              }}
+            >
+              {fheMode ? "Switch to plaintext" : "Switch to FHE"}
+            </button>
+          </div>
+
+          {/* Connected Roles */}
+          {account && (
+            <div style={{
+              padding: "10px 30px",
+              borderBottom: "1px solid rgba(0, 247, 255, 0.3)",
+              color: "#a0a0ff",
+              textTransform: "uppercase",
+              letterSpacing: "1px",
+              fontSize: "0.9rem"
+            }}>
+              Your roles: {roleLabels.length > 0 ? roleLabels.join(" · ") : "none (read-only)"}
+            </div>
+          )}
+
           {/* Tab Content */}
           <div style={{ padding: "30px" }}>
             {activeTab === "single" ? (
@@ -864,7 +1367,7 @@ export default function App() {
                       </label>
                       <input
                         type="number"
-                        placeholder="Enter client age"
+                        placeholder={activeInputRanges ? `Enter client age (${formatRange(activeInputRanges, "age")})` : "Enter client age"}
                         value={singleClient.age}
                         onChange={(e) => setSingleClient({...singleClient, age: e.target.value})}
                         style={{ 
@@ -888,11 +1391,11 @@ export default function App() {
                         letterSpacing: "1px",
                         fontSize: "0.9rem"
                       }}>
-                        ANNUAL INCOME (USDT)
+                        {fheMode ? "ANNUAL INCOME (WHOLE USDT)" : "ANNUAL INCOME (USDT)"}
                       </label>
                       <input
                         type="number"
-                        placeholder="Enter annual income"
+                        placeholder={activeInputRanges ? `Enter annual income (${formatRange(activeInputRanges, "income")})` : "Enter annual income"}
                         value={singleClient.income}
                         onChange={(e) => setSingleClient({...singleClient, income: e.target.value})}
                         style={{ 
@@ -906,6 +1409,38 @@ export default function App() {
                         }}
                       />
                     </div>
+                    
+                    <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 15 }}>
+                      {RISK_FACTOR_FIELDS.map(field => (
+                        <div key={field.key} style={{ marginBottom: 10 }}>
+                          <label style={{ 
+                            display: "block", 
+                            marginBottom: 8, 
+                            color: "#a0a0ff",
+                            textTransform: "uppercase",
+                            letterSpacing: "1px",
+                            fontSize: "0.8rem"
+                          }}>
+                            {field.label}
+                          </label>
+                          <input
+                            type="number"
+                            placeholder={activeInputRanges ? `Optional, ${formatRange(activeInputRanges, field.key)}` : "Optional"}
+                            value={singleClient[field.key]}
+                            onChange={(e) => setSingleClient({...singleClient, [field.key]: e.target.value})}
+                            style={{ 
+                              width: "100%", 
+                              padding: "10px", 
+                              background: "rgba(0, 10, 30, 0.5)", 
+                              border: "1px solid rgba(0, 247, 255, 0.3)", 
+                              color: "#00f7ff",
+                              borderRadius: "0",
+                              fontSize: "1rem"
+                            }}
+                          />
+                        </div>
+                      ))}
+                    </div>
                   </div>
                   
                   <div>
@@ -939,7 +1474,7 @@ export default function App() {
                     
                     <button 
                       onClick={assessSingleClient}
-                      disabled={!account}
+                      disabled={!canAssess || submitting}
                       style={{ 
                         width: "100%",
                         padding: "15px", 
@@ -955,10 +1490,10 @@ export default function App() {
                         transition: "all 0.3s ease",
                         position: "relative",
                         overflow: "hidden",
-                        opacity: !account ? 0.5 : 1
+                        opacity: (!canAssess || submitting) ? 0.5 : 1
                       }}
                     >
-                      {!account ? "CONNECT WALLET TO BEGIN" : "PROCESS SECURE ASSESSMENT"}
+                      {!account ? "CONNECT WALLET TO BEGIN" : activePaused ? "ASSESSMENTS PAUSED" : !canAssess ? "RISK OFFICER ROLE REQUIRED" : submitting ? "ENCRYPTING & SUBMITTING..." : "PROCESS SECURE ASSESSMENT"}
                     </button>
                   </div>
                 </div>
@@ -1007,49 +1542,40 @@ export default function App() {
                         borderRadius: "0",
                         overflowX: "auto"
                       }}>
-                        age,income,clientId
+                        age,income,clientId[,debtToIncome,employmentYears,obligations,delinquencies]
                       </pre>
+                      <div style={{ 
+                        color: "#a0a0ff", 
+                        marginTop: 10,
+                        fontSize: "0.9rem"
+                      }}>
+                        Paste rows or upload a CSV / XLSX file. A header row with these names is optional; uploaded columns can be mapped by hand. Quoted CSV values may contain commas.
+                      </div>
                       <div style={{ 
                         color: "#ff00c8", 
                         marginTop: 10,
                         fontSize: "0.9rem"
                       }}>
-                        Example: 35,50000,client-12345
+                        Example: 35,50000,client-12345,30,6,2,0
                       </div>
+                      {fheMode && (
+                        <div style={{
+                          color: "#a0a0ff",
+                          marginTop: 10,
+                          fontSize: "0.9rem"
+                        }}>
+                          FHE mode: income in whole USDT, sent {MAX_ENCRYPTED_BATCH_SIZE} clients per transaction
+                        </div>
+                      )}
                     </div>
                   </div>
                   
                   <div>
-                    <label style={{ 
-                      display: "block", 
-                      marginBottom: 8, 
-                      color: "#00f7ff",
-                      textTransform: "uppercase",
-                      letterSpacing: "1px",
-                      fontSize: "0.9rem"
-                    }}>
-                      CLIENT DATA (ONE PER LINE)
-                    </label>
-                    <textarea
-                      placeholder="Enter client data..."
-                      value={batchData}
-                      onChange={(e) => setBatchData(e.target.value)}
-                      rows={8}
-                      style={{ 
-                        width: "100%", 
-                        padding: "15px", 
-                        background: "rgba(0, 10, 30, 0.5)", 
-                        border: "1px solid rgba(0, 247, 255, 0.5)", 
-                        color: "#00f7ff",
-                        borderRadius: "0",
-                        fontSize: "1.1rem",
-                        fontFamily: "'Source Code Pro', monospace"
-                      }}
-                    />
+                    <BatchImport key={batchFormKey} fheMode={fheMode} ranges={activeInputRanges} onRowsChange={setBatchRows} />
                     
                     <button 
                       onClick={assessBatchClients}
-                      disabled={!account || !batchData}
+                      disabled={batchBlocked}
                       style={{ 
                         width: "100%",
                         padding: "15px", 
@@ -1065,18 +1591,51 @@ export default function App() {
                         transition: "all 0.3s ease",
                         position: "relative",
                         overflow: "hidden",
-                        opacity: (!account || !batchData) ? 0.5 : 1
+                        opacity: batchBlocked ? 0.5 : 1
                       }}
                     >
-                      PROCESS BATCH ASSESSMENT
+                      {activePaused ? "ASSESSMENTS PAUSED" : account && !canAssess ? "RISK OFFICER ROLE REQUIRED" : batchRunning ? "SUBMITTING BATCH..." : unfinishedBatchRun ? "RESUME OR DISCARD THE RUN BELOW" : validBatchRows.length > 0 ? `PROCESS ${validBatchRows.length} CLIENTS` : "PROCESS BATCH ASSESSMENT"}
                     </button>
                   </div>
                 </div>
+                {batchRun && (
+                  <BatchProgress
+                    run={batchRun}
+                    running={batchRunning}
+                    onResume={() => continueBatchRun(batchRun)}
+                    onDiscard={discardBatchRun}
+                  />
+                )}
+                <BatchPreview rows={batchRows} fheMode={fheMode} />
               </div>
             )}
           </div>
         </div>
 
+        {/* Admin Console */}
+        {account && (activeRoles.parameterAdmin || activeRoles.isOwner) && (
+          <AdminPanel
+            key={chainId}
+            account={account}
+            fheMode={fheMode}
+            roles={activeRoles}
+            provider={provider}
+            previewAssessments={fheMode
+              ? Object.values(decryptedResults)
+              : assessments.map(a => ({
+                  riskScore: BigInt(a.riskScore),
+                  approved: a.approved,
+                  creditLimit: BigInt(a.creditLimit),
+                  tier: a.tier
+                }))}
+            onParametersUpdated={fheMode ? loadEncryptedAssessments : loadAssessments}
+            onOwnershipTransferred={() => loadRoles(account)}
+          />
+        )}
+
+        {/* Indexed History */}
+        {indexerUrl && <IndexedHistory key={`${chainId}-${indexerUrl}`} indexerUrl={indexerUrl} fheMode={fheMode} />}
+
         {/* Results Section */}
         <section style={{ 
           background: "rgba(10, 15, 41, 0.7)",
@@ -1121,8 +1680,11 @@ export default function App() {
                 <div key={index} style={{ 
                   padding: "25px", 
                   background: "rgba(0, 10, 30, 0.5)",
-                  border: `1px solid ${assessment.approved ? "rgba(0, 255, 157, 0.5)" : "rgba(255, 0, 200, 0.5)"}`,
-                  boxShadow: `0 0 15px ${assessment.approved ? "rgba(0, 255, 157, 0.3)" : "rgba(255, 0, 200, 0.3)"}`,
+                  // overridden decisions get a dashed outline so they never pass for automated ones
+                  border: assessment.overridden
+                    ? `1px dashed ${OVERRIDE_COLOR}`
+                    : `1px solid ${assessment.approved ? "rgba(0, 255, 157, 0.5)" : "rgba(255, 0, 200, 0.5)"}`,
+                  boxShadow: `0 0 15px ${assessment.overridden ? "rgba(241, 250, 140, 0.3)" : assessment.approved ? "rgba(0, 255, 157, 0.3)" : "rgba(255, 0, 200, 0.3)"}`,
                   position: "relative",
                   overflow: "hidden"
                 }}>
@@ -1130,14 +1692,16 @@ export default function App() {
                     position: "absolute", 
                     top: 15, 
                     right: 15,
-                    background: assessment.approved ? "rgba(0, 255, 157, 0.2)" : "rgba(255, 0, 200, 0.2)",
-                    color: assessment.approved ? "#00ff9d" : "#ff00c8",
+                    background: assessment.overridden ? "rgba(241, 250, 140, 0.2)" : assessment.approved ? "rgba(0, 255, 157, 0.2)" : "rgba(255, 0, 200, 0.2)",
+                    color: assessment.overridden ? OVERRIDE_COLOR : assessment.approved ? "#00ff9d" : "#ff00c8",
                     padding: "5px 15px",
                     fontSize: "0.9rem",
                     textTransform: "uppercase",
                     letterSpacing: "1px"
                   }}>
-                    {assessment.approved ? "Approved" : "Not Approved"}
+                    {assessment.overridden
+                      ? `Overridden · ${assessment.approved ? "Approved" : "Not Approved"}`
+                      : assessment.approved ? `Approved · Tier ${tierLabel(assessment.tier)}` : "Not Approved"}
                   </div>
                   
                   <h4 style={{ 
@@ -1151,6 +1715,43 @@ export default function App() {
                   }}>
                     <FaUser /> {assessment.clientId}
                   </h4>
+
+                  {validity && (() => {
+                    const status = assessmentStatus(assessment.timestamp, validity);
+                    return needsReassessment(status) && (
+                      <div style={{
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "space-between",
+                        gap: 10,
+                        marginBottom: 20,
+                        padding: "8px 12px",
+                        border: `1px dashed ${STATUS_COLORS[status]}`,
+                        color: STATUS_COLORS[status]
+                      }}>
+                        <span style={{ textTransform: "uppercase", letterSpacing: "1px", fontSize: "0.9rem" }}>
+                          {STATUS_LABELS[status]} · {status === AssessmentStatus.Expired ? "since" : "expires"} {formatExpiry(assessment.timestamp, validity)}
+                        </span>
+                        <button
+                          onClick={() => startReassessment(assessment.clientId, false)}
+                          style={{
+                            padding: "4px 10px",
+                            background: "transparent",
+                            color: STATUS_COLORS[status],
+                            border: `1px solid ${STATUS_COLORS[status]}`,
+                            cursor: "pointer",
+                            display: "flex",
+                            alignItems: "center",
+                            gap: 6,
+                            textTransform: "uppercase",
+                            letterSpacing: "1px"
+                          }}
+                        >
+                          <FaRedo /> Re-assess
+                        </button>
+                      </div>
+                    );
+                  })()}
                   
                   <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 15 }}>
                     <div>
@@ -1222,11 +1823,123 @@ export default function App() {
                         {new Date(Number(assessment.timestamp) * 1000).toLocaleTimeString()}
                       </div>
                     </div>
+                    
+                    <div>
+                      <div style={{ 
+                        color: "#a0a0ff", 
+                        fontSize: "0.9rem",
+                        textTransform: "uppercase",
+                        letterSpacing: "1px"
+                      }}>
+                        Risk Tier
+                      </div>
+                      <div style={{ 
+                        color: TIER_COLORS[assessment.tier] ?? "#00f7ff", 
+                        fontSize: "1.5rem",
+                        fontWeight: "bold"
+                      }}>
+                        {tierLabel(assessment.tier)}
+                      </div>
+                    </div>
+                    
+                    <div>
+                      <div style={{ 
+                        color: "#a0a0ff", 
+                        fontSize: "0.9rem",
+                        textTransform: "uppercase",
+                        letterSpacing: "1px"
+                      }}>
+                        Suggested Rate
+                      </div>
+                      <div style={{ 
+                        color: "#00f7ff", 
+                        fontSize: "1.1rem"
+                      }}>
+                        {suggestedRate(assessment.tier)}
+                      </div>
+                    </div>
                   </div>
+
+                  <DecisionReview
+                    clientId={assessment.clientId}
+                    overridden={assessment.overridden}
+                    appealPending={pendingAppeals.has(assessment.clientId)}
+                    canFlag={!!account && roles.riskOfficer && !paused}
+                    canOverride={!!account && roles.seniorOfficer && !paused}
+                    onChanged={loadAssessments}
+                  />
+
+                  <button
+                    onClick={() => setExpandedTimeline(expandedTimeline === assessment.clientId ? null : assessment.clientId)}
+                    style={{
+                      marginTop: 20,
+                      padding: "8px 16px",
+                      background: "transparent",
+                      color: "#a0a0ff",
+                      border: "1px solid rgba(160, 160, 255, 0.5)",
+                      cursor: "pointer",
+                      display: "flex",
+                      alignItems: "center",
+                      gap: 8,
+                      textTransform: "uppercase",
+                      letterSpacing: "1px"
+                    }}
+                  >
+                    <FaHistory /> {expandedTimeline === assessment.clientId ? "Hide Timeline" : "Show Timeline"}
+                  </button>
+                  {expandedTimeline === assessment.clientId && (
+                    <AssessmentTimeline clientId={assessment.clientId} />
+                  )}
                 </div>
               ))}
             </div>
           )}
+
+          {isFheEnabled() && (
+            <>
+              <h3 style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 10,
+                marginTop: 40,
+                color: "#00ff9d",
+                fontFamily: "'Rajdhani', sans-serif",
+                fontSize: "1.4rem"
+              }}>
+                <FaLock /> ENCRYPTED ASSESSMENT RESULTS
+              </h3>
+              {encryptedAssessments.length === 0 ? (
+                <div style={{
+                  textAlign: "center",
+                  padding: "30px 0",
+                  color: "#a0a0ff",
+                  fontSize: "1.1rem"
+                }}>
+                  No encrypted assessments yet. Switch to FHE mode to submit one.
+                </div>
+              ) : (
+                <div style={{
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(350px, 1fr))",
+                  gap: 25,
+                  marginTop: 20
+                }}>
+                  {encryptedAssessments.map((assessment) => (
+                    <EncryptedAssessmentCard
+                      key={assessment.clientId}
+                      assessment={assessment}
+                      decrypted={decryptedResults[assessment.clientId]}
+                      decrypting={decryptingId === assessment.clientId}
+                      canDecrypt={!!account}
+                      onDecrypt={decryptAssessment}
+                      validity={fheValidity}
+                      onReassess={(clientId) => startReassessment(clientId, true)}
+                    />
+                  ))}
+                </div>
+              )}
+            </>
+          )}
         </section>
       </div>
 
@@ -0,0 +1,190 @@
+// batchImport.ts
+import { InputRanges, profileErrors } from "./inputRanges";
+
+// Fields of a batch row, in the order of the pasted format
+// age,income,clientId[,debtToIncome,employmentYears,obligations,delinquencies]
+export const BATCH_FIELDS = [
+  { key: "age", label: "Age", required: true, aliases: ["age"] },
+  { key: "income", label: "Income", required: true, aliases: ["income", "annualincome"] },
+  { key: "clientId", label: "Client ID", required: true, aliases: ["clientid", "customerid"] },
+  { key: "debtToIncome", label: "Debt-to-income", required: false, aliases: ["debttoincome", "dti"] },
+  { key: "employmentYears", label: "Employment years", required: false, aliases: ["employmentyears", "employment"] },
+  {
+    key: "existingObligations",
+    label: "Obligations",
+    required: false,
+    aliases: ["existingobligations", "obligations", "openloans"]
+  },
+  {
+    key: "delinquencyCount",
+    label: "Delinquencies",
+    required: false,
+    aliases: ["delinquencycount", "delinquencies", "pastdelinquencies"]
+  }
+] as const;
+
+export type BatchField = typeof BATCH_FIELDS[number]["key"];
+
+// source column index for each field, or null when the field is not in the file
+export type ColumnMapping = Record<BatchField, number | null>;
+
+export interface BatchSheet {
+  // column titles from the header row, or "Column N" when the data has none
+  columns: string[];
+  hasHeader: boolean;
+  rows: string[][];
+  // 1-based line of each row in the source, for error messages
+  lineNumbers: number[];
+}
+
+export interface BatchRow {
+  line: number;
+  values: Record<BatchField, string>;
+  errors: string[];
+}
+
+// Parse CSV text (RFC 4180: quoted fields may contain commas, quotes doubled as "" and line breaks).
+// Blank lines are dropped; each row keeps the line it started on.
+export function parseCsv(text: string): { rows: string[][]; lineNumbers: number[] } {
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) {
+      rows.push(row);
+      lineNumbers.push(rowLine);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return { rows, lineNumbers };
+}
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z]/g, "");
+
+// a header row names at least one known field
+function isHeaderRow(row: string[]) {
+  return row.some((cell) => BATCH_FIELDS.some((f) => (f.aliases as readonly string[]).includes(normalizeTitle(cell))));
+}
+
+// Split off a header row if there is one
+export function toBatchSheet(rows: string[][], lineNumbers: number[]): BatchSheet {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (rows.length > 0 && isHeaderRow(rows[0])) {
+    return {
+      columns: Array.from({ length: width }, (_, i) => rows[0][i]?.trim() || `Column ${i + 1}`),
+      hasHeader: true,
+      rows: rows.slice(1),
+      lineNumbers: lineNumbers.slice(1)
+    };
+  }
+  return { columns: Array.from({ length: width }, (_, i) => `Column ${i + 1}`), hasHeader: false, rows, lineNumbers };
+}
+
+// Read an uploaded .csv or .xlsx file; numbers are kept as text so incomes are not rounded
+export async function readBatchFile(file: File): Promise<BatchSheet> {
+  if (/\.xlsx$/i.test(file.name)) {
+    // only loaded when a spreadsheet is picked
+    const { readSheet } = await import("read-excel-file/browser");
+    const data = await readSheet<string>(file, { parseNumber: (value) => value });
+    const rows = data
+      .map((row) => row.map((cell) => (cell === null ? "" : String(cell))))
+      .filter((row) => row.some((cell) => cell.trim() !== ""));
+    // spreadsheet rows are counted from the top of the sheet, blank rows included
+    const lineNumbers = data
+      .map((row, i) => (row.some((cell) => cell !== null && String(cell).trim() !== "") ? i + 1 : 0))
+      .filter((line) => line > 0);
+    return toBatchSheet(rows, lineNumbers);
+  }
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+    const { rows, lineNumbers } = parseCsv(await file.text());
+    return toBatchSheet(rows, lineNumbers);
+  }
+  throw new Error("Upload a .csv or .xlsx file");
+}
+
+// Map fields to columns by header title, or by position for headerless data in the pasted format
+export function guessMapping(sheet: BatchSheet): ColumnMapping {
+  const titles = sheet.columns.map(normalizeTitle);
+  const mapping = {} as ColumnMapping;
+  BATCH_FIELDS.forEach((field, position) => {
+    if (sheet.hasHeader) {
+      const index = titles.findIndex((title) => (field.aliases as readonly string[]).includes(title));
+      mapping[field.key] = index >= 0 ? index : null;
+    } else {
+      mapping[field.key] = position < sheet.columns.length ? position : null;
+    }
+  });
+  return mapping;
+}
+
+// Check every row against what the selected contract accepts (see profileErrors); rows with errors are not submitted
+export function validateBatch(
+  sheet: BatchSheet,
+  mapping: ColumnMapping,
+  fheMode: boolean,
+  ranges: InputRanges | null
+): BatchRow[] {
+  const firstLineOfClient = new Map<string, number>();
+
+  return sheet.rows.map((row, i) => {
+    const values = {} as Record<BatchField, string>;
+    for (const field of BATCH_FIELDS) {
+      const column = mapping[field.key];
+      values[field.key] = column === null ? "" : (row[column] ?? "").trim();
+    }
+
+    const errors = BATCH_FIELDS.filter((field) => field.required && values[field.key] === "").map(
+      (field) => `${field.label} is missing`
+    );
+    errors.push(...profileErrors(values, fheMode, ranges));
+
+    const line = sheet.lineNumbers[i] ?? i + 1;
+    if (values.clientId !== "") {
+      const firstLine = firstLineOfClient.get(values.clientId);
+      if (firstLine !== undefined) {
+        errors.push(`Client ID already used on line ${firstLine}`);
+      } else {
+        firstLineOfClient.set(values.clientId, line);
+      }
+    }
+
+    return { line, values, errors };
+  });
+}
@@ -0,0 +1,184 @@
+// batchRun.ts
+import { ethers } from "ethers";
+import type { BatchRow } from "./batchImport";
+import { describeAssessmentError } from "./inputRanges";
+
+// Rows tried in the first chunk; a chunk is halved until its gas estimate fits MAX_CHUNK_GAS
+export const MAX_CHUNK_ROWS = 50;
+// well below the per-transaction gas cap, so a chunk still fits when blocks are busy
+export const MAX_CHUNK_GAS = 10_000_000n;
+
+// sending: waiting for the wallet; sent: waiting to be mined
+export type ChunkStatus = "sending" | "sent" | "confirmed" | "failed";
+
+// What the contract reported for one row via BatchItemAssessed / BatchItemFailed
+export interface RowOutcome {
+  line: number;
+  clientId: string;
+  ok: boolean;
+  reason?: string;
+}
+
+// One transaction of a run, covering rows[start, end)
+export interface BatchChunk {
+  start: number;
+  end: number;
+  status: ChunkStatus;
+  txHash?: string;
+  // batch ID the contract assigned to this chunk, for getBatchOutcome
+  batchId?: string;
+  error?: string;
+  outcomes?: RowOutcome[];
+}
+
+// A batch submission split into chunks, saved after every step so an interrupted run can be resumed
+export interface BatchRun {
+  key: string;
+  fhe: boolean;
+  rows: BatchRow[];
+  chunks: BatchChunk[];
+  startedAt: number;
+}
+
+// How a run talks to the plaintext or FHE contract
+export interface BatchSubmitter {
+  contract: ethers.BaseContract;
+  // number of rows for the chunk starting at `start`; `previous` is the size of the chunk before it
+  chunkSize(rows: BatchRow[], start: number, previous?: number): Promise<number>;
+  send(rows: BatchRow[]): Promise<ethers.ContractTransactionResponse>;
+}
+
+// runs are kept per chain, contract and account
+export const batchRunKey = (chainId: number, contractAddress: string, account: string) =>
+  `riskcontrol:batch-run:${chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+
+export function loadBatchRun(key: string): BatchRun | null {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    const run: BatchRun = JSON.parse(stored);
+    // the page was closed while the wallet was open, so that chunk was never sent
+    return {
+      ...run,
+      chunks: run.chunks.map((chunk) =>
+        chunk.status === "sending" ? { ...chunk, status: "failed", error: "Interrupted before it was sent" } : chunk
+      )
+    };
+  } catch (e) {
+    console.warn("Ignoring unreadable batch run", e);
+    return null;
+  }
+}
+
+export function saveBatchRun(run: BatchRun) {
+  localStorage.setItem(run.key, JSON.stringify(run));
+}
+
+export function clearBatchRun(key: string) {
+  localStorage.removeItem(key);
+}
+
+export function createBatchRun(key: string, fhe: boolean, rows: BatchRow[]): BatchRun {
+  const run = { key, fhe, rows, chunks: [], startedAt: Date.now() };
+  saveBatchRun(run);
+  return run;
+}
+
+// first row not covered by a chunk yet
+const nextStart = (run: BatchRun) => run.chunks[run.chunks.length - 1]?.end ?? 0;
+
+export function processedRows(run: BatchRun) {
+  return run.chunks.reduce((sum, chunk) => sum + (chunk.status === "confirmed" ? chunk.end - chunk.start : 0), 0);
+}
+
+export function isRunComplete(run: BatchRun) {
+  return nextStart(run) === run.rows.length && run.chunks.every((chunk) => chunk.status === "confirmed");
+}
+
+// Halve the chunk until its gas estimate fits; a single row is always tried
+export async function fitChunkToGas(
+  rows: BatchRow[],
+  start: number,
+  previous: number | undefined,
+  estimateGas: (rows: BatchRow[]) => Promise<bigint>
+) {
+  let size = Math.min(previous ?? MAX_CHUNK_ROWS, rows.length - start);
+  while (size > 1 && (await estimateGas(rows.slice(start, start + size))) > MAX_CHUNK_GAS) {
+    size = Math.ceil(size / 2);
+  }
+  return size;
+}
+
+// batch ID and per-row outcomes of a mined chunk, mapped back to the source lines
+function chunkOutcomes(contract: ethers.BaseContract, receipt: ethers.TransactionReceipt, rows: BatchRow[]) {
+  let batchId: string | undefined;
+  const outcomes: RowOutcome[] = [];
+  for (const log of receipt.logs) {
+    const event = contract.interface.parseLog(log);
+    if (event?.name === "BatchAssessmentPerformed") batchId = event.args.batchId.toString();
+    if (event?.name !== "BatchItemAssessed" && event?.name !== "BatchItemFailed") continue;
+    const row = rows[Number(event.args.index)];
+    outcomes.push({
+      line: row?.line ?? Number(event.args.index) + 1,
+      clientId: event.args.clientId,
+      ok: event.name === "BatchItemAssessed",
+      reason: event.name === "BatchItemFailed" ? event.args.reason : undefined
+    });
+  }
+  return { batchId, outcomes };
+}
+
+// Send the run's remaining chunks one after another. Chunks already sent are awaited and failed ones retried
+// first. Throws on the first chunk that cannot be sent or reverts; the saved run can then be resumed.
+export async function runBatch(run: BatchRun, submitter: BatchSubmitter, onUpdate: (run: BatchRun) => void) {
+  let current = run;
+  const setChunks = (chunks: BatchChunk[]) => {
+    current = { ...current, chunks };
+    saveBatchRun(current);
+    onUpdate(current);
+  };
+  const setChunk = (index: number, patch: Partial<BatchChunk>) =>
+    setChunks(current.chunks.map((chunk, i) => (i === index ? { ...chunk, ...patch } : chunk)));
+  const chunkRows = (index: number) => current.rows.slice(current.chunks[index].start, current.chunks[index].end);
+
+  const settle = async (index: number, txHash: string) => {
+    const receipt = await submitter.contract.runner!.provider!.waitForTransaction(txHash);
+    if (!receipt || receipt.status !== 1) {
+      setChunk(index, { status: "failed", error: "Transaction reverted" });
+      throw new Error(`Transaction ${txHash} reverted`);
+    }
+    setChunk(index, { status: "confirmed", ...chunkOutcomes(submitter.contract, receipt, chunkRows(index)) });
+  };
+
+  const submit = async (index: number) => {
+    setChunk(index, { status: "sending", error: undefined });
+    let tx: ethers.ContractTransactionResponse;
+    try {
+      tx = await submitter.send(chunkRows(index));
+    } catch (e: any) {
+      setChunk(index, { status: "failed", error: describeAssessmentError(e) });
+      throw e;
+    }
+    setChunk(index, { status: "sent", txHash: tx.hash });
+    await settle(index, tx.hash);
+  };
+
+  for (let i = 0; i < current.chunks.length; i++) {
+    const chunk = current.chunks[i];
+    if (chunk.status === "sent" && chunk.txHash) {
+      await settle(i, chunk.txHash);
+    } else if (chunk.status !== "confirmed") {
+      await submit(i);
+    }
+  }
+
+  while (nextStart(current) < current.rows.length) {
+    const start = nextStart(current);
+    const previous = current.chunks[current.chunks.length - 1];
+    const size = await submitter.chunkSize(current.rows, start, previous && previous.end - previous.start);
+    setChunks([...current.chunks, { start, end: start + size, status: "sending" }]);
+    await submit(current.chunks.length - 1);
+  }
+
+  return current;
+}
@@ -0,0 +1,577 @@
+// AdminPanel.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { FaClock, FaCog, FaLock, FaLockOpen, FaUserShield } from 'react-icons/fa';
+import {
+  getContractReadOnly,
+  getContractWithSigner,
+  getFheContractReadOnly,
+  getFheContractWithSigner,
+  normAddr,
+  requireDeployment,
+  Roles
+} from '../contract';
+import { EncryptedTierHandles, encryptRiskTiers, userDecryptRiskTiers } from '../fhe';
+import {
+  DECLINE_TIER,
+  TIER_COLORS,
+  TIER_LABELS,
+  TierConfig,
+  asTierTuple,
+  formatCreditCap,
+  formatRateBand,
+  maxRiskScore,
+  tierForScore,
+  tierLabel,
+  toTierConfig
+} from '../tiers';
+import { SECONDS_PER_DAY, ValidityConfig, loadValidityConfig } from '../expiry';
+
+// Upper bound on the credit multiplier, keeping encrypted credit limits well inside 32 bits
+const MAX_INCOME_MULTIPLIER = 100;
+
+export interface PreviewAssessment {
+  riskScore: bigint;
+  approved: boolean;
+  creditLimit: bigint;
+  // RiskTier of the result, when known
+  tier?: number;
+}
+
+// Tier form values: credit cap in USDT, interest rates in percent
+type TierDraft = Record<keyof TierConfig, string>;
+
+interface AdminPanelProps {
+  account: string;
+  fheMode: boolean;
+  roles: Roles;
+  provider: ethers.BrowserProvider | null;
+  // latest assessments visible in this session, used to preview a parameter change
+  previewAssessments: PreviewAssessment[];
+  onParametersUpdated: () => void;
+  onOwnershipTransferred: () => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  color: '#a0a0ff',
+  fontSize: '0.9rem',
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  marginBottom: 8
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '12px',
+  background: 'rgba(0, 10, 30, 0.5)',
+  border: '1px solid rgba(0, 247, 255, 0.5)',
+  color: '#00f7ff',
+  fontSize: '1.1rem',
+  boxSizing: 'border-box'
+};
+
+const buttonStyle = (enabled: boolean, color = '#00f7ff'): React.CSSProperties => ({
+  padding: '12px 20px',
+  background: 'transparent',
+  color,
+  border: `1px solid ${color}`,
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  opacity: enabled ? 1 : 0.5
+});
+
+// credit caps are kept in 6-decimal USDT units by RiskControl and in whole USDT by RiskControlFHE
+const toTierDraft = (tier: TierConfig, creditDecimals: number): TierDraft => ({
+  minScore: tier.minScore.toString(),
+  incomeMultiplier: tier.incomeMultiplier.toString(),
+  maxCreditLimit: ethers.formatUnits(tier.maxCreditLimit, creditDecimals),
+  minInterestRate: ethers.formatUnits(tier.minInterestRate, 2),
+  maxInterestRate: ethers.formatUnits(tier.maxInterestRate, 2)
+});
+
+// returns the tiers from D to A in contract units, or an error message. maxScore is the highest score
+// the scoring factors can produce, or null when they are encrypted
+function parseTierDrafts(drafts: TierDraft[], creditDecimals: number, maxScore: bigint | null): TierConfig[] | string {
+  const creditPattern = creditDecimals > 0 ? new RegExp(`^\\d+(\\.\\d{1,${creditDecimals}})?$`) : /^\d+$/;
+  const parsed: TierConfig[] = [];
+  for (let i = 0; i < drafts.length; i++) {
+    const draft = drafts[i];
+    const name = `Tier ${tierLabel(i + 1)}`;
+    if (!/^\d+$/.test(draft.minScore) || !/^\d+$/.test(draft.incomeMultiplier)) {
+      return `${name}: minimum score and multiplier must be whole numbers`;
+    }
+    if (!creditPattern.test(draft.maxCreditLimit)) {
+      return creditDecimals > 0 ? `${name}: credit cap must be a USDT amount` : `${name}: credit cap must be whole USDT`;
+    }
+    if (!/^\d+(\.\d{1,2})?$/.test(draft.minInterestRate) || !/^\d+(\.\d{1,2})?$/.test(draft.maxInterestRate)) {
+      return `${name}: interest rates must be percentages with at most 2 decimals`;
+    }
+
+    const tier: TierConfig = {
+      minScore: BigInt(draft.minScore),
+      incomeMultiplier: BigInt(draft.incomeMultiplier),
+      maxCreditLimit: ethers.parseUnits(draft.maxCreditLimit, creditDecimals),
+      minInterestRate: ethers.parseUnits(draft.minInterestRate, 2),
+      maxInterestRate: ethers.parseUnits(draft.maxInterestRate, 2)
+    };
+    if (maxScore !== null && tier.minScore > maxScore) {
+      return `${name}: minimum score must be between 0 and ${maxScore}, the highest score the factors produce`;
+    }
+    if (i > 0 && tier.minScore <= parsed[i - 1].minScore) {
+      return `${name}: minimum score must be above tier ${tierLabel(i)}'s`;
+    }
+    if (tier.incomeMultiplier < 1n || tier.incomeMultiplier > BigInt(MAX_INCOME_MULTIPLIER)) {
+      return `${name}: income multiplier must be between 1 and ${MAX_INCOME_MULTIPLIER}`;
+    }
+    if (tier.maxInterestRate > 10000n) {
+      return `${name}: interest rates cannot exceed 100%`;
+    }
+    if (tier.minInterestRate > tier.maxInterestRate) {
+      return `${name}: the minimum interest rate is above the maximum`;
+    }
+    parsed.push(tier);
+  }
+  return parsed;
+}
+
+const sameTiers = (a: TierConfig[], b: TierConfig[]) =>
+  a.length === b.length && a.every((tier, i) =>
+    (Object.keys(tier) as (keyof TierConfig)[]).every(key => tier[key] === b[i][key]));
+
+// Re-tier existing results by score. Monthly income is recovered from the stored credit limit,
+// so limits that hit a tier cap understate the income and the credit estimate is a lower bound
+function previewTierChange(assessments: PreviewAssessment[], current: TierConfig[], next: TierConfig[]) {
+  let newlyApproved = 0;
+  let newlyRejected = 0;
+  let upgraded = 0;
+  let downgraded = 0;
+  let creditBefore = 0n;
+  let creditAfter = 0n;
+  for (const a of assessments) {
+    const tierBefore = a.tier ?? tierForScore(a.riskScore, current);
+    const tierAfter = tierForScore(a.riskScore, next);
+    if (tierBefore === DECLINE_TIER) {
+      if (tierAfter !== DECLINE_TIER) newlyApproved++;
+      continue;
+    }
+
+    creditBefore += a.creditLimit;
+    if (tierAfter === DECLINE_TIER) {
+      newlyRejected++;
+      continue;
+    }
+    if (tierAfter > tierBefore) upgraded++;
+    if (tierAfter < tierBefore) downgraded++;
+
+    const multiplierBefore = current[tierBefore - 1].incomeMultiplier;
+    const { incomeMultiplier, maxCreditLimit } = next[tierAfter - 1];
+    const credit = multiplierBefore > 0n ? a.creditLimit * incomeMultiplier / multiplierBefore : 0n;
+    creditAfter += credit > maxCreditLimit ? maxCreditLimit : credit;
+  }
+
+  return { newlyApproved, newlyRejected, upgraded, downgraded, creditBefore, creditAfter };
+}
+
+export default function AdminPanel({
+  account,
+  fheMode,
+  roles,
+  provider,
+  previewAssessments,
+  onParametersUpdated,
+  onOwnershipTransferred
+}: AdminPanelProps) {
+  const [tiers, setTiers] = useState<TierConfig[] | null>(null);
+  const [tierHandles, setTierHandles] = useState<EncryptedTierHandles[] | null>(null);
+  const [maxScore, setMaxScore] = useState<bigint | null>(null);
+  const [validity, setValidity] = useState<ValidityConfig | null>(null);
+  const [validityDays, setValidityDays] = useState('');
+  const [renewalDays, setRenewalDays] = useState('');
+  const [tierDrafts, setTierDrafts] = useState<TierDraft[]>([]);
+  const [newOwner, setNewOwner] = useState('');
+  const [confirmingTransfer, setConfirmingTransfer] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const creditDecimals = fheMode ? 0 : 6;
+
+  // plaintext tiers are public; encrypted ones have to be decrypted by an admin first
+  const loadParameters = async () => {
+    setTiers(null);
+    setTierHandles(null);
+    setMaxScore(null);
+    setTierDrafts([]);
+    setValidity(null);
+    try {
+      const readOnly = fheMode ? await getFheContractReadOnly() : await getContractReadOnly();
+      const loadedValidity = await loadValidityConfig(readOnly);
+      setValidity(loadedValidity);
+      setValidityDays((loadedValidity.validityPeriod / SECONDS_PER_DAY).toString());
+      setRenewalDays((loadedValidity.renewalWindow / SECONDS_PER_DAY).toString());
+
+      if (fheMode) {
+        const contract = await getFheContractReadOnly();
+        const handles: EncryptedTierHandles[] = [];
+        for (let tier = 1; tier <= TIER_LABELS.length - 1; tier++) {
+          const encrypted = await contract.getEncryptedRiskTier(tier);
+          handles.push({
+            minScore: encrypted.minScore,
+            incomeMultiplier: encrypted.incomeMultiplier,
+            maxCreditLimit: encrypted.maxCreditLimit,
+            minInterestRate: encrypted.minInterestRate,
+            maxInterestRate: encrypted.maxInterestRate
+          });
+        }
+        setTierHandles(handles);
+      } else {
+        const contract = await getContractReadOnly();
+        const params = await contract.getRiskParameters();
+        const loaded: TierConfig[] = params.tiers.map(toTierConfig);
+        setTiers(loaded);
+        setMaxScore(maxRiskScore(params.factors));
+        setTierDrafts(loaded.map(tier => toTierDraft(tier, 6)));
+      }
+    } catch (e) {
+      console.error('Failed to load risk tiers', e);
+    }
+  };
+
+  useEffect(() => {
+    loadParameters();
+    setConfirmingTransfer(false);
+  }, [fheMode]);
+
+  const decryptTiers = async () => {
+    if (!provider || !tierHandles) return;
+    setBusy(true);
+    try {
+      const signer = await provider.getSigner();
+      const decrypted = await userDecryptRiskTiers(requireDeployment().fheContractAddress, signer, tierHandles);
+      setTiers(decrypted);
+      setTierDrafts(decrypted.map(tier => toTierDraft(tier, 0)));
+    } catch (e: any) {
+      console.error('Failed to decrypt risk tiers', e);
+      alert('Decryption failed: ' + (e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatCredit = (amount: bigint) => ethers.formatUnits(amount, creditDecimals);
+
+  const parsedTiers = tierDrafts.length > 0 ? parseTierDrafts(tierDrafts, creditDecimals, maxScore) : null;
+  const tierError = typeof parsedTiers === 'string' ? parsedTiers : null;
+  const nextTiers = Array.isArray(parsedTiers) ? parsedTiers : null;
+  const tiersChanged = !!tiers && !!nextTiers && !sameTiers(tiers, nextTiers);
+  const tierPreview = tiersChanged ? previewTierChange(previewAssessments, tiers!, nextTiers!) : null;
+
+  const setTierDraft = (index: number, key: keyof TierConfig, value: string) =>
+    setTierDrafts(tierDrafts.map((draft, i) => i === index ? { ...draft, [key]: value } : draft));
+
+  const updateTiers = async () => {
+    if (!nextTiers) { alert(tierError); return; }
+    setBusy(true);
+    try {
+      let tx;
+      if (fheMode) {
+        const { contract, signer } = await getFheContractWithSigner();
+        const encrypted = await encryptRiskTiers(requireDeployment().fheContractAddress, await signer.getAddress(), nextTiers);
+        tx = await contract.updateRiskTiersEncrypted(asTierTuple(encrypted.tiers), encrypted.inputProof);
+      } else {
+        const contract = await getContractWithSigner();
+        tx = await contract.updateRiskTiers(asTierTuple(nextTiers));
+      }
+      console.log('Tier update transaction sent:', tx.hash);
+      await tx.wait();
+      alert('Risk tiers updated');
+      await loadParameters();
+      onParametersUpdated();
+    } catch (e: any) {
+      console.error('Failed to update risk tiers', e);
+      alert('Failed to update risk tiers: ' + (e?.reason || e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const validityError = !/^\d+$/.test(validityDays) || !/^\d+$/.test(renewalDays)
+    ? 'Both periods must be whole days'
+    : Number(validityDays) < 1 ? 'Assessments must stay valid for at least one day'
+    : Number(renewalDays) > Number(validityDays) ? 'The renewal window cannot exceed the validity period'
+    : null;
+  const validityChanged = !!validity && !validityError && (
+    BigInt(validityDays) * SECONDS_PER_DAY !== validity.validityPeriod ||
+    BigInt(renewalDays) * SECONDS_PER_DAY !== validity.renewalWindow
+  );
+
+  const updateValidity = async () => {
+    if (validityError) { alert(validityError); return; }
+    setBusy(true);
+    try {
+      const contract = fheMode ? (await getFheContractWithSigner()).contract : await getContractWithSigner();
+      const tx = await contract.setValidityPeriod(
+        BigInt(validityDays) * SECONDS_PER_DAY,
+        BigInt(renewalDays) * SECONDS_PER_DAY
+      );
+      console.log('Validity period update transaction sent:', tx.hash);
+      await tx.wait();
+      alert('Validity period updated');
+      await loadParameters();
+      onParametersUpdated();
+    } catch (e: any) {
+      console.error('Failed to update validity period', e);
+      alert('Failed to update validity period: ' + (e?.reason || e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const transferError = !newOwner
+    ? null
+    : !ethers.isAddress(newOwner) ? 'Not a valid address'
+    : newOwner === ethers.ZeroAddress ? 'New owner cannot be the zero address'
+    : normAddr(newOwner) === normAddr(account) ? 'This wallet already owns the contract'
+    : null;
+
+  const transferOwnership = async () => {
+    setBusy(true);
+    try {
+      const contract = fheMode ? (await getFheContractWithSigner()).contract : await getContractWithSigner();
+      const tx = await contract.transferOwnership(ethers.getAddress(newOwner));
+      console.log('Ownership transfer transaction sent:', tx.hash);
+      await tx.wait();
+      alert('Ownership transferred to ' + newOwner);
+      setNewOwner('');
+      setConfirmingTransfer(false);
+      onOwnershipTransferred();
+    } catch (e: any) {
+      console.error('Failed to transfer ownership', e);
+      alert('Failed to transfer ownership: ' + (e?.reason || e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{
+      background: 'rgba(10, 15, 41, 0.7)',
+      backdropFilter: 'blur(10px)',
+      border: '1px solid rgba(255, 0, 200, 0.3)',
+      borderRadius: '5px',
+      boxShadow: '0 0 30px rgba(255, 0, 200, 0.2)',
+      marginBottom: 50,
+      padding: '30px'
+    }}>
+      <h3 style={{
+        color: '#ff00c8',
+        marginTop: 0,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        fontSize: '1.8rem',
+        textTransform: 'uppercase',
+        letterSpacing: '2px'
+      }}>
+        <FaCog /> Admin Console
+        <span style={{ fontSize: '0.9rem', color: '#a0a0ff', letterSpacing: '1px' }}>
+          ({fheMode ? 'RiskControlFHE' : 'RiskControl'})
+        </span>
+      </h3>
+
+      {/* Current Tiers */}
+      <div style={{ marginBottom: 30 }}>
+        <div style={{ display: 'grid', gridTemplateColumns: '0.6fr 1fr 1fr 1.4fr 1.4fr', gap: 10, ...labelStyle }}>
+          <div>Tier</div>
+          <div>Score Band</div>
+          <div>Multiplier</div>
+          <div>Max Credit (USDT)</div>
+          <div>Interest Rate</div>
+        </div>
+        {tiers ? [...tiers.keys()].reverse().map(i => (
+          <div
+            key={i}
+            style={{ display: 'grid', gridTemplateColumns: '0.6fr 1fr 1fr 1.4fr 1.4fr', gap: 10, color: '#e0e0ff', padding: '6px 0' }}
+          >
+            <div style={{ color: TIER_COLORS[i + 1], fontWeight: 'bold' }}>{tierLabel(i + 1)}</div>
+            <div>{i + 1 < tiers.length ? `${tiers[i].minScore} - ${tiers[i + 1].minScore - 1n}` : `${tiers[i].minScore}+`}</div>
+            <div>{tiers[i].incomeMultiplier.toString()}x</div>
+            <div>{formatCreditCap(tiers[i], creditDecimals)}</div>
+            <div>{formatRateBand(tiers[i])}</div>
+          </div>
+        )) : fheMode ? (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 20, color: 'rgba(0, 247, 255, 0.4)', padding: '6px 0' }}>
+            <span style={{ letterSpacing: '3px' }}>••••••</span>
+            <button
+              onClick={decryptTiers}
+              disabled={!tierHandles || busy}
+              style={{ ...buttonStyle(!!tierHandles && !busy), display: 'flex', alignItems: 'center', gap: 8 }}
+            >
+              <FaLockOpen /> Decrypt Tiers
+            </button>
+          </div>
+        ) : (
+          <div style={{ color: '#a0a0ff' }}>-</div>
+        )}
+        {tiers && (
+          <div style={{ color: TIER_COLORS[DECLINE_TIER], padding: '6px 0' }}>
+            {tierLabel(DECLINE_TIER)}: scores below {tiers[0].minScore.toString()}
+          </div>
+        )}
+      </div>
+
+      {/* Update Tiers */}
+      {roles.parameterAdmin && tiers && (
+        <div style={{ marginBottom: 30 }}>
+          <div style={{ ...labelStyle, color: '#00f7ff', fontSize: '1.1rem' }}>
+            {fheMode && <FaLock />} Update Risk Tiers
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '0.6fr 1fr 1fr 1.4fr 1fr 1fr', gap: 10, ...labelStyle }}>
+            <div>Tier</div>
+            <div>Min Score</div>
+            <div>Multiplier (1-{MAX_INCOME_MULTIPLIER})</div>
+            <div>Max Credit (USDT)</div>
+            <div>Min Rate (%)</div>
+            <div>Max Rate (%)</div>
+          </div>
+          {tierDrafts.map((draft, i) => (
+            <div key={i} style={{ display: 'grid', gridTemplateColumns: '0.6fr 1fr 1fr 1.4fr 1fr 1fr', gap: 10, marginBottom: 10 }}>
+              <div style={{ color: TIER_COLORS[i + 1], fontWeight: 'bold', alignSelf: 'center' }}>{tierLabel(i + 1)}</div>
+              {(Object.keys(draft) as (keyof TierConfig)[]).map(key => (
+                <input
+                  key={key}
+                  type="number"
+                  value={draft[key]}
+                  onChange={e => setTierDraft(i, key, e.target.value)}
+                  style={{ ...inputStyle, padding: '8px', fontSize: '1rem' }}
+                />
+              ))}
+            </div>
+          ))}
+
+          {tierError && (
+            <div style={{ color: '#ff00c8', marginTop: 10 }}>{tierError}</div>
+          )}
+
+          {tierPreview && (
+            <div style={{
+              marginTop: 15,
+              padding: '15px',
+              border: '1px dashed rgba(0, 247, 255, 0.4)',
+              color: '#e0e0ff',
+              lineHeight: 1.6
+            }}>
+              <div style={labelStyle}>Preview on {previewAssessments.length} loaded assessments</div>
+              <div>Would become approved: <span style={{ color: '#00ff9d' }}>{tierPreview.newlyApproved}</span></div>
+              <div>Would be declined: <span style={{ color: '#ff00c8' }}>{tierPreview.newlyRejected}</span></div>
+              <div>Move up a tier: <span style={{ color: '#00ff9d' }}>{tierPreview.upgraded}</span></div>
+              <div>Move down a tier: <span style={{ color: '#ff00c8' }}>{tierPreview.downgraded}</span></div>
+              <div>
+                Credit of currently approved clients: {formatCredit(tierPreview.creditBefore)} USDT → at least {formatCredit(tierPreview.creditAfter)} USDT
+                {tierPreview.newlyApproved > 0 && ' (plus newly approved clients once re-assessed)'}
+              </div>
+              <div style={{ color: '#a0a0ff', fontSize: '0.9rem', marginTop: 5 }}>
+                Stored results are not recalculated; new tiers apply to future assessments.
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={updateTiers}
+            disabled={!tiersChanged || busy}
+            style={{ ...buttonStyle(tiersChanged && !busy), marginTop: 15 }}
+          >
+            {busy ? 'Submitting...' : fheMode ? 'Encrypt & Update Tiers' : 'Update Tiers'}
+          </button>
+        </div>
+      )}
+
+      {/* Assessment Validity */}
+      {validity && (
+        <div style={{ marginBottom: 30 }}>
+          <div style={{ ...labelStyle, color: '#00f7ff', fontSize: '1.1rem' }}>
+            <FaClock /> Assessment Validity
+          </div>
+          <div style={{ color: '#e0e0ff', marginBottom: 15 }}>
+            Results expire {(validity.validityPeriod / SECONDS_PER_DAY).toString()} days after assessment and are
+            flagged for renewal {(validity.renewalWindow / SECONDS_PER_DAY).toString()} days before.
+          </div>
+          {roles.parameterAdmin && (
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 20 }}>
+                <div>
+                  <div style={labelStyle}>Validity Period (days)</div>
+                  <input type="number" value={validityDays} onChange={e => setValidityDays(e.target.value)} style={inputStyle} />
+                </div>
+                <div>
+                  <div style={labelStyle}>Renewal Window (days)</div>
+                  <input type="number" value={renewalDays} onChange={e => setRenewalDays(e.target.value)} style={inputStyle} />
+                </div>
+              </div>
+              {validityError && (
+                <div style={{ color: '#ff00c8', marginTop: 10 }}>{validityError}</div>
+              )}
+              <button
+                onClick={updateValidity}
+                disabled={!validityChanged || busy}
+                style={{ ...buttonStyle(validityChanged && !busy), marginTop: 15 }}
+              >
+                {busy ? 'Submitting...' : 'Update Validity'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Ownership Transfer */}
+      {roles.isOwner && (
+        <div>
+          <div style={{ ...labelStyle, color: '#ff00c8', fontSize: '1.1rem' }}>
+            <FaUserShield /> Transfer Ownership
+          </div>
+          <input
+            type="text"
+            placeholder="0x..."
+            value={newOwner}
+            onChange={e => { setNewOwner(e.target.value.trim()); setConfirmingTransfer(false); }}
+            style={inputStyle}
+          />
+          {transferError && (
+            <div style={{ color: '#ff00c8', marginTop: 10 }}>{transferError}</div>
+          )}
+
+          {!confirmingTransfer ? (
+            <button
+              onClick={() => setConfirmingTransfer(true)}
+              disabled={!newOwner || !!transferError || busy}
+              style={{ ...buttonStyle(!!newOwner && !transferError && !busy, '#ff00c8'), marginTop: 15 }}
+            >
+              Review Transfer
+            </button>
+          ) : (
+            <div style={{
+              marginTop: 15,
+              padding: '15px',
+              border: '1px solid #ff00c8',
+              background: 'rgba(255, 0, 200, 0.05)'
+            }}>
+              <div style={{ color: '#e0e0ff', marginBottom: 15 }}>
+                Transfer ownership of {fheMode ? 'RiskControlFHE' : 'RiskControl'} to{' '}
+                <span style={{ color: '#ff00c8', fontFamily: "'Source Code Pro', monospace" }}>{newOwner}</span>?
+                This wallet will lose every owner privilege, including role management, and cannot undo the transfer.
+              </div>
+              <div style={{ display: 'flex', gap: 15 }}>
+                <button onClick={transferOwnership} disabled={busy} style={buttonStyle(!busy, '#ff00c8')}>
+                  {busy ? 'Transferring...' : 'Confirm Transfer'}
+                </button>
+                <button onClick={() => setConfirmingTransfer(false)} disabled={busy} style={buttonStyle(!busy, '#a0a0ff')}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
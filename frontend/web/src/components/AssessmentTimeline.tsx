@@ -0,0 +1,130 @@
+// AssessmentTimeline.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getContractReadOnly } from '../contract';
+import { TIER_COLORS, tierLabel } from '../tiers';
+import { OVERRIDE_COLOR } from './DecisionReview';
+
+interface AssessmentRecord {
+  index: number;
+  creditLimit: bigint;
+  riskScore: bigint;
+  approved: boolean;
+  tier: number;
+  overridden: boolean;
+  timestamp: bigint;
+}
+
+interface AssessmentTimelineProps {
+  clientId: string;
+}
+
+const PAGE_SIZE = 10;
+
+export default function AssessmentTimeline({ clientId }: AssessmentTimelineProps) {
+  const [records, setRecords] = useState<AssessmentRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // newest records first: page backwards from the end of the on-chain history
+  const loadPage = async (loaded: number) => {
+    setLoading(true);
+    try {
+      const contract = await getContractReadOnly();
+      const length = Number(await contract.getAssessmentHistoryLength(clientId));
+      const end = length - loaded;
+      if (end <= 0) {
+        setTotal(length);
+        return;
+      }
+      const offset = Math.max(0, end - PAGE_SIZE);
+      const page = await contract.getAssessmentHistory(clientId, offset, end - offset);
+
+      const pageRecords: AssessmentRecord[] = page.map((r: any, i: number) => ({
+        index: offset + i,
+        creditLimit: r.creditLimit,
+        riskScore: r.riskScore,
+        approved: r.approved,
+        tier: Number(r.tier),
+        overridden: r.overridden,
+        timestamp: r.timestamp
+      })).reverse();
+
+      setTotal(length);
+      setRecords(prev => loaded === 0 ? pageRecords : [...prev, ...pageRecords]);
+    } catch (e) {
+      console.error(`Failed to load assessment history for ${clientId}`, e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPage(0);
+  }, [clientId]);
+
+  return (
+    <div style={{
+      marginTop: 20,
+      paddingTop: 15,
+      borderTop: '1px solid rgba(0, 247, 255, 0.3)'
+    }}>
+      <div style={{
+        color: '#a0a0ff',
+        fontSize: '0.9rem',
+        textTransform: 'uppercase',
+        letterSpacing: '1px',
+        marginBottom: 10
+      }}>
+        Assessment Timeline ({total})
+      </div>
+
+      {records.map(record => (
+        <div key={record.index} style={{
+          display: 'grid',
+          gridTemplateColumns: '40px 1fr 60px 70px 1fr',
+          gap: 10,
+          alignItems: 'center',
+          padding: '8px 0',
+          borderLeft: `2px solid ${record.approved ? '#00ff9d' : '#ff00c8'}`,
+          paddingLeft: 10,
+          marginBottom: 6,
+          fontSize: '0.95rem'
+        }}>
+          <span style={{ color: '#a0a0ff' }}>#{record.index + 1}</span>
+          <span style={{ color: '#e0e0ff' }}>
+            {new Date(Number(record.timestamp) * 1000).toLocaleString()}
+          </span>
+          <span style={{ color: '#00f7ff', fontWeight: 'bold' }}>{record.riskScore.toString()}</span>
+          <span style={{ color: TIER_COLORS[record.tier] }}>{tierLabel(record.tier)}</span>
+          <span style={{ color: record.overridden ? OVERRIDE_COLOR : record.approved ? '#00ff9d' : '#ff00c8' }}>
+            {record.approved ? `${ethers.formatUnits(record.creditLimit, 6)} USDT` : 'Not Approved'}
+            {record.overridden && ' (override)'}
+          </span>
+        </div>
+      ))}
+
+      {records.length < total && (
+        <button
+          onClick={() => loadPage(records.length)}
+          disabled={loading}
+          style={{
+            marginTop: 10,
+            padding: '8px 16px',
+            background: 'transparent',
+            color: '#00f7ff',
+            border: '1px solid rgba(0, 247, 255, 0.5)',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            textTransform: 'uppercase',
+            letterSpacing: '1px'
+          }}
+        >
+          {loading ? 'Loading...' : 'Load older'}
+        </button>
+      )}
+      {loading && records.length === 0 && (
+        <div style={{ color: '#a0a0ff' }}>Loading...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+// BatchImport.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { FaCheck, FaFileUpload, FaTimes } from 'react-icons/fa';
+import {
+  BATCH_FIELDS,
+  BatchRow,
+  BatchSheet,
+  ColumnMapping,
+  guessMapping,
+  parseCsv,
+  readBatchFile,
+  toBatchSheet,
+  validateBatch
+} from '../batchImport';
+import type { InputRanges } from '../inputRanges';
+
+interface BatchImportProps {
+  fheMode: boolean;
+  // valid range of each field on the selected contract, once loaded
+  ranges: InputRanges | null;
+  // called with every parsed row whenever the input, mapping, mode or ranges change
+  onRowsChange: (rows: BatchRow[]) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: 8,
+  color: '#00f7ff',
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  fontSize: '0.9rem'
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  background: 'rgba(0, 10, 30, 0.5)',
+  border: '1px solid rgba(0, 247, 255, 0.5)',
+  color: '#00f7ff'
+};
+
+// Paste rows or upload a CSV/XLSX file, then map its columns to profile fields
+export default function BatchImport({ fheMode, ranges, onRowsChange }: BatchImportProps) {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<{ name: string; sheet: BatchSheet } | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+
+  // an uploaded file replaces the pasted rows until it is cleared
+  const sheet = useMemo(() => {
+    if (file) return file.sheet;
+    const { rows, lineNumbers } = parseCsv(text);
+    return toBatchSheet(rows, lineNumbers);
+  }, [file, text]);
+
+  // pasted rows follow the header or the documented column order; only files get a mapping editor
+  const activeMapping = useMemo(() => (file && mapping ? mapping : guessMapping(sheet)), [file, mapping, sheet]);
+  const rows = useMemo(
+    () => validateBatch(sheet, activeMapping, fheMode, ranges),
+    [sheet, activeMapping, fheMode, ranges]
+  );
+
+  useEffect(() => {
+    onRowsChange(rows);
+  }, [rows]);
+
+  const onFilePicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (!picked) return;
+    setFileError(null);
+    try {
+      const fileSheet = await readBatchFile(picked);
+      if (fileSheet.rows.length === 0) throw new Error('The file has no data rows');
+      setFile({ name: picked.name, sheet: fileSheet });
+      setMapping(guessMapping(fileSheet));
+    } catch (err: any) {
+      console.error('Failed to read batch file', err);
+      setFileError(`${picked.name}: ${err?.message || err}`);
+    }
+  };
+
+  const clearFile = () => {
+    setFile(null);
+    setMapping(null);
+    setFileError(null);
+  };
+
+  return (
+    <div>
+      <label style={labelStyle}>
+        {file ? 'UPLOADED FILE' : 'CLIENT DATA (ONE PER LINE)'}
+      </label>
+
+      {file ? (
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '15px',
+          border: '1px solid rgba(0, 247, 255, 0.5)',
+          color: '#e0e0ff'
+        }}>
+          <span style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+            <FaFileUpload style={{ color: '#00f7ff' }} />
+            {file.name} · {file.sheet.rows.length} rows
+          </span>
+          <button
+            onClick={clearFile}
+            style={{ background: 'transparent', border: 'none', color: '#ff00c8', cursor: 'pointer' }}
+            title="Remove the file and go back to pasted rows"
+          >
+            <FaTimes />
+          </button>
+        </div>
+      ) : (
+        <textarea
+          placeholder="Enter client data..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          style={{
+            width: '100%',
+            padding: '15px',
+            background: 'rgba(0, 10, 30, 0.5)',
+            border: '1px solid rgba(0, 247, 255, 0.5)',
+            color: '#00f7ff',
+            borderRadius: '0',
+            fontSize: '1.1rem',
+            fontFamily: "'Source Code Pro', monospace"
+          }}
+        />
+      )}
+
+      <label style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 10,
+        marginTop: 10,
+        padding: '10px',
+        border: '1px dashed rgba(0, 247, 255, 0.5)',
+        color: '#a0a0ff',
+        cursor: 'pointer',
+        textTransform: 'uppercase',
+        letterSpacing: '1px',
+        fontSize: '0.9rem'
+      }}>
+        <FaFileUpload /> {file ? 'Upload another file' : 'Or upload CSV / XLSX'}
+        <input type="file" accept=".csv,.xlsx,text/csv" onChange={onFilePicked} style={{ display: 'none' }} />
+      </label>
+      {fileError && <div style={{ color: '#ff00c8', marginTop: 8 }}>{fileError}</div>}
+
+      {file && mapping && (
+        <div style={{ marginTop: 20 }}>
+          <label style={labelStyle}>COLUMN MAPPING</label>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 10 }}>
+            {BATCH_FIELDS.map(field => (
+              <div key={field.key}>
+                <div style={{ color: field.required && mapping[field.key] === null ? '#ff00c8' : '#a0a0ff', fontSize: '0.85rem', marginBottom: 4 }}>
+                  {field.label}{field.required ? ' *' : ''}
+                </div>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setMapping({
+                    ...mapping,
+                    [field.key]: e.target.value === '' ? null : Number(e.target.value)
+                  })}
+                  style={selectStyle}
+                >
+                  <option value="">{field.required ? 'Select a column' : 'Not in file (0)'}</option>
+                  {file.sheet.columns.map((column, i) => (
+                    <option key={i} value={i}>{column}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  borderBottom: '1px solid rgba(0, 247, 255, 0.15)',
+  textAlign: 'left',
+  whiteSpace: 'nowrap'
+};
+
+// Every parsed row with its validation result; only rows marked ready are submitted
+export function BatchPreview({ rows, fheMode }: { rows: BatchRow[]; fheMode: boolean }) {
+  if (rows.length === 0) return null;
+  const ready = rows.filter(row => row.errors.length === 0).length;
+
+  return (
+    <div style={{ marginTop: 30 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 10 }}>
+        <span style={{ ...labelStyle, marginBottom: 0 }}>PREVIEW</span>
+        <span style={{ color: ready === rows.length ? '#00ff9d' : '#ff00c8' }}>
+          {ready} of {rows.length} rows will be submitted
+          {ready < rows.length && `, ${rows.length - ready} skipped`}
+        </span>
+      </div>
+      <div style={{ maxHeight: 320, overflow: 'auto', border: '1px solid rgba(0, 247, 255, 0.3)' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', color: '#e0e0ff', fontSize: '0.95rem' }}>
+          <thead>
+            <tr style={{ color: '#00f7ff', background: 'rgba(0, 10, 30, 0.9)', position: 'sticky', top: 0 }}>
+              <th style={cellStyle}>Line</th>
+              {BATCH_FIELDS.map(field => (
+                <th key={field.key} style={cellStyle}>
+                  {field.key === 'income' ? (fheMode ? 'Income (whole USDT)' : 'Income (USDT)') : field.label}
+                </th>
+              ))}
+              <th style={cellStyle}>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const valid = row.errors.length === 0;
+              return (
+                <tr key={row.line} style={{ background: valid ? 'transparent' : 'rgba(255, 0, 200, 0.08)' }}>
+                  <td style={{ ...cellStyle, color: '#a0a0ff' }}>{row.line}</td>
+                  {BATCH_FIELDS.map(field => (
+                    <td key={field.key} style={cellStyle}>{row.values[field.key] || (field.required ? '' : '0')}</td>
+                  ))}
+                  <td style={{ ...cellStyle, color: valid ? '#00ff9d' : '#ff00c8', whiteSpace: 'normal' }}>
+                    {valid ? <><FaCheck /> Ready</> : row.errors.join('; ')}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
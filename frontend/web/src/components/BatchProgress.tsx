@@ -0,0 +1,124 @@
+// BatchProgress.tsx
+import React from 'react';
+import { FaCheck, FaPlay, FaSpinner, FaTimes, FaTrash } from 'react-icons/fa';
+import { BatchRun, ChunkStatus, isRunComplete, processedRows } from '../batchRun';
+
+interface BatchProgressProps {
+  run: BatchRun;
+  // a chunk is being sent or awaited right now
+  running: boolean;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const STATUS_STYLE: Record<ChunkStatus, { color: string; label: string }> = {
+  sending: { color: '#a0a0ff', label: 'Waiting for wallet' },
+  sent: { color: '#00f7ff', label: 'Pending' },
+  confirmed: { color: '#00ff9d', label: 'Confirmed' },
+  failed: { color: '#ff00c8', label: 'Failed' }
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  borderBottom: '1px solid rgba(0, 247, 255, 0.15)',
+  textAlign: 'left'
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '8px 16px',
+  background: 'transparent',
+  border: `1px solid ${color}`,
+  color,
+  cursor: 'pointer',
+  textTransform: 'uppercase',
+  letterSpacing: '1px'
+});
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+// Progress of a chunked batch run: one line per transaction and every row the contract rejected
+export default function BatchProgress({ run, running, onResume, onDiscard }: BatchProgressProps) {
+  const complete = isRunComplete(run);
+  const processed = processedRows(run);
+  const outcomes = run.chunks.flatMap(chunk => chunk.outcomes ?? []);
+  const failedRows = outcomes.filter(outcome => !outcome.ok);
+  const assessed = outcomes.length - failedRows.length;
+
+  return (
+    <div style={{ marginTop: 30, padding: 20, border: '1px solid rgba(0, 247, 255, 0.3)', background: 'rgba(0, 10, 30, 0.5)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 10 }}>
+        <span style={{ color: '#00f7ff', textTransform: 'uppercase', letterSpacing: '1px' }}>
+          {run.fhe ? 'Encrypted batch run' : 'Batch run'} · {new Date(run.startedAt).toLocaleString()}
+        </span>
+        <span style={{ color: complete ? '#00ff9d' : '#e0e0ff' }}>
+          {processed} of {run.rows.length} rows sent · {assessed} assessed · {failedRows.length} failed
+        </span>
+      </div>
+
+      <div style={{ height: 6, background: 'rgba(0, 247, 255, 0.1)', marginBottom: 15 }}>
+        <div style={{
+          height: '100%',
+          width: `${run.rows.length ? (processed / run.rows.length) * 100 : 0}%`,
+          background: complete ? '#00ff9d' : '#00f7ff',
+          transition: 'width 0.3s ease'
+        }} />
+      </div>
+
+      {run.chunks.map((chunk, i) => {
+        const status = STATUS_STYLE[chunk.status];
+        const active = running && (chunk.status === 'sending' || chunk.status === 'sent');
+        return (
+          <div key={i} style={{ display: 'flex', gap: 15, alignItems: 'center', padding: '4px 0', color: '#e0e0ff', fontSize: '0.9rem' }}>
+            <span style={{ color: status.color, width: 160, display: 'flex', alignItems: 'center', gap: 6 }}>
+              {active ? <FaSpinner /> : chunk.status === 'confirmed' ? <FaCheck /> : chunk.status === 'failed' ? <FaTimes /> : null}
+              {status.label}
+            </span>
+            <span style={{ width: 140 }}>Rows {chunk.start + 1}–{chunk.end}</span>
+            {chunk.batchId && <span style={{ color: '#00f7ff' }}>Batch #{chunk.batchId}</span>}
+            {chunk.txHash && <span style={{ color: '#a0a0ff', fontFamily: "'Source Code Pro', monospace" }}>{shortHash(chunk.txHash)}</span>}
+            {chunk.error && <span style={{ color: '#ff00c8' }}>{chunk.error}</span>}
+          </div>
+        );
+      })}
+
+      {failedRows.length > 0 && (
+        <div style={{ marginTop: 15, maxHeight: 240, overflow: 'auto', border: '1px solid rgba(255, 0, 200, 0.3)' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', color: '#e0e0ff', fontSize: '0.9rem' }}>
+            <thead>
+              <tr style={{ color: '#ff00c8', background: 'rgba(0, 10, 30, 0.9)', position: 'sticky', top: 0 }}>
+                <th style={cellStyle}>Line</th>
+                <th style={cellStyle}>Client ID</th>
+                <th style={cellStyle}>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {failedRows.map(outcome => (
+                <tr key={`${outcome.line}-${outcome.clientId}`}>
+                  <td style={{ ...cellStyle, color: '#a0a0ff' }}>{outcome.line}</td>
+                  <td style={cellStyle}>{outcome.clientId}</td>
+                  <td style={{ ...cellStyle, color: '#ff00c8' }}>{outcome.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!running && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 10, marginTop: 15 }}>
+          {!complete && (
+            <button onClick={onResume} style={buttonStyle('#00f7ff')}>
+              <FaPlay /> Resume
+            </button>
+          )}
+          <button onClick={onDiscard} style={buttonStyle(complete ? '#a0a0ff' : '#ff00c8')}>
+            {complete ? <><FaCheck /> Dismiss</> : <><FaTrash /> Discard</>}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
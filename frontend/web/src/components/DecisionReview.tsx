@@ -0,0 +1,226 @@
+// DecisionReview.tsx
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { FaFlag, FaGavel } from 'react-icons/fa';
+import { getContractReadOnly, getContractWithSigner, RiskControl } from '../contract';
+import { DECLINE_TIER, TIER_LABELS, tierLabel } from '../tiers';
+
+// RiskControl.OverrideReason values
+export const OVERRIDE_REASONS = [
+  'Other',
+  'Verified income',
+  'Collateral',
+  'Existing relationship',
+  'Policy exception',
+  'Adverse information'
+];
+
+// color marking decisions a senior officer replaced
+export const OVERRIDE_COLOR = '#f1fa8c';
+
+interface OverrideRecord {
+  originalApproved: boolean;
+  originalCreditLimit: bigint;
+  originalTier: number;
+  reason: number;
+  overriddenBy: string;
+  timestamp: bigint;
+}
+
+interface DecisionReviewProps {
+  clientId: string;
+  overridden: boolean;
+  appealPending: boolean;
+  canFlag: boolean;
+  canOverride: boolean;
+  onChanged: () => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const buttonStyle = (color: string, enabled: boolean): React.CSSProperties => ({
+  padding: '8px 16px',
+  background: 'transparent',
+  color,
+  border: `1px solid ${color}`,
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  opacity: enabled ? 1 : 0.5
+});
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  background: 'rgba(0, 10, 30, 0.5)',
+  border: '1px solid rgba(241, 250, 140, 0.5)',
+  color: '#e0e0ff',
+  boxSizing: 'border-box'
+};
+
+export default function DecisionReview({
+  clientId,
+  overridden,
+  appealPending,
+  canFlag,
+  canOverride,
+  onChanged
+}: DecisionReviewProps) {
+  const [record, setRecord] = useState<OverrideRecord | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [tier, setTier] = useState(DECLINE_TIER + 1);
+  const [creditLimit, setCreditLimit] = useState('');
+  const [reason, setReason] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  // the override of the latest record, which is the one shown on the card
+  useEffect(() => {
+    if (!overridden) {
+      setRecord(null);
+      return;
+    }
+    (async () => {
+      try {
+        const contract = await getContractReadOnly();
+        const length = Number(await contract.getAssessmentHistoryLength(clientId));
+        const r = await contract.getDecisionOverride(clientId, length - 1);
+        setRecord({
+          originalApproved: r.originalApproved,
+          originalCreditLimit: r.originalCreditLimit,
+          originalTier: Number(r.originalTier),
+          reason: Number(r.reason),
+          overriddenBy: r.overriddenBy,
+          timestamp: r.timestamp
+        });
+      } catch (e) {
+        console.error(`Failed to load override for ${clientId}`, e);
+      }
+    })();
+  }, [clientId, overridden]);
+
+  const approve = tier !== DECLINE_TIER;
+  const creditError = approve && !/^\d+(\.\d{1,6})?$/.test(creditLimit) ? 'Enter the credit limit in USDT' : null;
+
+  // run a RiskControl transaction, then let the parent reload the results
+  const submit = async (label: string, send: (contract: RiskControl) => Promise<ethers.ContractTransactionResponse>) => {
+    setBusy(true);
+    try {
+      const contract = await getContractWithSigner();
+      const tx = await send(contract);
+      console.log(`${label} transaction sent:`, tx.hash);
+      await tx.wait();
+      setFormOpen(false);
+      onChanged();
+    } catch (e: any) {
+      console.error(`${label} failed`, e);
+      alert(`${label} failed: ` + (e?.reason || e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const overrideDecision = () => submit('Override', contract =>
+    contract.overrideDecision(clientId, tier, approve ? ethers.parseUnits(creditLimit, 6) : 0n, reason));
+
+  return (
+    <div style={{ marginTop: 20 }}>
+      {record && (
+        <div style={{ color: OVERRIDE_COLOR, fontSize: '0.9rem', lineHeight: 1.6, marginBottom: 10 }}>
+          Overridden by {shortAddress(record.overriddenBy)} on {new Date(Number(record.timestamp) * 1000).toLocaleDateString()}
+          {' · '}{OVERRIDE_REASONS[record.reason] ?? 'Unknown reason'}
+          <div style={{ color: '#a0a0ff' }}>
+            Automated decision: {record.originalApproved
+              ? `Approved, tier ${tierLabel(record.originalTier)}, ${ethers.formatUnits(record.originalCreditLimit, 6)} USDT`
+              : 'Not Approved'}
+          </div>
+        </div>
+      )}
+
+      {appealPending && (
+        <div style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: 6,
+          marginBottom: 10,
+          padding: '4px 10px',
+          border: `1px solid ${OVERRIDE_COLOR}`,
+          color: OVERRIDE_COLOR,
+          fontSize: '0.85rem',
+          textTransform: 'uppercase',
+          letterSpacing: '1px'
+        }}>
+          <FaFlag /> Appeal pending review
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap' }}>
+        {canFlag && !appealPending && (
+          <button
+            onClick={() => submit('Appeal flag', contract => contract.flagForAppeal(clientId))}
+            disabled={busy}
+            style={buttonStyle('#a0a0ff', !busy)}
+          >
+            <FaFlag /> Flag for Appeal
+          </button>
+        )}
+        {canOverride && (
+          <button onClick={() => setFormOpen(!formOpen)} disabled={busy} style={buttonStyle(OVERRIDE_COLOR, !busy)}>
+            <FaGavel /> {formOpen ? 'Cancel Override' : 'Override'}
+          </button>
+        )}
+        {canOverride && appealPending && !formOpen && (
+          <button
+            onClick={() => submit('Appeal dismissal', contract => contract.resolveAppeal(clientId))}
+            disabled={busy}
+            style={buttonStyle('#a0a0ff', !busy)}
+          >
+            Dismiss Appeal
+          </button>
+        )}
+      </div>
+
+      {formOpen && (
+        <div style={{
+          marginTop: 15,
+          padding: '15px',
+          border: `1px dashed ${OVERRIDE_COLOR}`,
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: 10
+        }}>
+          <select value={tier} onChange={e => setTier(Number(e.target.value))} style={inputStyle}>
+            {TIER_LABELS.map((label, i) => (
+              <option key={i} value={i}>{i === DECLINE_TIER ? 'Decline' : `Approve, tier ${label}`}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            placeholder="Credit limit (USDT)"
+            value={approve ? creditLimit : '0'}
+            disabled={!approve}
+            onChange={e => setCreditLimit(e.target.value)}
+            style={inputStyle}
+          />
+          <select value={reason} onChange={e => setReason(Number(e.target.value))} style={{ ...inputStyle, gridColumn: '1 / -1' }}>
+            {OVERRIDE_REASONS.map((label, i) => (
+              <option key={i} value={i}>{label}</option>
+            ))}
+          </select>
+          {creditError && creditLimit && (
+            <div style={{ color: '#ff00c8', gridColumn: '1 / -1' }}>{creditError}</div>
+          )}
+          <button
+            onClick={overrideDecision}
+            disabled={busy || !!creditError}
+            style={{ ...buttonStyle(OVERRIDE_COLOR, !busy && !creditError), gridColumn: '1 / -1', justifyContent: 'center' }}
+          >
+            {busy ? 'Submitting...' : 'Apply Override'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+// EncryptedAssessmentCard.tsx
+import React from 'react';
+import { FaUser, FaLock, FaLockOpen, FaRedo } from 'react-icons/fa';
+import { DecryptedAssessment, EncryptedAssessmentHandles } from '../fhe';
+import { TIER_COLORS, tierLabel } from '../tiers';
+import {
+  AssessmentStatus,
+  STATUS_COLORS,
+  STATUS_LABELS,
+  ValidityConfig,
+  assessmentStatus,
+  formatExpiry,
+  needsReassessment
+} from '../expiry';
+
+export interface EncryptedAssessment {
+  clientId: string;
+  handles: EncryptedAssessmentHandles;
+  timestamp: bigint;
+}
+
+interface EncryptedAssessmentCardProps {
+  assessment: EncryptedAssessment;
+  decrypted?: DecryptedAssessment;
+  decrypting: boolean;
+  canDecrypt: boolean;
+  onDecrypt: (assessment: EncryptedAssessment) => void;
+  // validity settings of RiskControlFHE; stale results get a badge and a re-assess shortcut
+  validity?: ValidityConfig | null;
+  onReassess?: (clientId: string) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  color: '#a0a0ff',
+  fontSize: '0.9rem',
+  textTransform: 'uppercase',
+  letterSpacing: '1px'
+};
+
+const valueStyle: React.CSSProperties = {
+  color: '#00f7ff',
+  fontSize: '1.5rem',
+  fontWeight: 'bold'
+};
+
+const maskedStyle: React.CSSProperties = {
+  ...valueStyle,
+  color: 'rgba(0, 247, 255, 0.4)',
+  letterSpacing: '3px'
+};
+
+export default function EncryptedAssessmentCard({
+  assessment,
+  decrypted,
+  decrypting,
+  canDecrypt,
+  onDecrypt,
+  validity,
+  onReassess
+}: EncryptedAssessmentCardProps) {
+  const status = validity ? assessmentStatus(assessment.timestamp, validity) : AssessmentStatus.None;
+
+  const accent = !decrypted
+    ? 'rgba(160, 160, 255, 0.5)'
+    : decrypted.approved ? 'rgba(0, 255, 157, 0.5)' : 'rgba(255, 0, 200, 0.5)';
+
+  return (
+    <div style={{
+      padding: '25px',
+      background: 'rgba(0, 10, 30, 0.5)',
+      border: `1px solid ${accent}`,
+      boxShadow: `0 0 15px ${accent}`,
+      position: 'relative',
+      overflow: 'hidden'
+    }}>
+      <div style={{
+        position: 'absolute',
+        top: 15,
+        right: 15,
+        background: !decrypted ? 'rgba(160, 160, 255, 0.2)' : decrypted.approved ? 'rgba(0, 255, 157, 0.2)' : 'rgba(255, 0, 200, 0.2)',
+        color: !decrypted ? '#a0a0ff' : decrypted.approved ? '#00ff9d' : '#ff00c8',
+        padding: '5px 15px',
+        fontSize: '0.9rem',
+        textTransform: 'uppercase',
+        letterSpacing: '1px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 6
+      }}>
+        {!decrypted ? <><FaLock /> Encrypted</> : decrypted.approved ? `Approved · Tier ${tierLabel(decrypted.tier)}` : 'Not Approved'}
+      </div>
+
+      <h4 style={{
+        marginTop: 0,
+        marginBottom: 20,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 10,
+        color: '#00f7ff',
+        fontSize: '1.3rem'
+      }}>
+        <FaUser /> {assessment.clientId}
+      </h4>
+
+      {validity && needsReassessment(status) && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 10,
+          marginBottom: 20,
+          padding: '8px 12px',
+          border: `1px dashed ${STATUS_COLORS[status]}`,
+          color: STATUS_COLORS[status]
+        }}>
+          <span style={{ textTransform: 'uppercase', letterSpacing: '1px', fontSize: '0.9rem' }}>
+            {STATUS_LABELS[status]} · {status === AssessmentStatus.Expired ? 'since' : 'expires'} {formatExpiry(assessment.timestamp, validity)}
+          </span>
+          {onReassess && (
+            <button
+              onClick={() => onReassess(assessment.clientId)}
+              style={{
+                padding: '4px 10px',
+                background: 'transparent',
+                color: STATUS_COLORS[status],
+                border: `1px solid ${STATUS_COLORS[status]}`,
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 6,
+                textTransform: 'uppercase',
+                letterSpacing: '1px'
+              }}
+            >
+              <FaRedo /> Re-assess
+            </button>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 15 }}>
+        <div>
+          <div style={labelStyle}>Credit Limit</div>
+          <div style={decrypted ? valueStyle : maskedStyle}>
+            {decrypted ? `${decrypted.creditLimit.toString()} USDT` : '••••••'}
+          </div>
+        </div>
+
+        <div>
+          <div style={labelStyle}>Risk Score</div>
+          <div style={decrypted ? valueStyle : maskedStyle}>
+            {decrypted ? decrypted.riskScore.toString() : '••'}
+          </div>
+        </div>
+
+        <div>
+          <div style={labelStyle}>Risk Tier</div>
+          <div style={decrypted ? { ...valueStyle, color: TIER_COLORS[decrypted.tier] ?? '#00f7ff' } : maskedStyle}>
+            {decrypted ? tierLabel(decrypted.tier) : '•'}
+          </div>
+        </div>
+
+        <div>
+          <div style={labelStyle}>Assessment Date</div>
+          <div style={{ color: '#00f7ff', fontSize: '1.1rem' }}>
+            {new Date(Number(assessment.timestamp) * 1000).toLocaleDateString()}
+          </div>
+        </div>
+
+        <div>
+          <div style={labelStyle}>Assessment Time</div>
+          <div style={{ color: '#00f7ff', fontSize: '1.1rem' }}>
+            {new Date(Number(assessment.timestamp) * 1000).toLocaleTimeString()}
+          </div>
+        </div>
+      </div>
+
+      {!decrypted && (
+        <button
+          onClick={() => onDecrypt(assessment)}
+          disabled={!canDecrypt || decrypting}
+          title={!canDecrypt ? 'Connect the wallet that submitted this assessment, the contract owner or an auditor' : undefined}
+          style={{
+            width: '100%',
+            marginTop: 20,
+            padding: '12px',
+            background: 'rgba(0, 247, 255, 0.1)',
+            color: '#00f7ff',
+            border: '1px solid #00f7ff',
+            cursor: canDecrypt && !decrypting ? 'pointer' : 'not-allowed',
+            fontWeight: 600,
+            textTransform: 'uppercase',
+            letterSpacing: '2px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 10,
+            opacity: !canDecrypt || decrypting ? 0.5 : 1
+          }}
+        >
+          <FaLockOpen /> {decrypting ? 'Decrypting...' : 'Decrypt'}
+        </button>
+      )}
+    </div>
+  );
+}
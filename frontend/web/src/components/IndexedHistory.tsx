@@ -0,0 +1,290 @@
+// IndexedHistory.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { FaDatabase, FaSearch } from 'react-icons/fa';
+import { AssessmentRecord, AssessmentStats, IndexerStatus, ParameterUpdateRecord, indexerClient } from '../indexer';
+import { TIER_COLORS, TIER_LABELS, tierLabel } from '../tiers';
+
+interface IndexedHistoryProps {
+  indexerUrl: string;
+  fheMode: boolean;
+}
+
+const PAGE_SIZE = 25;
+const DAY = 24 * 60 * 60;
+// how often the indexer is asked whether it has stored new blocks
+const STATUS_POLL_MS = 10000;
+
+// periods the chart and the result list can be limited to, in days (0 = everything indexed)
+const PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 0, label: 'All time' }
+];
+
+const cellStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  borderBottom: '1px solid rgba(0, 247, 255, 0.15)',
+  textAlign: 'left'
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '10px',
+  background: 'rgba(0, 10, 30, 0.5)',
+  border: '1px solid rgba(0, 247, 255, 0.3)',
+  color: '#00f7ff',
+  borderRadius: 0
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+const formatTime = (seconds: number) => new Date(seconds * 1000).toLocaleString();
+
+// Search, filters and charts over the assessment history served by packages/indexer. Encrypted results
+// are indexed without their cleartext, so in FHE mode only client IDs and times can be searched.
+export default function IndexedHistory({ indexerUrl, fheMode }: IndexedHistoryProps) {
+  const client = useMemo(
+    () => indexerClient(indexerUrl, fheMode ? 'RiskControlFHE' : 'RiskControl'),
+    [indexerUrl, fheMode]
+  );
+  const [search, setSearch] = useState('');
+  const [tier, setTier] = useState('');
+  const [decision, setDecision] = useState('');
+  const [periodDays, setPeriodDays] = useState(30);
+
+  const [status, setStatus] = useState<IndexerStatus | null>(null);
+  const [stats, setStats] = useState<AssessmentStats | null>(null);
+  const [records, setRecords] = useState<AssessmentRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [parameterUpdates, setParameterUpdates] = useState<ParameterUpdateRecord[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const lastBlock = status?.contracts[fheMode ? 'RiskControlFHE' : 'RiskControl']?.lastBlock;
+  const from = periodDays > 0 ? Math.floor(Date.now() / 1000) - periodDays * DAY : undefined;
+  const query = {
+    search: search.trim() || undefined,
+    tier: tier === '' ? undefined : Number(tier),
+    approved: decision === '' ? undefined : decision === 'approved',
+    from
+  };
+
+  const loadPage = async (offset: number) => {
+    setLoading(true);
+    try {
+      const page = await client.assessments({ ...query, limit: PAGE_SIZE, offset });
+      setTotal(page.total);
+      setRecords(prev => offset === 0 ? page.items : [...prev, ...page.items]);
+      setError('');
+    } catch (e: any) {
+      console.error('Indexer query failed', e);
+      setError(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadStatus = () => client.status()
+      .then(setStatus)
+      .catch(e => {
+        console.error('Failed to reach the indexer', e);
+        setError(e?.message || String(e));
+      });
+    loadStatus();
+    const timer = setInterval(loadStatus, STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [client]);
+
+  // results follow the filters and newly indexed blocks; typing in the search box waits for a pause
+  useEffect(() => {
+    const timer = setTimeout(() => loadPage(0), 300);
+    return () => clearTimeout(timer);
+  }, [client, search, tier, decision, periodDays, lastBlock]);
+
+  useEffect(() => {
+    Promise.all([client.stats(DAY), client.parameterUpdates()])
+      .then(([nextStats, updates]) => {
+        setStats(nextStats);
+        setParameterUpdates(updates.items);
+      })
+      .catch(e => console.error('Failed to load indexer summary', e));
+  }, [client, lastBlock]);
+
+  const series = (stats?.series ?? []).filter(point => from === undefined || point.time + DAY > from);
+  const busiestDay = Math.max(1, ...series.map(point => point.count));
+
+  return (
+    <section style={{
+      background: 'rgba(10, 15, 41, 0.7)',
+      border: '1px solid rgba(0, 247, 255, 0.3)',
+      borderRadius: '5px',
+      padding: '30px',
+      marginBottom: 50
+    }}>
+      <h2 style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 15,
+        marginTop: 0,
+        color: '#00f7ff',
+        fontFamily: "'Orbitron', sans-serif",
+        fontSize: '1.8rem',
+        borderBottom: '1px solid rgba(0, 247, 255, 0.3)',
+        paddingBottom: '15px'
+      }}>
+        <FaDatabase /> ASSESSMENT HISTORY
+        <span style={{ marginLeft: 'auto', fontSize: '0.8rem', color: '#a0a0ff', fontFamily: 'inherit' }}>
+          {lastBlock != null ? `Indexed to block ${lastBlock}` : 'Indexing…'}
+        </span>
+      </h2>
+
+      {error && (
+        <div style={{ color: '#ff00c8', marginBottom: 20 }}>
+          Indexer at {indexerUrl} is unavailable: {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 15, marginBottom: 25 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, flex: '1 1 240px' }}>
+          <FaSearch style={{ color: '#a0a0ff' }} />
+          <input
+            type="text"
+            placeholder="Search client IDs"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+        </div>
+        <select value={tier} onChange={e => setTier(e.target.value)} disabled={fheMode} style={inputStyle}>
+          <option value="">All tiers</option>
+          {TIER_LABELS.map((label, index) => <option key={label} value={index}>{label}</option>)}
+        </select>
+        <select value={decision} onChange={e => setDecision(e.target.value)} disabled={fheMode} style={inputStyle}>
+          <option value="">All decisions</option>
+          <option value="approved">Approved</option>
+          <option value="declined">Declined</option>
+        </select>
+        <select value={periodDays} onChange={e => setPeriodDays(Number(e.target.value))} style={inputStyle}>
+          {PERIODS.map(period => <option key={period.days} value={period.days}>{period.label}</option>)}
+        </select>
+      </div>
+
+      {/* Charts */}
+      {stats && stats.total > 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: 25, marginBottom: 25 }}>
+          <div>
+            <div style={{ color: '#a0a0ff', textTransform: 'uppercase', letterSpacing: '1px', fontSize: '0.8rem', marginBottom: 10 }}>
+              Assessments per day{!fheMode && ' (approved / declined)'}
+            </div>
+            <div style={{ display: 'flex', alignItems: 'flex-end', gap: 3, height: 120 }}>
+              {series.map(point => (
+                <div
+                  key={point.time}
+                  title={`${new Date(point.time * 1000).toLocaleDateString()}: ${point.count} assessments` +
+                    (fheMode ? '' : `, ${point.approved} approved, average score ${point.averageScore?.toFixed(1)}`)}
+                  style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%' }}
+                >
+                  <div style={{
+                    height: `${((point.count - point.approved) / busiestDay) * 100}%`,
+                    background: fheMode ? '#00f7ff' : '#ff00c8'
+                  }} />
+                  {!fheMode && <div style={{ height: `${(point.approved / busiestDay) * 100}%`, background: '#00ff9d' }} />}
+                </div>
+              ))}
+            </div>
+          </div>
+          {!fheMode && (
+            <div>
+              <div style={{ color: '#a0a0ff', textTransform: 'uppercase', letterSpacing: '1px', fontSize: '0.8rem', marginBottom: 10 }}>
+                Tier distribution ({stats.total} assessments)
+              </div>
+              {TIER_LABELS.map((label, index) => {
+                const count = stats.tiers[index] ?? 0;
+                return (
+                  <div key={label} style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 6 }}>
+                    <span style={{ width: 60, color: TIER_COLORS[index] }}>{label}</span>
+                    <div style={{ flex: 1, background: 'rgba(0, 247, 255, 0.1)' }}>
+                      <div style={{ width: `${(count / stats.total) * 100}%`, height: 12, background: TIER_COLORS[index] }} />
+                    </div>
+                    <span style={{ width: 40, textAlign: 'right', color: '#e0e0ff' }}>{count}</span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      <div style={{ color: '#e0e0ff', marginBottom: 10 }}>{total} matching assessments</div>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', color: '#e0e0ff', fontSize: '0.9rem' }}>
+          <thead>
+            <tr style={{ color: '#a0a0ff', textTransform: 'uppercase' }}>
+              <th style={cellStyle}>Time</th>
+              <th style={cellStyle}>Client ID</th>
+              {!fheMode && <th style={cellStyle}>Score</th>}
+              {!fheMode && <th style={cellStyle}>Tier</th>}
+              {!fheMode && <th style={cellStyle}>Credit limit</th>}
+              <th style={cellStyle}>Batch</th>
+              <th style={cellStyle}>Transaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(record => (
+              <tr key={`${record.blockNumber}-${record.logIndex}`}>
+                <td style={cellStyle}>{formatTime(record.timestamp)}</td>
+                <td style={cellStyle}>{record.clientId ?? <span title={record.clientIdHash}>Unknown</span>}</td>
+                {!fheMode && <td style={cellStyle}>{record.riskScore}</td>}
+                {!fheMode && (
+                  <td style={{ ...cellStyle, color: TIER_COLORS[record.tier ?? 0] }}>{tierLabel(record.tier ?? 0)}</td>
+                )}
+                {!fheMode && (
+                  <td style={cellStyle}>{record.creditLimit === null ? '-' : `${ethers.formatUnits(record.creditLimit, 6)} USDT`}</td>
+                )}
+                <td style={cellStyle}>{record.batchId === null ? '-' : `#${record.batchId}`}</td>
+                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{shortHash(record.txHash)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {records.length < total && (
+        <button
+          onClick={() => loadPage(records.length)}
+          disabled={loading}
+          style={{
+            marginTop: 15,
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid #00f7ff',
+            color: '#00f7ff',
+            cursor: 'pointer',
+            textTransform: 'uppercase',
+            letterSpacing: '1px'
+          }}
+        >
+          {loading ? 'Loading…' : `Show more (${total - records.length} left)`}
+        </button>
+      )}
+
+      {/* Parameter changes */}
+      {parameterUpdates.length > 0 && (
+        <div style={{ marginTop: 30 }}>
+          <div style={{ color: '#a0a0ff', textTransform: 'uppercase', letterSpacing: '1px', fontSize: '0.8rem', marginBottom: 10 }}>
+            Parameter changes
+          </div>
+          {parameterUpdates.map(update => (
+            <div key={`${update.blockNumber}-${update.logIndex}`} style={{ display: 'flex', gap: 15, color: '#e0e0ff', padding: '6px 0', borderBottom: '1px solid rgba(0, 247, 255, 0.15)' }}>
+              <span>{formatTime(update.timestamp)}</span>
+              <span style={{ color: '#00f7ff' }}>{update.functionName ?? 'Parameters updated'}</span>
+              <span style={{ fontFamily: 'monospace' }}>by {shortHash(update.sender)}</span>
+              <span style={{ fontFamily: 'monospace', marginLeft: 'auto' }}>{shortHash(update.txHash)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
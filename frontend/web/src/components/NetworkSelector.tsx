@@ -0,0 +1,48 @@
+// NetworkSelector.tsx
+import React from 'react';
+import { FaNetworkWired } from 'react-icons/fa';
+import { deployedNetworks, getDeployment, networkName } from '../networks';
+
+interface NetworkSelectorProps {
+  chainId: number;
+  onSelect: (chainId: number) => void;
+}
+
+export default function NetworkSelector({ chainId, onSelect }: NetworkSelectorProps) {
+  const networks = deployedNetworks();
+  const supported = getDeployment(chainId) !== null;
+  const color = supported ? '#00f7ff' : '#ff00c8';
+
+  return (
+    <div
+      style={{ display: 'flex', alignItems: 'center', gap: 10, color }}
+      title={supported ? undefined : `RiskControl is not deployed on ${networkName(chainId)}`}
+    >
+      <FaNetworkWired />
+      <select
+        value={supported ? chainId : ''}
+        onChange={e => onSelect(Number(e.target.value))}
+        style={{
+          padding: '10px 12px',
+          background: 'rgba(0, 10, 30, 0.7)',
+          color,
+          border: `1px solid ${color}`,
+          fontFamily: "'Rajdhani', sans-serif",
+          fontWeight: 600,
+          letterSpacing: '1px',
+          textTransform: 'uppercase',
+          cursor: 'pointer'
+        }}
+      >
+        {!supported && (
+          <option value="" disabled>Unsupported: {networkName(chainId)}</option>
+        )}
+        {networks.map(network => (
+          <option key={network.chainId} value={network.chainId}>
+            {network.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
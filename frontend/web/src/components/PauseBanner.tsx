@@ -0,0 +1,111 @@
+// PauseBanner.tsx
+import React, { useState } from 'react';
+import { FaExclamationTriangle, FaPause, FaPlay } from 'react-icons/fa';
+import { getContractWithSigner, getFheContractWithSigner } from '../contract';
+
+interface PauseBannerProps {
+  fheMode: boolean;
+  paused: boolean;
+  // whether the connected wallet holds PAUSER_ROLE on the contract in use
+  canPause: boolean;
+  onChanged: () => void;
+}
+
+const buttonStyle = (color: string, enabled: boolean): React.CSSProperties => ({
+  padding: '8px 16px',
+  background: 'transparent',
+  color,
+  border: `1px solid ${color}`,
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '1px',
+  opacity: enabled ? 1 : 0.5
+});
+
+export default function PauseBanner({ fheMode, paused, canPause, onChanged }: PauseBannerProps) {
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const contractName = fheMode ? 'RiskControlFHE' : 'RiskControl';
+
+  const togglePause = async () => {
+    setBusy(true);
+    try {
+      const contract = fheMode ? (await getFheContractWithSigner()).contract : await getContractWithSigner();
+      const tx = paused ? await contract.unpause() : await contract.pause();
+      console.log(`${paused ? 'Unpause' : 'Pause'} transaction sent:`, tx.hash);
+      await tx.wait();
+      setConfirming(false);
+      onChanged();
+    } catch (e: any) {
+      console.error('Failed to change pause state', e);
+      alert('Failed to change pause state: ' + (e?.reason || e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!paused && !canPause) return null;
+
+  // pausers get a low-key emergency stop while the contract is running
+  if (!paused) {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: 15, marginBottom: 20 }}>
+        {confirming && (
+          <span style={{ color: '#ff00c8' }}>
+            Halt all assessments on {contractName}?
+          </span>
+        )}
+        {confirming ? (
+          <>
+            <button onClick={togglePause} disabled={busy} style={buttonStyle('#ff00c8', !busy)}>
+              <FaPause /> {busy ? 'Pausing...' : 'Confirm Pause'}
+            </button>
+            <button onClick={() => setConfirming(false)} disabled={busy} style={buttonStyle('#a0a0ff', !busy)}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button onClick={() => setConfirming(true)} style={buttonStyle('#ff00c8', true)}>
+            <FaPause /> Emergency Pause
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 20,
+      marginBottom: 30,
+      padding: '20px 25px',
+      background: 'rgba(255, 0, 200, 0.1)',
+      border: '1px solid #ff00c8',
+      boxShadow: '0 0 20px rgba(255, 0, 200, 0.3)',
+      color: '#ff00c8'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 15 }}>
+        <FaExclamationTriangle size={28} />
+        <div>
+          <div style={{ fontWeight: 'bold', fontSize: '1.2rem', textTransform: 'uppercase', letterSpacing: '2px' }}>
+            {contractName} is paused
+          </div>
+          <div style={{ color: '#e0e0ff' }}>
+            New assessments, overrides and appeals are halted. Existing results remain available.
+          </div>
+        </div>
+      </div>
+      {canPause && (
+        <button onClick={togglePause} disabled={busy} style={buttonStyle('#00ff9d', !busy)}>
+          <FaPlay /> {busy ? 'Resuming...' : 'Resume'}
+        </button>
+      )}
+    </div>
+  );
+}
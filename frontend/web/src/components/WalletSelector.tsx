@@ -1,5 +1,7 @@
 // WalletSelector.tsx
 import React, { useState, useEffect } from 'react';
+import { getActiveChainId } from '../contract';
+import { getDeployment, networkName, switchWalletNetwork } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -118,8 +120,11 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Wallets on a chain without a deployment are switched to the selected network
+      const chainId = Number(await wallet.provider.request({ method: 'eth_chainId' }));
+      if (!getDeployment(chainId)) {
+        await switchWalletNetwork(wallet.provider, getActiveChainId());
+      }
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -128,40 +133,6 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
-    try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
-    }
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -277,7 +248,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           textAlign: 'center',
           fontWeight: '500'
         }}>
-          Wallet will automatically switch to Sepolia testnet after connection
+          Wallets on an unsupported network switch to {networkName(getActiveChainId())} after connection
         </div>
       </div>
     </div>
@@ -1,32 +1,94 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/RiskControl.json";
-import configJson from "./config.json";
+import { RiskControl__factory, RiskControlFHE__factory } from "@riskcontrol/contracts";
+import type { RiskControl, RiskControlFHE } from "@riskcontrol/contracts";
+import { DEFAULT_CHAIN_ID, Deployment, getDeployment, networkName } from "./networks";
 
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export type { RiskControl, RiskControlFHE };
+
+// chain whose contracts the app reads and writes; follows the wallet once one is connected
+let activeChainId = DEFAULT_CHAIN_ID;
+
+export function getActiveChainId() {
+  return activeChainId;
+}
+
+export function setActiveChainId(chainId: number) {
+  console.log("Active network:", networkName(chainId), chainId);
+  activeChainId = chainId;
+}
+
+// the deployment on the active chain, or null if there is none
+export function getActiveDeployment(): Deployment | null {
+  return getDeployment(activeChainId);
+}
+
+export function requireDeployment(): Deployment {
+  const deployment = getActiveDeployment();
+  if (!deployment) {
+    throw new Error(`RiskControl is not deployed on ${networkName(activeChainId)}`);
+  }
+  return deployment;
+}
+
+// whether the plaintext contract has been deployed on the active chain
+export function hasPlaintextContract() {
+  return Boolean(getActiveDeployment()?.contractAddress);
+}
+
+// whether an FHE contract has been deployed on the active chain and the relayer serves it
+export function isFheEnabled() {
+  const deployment = getActiveDeployment();
+  return Boolean(deployment?.fheContractAddress && deployment.fheSupported);
+}
 
 export async function getProvider() {
   console.log("Getting provider...");
-  // if user has MetaMask, we'll use it when connecting
+  const deployment = requireDeployment();
+  // if user has MetaMask on the active chain, we'll read through it
   if ((window as any).ethereum) {
-    console.log("Using injected ethereum provider");
     const p = new ethers.BrowserProvider((window as any).ethereum);
-    return p;
+    const network = await p.getNetwork();
+    if (Number(network.chainId) === activeChainId) {
+      console.log("Using injected ethereum provider");
+      return p;
+    }
+  }
+  // otherwise read from the active network's rpc
+  console.log("Using fallback RPC:", deployment.rpcUrl);
+  return new ethers.JsonRpcProvider(deployment.rpcUrl, activeChainId, { staticNetwork: true });
+}
+
+// a signer from the injected wallet, which must be on the active chain
+async function getSigner() {
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) !== activeChainId) {
+    throw new Error(`Switch your wallet to ${networkName(activeChainId)}`);
   }
-  // fallback to public rpc
-  console.log("Using fallback RPC:", config.network);
-  return new ethers.JsonRpcProvider(config.network);
+  return provider.getSigner();
+}
+
+// typechain-typed handles on the active chain's contracts
+export function connectRiskControl(runner: ethers.ContractRunner): RiskControl {
+  return RiskControl__factory.connect(requireDeployment().contractAddress, runner);
+}
+
+export function connectRiskControlFHE(runner: ethers.ContractRunner): RiskControlFHE {
+  return RiskControlFHE__factory.connect(requireDeployment().fheContractAddress, runner);
 }
 
 // get a read-only contract (provider based)
 export async function getContractReadOnly() {
   console.log("Getting read-only contract...");
+  if (!hasPlaintextContract()) {
+    throw new Error("No plaintext contract address configured");
+  }
   try {
     const provider = await getProvider();
     console.log("Provider obtained");
     
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = connectRiskControl(provider);
     console.log("Read-only contract created at:", contract.target);
     return contract;
   } catch (error) {
@@ -42,14 +104,14 @@ export async function getContractWithSigner() {
     console.error("No injected wallet");
     throw new Error("No injected wallet");
   }
+  if (!hasPlaintextContract()) {
+    throw new Error("No plaintext contract address configured");
+  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    console.log("Provider for signer created");
-    
-    const signer = await provider.getSigner();
+    const signer = await getSigner();
     console.log("Signer obtained, address:", await signer.getAddress());
     
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = connectRiskControl(signer);
     console.log("Contract with signer created at:", contract.target);
     return contract;
   } catch (error) {
@@ -58,6 +120,79 @@ export async function getContractWithSigner() {
   }
 }
 
+// get a read-only FHE contract (provider based)
+export async function getFheContractReadOnly() {
+  if (!isFheEnabled()) {
+    throw new Error("No FHE contract address configured");
+  }
+  const provider = await getProvider();
+  return connectRiskControlFHE(provider);
+}
+
+// get the FHE contract connected to signer (for encrypted submissions)
+export async function getFheContractWithSigner() {
+  console.log("Getting FHE contract with signer...");
+  if (!(window as any).ethereum) {
+    console.error("No injected wallet");
+    throw new Error("No injected wallet");
+  }
+  if (!isFheEnabled()) {
+    throw new Error("No FHE contract address configured");
+  }
+  const signer = await getSigner();
+  const contract = connectRiskControlFHE(signer);
+  console.log("FHE contract with signer created at:", contract.target);
+  return { contract, signer };
+}
+
+// role identifiers, matching the constants in RiskAccessControl.sol
+export const ROLES = {
+  riskOfficer: ethers.id("RISK_OFFICER_ROLE"),
+  seniorOfficer: ethers.id("SENIOR_OFFICER_ROLE"),
+  parameterAdmin: ethers.id("PARAMETER_ADMIN_ROLE"),
+  auditor: ethers.id("AUDITOR_ROLE"),
+  pauser: ethers.id("PAUSER_ROLE"),
+};
+
+export interface Roles {
+  isOwner: boolean;
+  riskOfficer: boolean;
+  seniorOfficer: boolean;
+  parameterAdmin: boolean;
+  auditor: boolean;
+  pauser: boolean;
+}
+
+export const NO_ROLES: Roles = {
+  isOwner: false,
+  riskOfficer: false,
+  seniorOfficer: false,
+  parameterAdmin: false,
+  auditor: false,
+  pauser: false,
+};
+
+// look up the roles an account holds on a risk control contract (the owner holds every role)
+export async function getRoles(contract: RiskControl | RiskControlFHE, addr: string): Promise<Roles> {
+  if (!addr) return NO_ROLES;
+  const [owner, riskOfficer, seniorOfficer, parameterAdmin, auditor, pauser] = await Promise.all([
+    contract.getOwner(),
+    contract.hasRole(ROLES.riskOfficer, addr),
+    contract.hasRole(ROLES.seniorOfficer, addr),
+    contract.hasRole(ROLES.parameterAdmin, addr),
+    contract.hasRole(ROLES.auditor, addr),
+    contract.hasRole(ROLES.pauser, addr),
+  ]);
+  return {
+    isOwner: normAddr(owner) === normAddr(addr),
+    riskOfficer,
+    seniorOfficer,
+    parameterAdmin,
+    auditor,
+    pauser,
+  };
+}
+
 // helper: format address lowercase
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
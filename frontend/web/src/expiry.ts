@@ -0,0 +1,49 @@
+// expiry.ts
+import type { RiskControl, RiskControlFHE } from "@riskcontrol/contracts";
+
+// RiskAssessmentExpiry.AssessmentStatus values
+export const AssessmentStatus = {
+  None: 0,
+  Current: 1,
+  DueSoon: 2,
+  Expired: 3
+} as const;
+
+export const STATUS_LABELS = ["Not assessed", "Current", "Due Soon", "Expired"];
+
+// badge colors per status, indexed like STATUS_LABELS
+export const STATUS_COLORS = ["#a0a0ff", "#00ff9d", "#ffb86c", "#ff00c8"];
+
+// validity settings of one contract, in seconds
+export interface ValidityConfig {
+  validityPeriod: bigint;
+  renewalWindow: bigint;
+}
+
+export const SECONDS_PER_DAY = 24n * 60n * 60n;
+
+export async function loadValidityConfig(
+  contract: Pick<RiskControl | RiskControlFHE, "validityPeriod" | "renewalWindow">
+): Promise<ValidityConfig> {
+  const [validityPeriod, renewalWindow] = await Promise.all([contract.validityPeriod(), contract.renewalWindow()]);
+  return { validityPeriod: BigInt(validityPeriod), renewalWindow: BigInt(renewalWindow) };
+}
+
+// Same rule as RiskAssessmentExpiry._assessmentStatus, evaluated against the local clock
+export function assessmentStatus(timestamp: bigint, validity: ValidityConfig, now = BigInt(Math.floor(Date.now() / 1000))) {
+  if (timestamp === 0n) return AssessmentStatus.None;
+
+  const expiresAt = timestamp + validity.validityPeriod;
+  if (now >= expiresAt) return AssessmentStatus.Expired;
+  if (now + validity.renewalWindow >= expiresAt) return AssessmentStatus.DueSoon;
+  return AssessmentStatus.Current;
+}
+
+// whether a result should be re-assessed soon or already has to be
+export function needsReassessment(status: number) {
+  return status === AssessmentStatus.DueSoon || status === AssessmentStatus.Expired;
+}
+
+export function formatExpiry(timestamp: bigint, validity: ValidityConfig) {
+  return new Date(Number(timestamp + validity.validityPeriod) * 1000).toLocaleDateString();
+}
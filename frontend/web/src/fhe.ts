@@ -0,0 +1,290 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import type { TierConfig } from "./tiers";
+
+// Largest value an euint32 ciphertext can hold
+export const MAX_UINT32 = 0xffffffff;
+
+// RiskControlFHE.MAX_BATCH_SIZE: scoring all six encrypted factors costs enough HCU that only three
+// clients fit within a single transaction's homomorphic compute budget, so longer batches revert
+export const MAX_ENCRYPTED_BATCH_SIZE = 3;
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// lazily load the TFHE wasm and create a relayer instance bound to the injected wallet
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      console.log("Initializing relayer SDK...");
+      await initSDK();
+      const instance = await createInstance({
+        ...SepoliaConfig,
+        network: (window as any).ethereum,
+      });
+      console.log("Relayer SDK instance created");
+      return instance;
+    })().catch((e) => {
+      // allow a retry on the next call instead of caching the failure
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+function assertUint32(value: number, label: string) {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`${label} must be an integer between 0 and ${MAX_UINT32}`);
+  }
+}
+
+// EncryptedClientProfile field order; every value is encrypted as an euint32
+export const PROFILE_FIELDS = [
+  "age",
+  "annualIncome",
+  "debtToIncome",
+  "employmentYears",
+  "existingObligations",
+  "delinquencyCount",
+] as const;
+
+export type ProfileField = typeof PROFILE_FIELDS[number];
+
+// Plaintext client profile with annual income in whole USDT
+export type ClientProfileInput = Record<ProfileField, number>;
+
+// Encrypted handles laid out as RiskControlFHE.EncryptedClientProfile
+export type EncryptedProfileHandles = Record<ProfileField, string>;
+
+const PROFILE_LABELS: Record<ProfileField, string> = {
+  age: "Age",
+  annualIncome: "Annual income",
+  debtToIncome: "Debt-to-income",
+  employmentYears: "Employment years",
+  existingObligations: "Existing obligations",
+  delinquencyCount: "Delinquency count",
+};
+
+/**
+ * Encrypt a batch of client profiles into a single input proof.
+ * Handles are laid out profile by profile, in PROFILE_FIELDS order.
+ */
+export async function encryptClientProfiles(
+  contractAddress: string,
+  userAddress: string,
+  profiles: ClientProfileInput[]
+) {
+  if (profiles.length > MAX_ENCRYPTED_BATCH_SIZE) {
+    throw new Error(`Encrypted batches are limited to ${MAX_ENCRYPTED_BATCH_SIZE} clients`);
+  }
+  profiles.forEach((profile, i) =>
+    PROFILE_FIELDS.forEach((field) =>
+      assertUint32(profile[field], profiles.length > 1 ? `${PROFILE_LABELS[field]} on line ${i + 1}` : PROFILE_LABELS[field])
+    )
+  );
+
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  profiles.forEach((profile) => PROFILE_FIELDS.forEach((field) => input.add32(profile[field])));
+
+  const { handles, inputProof } = await input.encrypt();
+  const hexHandles = handles.map((h) => ethers.hexlify(h));
+  return {
+    profiles: profiles.map((_, i) =>
+      Object.fromEntries(
+        PROFILE_FIELDS.map((field, j) => [field, hexHandles[i * PROFILE_FIELDS.length + j]])
+      ) as EncryptedProfileHandles
+    ),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+/**
+ * Encrypt a single client profile (income in whole USDT) for the FHE contract.
+ * The returned handles and proof are bound to both the contract and the submitting account.
+ */
+export async function encryptClientProfile(
+  contractAddress: string,
+  userAddress: string,
+  profile: ClientProfileInput
+) {
+  const { profiles, inputProof } = await encryptClientProfiles(contractAddress, userAddress, [profile]);
+  return { profile: profiles[0], inputProof };
+}
+
+// EncryptedTierInput fields encrypted as euint32, in input order
+const ENCRYPTED_TIER_FIELDS = ["minScore", "incomeMultiplier", "maxCreditLimit"] as const;
+
+const TIER_FIELD_LABELS: Record<typeof ENCRYPTED_TIER_FIELDS[number], string> = {
+  minScore: "Minimum score",
+  incomeMultiplier: "Income multiplier",
+  maxCreditLimit: "Credit cap",
+};
+
+// RiskControlFHE.EncryptedTierConfig as returned by getEncryptedRiskTier; rates stay in plaintext
+export interface EncryptedTierHandles {
+  minScore: string;
+  incomeMultiplier: string;
+  maxCreditLimit: string;
+  minInterestRate: bigint;
+  maxInterestRate: bigint;
+}
+
+/**
+ * Encrypt new tier settings (tier D to tier A, credit caps in whole USDT) for updateRiskTiersEncrypted.
+ * Only the submitting parameter admin can use the resulting proof.
+ */
+export async function encryptRiskTiers(contractAddress: string, userAddress: string, tiers: TierConfig[]) {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  tiers.forEach((tier) => {
+    for (const field of ENCRYPTED_TIER_FIELDS) {
+      const value = Number(tier[field]);
+      assertUint32(value, TIER_FIELD_LABELS[field]);
+      input.add32(value);
+    }
+  });
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    tiers: tiers.map((tier, i) => ({
+      minScore: ethers.hexlify(handles[i * 3]),
+      incomeMultiplier: ethers.hexlify(handles[i * 3 + 1]),
+      maxCreditLimit: ethers.hexlify(handles[i * 3 + 2]),
+      minInterestRate: tier.minInterestRate,
+      maxInterestRate: tier.maxInterestRate,
+    })),
+    inputProof: ethers.hexlify(inputProof),
+  };
+}
+
+export interface DecryptedAssessment {
+  creditLimit: bigint; // whole USDT
+  riskScore: bigint;
+  approved: boolean;
+  tier: number;
+}
+
+export interface EncryptedAssessmentHandles {
+  creditLimit: string;
+  riskScore: string;
+  approved: string;
+  tier: string;
+}
+
+// Decryption credentials are kept in memory only, so cleartext never outlives the session
+interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: string;
+  durationDays: string;
+}
+
+const DECRYPTION_DURATION_DAYS = "1";
+const decryptionSessions = new Map<string, DecryptionSession>();
+
+// run the EIP-712 handshake once per account and contract, then reuse the signed keypair
+async function getDecryptionSession(
+  instance: FhevmInstance,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<DecryptionSession> {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const existing = decryptionSessions.get(key);
+  if (existing) return existing;
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+
+  console.log("Requesting user decryption signature...");
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session = {
+    publicKey,
+    privateKey,
+    signature: signature.replace("0x", ""),
+    startTimestamp,
+    durationDays: DECRYPTION_DURATION_DAYS,
+  };
+  decryptionSessions.set(key, session);
+  return session;
+}
+
+// forget signed decryption keys, e.g. when the wallet disconnects or switches account
+export function clearDecryptionSessions() {
+  decryptionSessions.clear();
+}
+
+// decrypt a set of handles from one contract, keyed by handle
+async function userDecryptHandles(contractAddress: string, signer: ethers.Signer, handles: string[]) {
+  const instance = await getFhevmInstance();
+  const session = await getDecryptionSession(instance, contractAddress, signer);
+
+  return instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    [contractAddress],
+    await signer.getAddress(),
+    session.startTimestamp,
+    session.durationDays
+  );
+}
+
+/**
+ * Decrypt an assessment's result handles for the connected officer through the relayer.
+ * The contract must have granted the signer ACL access to every handle.
+ */
+export async function userDecryptAssessment(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: EncryptedAssessmentHandles
+): Promise<DecryptedAssessment> {
+  const results = await userDecryptHandles(contractAddress, signer, [
+    handles.creditLimit,
+    handles.riskScore,
+    handles.approved,
+    handles.tier,
+  ]);
+
+  return {
+    creditLimit: BigInt(results[handles.creditLimit] as bigint),
+    riskScore: BigInt(results[handles.riskScore] as bigint),
+    approved: Boolean(results[handles.approved]),
+    tier: Number(results[handles.tier]),
+  };
+}
+
+/**
+ * Decrypt the current encrypted tier settings. Only the owner and the
+ * parameter admin who last updated them are on the tiers' ACL.
+ */
+export async function userDecryptRiskTiers(
+  contractAddress: string,
+  signer: ethers.Signer,
+  tiers: EncryptedTierHandles[]
+): Promise<TierConfig[]> {
+  const results = await userDecryptHandles(
+    contractAddress,
+    signer,
+    tiers.flatMap((tier) => ENCRYPTED_TIER_FIELDS.map((field) => tier[field]))
+  );
+
+  return tiers.map((tier) => ({
+    minScore: BigInt(results[tier.minScore] as bigint),
+    incomeMultiplier: BigInt(results[tier.incomeMultiplier] as bigint),
+    maxCreditLimit: BigInt(results[tier.maxCreditLimit] as bigint),
+    minInterestRate: BigInt(tier.minInterestRate),
+    maxInterestRate: BigInt(tier.maxInterestRate),
+  }));
+}
@@ -0,0 +1,49 @@
+// indexer.ts
+import type {
+  AssessmentRecord,
+  AssessmentStats,
+  IndexedContract,
+  IndexerStatus,
+  Page,
+  ParameterUpdateRecord
+} from "@riskcontrol/indexer";
+
+export type { AssessmentRecord, AssessmentStats, IndexerStatus, ParameterUpdateRecord };
+
+// Filters of the indexer's /assessments route; unset fields match everything
+export interface AssessmentQuery {
+  search?: string;
+  tier?: number;
+  approved?: boolean;
+  // unix seconds, inclusive
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// Read-only client of the query API served by packages/indexer for the active chain
+export function indexerClient(baseUrl: string, contract: IndexedContract) {
+  const get = async <T>(route: string, params: Record<string, string | number | boolean | undefined> = {}): Promise<T> => {
+    const url = new URL(route, baseUrl.endsWith("/") ? baseUrl : baseUrl + "/");
+    url.searchParams.set("contract", contract);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined && value !== "") url.searchParams.set(name, String(value));
+    }
+    const response = await fetch(url);
+    const body = await response.json();
+    if (!response.ok) throw new Error(body?.error || `Indexer responded with ${response.status}`);
+    return body as T;
+  };
+
+  return {
+    status: () => get<IndexerStatus>("status"),
+    assessments: (query: AssessmentQuery) => get<Page<AssessmentRecord>>("assessments", { ...query }),
+    clientHistory: (clientId: string) => get<AssessmentRecord[]>(`clients/${encodeURIComponent(clientId)}/assessments`),
+    parameterUpdates: (limit = 20) => get<Page<ParameterUpdateRecord>>("parameters", { limit }),
+    // interval in seconds
+    stats: (interval: number) => get<AssessmentStats>("stats", { interval })
+  };
+}
+
+export type IndexerClient = ReturnType<typeof indexerClient>;
@@ -0,0 +1,99 @@
+// inputRanges.ts
+import { ethers } from "ethers";
+import type { RiskControl, RiskControlFHE } from "@riskcontrol/contracts";
+import { MAX_UINT32 } from "./fhe";
+
+// Profile fields in RiskScoringSpec.Factor order, keyed like the batch columns
+export const PROFILE_FIELDS = [
+  { key: "age", label: "Age", required: true },
+  { key: "income", label: "Income", required: true },
+  { key: "debtToIncome", label: "Debt-to-income", required: false },
+  { key: "employmentYears", label: "Employment years", required: false },
+  { key: "existingObligations", label: "Obligations", required: false },
+  { key: "delinquencyCount", label: "Delinquencies", required: false }
+] as const;
+
+export type ProfileField = typeof PROFILE_FIELDS[number]["key"];
+
+// valid range of each profile field; income bounds are in 6-decimal USDT units for both contracts
+export type InputRanges = Record<ProfileField, { min: bigint; max: bigint }>;
+
+export async function loadInputRanges(
+  contract: Pick<RiskControl | RiskControlFHE, "getInputRanges">,
+  fhe: boolean
+): Promise<InputRanges> {
+  const ranges = await contract.getInputRanges();
+  const result = {} as InputRanges;
+  PROFILE_FIELDS.forEach(({ key }, i) => {
+    // RiskControlFHE bounds income in whole USDT
+    const unit = key === "income" && fhe ? 10n ** 6n : 1n;
+    result[key] = { min: BigInt(ranges[i].min) * unit, max: BigInt(ranges[i].max) * unit };
+  });
+  return result;
+}
+
+const formatBound = (field: ProfileField, value: bigint) =>
+  field === "income" ? ethers.formatUnits(value, 6).replace(/\.0$/, "") : value.toString();
+
+// e.g. "18–120", for form hints
+export function formatRange(ranges: InputRanges, field: ProfileField) {
+  return `${formatBound(field, ranges[field].min)}–${formatBound(field, ranges[field].max)}`;
+}
+
+const isCount = (value: string) => /^\d+$/.test(value);
+
+// Check a profile entered as text against what the selected contract accepts. Blank optional fields count
+// as 0; blank required fields are left to the caller. Income is USDT with up to 6 decimals, or whole USDT
+// for the FHE contract's euint32 inputs. Until the ranges are loaded only the format is checked.
+export function profileErrors(
+  values: Partial<Record<ProfileField, string>>,
+  fheMode: boolean,
+  ranges: InputRanges | null
+): string[] {
+  const errors: string[] = [];
+  for (const { key, label, required } of PROFILE_FIELDS) {
+    const value = values[key]?.trim() ?? "";
+    if (value === "" && required) continue;
+
+    let amount: bigint;
+    if (key === "income") {
+      if (fheMode ? !isCount(value) : !/^\d+(\.\d{1,6})?$/.test(value)) {
+        errors.push(fheMode ? "Income must be whole USDT" : "Income must be a USDT amount with up to 6 decimals");
+        continue;
+      }
+      amount = ethers.parseUnits(value, 6);
+    } else {
+      if (value !== "" && !isCount(value)) {
+        errors.push(`${label} must be a whole number`);
+        continue;
+      }
+      amount = BigInt(value || "0");
+    }
+
+    const range = ranges?.[key];
+    if (range && (amount < range.min || amount > range.max)) {
+      const unit = key === "income" ? " USDT" : "";
+      errors.push(`${label} must be between ${formatBound(key, range.min)} and ${formatBound(key, range.max)}${unit}`);
+    } else if (!range && fheMode && (key === "income" ? amount / 10n ** 6n : amount) > BigInt(MAX_UINT32)) {
+      errors.push(`${label} must be at most ${MAX_UINT32}`);
+    }
+  }
+  return errors;
+}
+
+// Readable message for a failed assessment call, decoding the input errors of RiskScoringSpec
+export function describeAssessmentError(e: any): string {
+  const revert = e?.revert;
+  switch (revert?.name) {
+    case "InputOutOfRange": {
+      const [factor, value, min, max] = revert.args;
+      const { key, label } = PROFILE_FIELDS[Number(factor)];
+      return `${label} ${formatBound(key, value)} is outside the valid range ${formatBound(key, min)}–${formatBound(key, max)}`;
+    }
+    case "EmptyClientId":
+      return "Client ID cannot be empty";
+    case "InputLengthMismatch":
+      return "Every profile needs a client ID";
+  }
+  return e?.reason || e?.shortMessage || e?.message || String(e);
+}
@@ -0,0 +1,129 @@
+// networks.ts
+import configJson from "./config.json";
+
+// Chain parameters the frontend needs to read from and switch wallets to a network
+export interface NetworkInfo {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl?: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // whether the Zama relayer serves this chain, which encrypted assessments need
+  fheSupported: boolean;
+}
+
+// A contract deployed on a chain; proxies also record their implementation
+export interface ContractEntry {
+  address: string;
+  implementation?: string;
+}
+
+// The contracts deploy/frontend.ts wrote for one chain, keyed by contract name
+export interface DeploymentEntry {
+  name?: string;
+  // public RPC for a chain missing from NETWORKS; set by hand, never a URL carrying an API key
+  rpcUrl?: string;
+  deployer?: string;
+  // query API of packages/indexer following this chain's contracts
+  indexerUrl?: string;
+  contracts: {
+    RiskControl?: ContractEntry;
+    RiskControlFHE?: ContractEntry;
+  };
+}
+
+interface DeploymentConfig {
+  defaultChainId: number;
+  deployments: Record<string, DeploymentEntry>;
+}
+
+// A network together with the contracts deployed on it; an address is "" when that variant is not deployed
+export interface Deployment extends NetworkInfo {
+  contractAddress: string;
+  fheContractAddress: string;
+  // "" when no indexer serves this chain
+  indexerUrl: string;
+}
+
+export const NETWORKS: Record<number, NetworkInfo> = {
+  31337: {
+    chainId: 31337,
+    name: "Hardhat Local",
+    rpcUrl: "http://127.0.0.1:8545",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    fheSupported: false
+  },
+  11155111: {
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrl: "https://sepolia.drpc.org",
+    explorerUrl: "https://sepolia.etherscan.io/",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 },
+    fheSupported: true
+  }
+};
+
+const config = configJson as DeploymentConfig;
+
+export const DEFAULT_CHAIN_ID = config.defaultChainId;
+
+// the deployment on a chain, or null if neither contract variant has been deployed there
+export function getDeployment(chainId: number): Deployment | null {
+  const entry = config.deployments[String(chainId)];
+  const contractAddress = entry?.contracts.RiskControl?.address ?? "";
+  const fheContractAddress = entry?.contracts.RiskControlFHE?.address ?? "";
+  if (!contractAddress && !fheContractAddress) return null;
+
+  // chains missing from NETWORKS can still be used if config.json names them
+  const network: NetworkInfo = NETWORKS[chainId] ?? {
+    chainId,
+    name: entry.name ?? `Chain ${chainId}`,
+    rpcUrl: entry.rpcUrl ?? "",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    fheSupported: false
+  };
+  return {
+    ...network,
+    contractAddress,
+    fheContractAddress,
+    indexerUrl: entry.indexerUrl ?? ""
+  };
+}
+
+// every chain with a deployment, default chain first
+export function deployedNetworks(): Deployment[] {
+  return Object.keys(config.deployments)
+    .map((id) => getDeployment(Number(id)))
+    .filter((d): d is Deployment => d !== null)
+    .sort((a, b) => (a.chainId === DEFAULT_CHAIN_ID ? -1 : b.chainId === DEFAULT_CHAIN_ID ? 1 : a.chainId - b.chainId));
+}
+
+export function networkName(chainId: number) {
+  return getDeployment(chainId)?.name ?? NETWORKS[chainId]?.name ?? `Chain ${chainId}`;
+}
+
+const toHexChainId = (chainId: number) => "0x" + chainId.toString(16);
+
+// ask an injected wallet to switch chains, adding the chain first if the wallet does not know it
+export async function switchWalletNetwork(provider: any, chainId: number) {
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: toHexChainId(chainId) }]
+    });
+  } catch (switchError: any) {
+    const network = getDeployment(chainId);
+    if (switchError.code !== 4902 || !network) throw switchError;
+
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: toHexChainId(chainId),
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: [network.rpcUrl],
+        ...(network.explorerUrl && { blockExplorerUrls: [network.explorerUrl] })
+      }]
+    });
+  }
+}
@@ -0,0 +1,88 @@
+// tiers.ts
+import { ethers } from "ethers";
+
+// RiskControl.RiskTier values, from worst to best
+export const TIER_LABELS = ["Decline", "D", "C", "B", "A"];
+export const DECLINE_TIER = 0;
+
+// badge colors per tier, indexed like TIER_LABELS
+export const TIER_COLORS = ["#ff00c8", "#ffb86c", "#f1fa8c", "#00f7ff", "#00ff9d"];
+
+// RiskControl.TierConfig; credit caps are in USDT units (6 decimals), or whole USDT when
+// decrypted from RiskControlFHE, rates in basis points
+export interface TierConfig {
+  minScore: bigint;
+  incomeMultiplier: bigint;
+  maxCreditLimit: bigint;
+  minInterestRate: bigint;
+  maxInterestRate: bigint;
+}
+
+// the contracts store exactly one config per approving tier, D to A
+export type TierTuple<T> = [T, T, T, T];
+
+export function asTierTuple<T>(tiers: T[]): TierTuple<T> {
+  if (tiers.length !== TIER_LABELS.length - 1) {
+    throw new Error(`Expected ${TIER_LABELS.length - 1} risk tiers, got ${tiers.length}`);
+  }
+  return tiers as TierTuple<T>;
+}
+
+export function tierLabel(tier: number) {
+  return TIER_LABELS[tier] ?? "Unknown";
+}
+
+// Same rule as RiskScoringSpec, used by both contracts: the best tier whose minimum score is reached.
+// tiers are ordered from tier D to tier A, as stored on-chain
+export function tierForScore(score: bigint, tiers: TierConfig[]): number {
+  for (let i = tiers.length; i > 0; i--) {
+    if (score >= tiers[i - 1].minScore) {
+      return i;
+    }
+  }
+  return DECLINE_TIER;
+}
+
+// RiskControl.ScoringFactor fields that bound the score
+export interface ScoringFactorConfig {
+  weight: bigint;
+  cap: bigint;
+  breakpoints: readonly bigint[];
+}
+
+// Highest score the factors can produce: every factor earns its bucket points for all of its
+// breakpoints, with the same rounding as RiskScoringSpec._bucketPoints
+export function maxRiskScore(factors: readonly ScoringFactorConfig[]): bigint {
+  return factors.reduce((total, factor) => {
+    const buckets = BigInt(factor.breakpoints.length);
+    return buckets === 0n ? total : total + (factor.cap * factor.weight) / (100n * buckets) * buckets;
+  }, 0n);
+}
+
+// configuration of an approving tier, or undefined for Decline and unknown values
+export function tierConfig(tier: number, tiers: TierConfig[]): TierConfig | undefined {
+  return tier === DECLINE_TIER ? undefined : tiers[tier - 1];
+}
+
+const formatBps = (bps: bigint) => (Number(bps) / 100).toFixed(2);
+
+// "5.00% - 8.00%"
+export function formatRateBand(config: TierConfig) {
+  return `${formatBps(config.minInterestRate)}% - ${formatBps(config.maxInterestRate)}%`;
+}
+
+// credit caps are shown in whole USDT; pass 0 decimals for RiskControlFHE tiers
+export function formatCreditCap(config: TierConfig, decimals = 6) {
+  return ethers.formatUnits(config.maxCreditLimit, decimals);
+}
+
+// normalize a TierConfig struct returned by ethers
+export function toTierConfig(raw: any): TierConfig {
+  return {
+    minScore: BigInt(raw.minScore),
+    incomeMultiplier: BigInt(raw.incomeMultiplier),
+    maxCreditLimit: BigInt(raw.maxCreditLimit),
+    minInterestRate: BigInt(raw.minInterestRate),
+    maxInterestRate: BigInt(raw.maxInterestRate)
+  };
+}
@@ -1,3 +1,4 @@
+import path from "path";
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -5,5 +6,18 @@ export default defineConfig({
   plugins: [react()],
   define: {
     'process.env': process.env
+  },
+  resolve: {
+    // same mapping as the tsconfig paths; the typechain factories live outside this app
+    alias: {
+      '@riskcontrol/contracts': path.resolve(__dirname, '../../packages/contracts/index.ts')
+    },
+    // the factories import ethers too, so resolve it to this app's copy only
+    dedupe: ['ethers']
+  },
+  server: {
+    fs: {
+      allow: ['../..']
+    }
   }
 });
@@ -2,17 +2,35 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+import * as dotenv from "dotenv";
+
+import "./tasks/storageLayout";
+
+dotenv.config({ quiet: true });
+
+// Deployment settings come from the environment (see .env.example) so deploys can run unattended
+const SEPOLIA_RPC_URL = process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org";
+const DEPLOYER_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY;
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    // `npx hardhat node` serves this network and runs the deploy scripts on start
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: SEPOLIA_RPC_URL,
+      accounts: DEPLOYER_PRIVATE_KEY ? [DEPLOYER_PRIVATE_KEY] : [],
     },
   },
   solidity: {
@@ -26,6 +44,12 @@ const config: HardhatUserConfig = {
         bytecodeHash: "none",
       },
       evmVersion: "cancun",
+      // Storage layouts are read by tasks/storageLayout.ts to check upgrade compatibility
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   paths: {
@@ -33,6 +57,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
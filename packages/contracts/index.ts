@@ -0,0 +1,8 @@
+// packages/contracts/index.ts
+// Typechain bindings generated into types/ by `npm run typechain`. The factories carry each contract's ABI
+// and connect typed handles to a deployed address
+export type { RiskControl } from "../../types/contracts/RiskControl";
+export type { RiskControlFHE } from "../../types/contracts/RiskControlFHE";
+export type { TypedContractEvent, TypedEventLog } from "../../types/common";
+export { RiskControl__factory } from "../../types/factories/contracts/RiskControl__factory";
+export { RiskControlFHE__factory } from "../../types/factories/contracts/RiskControlFHE__factory";
@@ -0,0 +1,155 @@
+// packages/indexer/api.ts
+import http from "http";
+import { INDEXED_CONTRACTS, IndexerConfig } from "./config";
+import { Store } from "./store";
+import { AssessmentFilter, IndexedContract, IndexerStatus } from "./types";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const DAY = 24 * 60 * 60;
+
+// A request the API rejects with a 4xx status
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const integerParam = (query: URLSearchParams, name: string) => {
+  const value = query.get(name);
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new ApiError(400, `${name} must be a non-negative integer`);
+  return parsed;
+};
+
+const booleanParam = (query: URLSearchParams, name: string) => {
+  const value = query.get(name);
+  if (value === null || value === "") return undefined;
+  if (value !== "true" && value !== "false") throw new ApiError(400, `${name} must be true or false`);
+  return value === "true";
+};
+
+const contractParam = (value: string | null, config: IndexerConfig): IndexedContract => {
+  // the plaintext contract unless only RiskControlFHE is deployed
+  const name = value || (config.contracts.RiskControl ? "RiskControl" : "RiskControlFHE");
+  if (!INDEXED_CONTRACTS.includes(name as IndexedContract) || !config.contracts[name as IndexedContract]) {
+    throw new ApiError(400, `${name} is not indexed on chain ${config.chainId}`);
+  }
+  return name as IndexedContract;
+};
+
+const pathSegments = (pathname: string) =>
+  pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        throw new ApiError(400, `Malformed path segment ${segment}`);
+      }
+    });
+
+const page = (query: URLSearchParams) => ({
+  limit: Math.min(integerParam(query, "limit") ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  offset: integerParam(query, "offset") ?? 0,
+});
+
+// Read-only JSON API over the store:
+//   GET /status                          chain, contracts and the last indexed block of each
+//   GET /assessments                     filtered by contract, clientId, search, tier, approved, batchId, from, to
+//   GET /clients/:clientId/assessments   a client's full history, oldest first
+//   GET /batches, /batches/:batchId      batch submissions with every row's outcome
+//   GET /parameters                      ParametersUpdated history with the function that caused it
+//   GET /stats                           totals, tier counts and a time series (interval in seconds, default a day)
+// Every list takes limit and offset, and every route but /status a contract name (default RiskControl).
+function route(store: Store, config: IndexerConfig, url: URL): unknown {
+  const query = url.searchParams;
+  const segments = pathSegments(url.pathname);
+
+  if (segments.length === 1 && segments[0] === "status") {
+    const status: IndexerStatus = {
+      chainId: config.chainId,
+      contracts: Object.fromEntries(
+        Object.entries(config.contracts).map(([name, address]) => [
+          name,
+          { address, lastBlock: store.getSyncState(name as IndexedContract)?.lastBlock ?? null },
+        ]),
+      ),
+    };
+    return status;
+  }
+
+  const contract = contractParam(query.get("contract"), config);
+  switch (segments[0]) {
+    case "assessments": {
+      if (segments.length !== 1) break;
+      const filter: AssessmentFilter = {
+        contract,
+        clientId: query.get("clientId") || undefined,
+        search: query.get("search") || undefined,
+        tier: integerParam(query, "tier"),
+        approved: booleanParam(query, "approved"),
+        batchId: integerParam(query, "batchId"),
+        from: integerParam(query, "from"),
+        to: integerParam(query, "to"),
+        ...page(query),
+      };
+      return store.findAssessments(filter);
+    }
+    case "clients":
+      if (segments.length !== 3 || segments[2] !== "assessments") break;
+      return store.getClientHistory(contract, segments[1]);
+    case "batches": {
+      const { limit, offset } = page(query);
+      if (segments.length === 1) return store.listBatches(contract, limit, offset);
+      const batchId = Number(segments[1]);
+      if (segments.length !== 2 || !Number.isInteger(batchId)) break;
+      const batch = store.getBatch(contract, batchId);
+      if (!batch) throw new ApiError(404, `Batch ${batchId} has not been indexed`);
+      return batch;
+    }
+    case "parameters": {
+      if (segments.length !== 1) break;
+      const { limit, offset } = page(query);
+      return store.listParameterUpdates(contract, limit, offset);
+    }
+    case "stats": {
+      if (segments.length !== 1) break;
+      const interval = integerParam(query, "interval") ?? DAY;
+      if (interval === 0) throw new ApiError(400, "interval must be positive");
+      return store.getStats(contract, interval);
+    }
+  }
+  throw new ApiError(404, `No route for ${url.pathname}`);
+}
+
+export function createApiServer(store: Store, config: IndexerConfig) {
+  return http.createServer((req, res) => {
+    // the frontend is served from another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new ApiError(405, "Only GET is supported");
+      body = route(store, config, new URL(req.url ?? "/", "http://localhost"));
+    } catch (e) {
+      if (e instanceof ApiError) {
+        status = e.status;
+        body = { error: e.message };
+      } else {
+        status = 500;
+        console.error("API request failed:", req.url, e);
+        body = { error: "Internal error" };
+      }
+    }
+    res.writeHead(status);
+    res.end(JSON.stringify(body));
+  });
+}
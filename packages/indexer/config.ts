@@ -0,0 +1,76 @@
+// packages/indexer/config.ts
+import fs from "fs";
+import path from "path";
+import { IndexedContract } from "./types";
+
+// Contract addresses per chain, as written by deploy/frontend.ts for the frontend
+const FRONTEND_CONFIG_PATH = path.join(__dirname, "..", "..", "frontend", "web", "src", "config.json");
+
+export const INDEXED_CONTRACTS: readonly IndexedContract[] = ["RiskControl", "RiskControlFHE"];
+
+const LOCAL_CHAIN_ID = 31337;
+
+// The public RPC the frontend uses per chain (NETWORKS in frontend/web/src/networks.ts)
+const PUBLIC_RPC_URLS: Record<number, string> = {
+  [LOCAL_CHAIN_ID]: "http://127.0.0.1:8545",
+  11155111: "https://sepolia.drpc.org",
+};
+
+export interface IndexerConfig {
+  chainId: number;
+  rpcUrl: string;
+  // address of every contract variant deployed on the chain
+  contracts: Partial<Record<IndexedContract, string>>;
+  // first block to read logs from when the store is empty
+  startBlock: number;
+  // blocks a log must be buried under before it is stored
+  confirmations: number;
+  // blocks per eth_getLogs request
+  blockRange: number;
+  pollIntervalMs: number;
+  dbPath: string;
+  // interface the query API listens on; loopback unless the API is meant to be reachable from other hosts
+  host: string;
+  port: number;
+}
+
+const numberSetting = (value: string | undefined, fallback: number) => {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Expected a non-negative integer, got "${value}"`);
+  return parsed;
+};
+
+// Settings come from the environment (see .env.example); addresses default to the ones deployed for the frontend
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const chainId = numberSetting(env.INDEXER_CHAIN_ID, LOCAL_CHAIN_ID);
+  const entry = fs.existsSync(FRONTEND_CONFIG_PATH)
+    ? JSON.parse(fs.readFileSync(FRONTEND_CONFIG_PATH, "utf-8")).deployments?.[String(chainId)]
+    : undefined;
+
+  const contracts: IndexerConfig["contracts"] = {};
+  const riskControl = env.INDEXER_RISK_CONTROL_ADDRESS || entry?.contracts?.RiskControl?.address;
+  const riskControlFHE = env.INDEXER_RISK_CONTROL_FHE_ADDRESS || entry?.contracts?.RiskControlFHE?.address;
+  if (riskControl) contracts.RiskControl = riskControl;
+  if (riskControlFHE) contracts.RiskControlFHE = riskControlFHE;
+  if (Object.keys(contracts).length === 0) {
+    throw new Error(`No RiskControl or RiskControlFHE address for chain ${chainId}; deploy first or set the address`);
+  }
+
+  const rpcUrl = env.INDEXER_RPC_URL || PUBLIC_RPC_URLS[chainId];
+  if (!rpcUrl) throw new Error(`No RPC URL for chain ${chainId}; set INDEXER_RPC_URL`);
+
+  return {
+    chainId,
+    rpcUrl,
+    contracts,
+    startBlock: numberSetting(env.INDEXER_START_BLOCK, 0),
+    // a local node only mines on demand, so waiting for confirmations would hold back the latest assessments
+    confirmations: numberSetting(env.INDEXER_CONFIRMATIONS, chainId === LOCAL_CHAIN_ID ? 0 : 5),
+    blockRange: numberSetting(env.INDEXER_BLOCK_RANGE, 2000),
+    pollIntervalMs: numberSetting(env.INDEXER_POLL_INTERVAL_MS, 4000),
+    dbPath: env.INDEXER_DB_PATH || path.join(__dirname, "data", `indexer-${chainId}.sqlite`),
+    host: env.INDEXER_HOST || "127.0.0.1",
+    port: numberSetting(env.INDEXER_PORT, 4000),
+  };
+}
@@ -0,0 +1,227 @@
+// packages/indexer/indexer.ts
+import { ethers } from "ethers";
+import { RiskControl__factory } from "../../types/factories/contracts/RiskControl__factory";
+import { RiskControlFHE__factory } from "../../types/factories/contracts/RiskControlFHE__factory";
+import { IndexerConfig } from "./config";
+import { IndexedRange, Store } from "./store";
+import { AssessmentRecord, BatchItemRecord, BatchRecord, IndexedContract, ParameterUpdateRecord } from "./types";
+
+// Events the indexer follows; the batch item events name the client IDs that AssessmentPerformed only carries hashed
+const INDEXED_EVENTS = [
+  "AssessmentPerformed",
+  "BatchAssessmentPerformed",
+  "BatchItemAssessed",
+  "BatchItemFailed",
+  "ParametersUpdated",
+] as const;
+
+// Calls whose clientId argument names the client of a single assessment
+const SINGLE_ASSESSMENT_FUNCTIONS = ["assessRisk", "assessRiskEncrypted"];
+
+const connect = (name: IndexedContract, address: string, provider: ethers.Provider) =>
+  name === "RiskControl"
+    ? RiskControl__factory.connect(address, provider)
+    : RiskControlFHE__factory.connect(address, provider);
+
+type IndexedContractHandle = ReturnType<typeof connect>;
+
+// Follows one deployed contract: reads its logs range by range and stores what they describe
+export function createContractIndexer(
+  name: IndexedContract,
+  address: string,
+  provider: ethers.Provider,
+  store: Store,
+  config: IndexerConfig,
+) {
+  const contract: IndexedContractHandle = connect(name, address, provider);
+  const iface: ethers.Interface = contract.interface;
+  const topics = INDEXED_EVENTS.map((event) => iface.getEvent(event)!.topicHash);
+  const plaintext = name === "RiskControl";
+
+  // keccak256(clientId) => clientId, for assessments whose ID appears neither in a batch event nor in the calldata
+  let knownClientIds = new Map<string, string>();
+  const resolveClientId = async (hash: string) => {
+    if (!knownClientIds.has(hash)) {
+      const clientIds = await contract.getAllClientIds();
+      knownClientIds = new Map(clientIds.map((id) => [ethers.id(id), id]));
+    }
+    return knownClientIds.get(hash) ?? null;
+  };
+
+  // Decode the logs of one transaction; rows of a batch emit AssessmentPerformed then their BatchItemAssessed
+  const decodeTransaction = async (logs: ethers.Log[], range: IndexedRange) => {
+    const tx = await provider.getTransaction(logs[0].transactionHash);
+    if (!tx) throw new Error(`Transaction ${logs[0].transactionHash} not found`);
+    let call: ethers.TransactionDescription | null = null;
+    if (tx.to && ethers.getAddress(tx.to) === ethers.getAddress(address)) {
+      try {
+        call = iface.parseTransaction(tx);
+      } catch {
+        // not a call to a function of this contract version
+      }
+    }
+
+    const batchItems = new Map<number, BatchItemRecord[]>();
+    let lastAssessment: AssessmentRecord | null = null;
+    for (const log of logs) {
+      const event = iface.parseLog(log);
+      if (!event) continue;
+      const position = { blockNumber: log.blockNumber, txHash: log.transactionHash };
+
+      switch (event.name) {
+        case "AssessmentPerformed": {
+          const assessment: AssessmentRecord = {
+            contract: name,
+            clientId: null,
+            // the indexed string topic is keccak256(clientId)
+            clientIdHash: log.topics[1],
+            riskScore: plaintext ? Number(event.args.riskScore) : null,
+            tier: plaintext ? Number(event.args.tier) : null,
+            approved: plaintext ? Boolean(event.args.approved) : null,
+            creditLimit: plaintext ? event.args.creditLimit.toString() : null,
+            batchId: null,
+            timestamp: Number(event.args.timestamp),
+            ...position,
+            logIndex: log.index,
+          };
+          range.assessments.push(assessment);
+          lastAssessment = assessment;
+          break;
+        }
+        case "BatchItemAssessed":
+        case "BatchItemFailed": {
+          const batchId = Number(event.args.batchId);
+          const ok = event.name === "BatchItemAssessed";
+          const items = batchItems.get(batchId) ?? [];
+          items.push({
+            index: Number(event.args.index),
+            clientId: event.args.clientId,
+            ok,
+            reason: ok ? null : event.args.reason,
+          });
+          batchItems.set(batchId, items);
+          if (ok && lastAssessment && lastAssessment.clientIdHash === ethers.id(event.args.clientId)) {
+            lastAssessment.clientId = event.args.clientId;
+            lastAssessment.batchId = batchId;
+          }
+          break;
+        }
+        case "BatchAssessmentPerformed": {
+          const batch: BatchRecord = {
+            contract: name,
+            batchId: Number(event.args.batchId),
+            successCount: Number(event.args.count),
+            submittedBy: tx.from,
+            timestamp: Number(event.args.timestamp),
+            ...position,
+            items: batchItems.get(Number(event.args.batchId)) ?? [],
+          };
+          range.batches.push(batch);
+          break;
+        }
+        case "ParametersUpdated": {
+          const update: ParameterUpdateRecord = {
+            contract: name,
+            functionName: call?.name ?? null,
+            sender: tx.from,
+            timestamp: Number(event.args.timestamp),
+            ...position,
+            logIndex: log.index,
+          };
+          range.parameterUpdates.push(update);
+          break;
+        }
+      }
+    }
+
+    for (const assessment of range.assessments) {
+      if (assessment.clientId !== null || assessment.txHash !== tx.hash) continue;
+      if (call && SINGLE_ASSESSMENT_FUNCTIONS.includes(call.name)) {
+        assessment.clientId = call.args.at(-1);
+      } else {
+        // e.g. submitted through a multisig, so the calldata is not this contract's
+        assessment.clientId = await resolveClientId(assessment.clientIdHash);
+      }
+    }
+  };
+
+  // Store the logs of blocks fromBlock..toBlock together with the new sync position
+  const indexRange = async (fromBlock: number, toBlock: number) => {
+    const block = await provider.getBlock(toBlock);
+    if (!block?.hash) throw new Error(`Block ${toBlock} not found`);
+    const range: IndexedRange = {
+      contract: name,
+      toBlock,
+      toBlockHash: block.hash,
+      assessments: [],
+      batches: [],
+      parameterUpdates: [],
+    };
+
+    const logs = await provider.getLogs({ address, fromBlock, toBlock, topics: [topics] });
+    const byTransaction = new Map<string, ethers.Log[]>();
+    for (const log of logs) {
+      byTransaction.set(log.transactionHash, [...(byTransaction.get(log.transactionHash) ?? []), log]);
+    }
+    for (const txLogs of byTransaction.values()) {
+      await decodeTransaction(txLogs, range);
+    }
+
+    store.saveRange(range);
+    return range;
+  };
+
+  // Index every confirmed block not stored yet. A stored block that is no longer on the chain means a reorg
+  // or a restarted local node, in which case the contract is indexed again from the start block.
+  const sync = async () => {
+    let state = store.getSyncState(name);
+    if (state) {
+      const stored = await provider.getBlock(state.lastBlock);
+      if (stored?.hash !== state.lastBlockHash) {
+        console.warn(`${name}: block ${state.lastBlock} is no longer on the chain, reindexing from the start block`);
+        store.reset(name);
+        state = null;
+      }
+    }
+
+    const head = (await provider.getBlockNumber()) - config.confirmations;
+    let fromBlock = state ? state.lastBlock + 1 : config.startBlock;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + config.blockRange - 1, head);
+      const range = await indexRange(fromBlock, toBlock);
+      if (range.assessments.length + range.batches.length + range.parameterUpdates.length > 0) {
+        console.log(
+          `${name}: blocks ${fromBlock}-${toBlock}: ${range.assessments.length} assessments, ` +
+            `${range.batches.length} batches, ${range.parameterUpdates.length} parameter updates`,
+        );
+      }
+      fromBlock = toBlock + 1;
+    }
+  };
+
+  return { name, sync };
+}
+
+export type ContractIndexer = ReturnType<typeof createContractIndexer>;
+
+// Sync every indexer, then poll for new blocks until the signal aborts. A failed sync is retried on the next poll.
+export async function runIndexers(indexers: ContractIndexer[], config: IndexerConfig, signal: AbortSignal) {
+  while (!signal.aborted) {
+    for (const indexer of indexers) {
+      try {
+        await indexer.sync();
+      } catch (e) {
+        // ethers errors carry a one-line shortMessage next to the full message
+        const message = e instanceof Error ? ("shortMessage" in e && e.shortMessage) || e.message : e;
+        console.error(`${indexer.name}: sync failed, retrying:`, message);
+      }
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, config.pollIntervalMs);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
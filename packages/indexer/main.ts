@@ -0,0 +1,42 @@
+// packages/indexer/main.ts
+import path from "path";
+import * as dotenv from "dotenv";
+import { ethers } from "ethers";
+import { createApiServer } from "./api";
+import { loadConfig } from "./config";
+import { createContractIndexer, runIndexers } from "./indexer";
+import { openStore } from "./store";
+import { IndexedContract } from "./types";
+
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env"), quiet: true });
+
+// Follows the deployed contracts into a local SQLite store and serves the query API until interrupted
+async function main() {
+  const config = loadConfig();
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true });
+  const store = openStore(config.dbPath);
+
+  const indexers = Object.entries(config.contracts).map(([name, address]) =>
+    createContractIndexer(name as IndexedContract, address, provider, store, config),
+  );
+  console.log(`Indexing ${indexers.map((i) => i.name).join(", ")} on chain ${config.chainId} into ${config.dbPath}`);
+
+  const server = createApiServer(store, config);
+  server.listen(config.port, config.host, () =>
+    console.log(`Query API listening on http://${config.host}:${config.port}`),
+  );
+
+  const shutdown = new AbortController();
+  process.once("SIGINT", () => shutdown.abort());
+  process.once("SIGTERM", () => shutdown.abort());
+
+  await runIndexers(indexers, config, shutdown.signal);
+  server.close();
+  provider.destroy();
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
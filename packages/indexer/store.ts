@@ -0,0 +1,373 @@
+// packages/indexer/store.ts
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import {
+  AssessmentFilter,
+  AssessmentRecord,
+  AssessmentStats,
+  BatchItemRecord,
+  BatchRecord,
+  IndexedContract,
+  Page,
+  ParameterUpdateRecord,
+} from "./types";
+
+// Credit limits are kept as decimal strings: RiskControl reports them in 6-decimal USDT units.
+// RiskControlFHE only emits encrypted result handles, so its score, tier, approval and credit limit stay null.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sync_state (
+    contract TEXT PRIMARY KEY,
+    last_block INTEGER NOT NULL,
+    last_block_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS assessments (
+    contract TEXT NOT NULL,
+    client_id TEXT,
+    client_id_hash TEXT NOT NULL,
+    risk_score INTEGER,
+    tier INTEGER,
+    approved INTEGER,
+    credit_limit TEXT,
+    batch_id INTEGER,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS assessments_client ON assessments (contract, client_id, timestamp);
+  CREATE INDEX IF NOT EXISTS assessments_time ON assessments (contract, timestamp);
+  CREATE TABLE IF NOT EXISTS batches (
+    contract TEXT NOT NULL,
+    batch_id INTEGER NOT NULL,
+    success_count INTEGER NOT NULL,
+    submitted_by TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (contract, batch_id)
+  );
+  CREATE TABLE IF NOT EXISTS batch_items (
+    contract TEXT NOT NULL,
+    batch_id INTEGER NOT NULL,
+    item_index INTEGER NOT NULL,
+    client_id TEXT NOT NULL,
+    ok INTEGER NOT NULL,
+    reason TEXT,
+    PRIMARY KEY (contract, batch_id, item_index)
+  );
+  CREATE TABLE IF NOT EXISTS parameter_updates (
+    contract TEXT NOT NULL,
+    function_name TEXT,
+    sender TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (contract, block_number, log_index)
+  );
+`;
+
+// Everything decoded from one block range of one contract, stored together with the new sync position
+export interface IndexedRange {
+  contract: IndexedContract;
+  toBlock: number;
+  toBlockHash: string;
+  assessments: AssessmentRecord[];
+  batches: BatchRecord[];
+  parameterUpdates: ParameterUpdateRecord[];
+}
+
+export interface SyncState {
+  lastBlock: number;
+  lastBlockHash: string;
+}
+
+export interface Store {
+  getSyncState(contract: IndexedContract): SyncState | null;
+  saveRange(range: IndexedRange): void;
+  // drops everything indexed for a contract, e.g. after the local node was restarted
+  reset(contract: IndexedContract): void;
+  findAssessments(filter: AssessmentFilter): Page<AssessmentRecord>;
+  getClientHistory(contract: IndexedContract, clientId: string): AssessmentRecord[];
+  listBatches(contract: IndexedContract, limit: number, offset: number): Page<BatchRecord>;
+  getBatch(contract: IndexedContract, batchId: number): BatchRecord | null;
+  listParameterUpdates(contract: IndexedContract, limit: number, offset: number): Page<ParameterUpdateRecord>;
+  getStats(contract: IndexedContract, interval: number): AssessmentStats;
+  close(): void;
+}
+
+// Rows as better-sqlite3 returns them: snake_case columns, booleans as 0 or 1
+interface AssessmentRow {
+  contract: IndexedContract;
+  client_id: string | null;
+  client_id_hash: string;
+  risk_score: number | null;
+  tier: number | null;
+  approved: number | null;
+  credit_limit: string | null;
+  batch_id: number | null;
+  timestamp: number;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface BatchRow {
+  contract: IndexedContract;
+  batch_id: number;
+  success_count: number;
+  submitted_by: string;
+  timestamp: number;
+  block_number: number;
+  tx_hash: string;
+}
+
+interface BatchItemRow {
+  item_index: number;
+  client_id: string;
+  ok: number;
+  reason: string | null;
+}
+
+interface ParameterUpdateRow {
+  contract: IndexedContract;
+  function_name: string | null;
+  sender: string;
+  timestamp: number;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface SyncStateRow {
+  last_block: number;
+  last_block_hash: string;
+}
+
+interface CountRow {
+  total: number;
+}
+
+interface TotalsRow {
+  total: number;
+  approved: number;
+  declined: number;
+}
+
+interface TierCountRow {
+  tier: number;
+  count: number;
+}
+
+const toAssessment = (row: AssessmentRow): AssessmentRecord => ({
+  contract: row.contract,
+  clientId: row.client_id,
+  clientIdHash: row.client_id_hash,
+  riskScore: row.risk_score,
+  tier: row.tier,
+  approved: row.approved === null ? null : row.approved === 1,
+  creditLimit: row.credit_limit,
+  batchId: row.batch_id,
+  timestamp: row.timestamp,
+  blockNumber: row.block_number,
+  txHash: row.tx_hash,
+  logIndex: row.log_index,
+});
+
+const toParameterUpdate = (row: ParameterUpdateRow): ParameterUpdateRecord => ({
+  contract: row.contract,
+  functionName: row.function_name,
+  sender: row.sender,
+  timestamp: row.timestamp,
+  blockNumber: row.block_number,
+  txHash: row.tx_hash,
+  logIndex: row.log_index,
+});
+
+export function openStore(dbPath: string): Store {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const insertAssessment = db.prepare(`
+    INSERT OR REPLACE INTO assessments (contract, client_id, client_id_hash, risk_score, tier, approved,
+      credit_limit, batch_id, timestamp, block_number, tx_hash, log_index)
+    VALUES (@contract, @clientId, @clientIdHash, @riskScore, @tier, @approved,
+      @creditLimit, @batchId, @timestamp, @blockNumber, @txHash, @logIndex)
+  `);
+  const insertBatch = db.prepare(`
+    INSERT OR REPLACE INTO batches (contract, batch_id, success_count, submitted_by, timestamp, block_number, tx_hash)
+    VALUES (@contract, @batchId, @successCount, @submittedBy, @timestamp, @blockNumber, @txHash)
+  `);
+  const insertBatchItem = db.prepare(`
+    INSERT OR REPLACE INTO batch_items (contract, batch_id, item_index, client_id, ok, reason)
+    VALUES (@contract, @batchId, @index, @clientId, @ok, @reason)
+  `);
+  const insertParameterUpdate = db.prepare(`
+    INSERT OR REPLACE INTO parameter_updates (contract, function_name, sender, timestamp, block_number, tx_hash, log_index)
+    VALUES (@contract, @functionName, @sender, @timestamp, @blockNumber, @txHash, @logIndex)
+  `);
+  const upsertSyncState = db.prepare(`
+    INSERT OR REPLACE INTO sync_state (contract, last_block, last_block_hash) VALUES (?, ?, ?)
+  `);
+
+  // A range is written in one transaction, so a crash never leaves logs stored past the saved sync position
+  const saveRange = db.transaction((range: IndexedRange) => {
+    for (const assessment of range.assessments) {
+      insertAssessment.run({
+        ...assessment,
+        approved: assessment.approved === null ? null : Number(assessment.approved),
+      });
+    }
+    for (const { items, ...batch } of range.batches) {
+      insertBatch.run(batch);
+      for (const item of items) {
+        insertBatchItem.run({ ...item, contract: batch.contract, batchId: batch.batchId, ok: Number(item.ok) });
+      }
+    }
+    for (const update of range.parameterUpdates) insertParameterUpdate.run(update);
+    upsertSyncState.run(range.contract, range.toBlock, range.toBlockHash);
+  });
+
+  const reset = db.transaction((contract: IndexedContract) => {
+    for (const table of ["sync_state", "assessments", "batches", "batch_items", "parameter_updates"]) {
+      db.prepare(`DELETE FROM ${table} WHERE contract = ?`).run(contract);
+    }
+  });
+
+  const batchItems = (contract: IndexedContract, batchId: number): BatchItemRecord[] => {
+    const rows = db
+      .prepare(
+        "SELECT item_index, client_id, ok, reason FROM batch_items WHERE contract = ? AND batch_id = ? ORDER BY item_index",
+      )
+      .all(contract, batchId) as BatchItemRow[];
+    return rows.map((row) => ({
+      index: row.item_index,
+      clientId: row.client_id,
+      ok: row.ok === 1,
+      reason: row.reason,
+    }));
+  };
+
+  const toBatch = (row: BatchRow): BatchRecord => ({
+    contract: row.contract,
+    batchId: row.batch_id,
+    successCount: row.success_count,
+    submittedBy: row.submitted_by,
+    timestamp: row.timestamp,
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+    items: batchItems(row.contract, row.batch_id),
+  });
+
+  return {
+    getSyncState(contract) {
+      const row = db.prepare("SELECT last_block, last_block_hash FROM sync_state WHERE contract = ?").get(contract) as
+        | SyncStateRow
+        | undefined;
+      return row ? { lastBlock: row.last_block, lastBlockHash: row.last_block_hash } : null;
+    },
+
+    saveRange,
+    reset,
+
+    findAssessments(filter) {
+      const conditions: string[] = [];
+      const params: Record<string, unknown> = {};
+      const where = (condition: string, name: string, value: unknown) => {
+        if (value === undefined) return;
+        conditions.push(condition);
+        params[name] = value;
+      };
+      where("contract = @contract", "contract", filter.contract);
+      where("client_id = @clientId", "clientId", filter.clientId);
+      where(
+        "client_id LIKE @search ESCAPE '\\'",
+        "search",
+        filter.search && `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`,
+      );
+      where("tier = @tier", "tier", filter.tier);
+      where("approved = @approved", "approved", filter.approved === undefined ? undefined : Number(filter.approved));
+      where("batch_id = @batchId", "batchId", filter.batchId);
+      where("timestamp >= @from", "from", filter.from);
+      where("timestamp <= @to", "to", filter.to);
+      const clause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const { total } = db.prepare(`SELECT COUNT(*) AS total FROM assessments ${clause}`).get(params) as CountRow;
+      const rows = db
+        .prepare(
+          `SELECT * FROM assessments ${clause} ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`,
+        )
+        .all({ ...params, limit: filter.limit, offset: filter.offset }) as AssessmentRow[];
+      return { total, items: rows.map(toAssessment) };
+    },
+
+    getClientHistory(contract, clientId) {
+      const rows = db
+        .prepare("SELECT * FROM assessments WHERE contract = ? AND client_id = ? ORDER BY block_number, log_index")
+        .all(contract, clientId) as AssessmentRow[];
+      return rows.map(toAssessment);
+    },
+
+    listBatches(contract, limit, offset) {
+      const { total } = db
+        .prepare("SELECT COUNT(*) AS total FROM batches WHERE contract = ?")
+        .get(contract) as CountRow;
+      const rows = db
+        .prepare("SELECT * FROM batches WHERE contract = ? ORDER BY batch_id DESC LIMIT ? OFFSET ?")
+        .all(contract, limit, offset) as BatchRow[];
+      return { total, items: rows.map(toBatch) };
+    },
+
+    getBatch(contract, batchId) {
+      const row = db.prepare("SELECT * FROM batches WHERE contract = ? AND batch_id = ?").get(contract, batchId) as
+        | BatchRow
+        | undefined;
+      return row ? toBatch(row) : null;
+    },
+
+    listParameterUpdates(contract, limit, offset) {
+      const { total } = db
+        .prepare("SELECT COUNT(*) AS total FROM parameter_updates WHERE contract = ?")
+        .get(contract) as CountRow;
+      const rows = db
+        .prepare(
+          "SELECT * FROM parameter_updates WHERE contract = ? ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?",
+        )
+        .all(contract, limit, offset) as ParameterUpdateRow[];
+      return { total, items: rows.map(toParameterUpdate) };
+    },
+
+    getStats(contract, interval) {
+      const totals = db
+        .prepare(
+          `SELECT COUNT(*) AS total, COALESCE(SUM(approved = 1), 0) AS approved, COALESCE(SUM(approved = 0), 0) AS declined
+           FROM assessments WHERE contract = ?`,
+        )
+        .get(contract) as TotalsRow;
+      const tiers: Record<number, number> = {};
+      for (const row of db
+        .prepare(
+          "SELECT tier, COUNT(*) AS count FROM assessments WHERE contract = ? AND tier IS NOT NULL GROUP BY tier",
+        )
+        .all(contract) as TierCountRow[]) {
+        tiers[row.tier] = row.count;
+      }
+      const series = db
+        .prepare(
+          `SELECT timestamp - timestamp % @interval AS time, COUNT(*) AS count,
+             COALESCE(SUM(approved = 1), 0) AS approved, AVG(risk_score) AS averageScore
+           FROM assessments WHERE contract = @contract GROUP BY time ORDER BY time`,
+        )
+        .all({ contract, interval }) as AssessmentStats["series"];
+      return { total: totals.total, approved: totals.approved, declined: totals.declined, tiers, series };
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// packages/indexer/test/api.ts
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { createApiServer } from "../api";
+import { IndexerConfig } from "../config";
+import { openStore, Store } from "../store";
+import { DAY, sampleRange } from "./fixtures";
+
+const config: IndexerConfig = {
+  chainId: 31337,
+  rpcUrl: "http://127.0.0.1:8545",
+  contracts: {
+    RiskControl: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    RiskControlFHE: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+  },
+  startBlock: 0,
+  confirmations: 0,
+  blockRange: 2000,
+  pollIntervalMs: 4000,
+  dbPath: ":memory:",
+  host: "127.0.0.1",
+  port: 0,
+};
+
+describe("Indexer API", function () {
+  let store: Store;
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async function () {
+    store = openStore(":memory:");
+    store.saveRange(sampleRange());
+    server = createApiServer(store, config);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async function () {
+    await new Promise((resolve) => server.close(resolve));
+    store.close();
+  });
+
+  const get = async (path: string, init?: RequestInit) => {
+    const response = await fetch(baseUrl + path, init);
+    const body: any = await response.json();
+    return { status: response.status, body };
+  };
+
+  it("should report the last indexed block of each contract", async function () {
+    const { status, body } = await get("/status");
+    expect(status).to.eq(200);
+    expect(body).to.deep.eq({
+      chainId: 31337,
+      contracts: {
+        RiskControl: { address: config.contracts.RiskControl, lastBlock: 4 },
+        RiskControlFHE: { address: config.contracts.RiskControlFHE, lastBlock: null },
+      },
+    });
+  });
+
+  it("should filter and page assessments", async function () {
+    const { body } = await get("/assessments?approved=true&limit=1");
+    expect(body.total).to.eq(2);
+    expect(body.items).to.have.length(1);
+    expect(body.items[0]).to.deep.include({ clientId: "client-1", batchId: 1 });
+
+    expect((await get("/assessments?contract=RiskControlFHE")).body).to.deep.eq({ total: 0, items: [] });
+  });
+
+  it("should serve a client's history, batches, parameter updates and stats", async function () {
+    const history = await get("/clients/client-1/assessments");
+    expect(history.body.map((a: { riskScore: number }) => a.riskScore)).to.deep.eq([92, 60]);
+
+    expect((await get("/batches")).body.total).to.eq(1);
+    expect((await get("/batches/1")).body.items[1]).to.deep.eq({
+      index: 1,
+      clientId: "client-3",
+      ok: false,
+      reason: "Age 16 is outside the valid range 18–120",
+    });
+    expect((await get("/parameters")).body.items[0].functionName).to.eq("updateInputRange");
+    expect((await get(`/stats?interval=${DAY}`)).body.series).to.have.length(2);
+  });
+
+  it("should decode encoded path segments", async function () {
+    const { status, body } = await get("/clients/client%2D1/assessments");
+    expect(status).to.eq(200);
+    expect(body).to.have.length(2);
+  });
+
+  it("should reject invalid requests with a 4xx status", async function () {
+    const expectError = async (path: string, status: number, init?: RequestInit) => {
+      const response = await get(path, init);
+      expect(response.status, path).to.eq(status);
+      expect(response.body.error, path).to.be.a("string");
+    };
+
+    await expectError("/assessments?tier=-1", 400);
+    await expectError("/assessments?approved=yes", 400);
+    await expectError("/assessments?contract=Unknown", 400);
+    await expectError("/stats?interval=0", 400);
+    await expectError("/clients/%E0%A4%A/assessments", 400);
+    await expectError("/batches/7", 404);
+    await expectError("/unknown", 404);
+    await expectError("/status", 405, { method: "POST" });
+  });
+});
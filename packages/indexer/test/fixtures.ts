@@ -0,0 +1,79 @@
+// packages/indexer/test/fixtures.ts
+import { ethers } from "ethers";
+import { IndexedRange } from "../store";
+import { AssessmentRecord } from "../types";
+
+export const OFFICER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const ADMIN = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+export const DAY = 24 * 60 * 60;
+
+export const assessment = (overrides: Partial<AssessmentRecord> & { clientId: string }): AssessmentRecord => ({
+  contract: "RiskControl",
+  clientIdHash: ethers.id(overrides.clientId),
+  riskScore: 92,
+  tier: 4,
+  approved: true,
+  creditLimit: "20000000000",
+  batchId: null,
+  timestamp: DAY,
+  blockNumber: 1,
+  txHash: ethers.id("tx-1"),
+  logIndex: 0,
+  ...overrides,
+});
+
+// Two single assessments, a batch with one failed row and a parameter update, all on RiskControl
+export const sampleRange = (): IndexedRange => ({
+  contract: "RiskControl",
+  toBlock: 4,
+  toBlockHash: ethers.id("block-4"),
+  assessments: [
+    assessment({ clientId: "client-1" }),
+    assessment({
+      clientId: "client_2",
+      riskScore: 10,
+      tier: 0,
+      approved: false,
+      creditLimit: "0",
+      timestamp: 2 * DAY + 60,
+      blockNumber: 2,
+      txHash: ethers.id("tx-2"),
+    }),
+    assessment({
+      clientId: "client-1",
+      riskScore: 60,
+      tier: 2,
+      creditLimit: "5000000000",
+      batchId: 1,
+      timestamp: 2 * DAY + 120,
+      blockNumber: 3,
+      txHash: ethers.id("tx-3"),
+    }),
+  ],
+  batches: [
+    {
+      contract: "RiskControl",
+      batchId: 1,
+      successCount: 1,
+      submittedBy: OFFICER,
+      timestamp: 2 * DAY + 120,
+      blockNumber: 3,
+      txHash: ethers.id("tx-3"),
+      items: [
+        { index: 0, clientId: "client-1", ok: true, reason: null },
+        { index: 1, clientId: "client-3", ok: false, reason: "Age 16 is outside the valid range 18–120" },
+      ],
+    },
+  ],
+  parameterUpdates: [
+    {
+      contract: "RiskControl",
+      functionName: "updateInputRange",
+      sender: ADMIN,
+      timestamp: 3 * DAY,
+      blockNumber: 4,
+      txHash: ethers.id("tx-4"),
+      logIndex: 0,
+    },
+  ],
+});
@@ -0,0 +1,164 @@
+// packages/indexer/test/indexer.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { RiskControl__factory } from "../../../types/factories/contracts/RiskControl__factory";
+import { IndexerConfig } from "../config";
+import { createContractIndexer } from "../indexer";
+import { openStore, Store } from "../store";
+import { ADMIN, DAY, OFFICER } from "./fixtures";
+
+const ADDRESS = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const iface: ethers.Interface = RiskControl__factory.createInterface();
+
+const config = { confirmations: 0, blockRange: 2, startBlock: 1 } as IndexerConfig;
+
+const profile = (age: number, annualIncome: bigint) => ({
+  age,
+  annualIncome,
+  debtToIncome: 0,
+  employmentYears: 0,
+  existingObligations: 0,
+  delinquencyCount: 0,
+});
+
+interface MockTransaction {
+  hash: string;
+  from: string;
+  to: string;
+  data: string;
+  value: bigint;
+  events: { name: string; args: unknown[] }[];
+}
+
+// Serves blocks, logs and transactions the way a JSON-RPC provider would, one transaction per block
+class MockChain {
+  blocks: MockTransaction[] = [];
+  forks = 0;
+
+  send(from: string, functionName: string, args: unknown[], events: MockTransaction["events"]) {
+    const data = iface.encodeFunctionData(functionName, args);
+    this.blocks.push({ hash: ethers.id(`tx-${this.blocks.length}`), from, to: ADDRESS, data, value: 0n, events });
+  }
+
+  blockHash(number: number) {
+    return ethers.id(`block-${number}-${this.forks}`);
+  }
+
+  // the provider methods the indexer uses
+  asProvider() {
+    return {
+      getBlockNumber: async () => this.blocks.length,
+      getBlock: async (number: number) => (number <= this.blocks.length ? { hash: this.blockHash(number) } : null),
+      getTransaction: async (hash: string) => this.blocks.find((tx) => tx.hash === hash) ?? null,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+        this.blocks.slice(fromBlock - 1, toBlock).flatMap((tx, i) =>
+          tx.events.map(({ name, args }, index) => ({
+            ...iface.encodeEventLog(name, args),
+            blockNumber: fromBlock + i,
+            transactionHash: tx.hash,
+            index,
+          })),
+        ),
+    } as unknown as ethers.Provider;
+  }
+}
+
+const usdt = (amount: number) => ethers.parseUnits(amount.toString(), 6);
+
+describe("Contract indexer", function () {
+  let chain: MockChain;
+  let store: Store;
+
+  beforeEach(function () {
+    chain = new MockChain();
+    store = openStore(":memory:");
+
+    chain.send(
+      OFFICER,
+      "assessRisk",
+      [profile(35, usdt(60000)), "client-1"],
+      [{ name: "AssessmentPerformed", args: ["client-1", usdt(20000), 92, true, 4, DAY] }],
+    );
+    chain.send(
+      OFFICER,
+      "batchAssessRisk",
+      [
+        [profile(25, usdt(20000)), profile(16, usdt(20000))],
+        ["client-2", "client-3"],
+      ],
+      [
+        { name: "AssessmentPerformed", args: ["client-2", 0, 30, false, 0, DAY + 60] },
+        { name: "BatchItemAssessed", args: [1, 0, "client-2"] },
+        { name: "BatchItemFailed", args: [1, 1, "client-3", "Age 16 is outside the valid range 18–120"] },
+        { name: "BatchAssessmentPerformed", args: [1, 1, DAY + 60] },
+      ],
+    );
+    chain.send(ADMIN, "updateInputRange", [0, 18, 100], [{ name: "ParametersUpdated", args: [DAY + 120] }]);
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  const sync = () => createContractIndexer("RiskControl", ADDRESS, chain.asProvider(), store, config).sync();
+
+  it("should store single and batch assessments with their client IDs", async function () {
+    await sync();
+
+    const { items } = store.findAssessments({ contract: "RiskControl", limit: 50, offset: 0 });
+    expect(items.map((a) => [a.clientId, a.riskScore, a.tier, a.approved, a.creditLimit, a.batchId])).to.deep.eq([
+      ["client-2", 30, 0, false, "0", 1],
+      ["client-1", 92, 4, true, usdt(20000).toString(), null],
+    ]);
+    expect(items[1]).to.deep.include({ blockNumber: 1, txHash: chain.blocks[0].hash, timestamp: DAY });
+  });
+
+  it("should store every batch row's outcome and the submitter", async function () {
+    await sync();
+
+    expect(store.getBatch("RiskControl", 1)).to.deep.include({
+      successCount: 1,
+      submittedBy: OFFICER,
+      blockNumber: 2,
+      items: [
+        { index: 0, clientId: "client-2", ok: true, reason: null },
+        { index: 1, clientId: "client-3", ok: false, reason: "Age 16 is outside the valid range 18–120" },
+      ],
+    });
+  });
+
+  it("should name the function behind a parameter update", async function () {
+    await sync();
+
+    const { items } = store.listParameterUpdates("RiskControl", 10, 0);
+    expect(items).to.have.length(1);
+    expect(items[0]).to.deep.include({ functionName: "updateInputRange", sender: ADMIN, blockNumber: 3 });
+  });
+
+  it("should only read blocks that are not stored yet", async function () {
+    await sync();
+    expect(store.getSyncState("RiskControl")!.lastBlock).to.eq(3);
+
+    chain.send(
+      OFFICER,
+      "assessRisk",
+      [profile(35, usdt(60000)), "client-4"],
+      [{ name: "AssessmentPerformed", args: ["client-4", usdt(20000), 92, true, 4, DAY + 180] }],
+    );
+    await sync();
+
+    expect(store.getSyncState("RiskControl")!.lastBlock).to.eq(4);
+    expect(store.findAssessments({ limit: 50, offset: 0 }).total).to.eq(3);
+  });
+
+  it("should reindex from the start block when a stored block left the chain", async function () {
+    await sync();
+    chain.forks++;
+    chain.blocks.pop();
+    await sync();
+
+    expect(store.getSyncState("RiskControl")).to.deep.eq({ lastBlock: 2, lastBlockHash: chain.blockHash(2) });
+    expect(store.listParameterUpdates("RiskControl", 10, 0).total).to.eq(0);
+    expect(store.findAssessments({ limit: 50, offset: 0 }).total).to.eq(2);
+  });
+});
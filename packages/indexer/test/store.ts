@@ -0,0 +1,133 @@
+// packages/indexer/test/store.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { openStore, Store } from "../store";
+import { assessment, DAY, OFFICER, sampleRange } from "./fixtures";
+
+describe("Indexer store", function () {
+  let store: Store;
+
+  beforeEach(function () {
+    store = openStore(":memory:");
+    store.saveRange(sampleRange());
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("should save the sync position with the range", function () {
+    expect(store.getSyncState("RiskControl")).to.deep.eq({ lastBlock: 4, lastBlockHash: ethers.id("block-4") });
+    expect(store.getSyncState("RiskControlFHE")).to.eq(null);
+  });
+
+  it("should page assessments newest first", function () {
+    const page = store.findAssessments({ contract: "RiskControl", limit: 2, offset: 0 });
+    expect(page.total).to.eq(3);
+    expect(page.items.map((a) => a.blockNumber)).to.deep.eq([3, 2]);
+    expect(page.items[1]).to.deep.eq(sampleRange().assessments[1]);
+
+    expect(store.findAssessments({ contract: "RiskControl", limit: 2, offset: 2 }).items).to.have.length(1);
+  });
+
+  it("should filter assessments", function () {
+    const find = (filter: object) =>
+      store.findAssessments({ limit: 50, offset: 0, ...filter }).items.map((a) => a.blockNumber);
+
+    expect(find({ clientId: "client-1" })).to.deep.eq([3, 1]);
+    expect(find({ tier: 2 })).to.deep.eq([3]);
+    expect(find({ approved: false })).to.deep.eq([2]);
+    expect(find({ batchId: 1 })).to.deep.eq([3]);
+    expect(find({ from: 2 * DAY, to: 2 * DAY + 60 })).to.deep.eq([2]);
+    expect(find({ contract: "RiskControlFHE" })).to.deep.eq([]);
+  });
+
+  it("should match search terms literally", function () {
+    const search = (term: string) =>
+      store.findAssessments({ search: term, limit: 50, offset: 0 }).items.map((a) => a.clientId);
+
+    expect(search("client")).to.have.length(3);
+    // _ and % are SQL wildcards unless escaped
+    expect(search("_")).to.deep.eq(["client_2"]);
+    expect(search("%")).to.deep.eq([]);
+  });
+
+  it("should return a client's history oldest first", function () {
+    const history = store.getClientHistory("RiskControl", "client-1");
+    expect(history.map((a) => a.riskScore)).to.deep.eq([92, 60]);
+  });
+
+  it("should keep every batch row's outcome", function () {
+    const batch = store.getBatch("RiskControl", 1);
+    expect(batch).to.deep.eq(sampleRange().batches[0]);
+    expect(batch!.submittedBy).to.eq(OFFICER);
+    expect(store.getBatch("RiskControl", 2)).to.eq(null);
+
+    const page = store.listBatches("RiskControl", 10, 0);
+    expect(page.total).to.eq(1);
+    expect(page.items[0].items.map((item) => item.ok)).to.deep.eq([true, false]);
+  });
+
+  it("should list parameter updates with the function that caused them", function () {
+    const page = store.listParameterUpdates("RiskControl", 10, 0);
+    expect(page.total).to.eq(1);
+    expect(page.items[0].functionName).to.eq("updateInputRange");
+  });
+
+  it("should count assessments per tier and interval", function () {
+    const stats = store.getStats("RiskControl", DAY);
+    expect(stats).to.deep.include({ total: 3, approved: 2, declined: 1, tiers: { 0: 1, 2: 1, 4: 1 } });
+    expect(stats.series).to.deep.eq([
+      { time: DAY, count: 1, approved: 1, averageScore: 92 },
+      { time: 2 * DAY, count: 2, approved: 1, averageScore: 35 },
+    ]);
+  });
+
+  it("should keep the store unchanged when storing a range twice", function () {
+    store.saveRange(sampleRange());
+    expect(store.findAssessments({ limit: 50, offset: 0 }).total).to.eq(3);
+    expect(store.getBatch("RiskControl", 1)!.items).to.have.length(2);
+  });
+
+  it("should leave encrypted results empty", function () {
+    store.saveRange({
+      contract: "RiskControlFHE",
+      toBlock: 5,
+      toBlockHash: ethers.id("block-5"),
+      assessments: [
+        assessment({
+          contract: "RiskControlFHE",
+          clientId: "client-1",
+          riskScore: null,
+          tier: null,
+          approved: null,
+          creditLimit: null,
+          blockNumber: 5,
+        }),
+      ],
+      batches: [],
+      parameterUpdates: [],
+    });
+
+    const [stored] = store.getClientHistory("RiskControlFHE", "client-1");
+    expect(stored).to.deep.include({ riskScore: null, tier: null, approved: null, creditLimit: null });
+    expect(store.getStats("RiskControlFHE", DAY)).to.deep.include({ total: 1, approved: 0, declined: 0, tiers: {} });
+  });
+
+  it("should drop one contract's data on reset", function () {
+    store.saveRange({
+      ...sampleRange(),
+      contract: "RiskControlFHE",
+      assessments: [],
+      batches: [],
+      parameterUpdates: [],
+    });
+    store.reset("RiskControl");
+
+    expect(store.getSyncState("RiskControl")).to.eq(null);
+    expect(store.findAssessments({ contract: "RiskControl", limit: 50, offset: 0 }).total).to.eq(0);
+    expect(store.listBatches("RiskControl", 10, 0).total).to.eq(0);
+    expect(store.listParameterUpdates("RiskControl", 10, 0).total).to.eq(0);
+    expect(store.getSyncState("RiskControlFHE")).to.not.eq(null);
+  });
+});
@@ -0,0 +1,86 @@
+// packages/indexer/types.ts
+// Records served by the query API; type-only, so the frontend can share them without the indexer's dependencies
+
+export type IndexedContract = "RiskControl" | "RiskControlFHE";
+
+// One page of a list and the number of matches across all pages
+export interface Page<T> {
+  total: number;
+  items: T[];
+}
+
+export interface AssessmentRecord {
+  contract: IndexedContract;
+  // null when the hashed clientId topic could not be matched to an ID
+  clientId: string | null;
+  clientIdHash: string;
+  riskScore: number | null;
+  tier: number | null;
+  approved: boolean | null;
+  creditLimit: string | null;
+  batchId: number | null;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface BatchItemRecord {
+  index: number;
+  clientId: string;
+  ok: boolean;
+  reason: string | null;
+}
+
+export interface BatchRecord {
+  contract: IndexedContract;
+  batchId: number;
+  successCount: number;
+  submittedBy: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+  items: BatchItemRecord[];
+}
+
+export interface ParameterUpdateRecord {
+  contract: IndexedContract;
+  // the contract function that changed the parameters, when the transaction called it directly
+  functionName: string | null;
+  sender: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface AssessmentFilter {
+  contract?: IndexedContract;
+  clientId?: string;
+  // substring of the client ID
+  search?: string;
+  tier?: number;
+  approved?: boolean;
+  batchId?: number;
+  // unix seconds, inclusive
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface AssessmentStats {
+  total: number;
+  approved: number;
+  declined: number;
+  // assessment count per tier index, RiskControl only
+  tiers: Record<number, number>;
+  // one entry per interval that has assessments, oldest first
+  series: { time: number; count: number; approved: number; averageScore: number | null }[];
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  // last indexed block of each followed contract, null before the first range is stored
+  contracts: Partial<Record<IndexedContract, { address: string; lastBlock: number | null }>>;
+}
@@ -0,0 +1,49 @@
+// tasks/frontend.ts
+import fs from "fs";
+import path from "path";
+
+// The frontend reads contract addresses per chain from config.json; its typed bindings come from types/
+export const FRONTEND_SRC_DIR = path.join(__dirname, "..", "frontend", "web", "src");
+
+// Contract variants the frontend can use, by deployment and artifact name
+export const FRONTEND_CONTRACTS = ["RiskControl", "RiskControlFHE"] as const;
+export type FrontendContract = (typeof FRONTEND_CONTRACTS)[number];
+
+export interface ContractEntry {
+  address: string;
+  // the implementation behind a proxy
+  implementation?: string;
+}
+
+export interface ChainEntry {
+  deployer?: string;
+  // query API of packages/indexer for this chain; set by hand and kept across deploys
+  indexerUrl?: string;
+  contracts: Partial<Record<FrontendContract, ContractEntry>>;
+}
+
+export interface FrontendConfig {
+  defaultChainId: number;
+  deployments: Record<string, ChainEntry>;
+}
+
+// Replaces the given contracts in a chain's entry of config.json, keeping the other contracts and chains
+export function writeChainEntry(chainId: string, entry: ChainEntry, srcDir = FRONTEND_SRC_DIR) {
+  const configPath = path.join(srcDir, "config.json");
+  const config: Partial<FrontendConfig> = fs.existsSync(configPath)
+    ? JSON.parse(fs.readFileSync(configPath, "utf-8"))
+    : {};
+  const deployments = config.deployments ?? {};
+  const previous = deployments[chainId];
+
+  deployments[chainId] = {
+    ...previous,
+    ...entry,
+    contracts: { ...previous?.contracts, ...entry.contracts },
+  };
+  fs.writeFileSync(
+    configPath,
+    JSON.stringify({ defaultChainId: config.defaultChainId ?? Number(chainId), deployments }, null, 2),
+  );
+  return configPath;
+}
@@ -0,0 +1,202 @@
+// tasks/storageLayout.ts
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Layouts of the released implementations, one JSON file per contract
+export const LAYOUT_DIR = path.join(__dirname, "..", "storage-layout");
+
+// Contracts deployed behind a proxy
+const UPGRADEABLE_CONTRACTS = ["RiskControl"];
+
+export interface StorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageVariable[];
+}
+
+export interface StorageLayout {
+  storage: StorageVariable[];
+  types: Record<string, StorageType>;
+}
+
+// Struct, enum and contract type ids embed AST ids that change with every edit of the source
+const normalizeTypeId = (id: string) =>
+  id.replace(/(t_(?:struct|enum|contract|userDefinedValueType)\([^)]*\))\d+/g, "$1");
+
+const normalizeVariable = (v: any): StorageVariable => ({
+  label: v.label,
+  slot: v.slot,
+  offset: v.offset,
+  type: normalizeTypeId(v.type),
+});
+
+/**
+ * Strip compiler-specific ids from solc's storageLayout output so layouts of different builds compare.
+ */
+export function normalizeStorageLayout(layout: any): StorageLayout {
+  const types: Record<string, StorageType> = {};
+  for (const [id, t] of Object.entries<any>(layout.types ?? {})) {
+    types[normalizeTypeId(id)] = {
+      label: t.label,
+      encoding: t.encoding,
+      numberOfBytes: t.numberOfBytes,
+      ...(t.base && { base: normalizeTypeId(t.base) }),
+      ...(t.key && { key: normalizeTypeId(t.key) }),
+      ...(t.value && { value: normalizeTypeId(t.value) }),
+      ...(t.members && { members: t.members.map(normalizeVariable) }),
+    };
+  }
+  return { storage: layout.storage.map(normalizeVariable), types };
+}
+
+/**
+ * Read the storage layout of a compiled contract from its build info.
+ */
+export async function readStorageLayout(hre: HardhatRuntimeEnvironment, contractName: string): Promise<StorageLayout> {
+  const { artifacts } = hre;
+  const artifact = await artifacts.readArtifact(contractName);
+  const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  const layout = (buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as any)?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout for ${fullyQualifiedName}. Is storageLayout in the solc outputSelection?`);
+  }
+  return normalizeStorageLayout(layout);
+}
+
+export function layoutPath(contractName: string) {
+  return path.join(LAYOUT_DIR, `${contractName}.json`);
+}
+
+export function loadRecordedLayout(contractName: string): StorageLayout | undefined {
+  const file = layoutPath(contractName);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : undefined;
+}
+
+export function recordLayout(contractName: string, layout: StorageLayout) {
+  if (!fs.existsSync(LAYOUT_DIR)) fs.mkdirSync(LAYOUT_DIR, { recursive: true });
+  fs.writeFileSync(layoutPath(contractName), JSON.stringify(layout, null, 2) + "\n");
+}
+
+/**
+ * Check that a value of type `previousId` in the old layout is read back unchanged as `currentId`.
+ * Structs may gain trailing members only where each value has its own hashed location (mapping values),
+ * since anywhere else a bigger struct would overlap the data that follows it.
+ */
+function compareTypes(
+  previousId: string,
+  currentId: string,
+  previous: StorageLayout,
+  current: StorageLayout,
+  where: string,
+  canGrow = false,
+): string[] {
+  const before = previous.types[previousId];
+  const after = current.types[currentId];
+  if (!before || !after) return [`${where}: unknown type ${before ? currentId : previousId}`];
+
+  if (before.encoding !== after.encoding || before.label !== after.label) {
+    return [`${where}: type changed from ${before.label} to ${after.label}`];
+  }
+
+  const problems: string[] = [];
+  if (before.members) {
+    const members = after.members ?? [];
+    if (members.length < before.members.length) {
+      problems.push(`${where}: ${before.label} lost members`);
+    } else if (members.length > before.members.length && !canGrow) {
+      problems.push(`${where}: ${before.label} gained members where it is not the value of a mapping`);
+    }
+    before.members.forEach((member, i) => {
+      const match = members[i];
+      if (!match) return;
+      if (match.label !== member.label || match.slot !== member.slot || match.offset !== member.offset) {
+        problems.push(`${where}: ${before.label} member ${member.label} moved or was replaced by ${match.label}`);
+      } else {
+        problems.push(...compareTypes(member.type, match.type, previous, current, `${where}.${member.label}`));
+      }
+    });
+  } else if (before.numberOfBytes !== after.numberOfBytes) {
+    problems.push(`${where}: ${before.label} changed size`);
+  }
+
+  if (before.key && after.key) {
+    problems.push(...compareTypes(before.key, after.key, previous, current, `${where} key`));
+  }
+  if (before.value && after.value) {
+    problems.push(...compareTypes(before.value, after.value, previous, current, `${where} value`, true));
+  }
+  if (before.base && after.base) {
+    problems.push(...compareTypes(before.base, after.base, previous, current, `${where} element`));
+  }
+  return problems;
+}
+
+/**
+ * List the incompatibilities between a deployed layout and a new one; an empty list means the upgrade is safe.
+ * Every variable of the previous version must keep its slot, offset, name and type. New variables may only be
+ * appended or take the place of a reserved __gap, whose shrinking is checked through the variables after it.
+ */
+export function compareStorageLayouts(previous: StorageLayout, current: StorageLayout): string[] {
+  const problems: string[] = [];
+
+  for (const variable of previous.storage) {
+    if (variable.label === "__gap") continue;
+
+    const match = current.storage.find((v) => v.slot === variable.slot && v.offset === variable.offset);
+    if (!match) {
+      problems.push(`${variable.label} (slot ${variable.slot}) was removed or moved`);
+    } else if (match.label !== variable.label) {
+      problems.push(`${variable.label} (slot ${variable.slot}) was replaced by ${match.label}`);
+    } else {
+      problems.push(...compareTypes(variable.type, match.type, previous, current, variable.label));
+    }
+  }
+
+  return problems;
+}
+
+task("storage-layout", "Checks upgradeable contracts against their recorded storage layouts")
+  .addFlag("record", "Record the compiled layouts as the new baseline once they pass the check")
+  .setAction(async ({ record }: { record: boolean }, hre) => {
+    await hre.run("compile");
+
+    let failed = false;
+    for (const contractName of UPGRADEABLE_CONTRACTS) {
+      const current = await readStorageLayout(hre, contractName);
+      const previous = loadRecordedLayout(contractName);
+
+      if (!previous) {
+        console.warn(`No recorded layout for ${contractName}, nothing to compare against`);
+      } else {
+        const problems = compareStorageLayouts(previous, current);
+        if (problems.length > 0) {
+          failed = true;
+          console.error(`${contractName} is not upgrade compatible with ${layoutPath(contractName)}:`);
+          problems.forEach((problem) => console.error(`  - ${problem}`));
+          continue;
+        }
+        console.log(`${contractName} storage layout is compatible with the recorded layout`);
+      }
+
+      if (record) {
+        recordLayout(contractName, current);
+        console.log(`Recorded ${contractName} storage layout to ${layoutPath(contractName)}`);
+      }
+    }
+
+    if (failed) process.exitCode = 1;
+  });
@@ -0,0 +1,83 @@
+import { RiskControl__factory } from "../types";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { deployments, ethers, getNamedAccounts } from "hardhat";
+import { writeChainEntry } from "../tasks/frontend";
+
+// deploy/deploy.ts against the in-process network
+
+describe("RiskControl deployment", function () {
+  beforeEach(async function () {
+    await deployments.fixture(["RiskControl"]);
+  });
+
+  it("should deploy an initialized proxy owned by the deployer", async function () {
+    const { deployer } = await getNamedAccounts();
+    const deployment = await deployments.get("RiskControl");
+    const proxy = await deployments.get("RiskControl_Proxy");
+    const implementation = await deployments.get("RiskControl_Implementation");
+
+    expect(deployment.address).to.eq(proxy.address);
+    expect(deployment.implementation).to.eq(implementation.address);
+
+    const riskControl = RiskControl__factory.connect(deployment.address, ethers.provider);
+    expect(await riskControl.getOwner()).to.eq(deployer);
+    expect(await riskControl.validityPeriod()).to.eq(BigInt(365 * 24 * 60 * 60));
+  });
+
+  it("should reuse the existing deployment when the bytecode is unchanged", async function () {
+    const before = await deployments.all();
+
+    await deployments.run(["RiskControl"], { resetMemory: false, deletePreviousDeployments: false });
+
+    const after = await deployments.all();
+    expect(after.RiskControl_Implementation.address).to.eq(before.RiskControl_Implementation.address);
+    expect(after.RiskControl_Proxy.address).to.eq(before.RiskControl_Proxy.address);
+  });
+});
+
+// tasks/frontend.ts, which deploy/frontend.ts uses on live networks
+describe("Frontend export", function () {
+  let srcDir: string;
+
+  beforeEach(function () {
+    srcDir = fs.mkdtempSync(path.join(os.tmpdir(), "frontend-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(srcDir, { recursive: true, force: true });
+  });
+
+  it("should merge contract addresses into the chain's entry and keep other chains", async function () {
+    const configPath = path.join(srcDir, "config.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        defaultChainId: 11155111,
+        deployments: { "11155111": { contracts: { RiskControl: { address: "0x01" } } } },
+      }),
+    );
+
+    writeChainEntry(
+      "31337",
+      { deployer: "0xd0", contracts: { RiskControl: { address: "0x02", implementation: "0x03" } } },
+      srcDir,
+    );
+    writeChainEntry("31337", { deployer: "0xd0", contracts: { RiskControlFHE: { address: "0x04" } } }, srcDir);
+
+    const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    expect(config.defaultChainId).to.eq(11155111);
+    expect(config.deployments["11155111"].contracts).to.deep.eq({ RiskControl: { address: "0x01" } });
+    expect(config.deployments["31337"]).to.deep.eq({
+      deployer: "0xd0",
+      contracts: { RiskControl: { address: "0x02", implementation: "0x03" }, RiskControlFHE: { address: "0x04" } },
+    });
+  });
+
+  it("should default to the first deployed chain", async function () {
+    writeChainEntry("31337", { contracts: { RiskControl: { address: "0x02" } } }, srcDir);
+    expect(JSON.parse(fs.readFileSync(path.join(srcDir, "config.json"), "utf-8")).defaultChainId).to.eq(31337);
+  });
+});
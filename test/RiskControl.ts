@@ -0,0 +1,1040 @@
+import { RiskControl, RiskControlProxy__factory, RiskControl__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { readStorageLayout } from "../tasks/storageLayout";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Annual income in USDT units (6 decimals)
+const usdt = (amount: string | number) => ethers.parseUnits(amount.toString(), 6);
+
+// Client profile with only age and income set, as scored by the default model
+const profile = (age: number, annualIncome: bigint, extra: Partial<RiskControl.ClientProfileStruct> = {}) => ({
+  age,
+  annualIncome,
+  debtToIncome: 0,
+  employmentYears: 0,
+  existingObligations: 0,
+  delinquencyCount: 0,
+  ...extra,
+});
+
+// Factor indexes, in the order of the ClientProfile fields
+const Factor = {
+  Age: 0,
+  AnnualIncome: 1,
+  DebtToIncome: 2,
+  EmploymentYears: 3,
+  ExistingObligations: 4,
+  DelinquencyCount: 5,
+};
+
+// Assessment freshness, in AssessmentStatus enum order
+const Status = {
+  None: 0,
+  Current: 1,
+  DueSoon: 2,
+  Expired: 3,
+};
+
+const DAY = 24 * 60 * 60;
+
+// Override reason codes, in OverrideReason enum order
+const Reason = {
+  Other: 0,
+  VerifiedIncome: 1,
+  Collateral: 2,
+  ExistingRelationship: 3,
+  PolicyException: 4,
+  AdverseInformation: 5,
+};
+
+// Appeal states, in AppealStatus enum order
+const Appeal = {
+  None: 0,
+  Pending: 1,
+  Resolved: 2,
+};
+
+// Risk tiers, in RiskTier enum order
+const Tier = {
+  Decline: 0,
+  D: 1,
+  C: 2,
+  B: 3,
+  A: 4,
+};
+
+// Tier settings from tier D to tier A, matching the constructor defaults unless overridden
+const tiers = (overrides: Partial<RiskControl.TierConfigStruct>[] = []) =>
+  [
+    { minScore: 50, incomeMultiplier: 1, maxCreditLimit: usdt(5000), minInterestRate: 1800, maxInterestRate: 2400 },
+    { minScore: 60, incomeMultiplier: 2, maxCreditLimit: usdt(15000), minInterestRate: 1200, maxInterestRate: 1800 },
+    { minScore: 75, incomeMultiplier: 3, maxCreditLimit: usdt(40000), minInterestRate: 800, maxInterestRate: 1200 },
+    { minScore: 90, incomeMultiplier: 4, maxCreditLimit: usdt(100000), minInterestRate: 500, maxInterestRate: 800 },
+  ].map((tier, i) => ({ ...tier, ...overrides[i] })) as [
+    RiskControl.TierConfigStruct,
+    RiskControl.TierConfigStruct,
+    RiskControl.TierConfigStruct,
+    RiskControl.TierConfigStruct,
+  ];
+
+// RiskControl's factory, linked to a freshly deployed RiskControlLogic library
+async function riskControlFactory() {
+  const library = await (await ethers.getContractFactory("RiskControlLogic")).deploy();
+  return (await ethers.getContractFactory("RiskControl", {
+    libraries: { RiskControlLogic: await library.getAddress() },
+  })) as RiskControl__factory;
+}
+
+// RiskControl behind a RiskControlProxy, initialized by the deployer
+async function deployFixture() {
+  const factory = await riskControlFactory();
+  const implementation = (await factory.deploy()) as RiskControl;
+
+  const proxyFactory = (await ethers.getContractFactory("RiskControlProxy")) as RiskControlProxy__factory;
+  const proxy = await proxyFactory.deploy(
+    await implementation.getAddress(),
+    factory.interface.encodeFunctionData("initialize"),
+  );
+  const riskControlAddress = await proxy.getAddress();
+  const riskControl = factory.attach(riskControlAddress) as RiskControl;
+
+  return { riskControl, riskControlAddress, implementation };
+}
+
+describe("RiskControl", function () {
+  let signers: Signers;
+  let riskControl: RiskControl;
+  let implementation: RiskControl;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async () => {
+    ({ riskControl, implementation } = await deployFixture());
+  });
+
+  it("should initialize with the deployer as owner and default parameters", async function () {
+    expect(await riskControl.getOwner()).to.eq(signers.deployer.address);
+
+    const params = await riskControl.getRiskParameters();
+    expect(params.tiers.map((t) => t.minScore)).to.deep.eq([50n, 60n, 75n, 90n]);
+    expect(await riskControl.getAssessmentCount()).to.eq(0n);
+  });
+
+  describe("calculateRiskScore boundaries", function () {
+    const scoreOf = async (age: number, income: bigint) => {
+      const [, riskScore] = await riskControl.assessRisk.staticCall(profile(age, income), "client-score");
+      return riskScore;
+    };
+
+    it("should award 8 points per five-year age bucket up to 40 points", async function () {
+      expect(await scoreOf(18, 0n)).to.eq(0n);
+      expect(await scoreOf(19, 0n)).to.eq(0n);
+      expect(await scoreOf(20, 0n)).to.eq(8n);
+      expect(await scoreOf(34, 0n)).to.eq(24n);
+      expect(await scoreOf(35, 0n)).to.eq(32n);
+      expect(await scoreOf(40, 0n)).to.eq(40n);
+      expect(await scoreOf(120, 0n)).to.eq(40n);
+    });
+
+    it("should award 10 points per 10k USDT of income up to 60 points", async function () {
+      expect(await scoreOf(18, usdt("9999.999999"))).to.eq(0n);
+      expect(await scoreOf(18, usdt(10000))).to.eq(10n);
+      expect(await scoreOf(18, usdt(59999))).to.eq(50n);
+      expect(await scoreOf(18, usdt(60000))).to.eq(60n);
+      expect(await scoreOf(18, usdt(1000000))).to.eq(60n);
+    });
+
+    it("should add both factors up to a maximum of 100", async function () {
+      expect(await scoreOf(30, usdt(25000))).to.eq(44n);
+      expect(await scoreOf(65, usdt(250000))).to.eq(100n);
+    });
+
+    it("should ignore the other factors while their weight is zero", async function () {
+      const [, riskScore] = await riskControl.assessRisk.staticCall(
+        profile(35, usdt(60000), {
+          debtToIncome: 80,
+          employmentYears: 20,
+          existingObligations: 9,
+          delinquencyCount: 5,
+        }),
+        "client-score",
+      );
+      expect(riskScore).to.eq(92n);
+    });
+  });
+
+  describe("scoring factors", function () {
+    const scoreOf = async (clientProfile: ReturnType<typeof profile>) => {
+      const [, riskScore] = await riskControl.assessRisk.staticCall(clientProfile, "client-factors");
+      return riskScore;
+    };
+
+    it("should expose the default factor configuration", async function () {
+      const age = await riskControl.getScoringFactor(Factor.Age);
+      expect(age.weight).to.eq(100n);
+      expect(age.cap).to.eq(40n);
+      expect(age.inverse).to.eq(false);
+      expect(age.breakpoints).to.deep.eq([20n, 25n, 30n, 35n, 40n]);
+
+      const delinquencies = await riskControl.getScoringFactor(Factor.DelinquencyCount);
+      expect(delinquencies.weight).to.eq(0n);
+      expect(delinquencies.inverse).to.eq(true);
+
+      const params = await riskControl.getRiskParameters();
+      expect(params.factors.length).to.eq(6);
+    });
+
+    it("should deduct points per breakpoint reached on an inverse factor", async function () {
+      await (await riskControl.updateScoringFactor(Factor.DelinquencyCount, 100, 30, true, [1, 2, 3])).wait();
+
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 0 }))).to.eq(30n);
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 1 }))).to.eq(20n);
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 2 }))).to.eq(10n);
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 7 }))).to.eq(0n);
+    });
+
+    it("should apply the factor weight as a percentage of its points", async function () {
+      await (await riskControl.updateScoringFactor(Factor.Age, 50, 40, false, [20, 25, 30, 35, 40])).wait();
+      await (await riskControl.updateScoringFactor(Factor.EmploymentYears, 50, 40, false, [1, 3, 5, 10])).wait();
+
+      // 40 * 50% (age) + 60 (income) + 2 of 4 breakpoints * 40 * 50% / 4 (employment)
+      expect(await scoreOf(profile(45, usdt(60000), { employmentYears: 4 }))).to.eq(90n);
+    });
+
+    it("should round each bucket's share down", async function () {
+      await (await riskControl.updateScoringFactor(Factor.DelinquencyCount, 100, 40, true, [1, 2, 3])).wait();
+
+      // 40 / 3 buckets = 13 points per bucket
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 0 }))).to.eq(39n);
+      expect(await scoreOf(profile(18, 0n, { delinquencyCount: 2 }))).to.eq(13n);
+    });
+
+    it("should emit ParametersUpdated and reject invalid factor configurations", async function () {
+      await expect(riskControl.updateScoringFactor(Factor.DebtToIncome, 100, 30, true, [20, 35, 50])).to.emit(
+        riskControl,
+        "ParametersUpdated",
+      );
+      await expect(riskControl.updateScoringFactor(Factor.DebtToIncome, 100, 30, true, [20, 20])).to.be.revertedWith(
+        "Breakpoints must be strictly ascending",
+      );
+      await expect(riskControl.updateScoringFactor(Factor.DebtToIncome, 100, 30, true, [])).to.be.revertedWith(
+        "Breakpoints required for a non-zero cap",
+      );
+      await expect(
+        riskControl.connect(signers.alice).updateScoringFactor(Factor.DebtToIncome, 100, 30, true, [20]),
+      ).to.be.revertedWith("Caller does not have the required role");
+    });
+  });
+
+  describe("input ranges", function () {
+    it("should expose the default range of every profile field", async function () {
+      const ranges = await riskControl.getInputRanges();
+      expect(ranges.map((range) => [range.min, range.max])).to.deep.eq([
+        [18n, 120n],
+        [0n, usdt(10_000_000)],
+        [0n, 100n],
+        [0n, 80n],
+        [0n, 100n],
+        [0n, 100n],
+      ]);
+    });
+
+    it("should reject a profile field outside its range and accept the bounds", async function () {
+      await expect(riskControl.assessRisk(profile(17, usdt(60000)), "client-range"))
+        .to.be.revertedWithCustomError(riskControl, "InputOutOfRange")
+        .withArgs(Factor.Age, 17n, 18n, 120n);
+      await expect(riskControl.assessRisk(profile(500, usdt(60000)), "client-range"))
+        .to.be.revertedWithCustomError(riskControl, "InputOutOfRange")
+        .withArgs(Factor.Age, 500n, 18n, 120n);
+      await expect(riskControl.assessRisk(profile(35, usdt(60000), { debtToIncome: 101 }), "client-range"))
+        .to.be.revertedWithCustomError(riskControl, "InputOutOfRange")
+        .withArgs(Factor.DebtToIncome, 101n, 0n, 100n);
+
+      await (
+        await riskControl.assessRisk(profile(120, usdt(10_000_000), { debtToIncome: 100 }), "client-range")
+      ).wait();
+      expect(await riskControl.getAssessmentCount()).to.eq(1n);
+    });
+
+    it("should let parameter admins change a range", async function () {
+      await expect(riskControl.updateInputRange(Factor.Age, 21, 99)).to.emit(riskControl, "ParametersUpdated");
+      await expect(riskControl.assessRisk(profile(20, usdt(60000)), "client-range"))
+        .to.be.revertedWithCustomError(riskControl, "InputOutOfRange")
+        .withArgs(Factor.Age, 20n, 21n, 99n);
+
+      await expect(riskControl.updateInputRange(Factor.Age, 50, 40))
+        .to.be.revertedWithCustomError(riskControl, "InvalidInputRange")
+        .withArgs(Factor.Age, 50n, 40n);
+      await expect(riskControl.connect(signers.alice).updateInputRange(Factor.Age, 0, 200)).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+
+    it("should let the owner write the default ranges once to a proxy from before input ranges", async function () {
+      await (await riskControl.updateInputRange(Factor.Age, 21, 99)).wait();
+      await expect(riskControl.connect(signers.alice).initializeInputRanges()).to.be.revertedWith(
+        "Only contract owner can perform this action",
+      );
+      // initialize already wrote the ranges of a new proxy
+      await expect(riskControl.initializeInputRanges()).to.be.revertedWith("Input ranges already set");
+      expect((await riskControl.getInputRanges())[Factor.Age].min).to.eq(21n);
+
+      // Clear the ranges as they were before the upgrade that added them
+      const layout = await readStorageLayout(hre, "RiskControl");
+      const firstSlot = BigInt(layout.storage.find((v) => v.label === "inputRanges")!.slot);
+      for (let slot = firstSlot; slot < firstSlot + 12n; slot++) {
+        await ethers.provider.send("hardhat_setStorageAt", [await riskControl.getAddress(), ethers.toBeHex(slot), ethers.ZeroHash]);
+      }
+
+      await (await riskControl.initializeInputRanges()).wait();
+      expect((await riskControl.getInputRanges())[Factor.Age].min).to.eq(18n);
+      await expect(riskControl.initializeInputRanges()).to.be.revertedWithCustomError(
+        riskControl,
+        "InvalidInitialization",
+      );
+    });
+  });
+
+  describe("assessRisk", function () {
+    it("should approve a score exactly at tier D's minimum", async function () {
+      // 40 (age) + 10 (income) = 50 == tier D minScore
+      await (await riskControl.assessRisk(profile(40, usdt(10000)), "client-at-threshold")).wait();
+
+      const result = await riskControl.getLatestAssessment("client-at-threshold");
+      expect(result.riskScore).to.eq(50n);
+      expect(result.approved).to.eq(true);
+      expect(result.tier).to.eq(Tier.D);
+    });
+
+    it("should decline a score below tier D's minimum", async function () {
+      // 32 (age) + 10 (income) = 42
+      await (await riskControl.assessRisk(profile(39, usdt(10000)), "client-below")).wait();
+
+      const result = await riskControl.getLatestAssessment("client-below");
+      expect(result.riskScore).to.eq(42n);
+      expect(result.approved).to.eq(false);
+      expect(result.tier).to.eq(Tier.Decline);
+      expect(result.creditLimit).to.eq(0n);
+    });
+
+    it("should grant monthly income times the tier's multiplier as credit limit", async function () {
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-credit")).wait();
+
+      const result = await riskControl.getLatestAssessment("client-credit");
+      // 92 points is tier A: (60000 / 12) * 4
+      expect(result.tier).to.eq(Tier.A);
+      expect(result.creditLimit).to.eq(usdt(20000));
+    });
+
+    it("should cap the credit limit at the tier's maximum", async function () {
+      // 8 (age) + 60 (income) = 68 is tier C: (120000 / 12) * 2 = 20000, capped at 15000
+      await (await riskControl.assessRisk(profile(20, usdt(120000)), "client-capped")).wait();
+
+      const result = await riskControl.getLatestAssessment("client-capped");
+      expect(result.tier).to.eq(Tier.C);
+      expect(result.creditLimit).to.eq(usdt(15000));
+    });
+
+    it("should truncate the monthly income to whole USDT before applying the multiplier", async function () {
+      // 100000.000001 / 12 = 8333.33... USDT a month, counted as 8333
+      await (await riskControl.assessRisk(profile(40, 100_000_000_001n), "client-rounding")).wait();
+
+      const result = await riskControl.getAssessmentResult("client-rounding");
+      expect(result.creditLimit).to.eq(usdt(8333 * 4));
+    });
+
+    it("should emit AssessmentPerformed", async function () {
+      await expect(riskControl.assessRisk(profile(35, usdt(60000)), "client-event"))
+        .to.emit(riskControl, "AssessmentPerformed")
+        .withArgs("client-event", usdt(20000), 92n, true, Tier.A, (timestamp: bigint) => timestamp > 0n);
+    });
+
+    it("should reject an empty client ID", async function () {
+      await expect(riskControl.assessRisk(profile(35, usdt(60000)), "")).to.be.revertedWithCustomError(
+        riskControl,
+        "EmptyClientId",
+      );
+    });
+
+    it("should report the newest result of a duplicate client ID without listing it twice", async function () {
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-dup")).wait();
+      await (await riskControl.assessRisk(profile(18, usdt(1000)), "client-dup")).wait();
+
+      expect(await riskControl.getAssessmentCount()).to.eq(1n);
+      expect(await riskControl.getAllClientIds()).to.deep.eq(["client-dup"]);
+
+      const result = await riskControl.getAssessmentResult("client-dup");
+      expect(result.riskScore).to.eq(0n);
+      expect(result.approved).to.eq(false);
+    });
+  });
+
+  describe("risk tiers", function () {
+    const tierOf = async (age: number, income: bigint) => {
+      const [, , , tier] = await riskControl.assessRisk.staticCall(profile(age, income), "client-tier");
+      return tier;
+    };
+
+    it("should place scores in the band between consecutive tier minimums", async function () {
+      expect(await tierOf(20, usdt(50000))).to.eq(Tier.D); // 58
+      expect(await tierOf(18, usdt(60000))).to.eq(Tier.C); // 60
+      expect(await tierOf(30, usdt(50000))).to.eq(Tier.C); // 74
+      expect(await tierOf(25, usdt(60000))).to.eq(Tier.B); // 76
+      expect(await tierOf(30, usdt(60000))).to.eq(Tier.B); // 84
+      expect(await tierOf(40, usdt(50000))).to.eq(Tier.A); // 90
+    });
+
+    it("should expose each tier's configuration", async function () {
+      const tierA = await riskControl.getRiskTier(Tier.A);
+      expect(tierA.minScore).to.eq(90n);
+      expect(tierA.incomeMultiplier).to.eq(4n);
+      expect(tierA.maxCreditLimit).to.eq(usdt(100000));
+      expect([tierA.minInterestRate, tierA.maxInterestRate]).to.deep.eq([500n, 800n]);
+
+      await expect(riskControl.getRiskTier(Tier.Decline)).to.be.revertedWith("Decline has no tier configuration");
+    });
+
+    it("should let parameter admins reconfigure the tiers", async function () {
+      await expect(riskControl.updateRiskTiers(tiers([{ minScore: 30, incomeMultiplier: 3 }]))).to.emit(
+        riskControl,
+        "ParametersUpdated",
+      );
+      expect((await riskControl.getRiskTier(Tier.D)).minScore).to.eq(30n);
+
+      // 32 (age) + 0 (income) = 32 is now tier D: 833 whole USDT a month * 3
+      await (await riskControl.assessRisk(profile(35, usdt(9999)), "client-new-tiers")).wait();
+      const result = await riskControl.getLatestAssessment("client-new-tiers");
+      expect(result.tier).to.eq(Tier.D);
+      expect(result.creditLimit).to.eq(usdt(833 * 3));
+    });
+
+    it("should reject invalid tier configurations", async function () {
+      await expect(riskControl.updateRiskTiers(tiers([{}, { minScore: 50 }]))).to.be.revertedWith(
+        "Tier minimum scores must be strictly ascending",
+      );
+      await expect(
+        riskControl.updateRiskTiers(tiers([{ minInterestRate: 2500, maxInterestRate: 2400 }])),
+      ).to.be.revertedWith("Interest rate band is inverted");
+      await expect(riskControl.connect(signers.alice).updateRiskTiers(tiers())).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+  });
+
+  describe("batchAssessRisk", function () {
+    it("should assess every row and emit the success count", async function () {
+      const profiles = [profile(25, usdt(20000)), profile(45, usdt(80000)), profile(60, usdt(5000))];
+      const clientIds = ["batch-1", "batch-2", "batch-3"];
+
+      expect(await riskControl.batchAssessRisk.staticCall(profiles, clientIds)).to.eq(3n);
+      await expect(riskControl.batchAssessRisk(profiles, clientIds))
+        .to.emit(riskControl, "BatchAssessmentPerformed")
+        .withArgs(1n, 3n, (timestamp: bigint) => timestamp > 0n)
+        .and.to.emit(riskControl, "BatchItemAssessed")
+        .withArgs(1n, 2n, "batch-3")
+        .and.not.to.emit(riskControl, "BatchItemFailed");
+
+      expect(await riskControl.getAllClientIds()).to.deep.eq(clientIds);
+      const results = await riskControl.getBatchAssessmentResults(clientIds);
+      expect(results.map((r) => r.approved)).to.deep.eq([false, true, false]);
+    });
+
+    it("should skip failing rows and keep processing the rest", async function () {
+      const profiles = [profile(25, usdt(20000)), profile(45, usdt(80000)), profile(60, usdt(5000))];
+      const clientIds = ["batch-1", "", "batch-3"];
+
+      expect(await riskControl.batchAssessRisk.staticCall(profiles, clientIds)).to.eq(2n);
+      await expect(riskControl.batchAssessRisk(profiles, clientIds))
+        .to.emit(riskControl, "BatchAssessmentPerformed")
+        .withArgs(1n, 2n, (timestamp: bigint) => timestamp > 0n)
+        .and.to.emit(riskControl, "BatchItemFailed")
+        .withArgs(1n, 1n, "", "Client ID cannot be empty");
+
+      expect(await riskControl.getAllClientIds()).to.deep.eq(["batch-1", "batch-3"]);
+    });
+
+    it("should report the outcome of every row in order", async function () {
+      const profiles = [profile(25, usdt(20000)), profile(45, usdt(80000)), profile(60, usdt(5000))];
+      const receipt = await (await riskControl.batchAssessRisk(profiles, ["", "batch-2", ""])).wait();
+
+      const outcomes = receipt!.logs
+        .map((log) => riskControl.interface.parseLog(log))
+        .filter((event) => event?.name === "BatchItemAssessed" || event?.name === "BatchItemFailed")
+        .map((event) => [event!.name, event!.args.index, event!.args.clientId]);
+      expect(outcomes).to.deep.eq([
+        ["BatchItemFailed", 0n, ""],
+        ["BatchItemAssessed", 1n, "batch-2"],
+        ["BatchItemFailed", 2n, ""],
+      ]);
+    });
+
+    it("should report rows outside the input ranges with the field and its range", async function () {
+      const profiles = [profile(16, usdt(20000)), profile(45, usdt(80000)), profile(30, usdt("10000000.05"))];
+
+      await expect(riskControl.batchAssessRisk(profiles, ["batch-young", "batch-ok", "batch-rich"]))
+        .to.emit(riskControl, "BatchItemFailed")
+        .withArgs(1n, 0n, "batch-young", "Age 16 is outside the valid range 18–120")
+        .and.to.emit(riskControl, "BatchItemAssessed")
+        .withArgs(1n, 1n, "batch-ok");
+
+      // Income is described in USDT, as the frontend does
+      expect((await riskControl.getBatchOutcome(1)).failureReasons[1]).to.eq(
+        "Income 10000000.05 is outside the valid range 0–10000000",
+      );
+    });
+
+    it("should keep each batch's outcome under its batch ID", async function () {
+      const profiles = [profile(25, usdt(20000)), profile(45, usdt(80000)), profile(60, usdt(5000))];
+      await riskControl.batchAssessRisk(profiles, ["batch-1", "batch-2", "batch-3"]);
+      await riskControl.batchAssessRisk(profiles, ["", "batch-4", ""]);
+
+      expect(await riskControl.batchCount()).to.eq(2n);
+      const first = await riskControl.getBatchOutcome(1);
+      expect(first.submittedBy).to.eq(signers.deployer.address);
+      expect(first.successCount).to.eq(3n);
+      expect(first.failedIndexes).to.deep.eq([]);
+
+      const second = await riskControl.getBatchOutcome(2);
+      expect(second.timestamp).to.be.gte(first.timestamp);
+      expect(second.successCount).to.eq(1n);
+      expect(second.failedIndexes).to.deep.eq([0n, 2n]);
+      expect(second.failureReasons).to.deep.eq(["Client ID cannot be empty", "Client ID cannot be empty"]);
+
+      expect((await riskControl.getBatchOutcome(3)).submittedBy).to.eq(ethers.ZeroAddress);
+    });
+
+    it("should reject arrays of different lengths", async function () {
+      await expect(riskControl.batchAssessRisk([profile(25, usdt(20000))], ["a", "b"])).to.be.revertedWithCustomError(
+        riskControl,
+        "InputLengthMismatch",
+      );
+    });
+  });
+
+  describe("assessment history", function () {
+    beforeEach(async function () {
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-history")).wait();
+      await (await riskControl.assessRisk(profile(18, usdt(1000)), "client-history")).wait();
+      await (await riskControl.assessRisk(profile(25, usdt(40000)), "client-history")).wait();
+    });
+
+    it("should keep every assessment as a numbered record", async function () {
+      expect(await riskControl.getAssessmentHistoryLength("client-history")).to.eq(3n);
+      expect((await riskControl.getAssessmentAt("client-history", 0)).riskScore).to.eq(92n);
+      expect((await riskControl.getAssessmentAt("client-history", 1)).riskScore).to.eq(0n);
+      expect((await riskControl.getAssessmentAt("client-history", 2)).riskScore).to.eq(56n);
+      expect(await riskControl.getAssessmentCount()).to.eq(1n);
+    });
+
+    it("should return the most recent record as the latest assessment", async function () {
+      const latest = await riskControl.getLatestAssessment("client-history");
+      expect(latest.riskScore).to.eq(56n);
+      expect(latest.clientId).to.eq("client-history");
+
+      const result = await riskControl.getAssessmentResult("client-history");
+      expect(result.riskScore).to.eq(56n);
+    });
+
+    it("should paginate the history oldest first", async function () {
+      const firstPage = await riskControl.getAssessmentHistory("client-history", 0, 2);
+      expect(firstPage.map((r) => r.riskScore)).to.deep.eq([92n, 0n]);
+
+      const secondPage = await riskControl.getAssessmentHistory("client-history", 2, 2);
+      expect(secondPage.map((r) => r.riskScore)).to.deep.eq([56n]);
+
+      expect(await riskControl.getAssessmentHistory("client-history", 3, 2)).to.deep.eq([]);
+      expect(await riskControl.getAssessmentHistory("unknown", 0, 10)).to.deep.eq([]);
+    });
+
+    it("should revert for an out-of-range record index", async function () {
+      await expect(riskControl.getAssessmentAt("client-history", 3)).to.be.revertedWith(
+        "Assessment index out of range",
+      );
+      await expect(riskControl.getLatestAssessment("unknown")).to.be.revertedWith(
+        "No assessment found for this client ID",
+      );
+    });
+  });
+
+  describe("client listing", function () {
+    beforeEach(async function () {
+      const clientIds = ["page-1", "page-2", "page-3", "page-4", "page-5"];
+      await (
+        await riskControl.batchAssessRisk(
+          [20, 30, 40, 50, 60].map((age) => profile(age, usdt(30000))),
+          clientIds,
+        )
+      ).wait();
+      // re-assessing an existing client must not list it again
+      await (await riskControl.assessRisk(profile(18, usdt(1000)), "page-2")).wait();
+    });
+
+    it("should page through client IDs in first-assessment order", async function () {
+      expect(await riskControl.getAssessmentCount()).to.eq(5n);
+      expect(await riskControl.getClientIds(0, 2)).to.deep.eq(["page-1", "page-2"]);
+      expect(await riskControl.getClientIds(2, 2)).to.deep.eq(["page-3", "page-4"]);
+      expect(await riskControl.getClientIds(4, 2)).to.deep.eq(["page-5"]);
+      expect(await riskControl.getClientIds(5, 2)).to.deep.eq([]);
+    });
+
+    it("should return the latest assessment of each client in a page", async function () {
+      const page = await riskControl.getAssessmentsPage(1, 2);
+      expect(page.map((r) => r.clientId)).to.deep.eq(["page-2", "page-3"]);
+      expect(page.map((r) => r.riskScore)).to.deep.eq([0n, 70n]);
+    });
+  });
+
+  describe("assessment expiry", function () {
+    it("should default to a one-year validity period with a 30-day renewal window", async function () {
+      expect(await riskControl.validityPeriod()).to.eq(BigInt(365 * DAY));
+      expect(await riskControl.renewalWindow()).to.eq(BigInt(30 * DAY));
+    });
+
+    it("should report an assessment as current, then due soon, then expired", async function () {
+      await (await riskControl.setValidityPeriod(10 * DAY, 2 * DAY)).wait();
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+      const { timestamp } = await riskControl.getLatestAssessment("client-1");
+
+      let [status, expiresAt] = await riskControl.getAssessmentStatus("client-1");
+      expect(status).to.eq(Status.Current);
+      expect(expiresAt).to.eq(timestamp + BigInt(10 * DAY));
+
+      await time.increaseTo(timestamp + BigInt(8 * DAY));
+      [status] = await riskControl.getAssessmentStatus("client-1");
+      expect(status).to.eq(Status.DueSoon);
+
+      await time.increaseTo(timestamp + BigInt(10 * DAY));
+      [status] = await riskControl.getAssessmentStatus("client-1");
+      expect(status).to.eq(Status.Expired);
+    });
+
+    it("should report None for clients that were never assessed", async function () {
+      expect(await riskControl.getAssessmentStatus("unknown")).to.deep.eq([BigInt(Status.None), 0n]);
+    });
+
+    it("should judge freshness by the latest assessment", async function () {
+      await (await riskControl.setValidityPeriod(10 * DAY, 0)).wait();
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+      await time.increase(11 * DAY);
+      expect((await riskControl.getAssessmentStatus("client-1"))[0]).to.eq(Status.Expired);
+
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+      expect((await riskControl.getAssessmentStatus("client-1"))[0]).to.eq(Status.Current);
+    });
+
+    it("should page through expired clients", async function () {
+      await (await riskControl.setValidityPeriod(10 * DAY, 0)).wait();
+      await (
+        await riskControl.batchAssessRisk(
+          [1, 2, 3, 4, 5].map(() => profile(35, usdt(60000))),
+          ["old-1", "old-2", "old-3", "old-4", "old-5"],
+        )
+      ).wait();
+      await time.increase(11 * DAY);
+      // re-assessed clients are current again
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "old-2")).wait();
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "new-1")).wait();
+
+      let [clientIds, nextOffset] = await riskControl.getExpiredClients(0, 2);
+      expect(clientIds).to.deep.eq(["old-1", "old-3"]);
+      expect(nextOffset).to.eq(3n);
+
+      [clientIds, nextOffset] = await riskControl.getExpiredClients(nextOffset, 10);
+      expect(clientIds).to.deep.eq(["old-4", "old-5"]);
+      expect(nextOffset).to.eq(6n);
+
+      expect(await riskControl.getExpiredClients(6, 10)).to.deep.eq([[], 6n]);
+      expect(await riskControl.getExpiredClients(100, 10)).to.deep.eq([[], 6n]);
+    });
+
+    it("should validate and restrict validity period updates", async function () {
+      await expect(riskControl.setValidityPeriod(0, 0)).to.be.revertedWith("Validity period must be positive");
+      await expect(riskControl.setValidityPeriod(DAY, 2 * DAY)).to.be.revertedWith(
+        "Renewal window exceeds validity period",
+      );
+      await expect(riskControl.connect(signers.alice).setValidityPeriod(DAY, 0)).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+      await expect(riskControl.setValidityPeriod(90 * DAY, 7 * DAY))
+        .to.emit(riskControl, "ValidityPeriodUpdated")
+        .withArgs(90 * DAY, 7 * DAY);
+    });
+  });
+
+  describe("overrides and appeals", function () {
+    beforeEach(async function () {
+      // bob reviews decisions as a senior officer, alice flags them as a risk officer
+      await (await riskControl.grantRole(await riskControl.SENIOR_OFFICER_ROLE(), signers.bob.address)).wait();
+      await (await riskControl.grantRole(await riskControl.RISK_OFFICER_ROLE(), signers.alice.address)).wait();
+      // 10 points: declined
+      await (await riskControl.assessRisk(profile(18, usdt(10000)), "client-1")).wait();
+    });
+
+    it("should replace the decision and record the original values", async function () {
+      await expect(riskControl.connect(signers.bob).overrideDecision("client-1", Tier.D, usdt(2000), Reason.Collateral))
+        .to.emit(riskControl, "DecisionOverridden")
+        .withArgs(
+          "client-1",
+          0,
+          true,
+          Tier.D,
+          usdt(2000),
+          false,
+          Tier.Decline,
+          0,
+          Reason.Collateral,
+          signers.bob.address,
+          (timestamp: bigint) => timestamp > 0n,
+        );
+
+      const result = await riskControl.getLatestAssessment("client-1");
+      expect(result.approved).to.eq(true);
+      expect(result.creditLimit).to.eq(usdt(2000));
+      expect(result.overridden).to.eq(true);
+      expect(result.tier).to.eq(Tier.D);
+
+      const record = await riskControl.getDecisionOverride("client-1", 0);
+      expect(record.originalApproved).to.eq(false);
+      expect(record.originalCreditLimit).to.eq(0n);
+      expect(record.originalTier).to.eq(Tier.Decline);
+      expect(record.tier).to.eq(Tier.D);
+      expect(record.reason).to.eq(Reason.Collateral);
+      expect(record.overriddenBy).to.eq(signers.bob.address);
+    });
+
+    it("should keep the automated values across repeated overrides", async function () {
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-2")).wait();
+      await (
+        await riskControl.connect(signers.bob).overrideDecision("client-2", Tier.B, usdt(5000), Reason.PolicyException)
+      ).wait();
+      await (
+        await riskControl.connect(signers.bob).overrideDecision("client-2", Tier.Decline, 0, Reason.AdverseInformation)
+      ).wait();
+
+      const record = await riskControl.getDecisionOverride("client-2", 0);
+      expect(record.originalApproved).to.eq(true);
+      expect(record.originalCreditLimit).to.eq(usdt(20000));
+      expect(record.originalTier).to.eq(Tier.A);
+      expect(record.approved).to.eq(false);
+      expect(record.tier).to.eq(Tier.Decline);
+      expect((await riskControl.getLatestAssessment("client-2")).tier).to.eq(Tier.Decline);
+      expect(record.reason).to.eq(Reason.AdverseInformation);
+    });
+
+    it("should only override the latest record", async function () {
+      await (
+        await riskControl.connect(signers.bob).overrideDecision("client-1", Tier.D, usdt(1000), Reason.Other)
+      ).wait();
+      await (await riskControl.assessRisk(profile(18, usdt(10000)), "client-1")).wait();
+
+      expect((await riskControl.getAssessmentAt("client-1", 0)).overridden).to.eq(true);
+      expect((await riskControl.getLatestAssessment("client-1")).overridden).to.eq(false);
+      await expect(riskControl.getDecisionOverride("client-1", 1)).to.be.revertedWith(
+        "No override recorded for this assessment",
+      );
+    });
+
+    it("should validate overrides and restrict them to senior officers", async function () {
+      await expect(
+        riskControl.connect(signers.alice).overrideDecision("client-1", Tier.D, usdt(1000), Reason.Other),
+      ).to.be.revertedWith("Caller does not have the required role");
+      await expect(
+        riskControl.connect(signers.bob).overrideDecision("client-1", Tier.Decline, usdt(1000), Reason.Other),
+      ).to.be.revertedWith("Declined decisions cannot carry a credit limit");
+      await expect(
+        riskControl.connect(signers.bob).overrideDecision("unknown", Tier.D, usdt(1000), Reason.Other),
+      ).to.be.revertedWith("No assessment found for this client ID");
+    });
+
+    it("should flag an appeal and resolve it with an override", async function () {
+      await expect(riskControl.connect(signers.alice).flagForAppeal("client-1"))
+        .to.emit(riskControl, "AppealFlagged")
+        .withArgs("client-1", signers.alice.address, (timestamp: bigint) => timestamp > 0n);
+      expect(await riskControl.getAppealStatus("client-1")).to.eq(Appeal.Pending);
+      expect(await riskControl.getPendingAppeals()).to.deep.eq(["client-1"]);
+      await expect(riskControl.connect(signers.alice).flagForAppeal("client-1")).to.be.revertedWith(
+        "Appeal already pending for this client ID",
+      );
+
+      await expect(
+        riskControl.connect(signers.bob).overrideDecision("client-1", Tier.D, usdt(1000), Reason.VerifiedIncome),
+      )
+        .to.emit(riskControl, "AppealResolved")
+        .withArgs("client-1", signers.bob.address, true, (timestamp: bigint) => timestamp > 0n);
+      expect(await riskControl.getAppealStatus("client-1")).to.eq(Appeal.Resolved);
+      expect(await riskControl.getPendingAppeals()).to.deep.eq([]);
+    });
+
+    it("should let senior officers dismiss appeals and keep the pending list consistent", async function () {
+      await (await riskControl.assessRisk(profile(18, usdt(10000)), "client-2")).wait();
+      await (await riskControl.assessRisk(profile(18, usdt(10000)), "client-3")).wait();
+      for (const clientId of ["client-1", "client-2", "client-3"]) {
+        await (await riskControl.connect(signers.alice).flagForAppeal(clientId)).wait();
+      }
+
+      await expect(riskControl.connect(signers.alice).resolveAppeal("client-1")).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+      await expect(riskControl.connect(signers.bob).resolveAppeal("client-1"))
+        .to.emit(riskControl, "AppealResolved")
+        .withArgs("client-1", signers.bob.address, false, (timestamp: bigint) => timestamp > 0n);
+      expect([...(await riskControl.getPendingAppeals())].sort()).to.deep.eq(["client-2", "client-3"]);
+
+      await (await riskControl.connect(signers.bob).resolveAppeal("client-3")).wait();
+      expect(await riskControl.getPendingAppeals()).to.deep.eq(["client-2"]);
+      await expect(riskControl.connect(signers.bob).resolveAppeal("client-3")).to.be.revertedWith(
+        "No pending appeal for this client ID",
+      );
+      // the decision itself is unchanged
+      expect((await riskControl.getLatestAssessment("client-1")).overridden).to.eq(false);
+    });
+
+    it("should only accept appeals for assessed clients", async function () {
+      await expect(riskControl.connect(signers.alice).flagForAppeal("unknown")).to.be.revertedWith(
+        "No assessment found for this client ID",
+      );
+      await expect(riskControl.connect(signers.bob).flagForAppeal("client-1")).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+  });
+
+  describe("pausing", function () {
+    beforeEach(async function () {
+      // alice can pause, bob submits assessments
+      await (await riskControl.grantRole(await riskControl.PAUSER_ROLE(), signers.alice.address)).wait();
+      await (await riskControl.grantRole(await riskControl.RISK_OFFICER_ROLE(), signers.bob.address)).wait();
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+    });
+
+    it("should block assessments, overrides and appeals while paused", async function () {
+      await expect(riskControl.connect(signers.alice).pause())
+        .to.emit(riskControl, "Paused")
+        .withArgs(signers.alice.address);
+      expect(await riskControl.paused()).to.eq(true);
+
+      await expect(
+        riskControl.connect(signers.bob).assessRisk(profile(35, usdt(60000)), "client-2"),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(
+        riskControl.connect(signers.bob).batchAssessRisk([profile(35, usdt(60000))], ["client-2"]),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(riskControl.overrideDecision("client-1", Tier.Decline, 0, Reason.Other)).to.be.revertedWith(
+        "Contract is paused",
+      );
+      await expect(riskControl.connect(signers.bob).flagForAppeal("client-1")).to.be.revertedWith("Contract is paused");
+    });
+
+    it("should keep views and parameter updates available while paused", async function () {
+      await (await riskControl.connect(signers.alice).pause()).wait();
+
+      expect((await riskControl.getLatestAssessment("client-1")).riskScore).to.eq(92n);
+      expect(await riskControl.getAssessmentCount()).to.eq(1n);
+      await expect(riskControl.updateRiskTiers(tiers([{ minScore: 55 }]))).to.emit(riskControl, "ParametersUpdated");
+    });
+
+    it("should resume assessments after unpausing", async function () {
+      await (await riskControl.connect(signers.alice).pause()).wait();
+      await expect(riskControl.connect(signers.alice).unpause())
+        .to.emit(riskControl, "Unpaused")
+        .withArgs(signers.alice.address);
+
+      await (await riskControl.connect(signers.bob).assessRisk(profile(35, usdt(60000)), "client-2")).wait();
+      expect(await riskControl.getAssessmentCount()).to.eq(2n);
+    });
+
+    it("should restrict pausing to pausers and reject redundant calls", async function () {
+      await expect(riskControl.connect(signers.bob).pause()).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+      await expect(riskControl.connect(signers.alice).unpause()).to.be.revertedWith("Contract is not paused");
+
+      await (await riskControl.pause()).wait();
+      await expect(riskControl.connect(signers.alice).pause()).to.be.revertedWith("Contract is already paused");
+      await expect(riskControl.connect(signers.bob).unpause()).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+  });
+
+  describe("queries", function () {
+    it("should revert when no assessment exists for a client ID", async function () {
+      await expect(riskControl.getAssessmentResult("unknown")).to.be.revertedWith(
+        "No assessment found for this client ID",
+      );
+      await expect(riskControl.getAssessmentResult("")).to.be.revertedWithCustomError(riskControl, "EmptyClientId");
+    });
+
+    it("should return empty results for unknown IDs in batch queries", async function () {
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "known")).wait();
+
+      const results = await riskControl.getBatchAssessmentResults(["known", "unknown"]);
+      expect(results[0].clientId).to.eq("known");
+      expect(results[1].clientId).to.eq("");
+      expect(results[1].timestamp).to.eq(0n);
+    });
+  });
+
+  describe("roles", function () {
+    it("should implicitly grant every role to the owner", async function () {
+      for (const role of [
+        await riskControl.RISK_OFFICER_ROLE(),
+        await riskControl.PARAMETER_ADMIN_ROLE(),
+        await riskControl.AUDITOR_ROLE(),
+        await riskControl.PAUSER_ROLE(),
+      ]) {
+        expect(await riskControl.hasRole(role, signers.deployer.address)).to.eq(true);
+        expect(await riskControl.hasRole(role, signers.alice.address)).to.eq(false);
+      }
+    });
+
+    it("should only let risk officers submit assessments", async function () {
+      await expect(
+        riskControl.connect(signers.alice).assessRisk(profile(35, usdt(60000)), "client-1"),
+      ).to.be.revertedWith("Caller does not have the required role");
+      await expect(
+        riskControl.connect(signers.alice).batchAssessRisk([profile(35, usdt(60000))], ["client-1"]),
+      ).to.be.revertedWith("Caller does not have the required role");
+
+      await (await riskControl.grantRole(await riskControl.RISK_OFFICER_ROLE(), signers.alice.address)).wait();
+      await (await riskControl.connect(signers.alice).assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+      expect(
+        await riskControl.connect(signers.alice).batchAssessRisk.staticCall([profile(45, usdt(80000))], ["client-2"]),
+      ).to.eq(1n);
+    });
+
+    it("should not expose batch rows to direct callers", async function () {
+      await expect(riskControl.assessBatchItem(profile(35, usdt(60000)), "client-1")).to.be.revertedWith(
+        "Only callable from batchAssessRisk",
+      );
+    });
+
+    it("should emit events when roles are granted and revoked", async function () {
+      const role = await riskControl.PARAMETER_ADMIN_ROLE();
+
+      await expect(riskControl.grantRole(role, signers.alice.address))
+        .to.emit(riskControl, "RoleGranted")
+        .withArgs(role, signers.alice.address, signers.deployer.address);
+      expect(await riskControl.hasRole(role, signers.alice.address)).to.eq(true);
+      await (await riskControl.connect(signers.alice).updateRiskTiers(tiers())).wait();
+
+      await expect(riskControl.revokeRole(role, signers.alice.address))
+        .to.emit(riskControl, "RoleRevoked")
+        .withArgs(role, signers.alice.address, signers.deployer.address);
+      await expect(riskControl.connect(signers.alice).updateRiskTiers(tiers())).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+
+    it("should only let the owner manage roles", async function () {
+      const role = await riskControl.RISK_OFFICER_ROLE();
+
+      await expect(riskControl.connect(signers.alice).grantRole(role, signers.alice.address)).to.be.revertedWith(
+        "Only contract owner can perform this action",
+      );
+      await expect(riskControl.connect(signers.alice).revokeRole(role, signers.deployer.address)).to.be.revertedWith(
+        "Only contract owner can perform this action",
+      );
+      await expect(riskControl.grantRole(role, ethers.ZeroAddress)).to.be.revertedWith(
+        "Account cannot be zero address",
+      );
+    });
+  });
+
+  describe("owner-only functions", function () {
+    it("should let the owner update risk parameters", async function () {
+      await expect(riskControl.updateRiskTiers(tiers([{}, {}, {}, { minScore: 95, incomeMultiplier: 5 }]))).to.emit(
+        riskControl,
+        "ParametersUpdated",
+      );
+
+      const params = await riskControl.getRiskParameters();
+      expect(params.tiers[3].minScore).to.eq(95n);
+      expect(params.tiers[3].incomeMultiplier).to.eq(5n);
+
+      // 92 points now falls short of tier A: (60000 / 12) * 3 in tier B
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-new-params")).wait();
+      const result = await riskControl.getLatestAssessment("client-new-params");
+      expect(result.tier).to.eq(Tier.B);
+      expect(result.creditLimit).to.eq(usdt(15000));
+    });
+
+    it("should prevent non-admins from updating risk parameters", async function () {
+      await expect(riskControl.connect(signers.alice).updateRiskTiers(tiers())).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+
+    it("should transfer ownership", async function () {
+      await (await riskControl.transferOwnership(signers.alice.address)).wait();
+      expect(await riskControl.getOwner()).to.eq(signers.alice.address);
+
+      await expect(riskControl.updateRiskTiers(tiers())).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+      await (await riskControl.connect(signers.alice).updateRiskTiers(tiers())).wait();
+    });
+
+    it("should prevent invalid or unauthorized ownership transfers", async function () {
+      await expect(riskControl.transferOwnership(ethers.ZeroAddress)).to.be.revertedWith(
+        "New owner cannot be zero address",
+      );
+      await expect(riskControl.connect(signers.bob).transferOwnership(signers.bob.address)).to.be.revertedWith(
+        "Only contract owner can perform this action",
+      );
+    });
+  });
+
+  describe("upgrades", function () {
+    it("should not allow initializing the proxy again or using the implementation directly", async function () {
+      await expect(riskControl.initialize()).to.be.revertedWithCustomError(riskControl, "InvalidInitialization");
+      await expect(implementation.initialize()).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    it("should keep assessment history, roles and parameters across an upgrade", async function () {
+      const role = await riskControl.RISK_OFFICER_ROLE();
+      await (await riskControl.assessRisk(profile(35, usdt(60000)), "client-1")).wait();
+      await (await riskControl.assessRisk(profile(25, usdt(30000)), "client-1")).wait();
+      await (await riskControl.grantRole(role, signers.alice.address)).wait();
+      await (await riskControl.setValidityPeriod(90 * DAY, 7 * DAY)).wait();
+      const history = await riskControl.getAssessmentHistory("client-1", 0, 10);
+
+      const factory = await riskControlFactory();
+      const next = await factory.deploy();
+      const nextAddress = await next.getAddress();
+      await expect(riskControl.upgradeToAndCall(nextAddress, "0x"))
+        .to.emit(riskControl, "Upgraded")
+        .withArgs(nextAddress);
+
+      expect(await riskControl.getAssessmentHistory("client-1", 0, 10)).to.deep.eq(history);
+      expect(await riskControl.getAllClientIds()).to.deep.eq(["client-1"]);
+      expect(await riskControl.hasRole(role, signers.alice.address)).to.eq(true);
+      expect(await riskControl.validityPeriod()).to.eq(BigInt(90 * DAY));
+      expect(await riskControl.getOwner()).to.eq(signers.deployer.address);
+
+      // The upgraded contract keeps working on the stored state
+      await (await riskControl.connect(signers.alice).assessRisk(profile(40, usdt(60000)), "client-1")).wait();
+      expect(await riskControl.getAssessmentHistoryLength("client-1")).to.eq(3n);
+    });
+
+    it("should only let the owner upgrade", async function () {
+      const factory = await riskControlFactory();
+      const next = await factory.deploy();
+
+      await expect(
+        riskControl.connect(signers.alice).upgradeToAndCall(await next.getAddress(), "0x"),
+      ).to.be.revertedWith("Only contract owner can perform this action");
+    });
+  });
+});
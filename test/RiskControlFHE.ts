@@ -0,0 +1,586 @@
+import { RiskControlFHE, RiskControlFHE__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Risk tiers, in RiskTier enum order
+const Tier = {
+  Decline: 0,
+  D: 1,
+  C: 2,
+  B: 3,
+  A: 4,
+};
+
+// Factor indexes, in the order of the EncryptedClientProfile fields
+const Factor = {
+  Age: 0,
+  AnnualIncome: 1,
+};
+
+// Default tier settings from tier D to tier A: min score, multiplier, credit cap (whole USDT), rate band
+const DEFAULT_TIERS = [
+  [50, 1, 5000, 1800, 2400],
+  [60, 2, 15000, 1200, 1800],
+  [75, 3, 40000, 800, 1200],
+  [90, 4, 100000, 500, 800],
+];
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("RiskControlFHE")) as RiskControlFHE__factory;
+  const riskControlFHE = (await factory.deploy()) as RiskControlFHE;
+  const riskControlFHEAddress = await riskControlFHE.getAddress();
+
+  return { riskControlFHE, riskControlFHEAddress };
+}
+
+describe("RiskControlFHE", function () {
+  let signers: Signers;
+  let riskControlFHE: RiskControlFHE;
+  let riskControlFHEAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ riskControlFHE, riskControlFHEAddress } = await deployFixture());
+
+    // alice submits assessments as a risk officer
+    await (await riskControlFHE.grantRole(await riskControlFHE.RISK_OFFICER_ROLE(), signers.alice.address)).wait();
+  });
+
+  // Encrypt client profiles for `signer` under one input proof. Each profile lists the values in
+  // EncryptedClientProfile order: age, income (whole USDT), debt-to-income, employment years, obligations, delinquencies
+  async function encryptProfiles(signer: HardhatEthersSigner, profiles: number[][]) {
+    const input = fhevm.createEncryptedInput(riskControlFHEAddress, signer.address);
+    profiles.forEach((values) => values.forEach((value) => input.add32(value)));
+    const encrypted = await input.encrypt();
+
+    const handles = profiles.map((_, i) => {
+      const [age, annualIncome, debtToIncome, employmentYears, existingObligations, delinquencyCount] =
+        encrypted.handles.slice(i * 6, i * 6 + 6);
+      return { age, annualIncome, debtToIncome, employmentYears, existingObligations, delinquencyCount };
+    });
+    return { handles, inputProof: encrypted.inputProof };
+  }
+
+  // Encrypt a profile and submit it as `signer`
+  async function assessEncrypted(
+    signer: HardhatEthersSigner,
+    age: number,
+    income: number,
+    clientId: string,
+    factors: number[] = [0, 0, 0, 0],
+  ) {
+    const { handles, inputProof } = await encryptProfiles(signer, [[age, income, ...factors]]);
+
+    const tx = await riskControlFHE.connect(signer).assessRiskEncrypted(handles[0], inputProof, clientId);
+    await tx.wait();
+  }
+
+  // Encrypt tier settings for `signer` and submit them
+  async function updateTiers(signer: HardhatEthersSigner, tiers: number[][]) {
+    const input = fhevm.createEncryptedInput(riskControlFHEAddress, signer.address);
+    tiers.forEach(([minScore, multiplier, maxCredit]) => input.add32(minScore).add32(multiplier).add32(maxCredit));
+    const encrypted = await input.encrypt();
+
+    const tierInputs = tiers.map(([, , , minInterestRate, maxInterestRate], i) => ({
+      minScore: encrypted.handles[i * 3],
+      incomeMultiplier: encrypted.handles[i * 3 + 1],
+      maxCreditLimit: encrypted.handles[i * 3 + 2],
+      minInterestRate,
+      maxInterestRate,
+    }));
+    return riskControlFHE
+      .connect(signer)
+      .updateRiskTiersEncrypted(
+        tierInputs as Parameters<typeof riskControlFHE.updateRiskTiersEncrypted>[0],
+        encrypted.inputProof,
+      );
+  }
+
+  async function decryptTierMinScore(tier: number, signer: HardhatEthersSigner) {
+    const config = await riskControlFHE.getEncryptedRiskTier(tier);
+    return fhevm.userDecryptEuint(FhevmType.euint32, config.minScore, riskControlFHEAddress, signer);
+  }
+
+  async function decryptResult(clientId: string, signer: HardhatEthersSigner) {
+    const result = await riskControlFHE.getEncryptedAssessmentResult(clientId);
+    const { tier } = await riskControlFHE.encryptedAssessments(clientId);
+    return {
+      creditLimit: await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        result.encryptedCreditLimit,
+        riskControlFHEAddress,
+        signer,
+      ),
+      riskScore: await fhevm.userDecryptEuint(FhevmType.euint32, result.encryptedRiskScore, riskControlFHEAddress, signer),
+      approved: await fhevm.userDecryptEbool(result.encryptedApproved, riskControlFHEAddress, signer),
+      tier: Number(await fhevm.userDecryptEuint(FhevmType.euint8, tier, riskControlFHEAddress, signer)),
+      timestamp: result.timestamp,
+    };
+  }
+
+  it("should initialize with the deployer as owner and decryptable default tiers", async function () {
+    expect(await riskControlFHE.getOwner()).to.eq(signers.deployer.address);
+
+    const tierA = await riskControlFHE.getEncryptedRiskTier(Tier.A);
+    expect(await decryptTierMinScore(Tier.A, signers.deployer)).to.eq(90n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, tierA.incomeMultiplier, riskControlFHEAddress, signers.deployer),
+    ).to.eq(4n);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, tierA.maxCreditLimit, riskControlFHEAddress, signers.deployer),
+    ).to.eq(100000n);
+    expect([tierA.minInterestRate, tierA.maxInterestRate]).to.deep.eq([500n, 800n]);
+    await expect(riskControlFHE.getEncryptedRiskTier(Tier.Decline)).to.be.revertedWith(
+      "Decline has no tier configuration",
+    );
+  });
+
+  describe("assessRiskEncrypted", function () {
+    it("should score, tier and compute the credit limit on encrypted inputs", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-1");
+
+      const result = await decryptResult("client-1", signers.alice);
+      // 32 (age) + 60 (income)
+      expect(result.riskScore).to.eq(92n);
+      expect(result.approved).to.eq(true);
+      expect(result.tier).to.eq(Tier.A);
+      // (60000 / 12) * 4
+      expect(result.creditLimit).to.eq(20000n);
+      expect(result.timestamp).to.be.gt(0n);
+    });
+
+    it("should cap the credit limit at the tier's maximum", async function () {
+      // 8 (age) + 60 (income) = 68 is tier C: (120000 / 12) * 2 = 20000, capped at 15000
+      await assessEncrypted(signers.alice, 20, 120000, "client-capped");
+
+      const result = await decryptResult("client-capped", signers.alice);
+      expect(result.tier).to.eq(Tier.C);
+      expect(result.creditLimit).to.eq(15000n);
+    });
+
+    it("should cap the age and income factors", async function () {
+      await assessEncrypted(signers.alice, 90, 5000000, "client-caps");
+
+      const result = await decryptResult("client-caps", signers.alice);
+      expect(result.riskScore).to.eq(100n);
+    });
+
+    it("should withhold the credit limit when not approved", async function () {
+      await assessEncrypted(signers.alice, 18, 12000, "client-rejected");
+
+      const result = await decryptResult("client-rejected", signers.alice);
+      expect(result.riskScore).to.eq(10n);
+      expect(result.approved).to.eq(false);
+      expect(result.tier).to.eq(Tier.Decline);
+      expect(result.creditLimit).to.eq(0n);
+    });
+
+    it("should approve a score exactly at tier D's minimum", async function () {
+      // 40 (age) + 10 (income) = 50
+      await assessEncrypted(signers.alice, 40, 10000, "client-at-threshold");
+
+      const result = await decryptResult("client-at-threshold", signers.alice);
+      expect(result.riskScore).to.eq(50n);
+      expect(result.approved).to.eq(true);
+      expect(result.tier).to.eq(Tier.D);
+      // (10000 / 12) * 1, in whole USDT
+      expect(result.creditLimit).to.eq(833n);
+    });
+
+    it("should let the owner decrypt results submitted by an officer", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-owner");
+
+      const result = await decryptResult("client-owner", signers.deployer);
+      expect(result.riskScore).to.eq(92n);
+    });
+
+    it("should not let other accounts decrypt results", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-private");
+
+      const result = await riskControlFHE.getEncryptedAssessmentResult("client-private");
+      let decryptionError: unknown;
+      try {
+        await fhevm.userDecryptEuint(FhevmType.euint32, result.encryptedRiskScore, riskControlFHEAddress, signers.bob);
+      } catch (e) {
+        decryptionError = e;
+      }
+      expect(decryptionError).to.not.eq(undefined);
+    });
+
+    it("should only let risk officers submit assessments", async function () {
+      const { handles, inputProof } = await encryptProfiles(signers.bob, [[35, 60000, 0, 0, 0, 0]]);
+
+      await expect(
+        riskControlFHE
+          .connect(signers.bob)
+          .assessRiskEncrypted(handles[0], inputProof, "client-bob"),
+      ).to.be.revertedWith("Caller does not have the required role");
+    });
+
+    it("should reject an input proof created for another account", async function () {
+      await (await riskControlFHE.grantRole(await riskControlFHE.RISK_OFFICER_ROLE(), signers.bob.address)).wait();
+      const { handles, inputProof } = await encryptProfiles(signers.alice, [[35, 60000, 0, 0, 0, 0]]);
+
+      await expect(
+        riskControlFHE
+          .connect(signers.bob)
+          .assessRiskEncrypted(handles[0], inputProof, "client-stolen"),
+      ).to.be.reverted;
+    });
+
+    it("should reject an empty client ID", async function () {
+      const { handles, inputProof } = await encryptProfiles(signers.alice, [[35, 60000, 0, 0, 0, 0]]);
+
+      await expect(
+        riskControlFHE
+          .connect(signers.alice)
+          .assessRiskEncrypted(handles[0], inputProof, ""),
+      ).to.be.revertedWithCustomError(riskControlFHE, "EmptyClientId");
+    });
+
+    it("should overwrite a duplicate client ID without listing it twice", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-dup");
+      await assessEncrypted(signers.alice, 18, 1000, "client-dup");
+
+      expect(await riskControlFHE.getAssessmentCount()).to.eq(1n);
+      const result = await decryptResult("client-dup", signers.alice);
+      expect(result.riskScore).to.eq(0n);
+    });
+
+    it("should page client IDs with their result handles", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-1");
+      await assessEncrypted(signers.alice, 25, 30000, "client-2");
+      await assessEncrypted(signers.alice, 45, 80000, "client-3");
+
+      const page = await riskControlFHE.getEncryptedAssessmentsPage(1, 10);
+      expect(page.map((result) => result.clientId)).to.deep.eq(["client-2", "client-3"]);
+      const stored = await riskControlFHE.encryptedAssessments("client-2");
+      expect([page[0].creditLimit, page[0].riskScore, page[0].approved, page[0].tier, page[0].timestamp]).to.deep.eq([
+        stored.creditLimit,
+        stored.riskScore,
+        stored.approved,
+        stored.tier,
+        stored.timestamp,
+      ]);
+      expect(await riskControlFHE.getEncryptedAssessmentsPage(3, 10)).to.deep.eq([]);
+    });
+  });
+
+  describe("encrypted scoring factors", function () {
+    // Encrypt a factor configuration as the deployer and submit it
+    async function updateFactor(factor: number, weight: number, cap: number, inverse: boolean, breakpoints: number[]) {
+      const input = fhevm.createEncryptedInput(riskControlFHEAddress, signers.deployer.address).add32(weight).add32(cap);
+      breakpoints.forEach((breakpoint) => input.add32(breakpoint));
+      const encrypted = await input.encrypt();
+
+      const tx = await riskControlFHE.updateScoringFactorEncrypted(
+        factor,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        inverse,
+        encrypted.handles.slice(2),
+        encrypted.inputProof,
+      );
+      await tx.wait();
+    }
+
+    it("should keep the default factor configuration encrypted but decryptable by the owner", async function () {
+      const age = await riskControlFHE.getEncryptedScoringFactor(0);
+      expect(age.inverse).to.eq(false);
+      expect(age.breakpoints.length).to.eq(5);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, age.cap, riskControlFHEAddress, signers.deployer),
+      ).to.eq(40n);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint32, age.breakpoints[4], riskControlFHEAddress, signers.deployer),
+      ).to.eq(40n);
+    });
+
+    it("should ignore the other factors while their weight is zero", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-factors", [80, 20, 9, 5]);
+
+      expect((await decryptResult("client-factors", signers.alice)).riskScore).to.eq(92n);
+    });
+
+    it("should deduct points per breakpoint reached on an inverse factor", async function () {
+      await updateFactor(5, 100, 30, true, [1, 2, 3]);
+
+      await assessEncrypted(signers.alice, 0, 0, "client-clean", [0, 0, 0, 0]);
+      await assessEncrypted(signers.alice, 0, 0, "client-one", [0, 0, 0, 1]);
+      await assessEncrypted(signers.alice, 0, 0, "client-many", [0, 0, 0, 7]);
+
+      expect((await decryptResult("client-clean", signers.alice)).riskScore).to.eq(30n);
+      expect((await decryptResult("client-one", signers.alice)).riskScore).to.eq(20n);
+      expect((await decryptResult("client-many", signers.alice)).riskScore).to.eq(0n);
+    });
+
+    it("should apply encrypted weights as a percentage of the factor's points", async function () {
+      await updateFactor(0, 50, 40, false, [20, 25, 30, 35, 40]);
+      await updateFactor(3, 50, 40, false, [1, 3, 5, 10]);
+
+      await assessEncrypted(signers.alice, 45, 60000, "client-weighted", [0, 4, 0, 0]);
+
+      // 40 * 50% (age) + 60 (income) + 2 of 4 breakpoints * 40 * 50% / 4 (employment)
+      expect((await decryptResult("client-weighted", signers.alice)).riskScore).to.eq(90n);
+    });
+
+    it("should prevent non-admins from updating scoring factors", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(riskControlFHEAddress, signers.alice.address)
+        .add32(100)
+        .add32(30)
+        .add32(20)
+        .encrypt();
+
+      await expect(
+        riskControlFHE
+          .connect(signers.alice)
+          .updateScoringFactorEncrypted(
+            2,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            true,
+            [encrypted.handles[2]],
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("Caller does not have the required role");
+    });
+  });
+
+  describe("input ranges", function () {
+    it("should expose the default range of every profile field", async function () {
+      const ranges = await riskControlFHE.getInputRanges();
+      expect(ranges.map((range) => [range.min, range.max])).to.deep.eq([
+        [18n, 120n],
+        [0n, 10_000_000n],
+        [0n, 100n],
+        [0n, 80n],
+        [0n, 100n],
+        [0n, 100n],
+      ]);
+      await expect(riskControlFHE.updateInputRange(Factor.Age, 50, 40))
+        .to.be.revertedWithCustomError(riskControlFHE, "InvalidInputRange")
+        .withArgs(Factor.Age, 50n, 40n);
+    });
+
+    it("should clamp encrypted inputs into their ranges instead of rejecting them", async function () {
+      await (await riskControlFHE.updateInputRange(Factor.Age, 30, 120)).wait();
+      await (await riskControlFHE.updateInputRange(Factor.AnnualIncome, 0, 30000)).wait();
+
+      // Scored as age 30 and 30000 USDT: 24 (age) + 30 (income) = 54 is tier D, credit 30000 / 12 * 1
+      await assessEncrypted(signers.alice, 18, 60000, "client-clamped");
+      const result = await decryptResult("client-clamped", signers.alice);
+      expect(result.riskScore).to.eq(54n);
+      expect(result.tier).to.eq(Tier.D);
+      expect(result.creditLimit).to.eq(2500n);
+    });
+  });
+
+  describe("batchAssessRiskEncrypted", function () {
+    it("should assess every row from a single input proof and skip empty client IDs", async function () {
+      const { handles, inputProof } = await encryptProfiles(signers.alice, [
+        [25, 20000, 0, 0, 0, 0],
+        [45, 80000, 0, 0, 0, 0],
+        [60, 5000, 0, 0, 0, 0],
+      ]);
+      const clientIds = ["batch-1", "", "batch-3"];
+
+      await expect(riskControlFHE.connect(signers.alice).batchAssessRiskEncrypted(handles, inputProof, clientIds))
+        .to.emit(riskControlFHE, "BatchAssessmentPerformed")
+        .withArgs(1n, 2n, (timestamp: bigint) => timestamp > 0n)
+        .and.to.emit(riskControlFHE, "BatchItemFailed")
+        .withArgs(1n, 1n, "", "Client ID cannot be empty")
+        .and.to.emit(riskControlFHE, "BatchItemAssessed")
+        .withArgs(1n, 2n, "batch-3");
+
+      const outcome = await riskControlFHE.getBatchOutcome(1);
+      expect(outcome.submittedBy).to.eq(signers.alice.address);
+      expect(outcome.successCount).to.eq(2n);
+      expect(outcome.failedIndexes).to.deep.eq([1n]);
+      expect(outcome.failureReasons).to.deep.eq(["Client ID cannot be empty"]);
+
+      expect(await riskControlFHE.getAllClientIds()).to.deep.eq(["batch-1", "batch-3"]);
+      expect(await riskControlFHE.getClientIds(1, 10)).to.deep.eq(["batch-3"]);
+      expect((await decryptResult("batch-1", signers.alice)).riskScore).to.eq(36n);
+      expect((await decryptResult("batch-3", signers.alice)).riskScore).to.eq(40n);
+    });
+
+    it("should reject batches longer than MAX_BATCH_SIZE", async function () {
+      const rows = Array.from({ length: 4 }, () => [35, 60000, 0, 0, 0, 0]);
+      const { handles, inputProof } = await encryptProfiles(signers.alice, rows);
+      const clientIds = rows.map((_, i) => `batch-${i}`);
+
+      expect(await riskControlFHE.MAX_BATCH_SIZE()).to.eq(3n);
+      await expect(riskControlFHE.connect(signers.alice).batchAssessRiskEncrypted(handles, inputProof, clientIds))
+        .to.be.revertedWithCustomError(riskControlFHE, "BatchTooLarge")
+        .withArgs(4n, 3n);
+    });
+
+    it("should only assess batch rows on behalf of batchAssessRiskEncrypted", async function () {
+      const values = Array(6).fill(ethers.ZeroHash);
+      await expect(
+        riskControlFHE.connect(signers.alice).assessBatchItemEncrypted(values, "client-1", signers.alice.address),
+      ).to.be.revertedWith("Only callable from batchAssessRiskEncrypted");
+    });
+  });
+
+  describe("auditors", function () {
+    it("should let an auditor obtain decryption rights on an assessment", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-audited");
+      await (await riskControlFHE.grantRole(await riskControlFHE.AUDITOR_ROLE(), signers.bob.address)).wait();
+
+      await expect(riskControlFHE.connect(signers.bob).grantAuditAccess("client-audited"))
+        .to.emit(riskControlFHE, "AuditAccessGranted")
+        .withArgs("client-audited", signers.bob.address, (timestamp: bigint) => timestamp > 0n);
+
+      const result = await decryptResult("client-audited", signers.bob);
+      expect(result.riskScore).to.eq(92n);
+      expect(result.approved).to.eq(true);
+    });
+
+    it("should reject audit access for non-auditors and unknown clients", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-audited");
+
+      await expect(riskControlFHE.connect(signers.bob).grantAuditAccess("client-audited")).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+      await expect(riskControlFHE.grantAuditAccess("unknown-client")).to.be.revertedWith(
+        "No assessment found for this client ID",
+      );
+    });
+
+    it("should report missing audit access and grant it for several clients at once", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-1");
+      await assessEncrypted(signers.alice, 25, 30000, "client-2");
+      await (await riskControlFHE.grantRole(await riskControlFHE.AUDITOR_ROLE(), signers.bob.address)).wait();
+      const clientIds = ["client-1", "client-2", "unknown-client"];
+
+      expect(await riskControlFHE.getAuditAccess(clientIds, signers.bob.address)).to.deep.eq([false, false, false]);
+      expect(await riskControlFHE.getAuditAccess(clientIds, signers.alice.address)).to.deep.eq([true, true, false]);
+
+      await expect(riskControlFHE.connect(signers.bob).batchGrantAuditAccess(["client-1", "client-2"]))
+        .to.emit(riskControlFHE, "AuditAccessGranted")
+        .withArgs("client-1", signers.bob.address, (timestamp: bigint) => timestamp > 0n)
+        .and.to.emit(riskControlFHE, "AuditAccessGranted")
+        .withArgs("client-2", signers.bob.address, (timestamp: bigint) => timestamp > 0n);
+      expect(await riskControlFHE.getAuditAccess(clientIds, signers.bob.address)).to.deep.eq([true, true, false]);
+      expect((await decryptResult("client-2", signers.bob)).riskScore).to.eq(46n);
+
+      // A new assessment has new handles, which the auditor cannot decrypt yet
+      await assessEncrypted(signers.alice, 45, 80000, "client-2");
+      expect(await riskControlFHE.getAuditAccess(clientIds, signers.bob.address)).to.deep.eq([true, false, false]);
+
+      await expect(riskControlFHE.connect(signers.alice).batchGrantAuditAccess(["client-1"])).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+  });
+
+  describe("assessment expiry", function () {
+    it("should expire encrypted assessments on their plaintext timestamp", async function () {
+      const day = 24 * 60 * 60;
+      await (await riskControlFHE.setValidityPeriod(10 * day, 2 * day)).wait();
+      await assessEncrypted(signers.alice, 35, 60000, "client-1");
+      await assessEncrypted(signers.alice, 35, 60000, "client-2");
+
+      await time.increase(9 * day);
+      // AssessmentStatus.DueSoon
+      expect((await riskControlFHE.getAssessmentStatus("client-1"))[0]).to.eq(2n);
+
+      await time.increase(day);
+      await assessEncrypted(signers.alice, 35, 60000, "client-2");
+      expect(await riskControlFHE.getExpiredClients(0, 10)).to.deep.eq([["client-1"], 2n]);
+    });
+  });
+
+  describe("pausing", function () {
+    it("should block encrypted assessments while paused and keep results readable", async function () {
+      await assessEncrypted(signers.alice, 35, 60000, "client-1");
+      await (await riskControlFHE.pause()).wait();
+
+      const { handles, inputProof } = await encryptProfiles(signers.alice, [[35, 60000, 0, 0, 0, 0]]);
+      await expect(
+        riskControlFHE.connect(signers.alice).assessRiskEncrypted(handles[0], inputProof, "client-2"),
+      ).to.be.revertedWith("Contract is paused");
+      await expect(
+        riskControlFHE.connect(signers.alice).batchAssessRiskEncrypted(handles, inputProof, ["client-2"]),
+      ).to.be.revertedWith("Contract is paused");
+      expect((await decryptResult("client-1", signers.alice)).riskScore).to.eq(92n);
+
+      await (await riskControlFHE.unpause()).wait();
+      await (
+        await riskControlFHE.connect(signers.alice).assessRiskEncrypted(handles[0], inputProof, "client-2")
+      ).wait();
+      expect(await riskControlFHE.getAssessmentCount()).to.eq(2n);
+    });
+  });
+
+  describe("owner-only functions", function () {
+    it("should let the owner update the encrypted tiers", async function () {
+      await expect(
+        updateTiers(signers.deployer, [
+          [85, 1, 5000, 1800, 2400],
+          [88, 2, 15000, 1200, 1800],
+          [91, 3, 40000, 800, 1200],
+          [95, 5, 100000, 500, 800],
+        ]),
+      ).to.emit(riskControlFHE, "ParametersUpdated");
+
+      // 92 points now falls short of tier A: (60000 / 12) * 3 in tier B
+      await assessEncrypted(signers.alice, 35, 60000, "client-new-params");
+      const result = await decryptResult("client-new-params", signers.alice);
+      expect(result.tier).to.eq(Tier.B);
+      expect(result.creditLimit).to.eq(15000n);
+
+      await assessEncrypted(signers.alice, 30, 60000, "client-below-new-threshold");
+      expect((await decryptResult("client-below-new-threshold", signers.alice)).approved).to.eq(false);
+    });
+
+    it("should let a parameter admin update and decrypt the encrypted tiers", async function () {
+      await (await riskControlFHE.grantRole(await riskControlFHE.PARAMETER_ADMIN_ROLE(), signers.bob.address)).wait();
+
+      await (await updateTiers(signers.bob, [[40, 1, 5000, 1800, 2400], ...DEFAULT_TIERS.slice(1)])).wait();
+
+      expect(await decryptTierMinScore(Tier.D, signers.bob)).to.eq(40n);
+      expect(await decryptTierMinScore(Tier.D, signers.deployer)).to.eq(40n);
+    });
+
+    it("should reject inverted interest rate bands and non-admins", async function () {
+      await expect(
+        updateTiers(signers.deployer, [[50, 1, 5000, 2500, 2400], ...DEFAULT_TIERS.slice(1)]),
+      ).to.be.revertedWith("Interest rate band is inverted");
+      await expect(updateTiers(signers.alice, DEFAULT_TIERS)).to.be.revertedWith(
+        "Caller does not have the required role",
+      );
+    });
+
+    it("should grant the new owner access to parameters and future results", async function () {
+      await (await riskControlFHE.transferOwnership(signers.bob.address)).wait();
+      expect(await riskControlFHE.getOwner()).to.eq(signers.bob.address);
+
+      expect(await decryptTierMinScore(Tier.D, signers.bob)).to.eq(50n);
+
+      await assessEncrypted(signers.alice, 35, 60000, "client-after-transfer");
+      expect((await decryptResult("client-after-transfer", signers.bob)).riskScore).to.eq(92n);
+    });
+  });
+});
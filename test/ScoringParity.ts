@@ -0,0 +1,217 @@
+import {
+  RiskControl,
+  RiskControlFHE,
+  RiskControlFHE__factory,
+  RiskControlProxy__factory,
+  RiskControl__factory,
+} from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+// Differential harness: runs identical client profiles through RiskControl and RiskControlFHE and
+// fails on any divergence from the shared RiskScoringSpec.
+
+// Annual income in USDT units (6 decimals)
+const usdt = (amount: string | number) => ethers.parseUnits(amount.toString(), 6);
+
+// Factor indexes, in the order of the ClientProfile fields
+const Factor = {
+  Age: 0,
+  AnnualIncome: 1,
+  DebtToIncome: 2,
+  EmploymentYears: 3,
+  ExistingObligations: 4,
+  DelinquencyCount: 5,
+};
+
+// Input vector: profile values in ClientProfile order (income in whole USDT) and the score it is built to hit
+type Vector = {
+  name: string;
+  values: [number, number, number, number, number, number];
+  score: number;
+};
+
+// Default model: 8 points per age breakpoint, 10 per income breakpoint, the other factors are ignored
+const DEFAULT_MODEL_VECTORS: Vector[] = [
+  { name: "youngest valid profile", values: [18, 0, 0, 0, 0, 0], score: 0 },
+  { name: "just below tier D", values: [20, 40000, 90, 0, 9, 9], score: 48 },
+  { name: "exactly at tier D", values: [40, 10000, 0, 0, 0, 0], score: 50 },
+  { name: "top of tier D", values: [22, 50000, 0, 0, 0, 0], score: 58 },
+  { name: "exactly at tier C", values: [19, 60000, 0, 0, 0, 0], score: 60 },
+  { name: "top of tier C", values: [30, 55000, 0, 0, 0, 0], score: 74 },
+  { name: "just above tier B", values: [25, 60000, 0, 0, 0, 0], score: 76 },
+  { name: "exactly at tier A", values: [40, 50000, 0, 0, 0, 0], score: 90 },
+  { name: "monthly income with a fraction", values: [40, 50001, 0, 0, 0, 0], score: 90 },
+  { name: "tier C credit cap", values: [20, 120000, 0, 0, 0, 0], score: 68 },
+  { name: "tier A credit cap", values: [35, 600000, 0, 0, 0, 0], score: 92 },
+];
+
+// Configured model: adds employment (5 points per breakpoint), debt-to-income (10 points per breakpoint
+// not reached) and delinquencies at half weight (5 points per breakpoint not reached)
+const CONFIGURED_FACTORS = [
+  { factor: Factor.DebtToIncome, weight: 100, cap: 30, inverse: true, breakpoints: [20, 35, 50] },
+  { factor: Factor.EmploymentYears, weight: 100, cap: 20, inverse: false, breakpoints: [1, 3, 5, 10] },
+  { factor: Factor.DelinquencyCount, weight: 50, cap: 30, inverse: true, breakpoints: [1, 2, 3] },
+];
+
+const CONFIGURED_MODEL_VECTORS: Vector[] = [
+  { name: "just below tier D", values: [30, 20000, 50, 1, 0, 3], score: 49 },
+  { name: "exactly at tier D", values: [40, 5000, 60, 3, 0, 5], score: 50 },
+  { name: "just below tier C", values: [30, 30000, 50, 1, 0, 3], score: 59 },
+  { name: "exactly at tier C", values: [18, 60000, 60, 0, 0, 3], score: 60 },
+  { name: "just below tier B", values: [30, 40000, 50, 3, 0, 3], score: 74 },
+  { name: "exactly at tier B", values: [40, 20000, 40, 1, 0, 3], score: 75 },
+  { name: "just below tier A", values: [30, 50000, 40, 1, 7, 3], score: 89 },
+  { name: "exactly at tier A", values: [40, 40000, 50, 3, 0, 3], score: 90 },
+  { name: "lowest risk on every factor", values: [40, 60000, 0, 10, 0, 0], score: 165 },
+];
+
+// RiskControl's factory, linked to a freshly deployed RiskControlLogic library
+async function riskControlFactory() {
+  const library = await (await ethers.getContractFactory("RiskControlLogic")).deploy();
+  return (await ethers.getContractFactory("RiskControl", {
+    libraries: { RiskControlLogic: await library.getAddress() },
+  })) as RiskControl__factory;
+}
+
+async function deployFixture() {
+  const plainFactory = await riskControlFactory();
+  const implementation = await plainFactory.deploy();
+  const proxyFactory = (await ethers.getContractFactory("RiskControlProxy")) as RiskControlProxy__factory;
+  const proxy = await proxyFactory.deploy(
+    await implementation.getAddress(),
+    plainFactory.interface.encodeFunctionData("initialize"),
+  );
+  const riskControl = plainFactory.attach(await proxy.getAddress()) as RiskControl;
+
+  const fheFactory = (await ethers.getContractFactory("RiskControlFHE")) as RiskControlFHE__factory;
+  const riskControlFHE = (await fheFactory.deploy()) as RiskControlFHE;
+  const riskControlFHEAddress = await riskControlFHE.getAddress();
+
+  return { riskControl, riskControlFHE, riskControlFHEAddress };
+}
+
+describe("Scoring parity between RiskControl and RiskControlFHE", function () {
+  let deployer: HardhatEthersSigner;
+  let riskControl: RiskControl;
+  let riskControlFHE: RiskControlFHE;
+  let riskControlFHEAddress: string;
+
+  before(async function () {
+    [deployer] = await ethers.getSigners();
+  });
+
+  // Assess `vector` on both contracts and return the plaintext and decrypted FHE results
+  async function assessBoth(vector: Vector, clientId: string) {
+    const [age, annualIncome, debtToIncome, employmentYears, existingObligations, delinquencyCount] = vector.values;
+
+    await (
+      await riskControl.assessRisk(
+        {
+          age,
+          annualIncome: usdt(annualIncome),
+          debtToIncome,
+          employmentYears,
+          existingObligations,
+          delinquencyCount,
+        },
+        clientId,
+      )
+    ).wait();
+    const plain = await riskControl.getLatestAssessment(clientId);
+
+    const input = fhevm.createEncryptedInput(riskControlFHEAddress, deployer.address);
+    vector.values.forEach((value) => input.add32(value));
+    const encrypted = await input.encrypt();
+    const [ageHandle, incomeHandle, dtiHandle, employmentHandle, obligationsHandle, delinquencyHandle] =
+      encrypted.handles;
+    await (
+      await riskControlFHE.assessRiskEncrypted(
+        {
+          age: ageHandle,
+          annualIncome: incomeHandle,
+          debtToIncome: dtiHandle,
+          employmentYears: employmentHandle,
+          existingObligations: obligationsHandle,
+          delinquencyCount: delinquencyHandle,
+        },
+        encrypted.inputProof,
+        clientId,
+      )
+    ).wait();
+    const result = await riskControlFHE.encryptedAssessments(clientId);
+    const fhe = {
+      creditLimit: await fhevm.userDecryptEuint(FhevmType.euint32, result.creditLimit, riskControlFHEAddress, deployer),
+      riskScore: await fhevm.userDecryptEuint(FhevmType.euint32, result.riskScore, riskControlFHEAddress, deployer),
+      approved: await fhevm.userDecryptEbool(result.approved, riskControlFHEAddress, deployer),
+      tier: await fhevm.userDecryptEuint(FhevmType.euint8, result.tier, riskControlFHEAddress, deployer),
+    };
+
+    return { plain, fhe };
+  }
+
+  function runVectors(vectors: Vector[]) {
+    vectors.forEach((vector, i) => {
+      it(`should agree on ${vector.name} (score ${vector.score})`, async function () {
+        const { plain, fhe } = await assessBoth(vector, `parity-${i}`);
+
+        // guard the vector itself, so a changed default cannot silently move it off its boundary
+        expect(plain.riskScore).to.eq(BigInt(vector.score));
+
+        expect(fhe.riskScore).to.eq(plain.riskScore, "risk score diverged");
+        expect(fhe.approved).to.eq(plain.approved, "approval diverged");
+        expect(fhe.tier).to.eq(plain.tier, "tier diverged");
+        // RiskControlFHE reports whole USDT, RiskControl 6-decimal units
+        expect(usdt(fhe.creditLimit.toString())).to.eq(plain.creditLimit, "credit limit diverged");
+      });
+    });
+  }
+
+  describe("default scoring model", function () {
+    before(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+
+      ({ riskControl, riskControlFHE, riskControlFHEAddress } = await deployFixture());
+    });
+
+    runVectors(DEFAULT_MODEL_VECTORS);
+  });
+
+  describe("configured scoring model", function () {
+    before(async function () {
+      if (!fhevm.isMock) {
+        console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+        this.skip();
+      }
+
+      ({ riskControl, riskControlFHE, riskControlFHEAddress } = await deployFixture());
+
+      // apply the same factor configuration to both contracts
+      for (const { factor, weight, cap, inverse, breakpoints } of CONFIGURED_FACTORS) {
+        await (await riskControl.updateScoringFactor(factor, weight, cap, inverse, breakpoints)).wait();
+
+        const input = fhevm.createEncryptedInput(riskControlFHEAddress, deployer.address);
+        input.add32(weight).add32(cap);
+        breakpoints.forEach((breakpoint) => input.add32(breakpoint));
+        const encrypted = await input.encrypt();
+        await (
+          await riskControlFHE.updateScoringFactorEncrypted(
+            factor,
+            encrypted.handles[0],
+            encrypted.handles[1],
+            inverse,
+            encrypted.handles.slice(2),
+            encrypted.inputProof,
+          )
+        ).wait();
+      }
+    });
+
+    runVectors(CONFIGURED_MODEL_VECTORS);
+  });
+});
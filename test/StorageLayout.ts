@@ -0,0 +1,105 @@
+import { compareStorageLayouts, loadRecordedLayout, readStorageLayout, StorageLayout } from "../tasks/storageLayout";
+import { expect } from "chai";
+import hre from "hardhat";
+
+// Layout checks run by deploy/deploy.ts before RiskControl's proxy is pointed at a new implementation
+
+const clone = (layout: StorageLayout): StorageLayout => JSON.parse(JSON.stringify(layout));
+
+// Insert a uint256 in front of a variable, moving it and everything after it one slot down
+const insertBefore = (layout: StorageLayout, label: string, inserted: string) => {
+  const start = layout.storage.findIndex((v) => v.label === label);
+  const slot = layout.storage[start].slot;
+  layout.storage.slice(start).forEach((v) => (v.slot = (BigInt(v.slot) + 1n).toString()));
+  layout.storage.splice(start, 0, { label: inserted, slot, offset: 0, type: "t_uint256" });
+};
+
+describe("RiskControl storage layout", function () {
+  let layout: StorageLayout;
+
+  before(async function () {
+    layout = await readStorageLayout(hre, "RiskControl");
+  });
+
+  it("should be compatible with the recorded layout of the deployed version", async function () {
+    const recorded = loadRecordedLayout("RiskControl");
+    expect(recorded, "deploy/storage-layout/RiskControl.json is missing").to.not.eq(undefined);
+    expect(compareStorageLayouts(recorded!, layout)).to.deep.eq([]);
+  });
+
+  it("should accept variables appended after the existing ones", async function () {
+    const next = clone(layout);
+    const last = next.storage[next.storage.length - 1];
+    next.storage.push({
+      label: "batchCounter",
+      slot: (BigInt(last.slot) + 1n).toString(),
+      offset: 0,
+      type: "t_uint256",
+    });
+
+    expect(compareStorageLayouts(layout, next)).to.deep.eq([]);
+  });
+
+  it("should accept a variable taking the place of a reserved gap slot", async function () {
+    const next = clone(layout);
+    const gap = next.storage.findIndex((v) => v.label === "__gap" && v.slot === "52");
+    next.storage.splice(
+      gap,
+      1,
+      { label: "graceWindow", slot: "52", offset: 0, type: "t_uint256" },
+      {
+        label: "__gap",
+        slot: "53",
+        offset: 0,
+        type: "t_array(t_uint256)47_storage",
+      },
+    );
+    next.types["t_array(t_uint256)47_storage"] = {
+      ...next.types["t_array(t_uint256)48_storage"],
+      label: "uint256[47]",
+    };
+
+    expect(compareStorageLayouts(layout, next)).to.deep.eq([]);
+  });
+
+  it("should reject a variable inserted before existing ones", async function () {
+    const next = clone(layout);
+    insertBefore(next, "assessmentHistory", "batchCounter");
+
+    const problems = compareStorageLayouts(layout, next);
+    expect(problems[0]).to.eq("assessmentHistory (slot 194) was replaced by batchCounter");
+    expect(problems).to.have.length(10);
+  });
+
+  it("should reject a variable added to a base contract without shrinking its gap", async function () {
+    const next = clone(layout);
+    insertBefore(next, "__gap", "lastOwnerChange");
+
+    expect(compareStorageLayouts(layout, next)).to.include("validityPeriod (slot 50) was removed or moved");
+  });
+
+  it("should reject changed variable types", async function () {
+    const next = clone(layout);
+    next.storage.find((v) => v.label === "paused")!.type = "t_uint256";
+
+    expect(compareStorageLayouts(layout, next)).to.deep.eq(["paused: type changed from bool to uint256"]);
+  });
+
+  it("should reject struct members added to records stored in arrays", async function () {
+    const next = clone(layout);
+    const result = next.types["t_struct(AssessmentResult)_storage"];
+    result.members!.push({ label: "reviewer", slot: "5", offset: 0, type: "t_address" });
+
+    expect(compareStorageLayouts(layout, next)).to.deep.eq([
+      "assessmentHistory value element: struct RiskControl.AssessmentResult gained members where it is not the value of a mapping",
+    ]);
+  });
+
+  it("should accept struct members appended to mapping values", async function () {
+    const next = clone(layout);
+    const record = next.types["t_struct(DecisionOverride)_storage"];
+    record.members!.push({ label: "note", slot: "6", offset: 0, type: "t_uint256" });
+
+    expect(compareStorageLayouts(layout, next)).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as zamaConfigSol from "./ZamaConfig.sol";
+export type { zamaConfigSol };
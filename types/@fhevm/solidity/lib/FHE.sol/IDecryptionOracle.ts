@@ -0,0 +1,107 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../../../common";
+
+export interface IDecryptionOracleInterface extends Interface {
+  getFunction(nameOrSignature: "requestDecryption"): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "requestDecryption",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "requestDecryption",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IDecryptionOracle extends BaseContract {
+  connect(runner?: ContractRunner | null): IDecryptionOracle;
+  waitForDeployment(): Promise<this>;
+
+  interface: IDecryptionOracleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  requestDecryption: TypedContractMethod<
+    [
+      requestID: BigNumberish,
+      ctsHandles: BytesLike[],
+      callbackSelector: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "requestDecryption"
+  ): TypedContractMethod<
+    [
+      requestID: BigNumberish,
+      ctsHandles: BytesLike[],
+      callbackSelector: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  filters: {};
+}
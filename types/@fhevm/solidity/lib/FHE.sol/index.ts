@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { FHE } from "./FHE";
+export type { IDecryptionOracle } from "./IDecryptionOracle";
+export type { IKMSVerifier } from "./IKMSVerifier";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as draftIerc1822Sol from "./draft-IERC1822.sol";
+export type { draftIerc1822Sol };
+export type { IERC1967 } from "./IERC1967";
@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as math from "./math";
+export type { math };
+export type { Address } from "./Address";
+export type { Errors } from "./Errors";
+export type { Strings } from "./Strings";
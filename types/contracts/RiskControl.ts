@@ -0,0 +1,1850 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace RiskControl {
+  export type ClientProfileStruct = {
+    age: BigNumberish;
+    annualIncome: BigNumberish;
+    debtToIncome: BigNumberish;
+    employmentYears: BigNumberish;
+    existingObligations: BigNumberish;
+    delinquencyCount: BigNumberish;
+  };
+
+  export type ClientProfileStructOutput = [
+    age: bigint,
+    annualIncome: bigint,
+    debtToIncome: bigint,
+    employmentYears: bigint,
+    existingObligations: bigint,
+    delinquencyCount: bigint
+  ] & {
+    age: bigint;
+    annualIncome: bigint;
+    debtToIncome: bigint;
+    employmentYears: bigint;
+    existingObligations: bigint;
+    delinquencyCount: bigint;
+  };
+
+  export type AssessmentResultStruct = {
+    creditLimit: BigNumberish;
+    riskScore: BigNumberish;
+    approved: boolean;
+    tier: BigNumberish;
+    overridden: boolean;
+    clientId: string;
+    timestamp: BigNumberish;
+  };
+
+  export type AssessmentResultStructOutput = [
+    creditLimit: bigint,
+    riskScore: bigint,
+    approved: boolean,
+    tier: bigint,
+    overridden: boolean,
+    clientId: string,
+    timestamp: bigint
+  ] & {
+    creditLimit: bigint;
+    riskScore: bigint;
+    approved: boolean;
+    tier: bigint;
+    overridden: boolean;
+    clientId: string;
+    timestamp: bigint;
+  };
+
+  export type BatchOutcomeStruct = {
+    submittedBy: AddressLike;
+    timestamp: BigNumberish;
+    successCount: BigNumberish;
+    failedIndexes: BigNumberish[];
+    failureReasons: string[];
+  };
+
+  export type BatchOutcomeStructOutput = [
+    submittedBy: string,
+    timestamp: bigint,
+    successCount: bigint,
+    failedIndexes: bigint[],
+    failureReasons: string[]
+  ] & {
+    submittedBy: string;
+    timestamp: bigint;
+    successCount: bigint;
+    failedIndexes: bigint[];
+    failureReasons: string[];
+  };
+
+  export type DecisionOverrideStruct = {
+    originalApproved: boolean;
+    originalCreditLimit: BigNumberish;
+    approved: boolean;
+    creditLimit: BigNumberish;
+    reason: BigNumberish;
+    overriddenBy: AddressLike;
+    timestamp: BigNumberish;
+    originalTier: BigNumberish;
+    tier: BigNumberish;
+  };
+
+  export type DecisionOverrideStructOutput = [
+    originalApproved: boolean,
+    originalCreditLimit: bigint,
+    approved: boolean,
+    creditLimit: bigint,
+    reason: bigint,
+    overriddenBy: string,
+    timestamp: bigint,
+    originalTier: bigint,
+    tier: bigint
+  ] & {
+    originalApproved: boolean;
+    originalCreditLimit: bigint;
+    approved: boolean;
+    creditLimit: bigint;
+    reason: bigint;
+    overriddenBy: string;
+    timestamp: bigint;
+    originalTier: bigint;
+    tier: bigint;
+  };
+
+  export type InputRangeStruct = { min: BigNumberish; max: BigNumberish };
+
+  export type InputRangeStructOutput = [min: bigint, max: bigint] & {
+    min: bigint;
+    max: bigint;
+  };
+
+  export type TierConfigStruct = {
+    minScore: BigNumberish;
+    incomeMultiplier: BigNumberish;
+    maxCreditLimit: BigNumberish;
+    minInterestRate: BigNumberish;
+    maxInterestRate: BigNumberish;
+  };
+
+  export type TierConfigStructOutput = [
+    minScore: bigint,
+    incomeMultiplier: bigint,
+    maxCreditLimit: bigint,
+    minInterestRate: bigint,
+    maxInterestRate: bigint
+  ] & {
+    minScore: bigint;
+    incomeMultiplier: bigint;
+    maxCreditLimit: bigint;
+    minInterestRate: bigint;
+    maxInterestRate: bigint;
+  };
+
+  export type ScoringFactorStruct = {
+    weight: BigNumberish;
+    cap: BigNumberish;
+    inverse: boolean;
+    breakpoints: BigNumberish[];
+  };
+
+  export type ScoringFactorStructOutput = [
+    weight: bigint,
+    cap: bigint,
+    inverse: boolean,
+    breakpoints: bigint[]
+  ] & { weight: bigint; cap: bigint; inverse: boolean; breakpoints: bigint[] };
+
+  export type RiskParametersStruct = {
+    tiers: [
+      RiskControl.TierConfigStruct,
+      RiskControl.TierConfigStruct,
+      RiskControl.TierConfigStruct,
+      RiskControl.TierConfigStruct
+    ];
+    factors: RiskControl.ScoringFactorStruct[];
+  };
+
+  export type RiskParametersStructOutput = [
+    tiers: [
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput
+    ],
+    factors: RiskControl.ScoringFactorStructOutput[]
+  ] & {
+    tiers: [
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput,
+      RiskControl.TierConfigStructOutput
+    ];
+    factors: RiskControl.ScoringFactorStructOutput[];
+  };
+}
+
+export interface RiskControlInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AUDITOR_ROLE"
+      | "FACTOR_COUNT"
+      | "PARAMETER_ADMIN_ROLE"
+      | "PAUSER_ROLE"
+      | "RISK_OFFICER_ROLE"
+      | "SENIOR_OFFICER_ROLE"
+      | "TIER_COUNT"
+      | "UPGRADE_INTERFACE_VERSION"
+      | "assessBatchItem"
+      | "assessRisk"
+      | "batchAssessRisk"
+      | "batchCount"
+      | "flagForAppeal"
+      | "getAllClientIds"
+      | "getAppealStatus"
+      | "getAssessmentAt"
+      | "getAssessmentCount"
+      | "getAssessmentHistory"
+      | "getAssessmentHistoryLength"
+      | "getAssessmentResult"
+      | "getAssessmentStatus"
+      | "getAssessmentsPage"
+      | "getBatchAssessmentResults"
+      | "getBatchOutcome"
+      | "getClientIds"
+      | "getDecisionOverride"
+      | "getExpiredClients"
+      | "getInputRanges"
+      | "getLatestAssessment"
+      | "getOwner"
+      | "getPendingAppeals"
+      | "getRiskParameters"
+      | "getRiskTier"
+      | "getScoringFactor"
+      | "grantRole"
+      | "hasRole"
+      | "initialize"
+      | "initializeInputRanges"
+      | "overrideDecision"
+      | "pause"
+      | "paused"
+      | "proxiableUUID"
+      | "renewalWindow"
+      | "resolveAppeal"
+      | "revokeRole"
+      | "setValidityPeriod"
+      | "transferOwnership"
+      | "unpause"
+      | "updateInputRange"
+      | "updateRiskTiers"
+      | "updateScoringFactor"
+      | "upgradeToAndCall"
+      | "validityPeriod"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AppealFlagged"
+      | "AppealResolved"
+      | "AssessmentPerformed"
+      | "BatchAssessmentPerformed"
+      | "BatchItemAssessed"
+      | "BatchItemFailed"
+      | "DecisionOverridden"
+      | "Initialized"
+      | "ParametersUpdated"
+      | "Paused"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "Unpaused"
+      | "Upgraded"
+      | "ValidityPeriodUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FACTOR_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PARAMETER_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RISK_OFFICER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SENIOR_OFFICER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TIER_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessBatchItem",
+    values: [RiskControl.ClientProfileStruct, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessRisk",
+    values: [RiskControl.ClientProfileStruct, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchAssessRisk",
+    values: [RiskControl.ClientProfileStruct[], string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "flagForAppeal",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllClientIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAppealStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentAt",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentHistory",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentHistoryLength",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentResult",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchAssessmentResults",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchOutcome",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClientIds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getDecisionOverride",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getExpiredClients",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInputRanges",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLatestAssessment",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "getOwner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getPendingAppeals",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRiskParameters",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRiskTier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScoringFactor",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initialize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "initializeInputRanges",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "overrideDecision",
+    values: [string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "proxiableUUID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewalWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveAppeal",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setValidityPeriod",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateInputRange",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRiskTiers",
+    values: [
+      [
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct
+      ]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateScoringFactor",
+    values: [BigNumberish, BigNumberish, BigNumberish, boolean, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToAndCall",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validityPeriod",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FACTOR_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PARAMETER_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RISK_OFFICER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SENIOR_OFFICER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "TIER_COUNT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "UPGRADE_INTERFACE_VERSION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assessBatchItem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "assessRisk", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchAssessRisk",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "flagForAppeal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllClientIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAppealStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentHistoryLength",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchAssessmentResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClientIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getDecisionOverride",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getExpiredClients",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInputRanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLatestAssessment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOwner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingAppeals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRiskParameters",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRiskTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScoringFactor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initializeInputRanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "overrideDecision",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proxiableUUID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renewalWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveAppeal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setValidityPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateInputRange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRiskTiers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateScoringFactor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToAndCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validityPeriod",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AppealFlaggedEvent {
+  export type InputTuple = [
+    clientId: string,
+    flaggedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    flaggedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    flaggedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AppealResolvedEvent {
+  export type InputTuple = [
+    clientId: string,
+    resolvedBy: AddressLike,
+    overridden: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    resolvedBy: string,
+    overridden: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    resolvedBy: string;
+    overridden: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AssessmentPerformedEvent {
+  export type InputTuple = [
+    clientId: string,
+    creditLimit: BigNumberish,
+    riskScore: BigNumberish,
+    approved: boolean,
+    tier: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    creditLimit: bigint,
+    riskScore: bigint,
+    approved: boolean,
+    tier: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    creditLimit: bigint;
+    riskScore: bigint;
+    approved: boolean;
+    tier: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchAssessmentPerformedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    count: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, count: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    count: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemAssessedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string
+  ];
+  export type OutputTuple = [batchId: bigint, index: bigint, clientId: string];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemFailedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string,
+    reason: string
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    index: bigint,
+    clientId: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecisionOverriddenEvent {
+  export type InputTuple = [
+    clientId: string,
+    index: BigNumberish,
+    approved: boolean,
+    tier: BigNumberish,
+    creditLimit: BigNumberish,
+    originalApproved: boolean,
+    originalTier: BigNumberish,
+    originalCreditLimit: BigNumberish,
+    reason: BigNumberish,
+    overriddenBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    index: bigint,
+    approved: boolean,
+    tier: bigint,
+    creditLimit: bigint,
+    originalApproved: boolean,
+    originalTier: bigint,
+    originalCreditLimit: bigint,
+    reason: bigint,
+    overriddenBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    index: bigint;
+    approved: boolean;
+    tier: bigint;
+    creditLimit: bigint;
+    originalApproved: boolean;
+    originalTier: bigint;
+    originalCreditLimit: bigint;
+    reason: bigint;
+    overriddenBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InitializedEvent {
+  export type InputTuple = [version: BigNumberish];
+  export type OutputTuple = [version: bigint];
+  export interface OutputObject {
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParametersUpdatedEvent {
+  export type InputTuple = [timestamp: BigNumberish];
+  export type OutputTuple = [timestamp: bigint];
+  export interface OutputObject {
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpgradedEvent {
+  export type InputTuple = [implementation: AddressLike];
+  export type OutputTuple = [implementation: string];
+  export interface OutputObject {
+    implementation: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidityPeriodUpdatedEvent {
+  export type InputTuple = [
+    validityPeriod: BigNumberish,
+    renewalWindow: BigNumberish
+  ];
+  export type OutputTuple = [validityPeriod: bigint, renewalWindow: bigint];
+  export interface OutputObject {
+    validityPeriod: bigint;
+    renewalWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RiskControl extends BaseContract {
+  connect(runner?: ContractRunner | null): RiskControl;
+  waitForDeployment(): Promise<this>;
+
+  interface: RiskControlInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  FACTOR_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  PARAMETER_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  RISK_OFFICER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SENIOR_OFFICER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  TIER_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  UPGRADE_INTERFACE_VERSION: TypedContractMethod<[], [string], "view">;
+
+  assessBatchItem: TypedContractMethod<
+    [_profile: RiskControl.ClientProfileStruct, _clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        tier: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  assessRisk: TypedContractMethod<
+    [_profile: RiskControl.ClientProfileStruct, _clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        tier: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  batchAssessRisk: TypedContractMethod<
+    [_profiles: RiskControl.ClientProfileStruct[], _clientIds: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+
+  batchCount: TypedContractMethod<[], [bigint], "view">;
+
+  flagForAppeal: TypedContractMethod<[_clientId: string], [void], "nonpayable">;
+
+  getAllClientIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAppealStatus: TypedContractMethod<[_clientId: string], [bigint], "view">;
+
+  getAssessmentAt: TypedContractMethod<
+    [_clientId: string, _index: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput],
+    "view"
+  >;
+
+  getAssessmentCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAssessmentHistory: TypedContractMethod<
+    [_clientId: string, _offset: BigNumberish, _limit: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+
+  getAssessmentHistoryLength: TypedContractMethod<
+    [_clientId: string],
+    [bigint],
+    "view"
+  >;
+
+  getAssessmentResult: TypedContractMethod<
+    [_clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAssessmentStatus: TypedContractMethod<
+    [_clientId: string],
+    [[bigint, bigint] & { status: bigint; expiresAt: bigint }],
+    "view"
+  >;
+
+  getAssessmentsPage: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+
+  getBatchAssessmentResults: TypedContractMethod<
+    [_clientIds: string[]],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+
+  getBatchOutcome: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [RiskControl.BatchOutcomeStructOutput],
+    "view"
+  >;
+
+  getClientIds: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getDecisionOverride: TypedContractMethod<
+    [_clientId: string, _index: BigNumberish],
+    [RiskControl.DecisionOverrideStructOutput],
+    "view"
+  >;
+
+  getExpiredClients: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [[string[], bigint] & { clientIds: string[]; nextOffset: bigint }],
+    "view"
+  >;
+
+  getInputRanges: TypedContractMethod<
+    [],
+    [RiskControl.InputRangeStructOutput[]],
+    "view"
+  >;
+
+  getLatestAssessment: TypedContractMethod<
+    [_clientId: string],
+    [RiskControl.AssessmentResultStructOutput],
+    "view"
+  >;
+
+  getOwner: TypedContractMethod<[], [string], "view">;
+
+  getPendingAppeals: TypedContractMethod<[], [string[]], "view">;
+
+  getRiskParameters: TypedContractMethod<
+    [],
+    [RiskControl.RiskParametersStructOutput],
+    "view"
+  >;
+
+  getRiskTier: TypedContractMethod<
+    [_tier: BigNumberish],
+    [RiskControl.TierConfigStructOutput],
+    "view"
+  >;
+
+  getScoringFactor: TypedContractMethod<
+    [_factor: BigNumberish],
+    [RiskControl.ScoringFactorStructOutput],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  initialize: TypedContractMethod<[], [void], "nonpayable">;
+
+  initializeInputRanges: TypedContractMethod<[], [void], "nonpayable">;
+
+  overrideDecision: TypedContractMethod<
+    [
+      _clientId: string,
+      _tier: BigNumberish,
+      _creditLimit: BigNumberish,
+      _reason: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  proxiableUUID: TypedContractMethod<[], [string], "view">;
+
+  renewalWindow: TypedContractMethod<[], [bigint], "view">;
+
+  resolveAppeal: TypedContractMethod<[_clientId: string], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setValidityPeriod: TypedContractMethod<
+    [_validityPeriod: BigNumberish, _renewalWindow: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [_newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateInputRange: TypedContractMethod<
+    [_factor: BigNumberish, _min: BigNumberish, _max: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRiskTiers: TypedContractMethod<
+    [
+      _tiers: [
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct
+      ]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateScoringFactor: TypedContractMethod<
+    [
+      _factor: BigNumberish,
+      _weight: BigNumberish,
+      _cap: BigNumberish,
+      _inverse: boolean,
+      _breakpoints: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  upgradeToAndCall: TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  validityPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "FACTOR_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PARAMETER_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "RISK_OFFICER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SENIOR_OFFICER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TIER_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "UPGRADE_INTERFACE_VERSION"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "assessBatchItem"
+  ): TypedContractMethod<
+    [_profile: RiskControl.ClientProfileStruct, _clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        tier: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "assessRisk"
+  ): TypedContractMethod<
+    [_profile: RiskControl.ClientProfileStruct, _clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        tier: bigint;
+      }
+    ],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchAssessRisk"
+  ): TypedContractMethod<
+    [_profiles: RiskControl.ClientProfileStruct[], _clientIds: string[]],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "flagForAppeal"
+  ): TypedContractMethod<[_clientId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getAllClientIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAppealStatus"
+  ): TypedContractMethod<[_clientId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssessmentAt"
+  ): TypedContractMethod<
+    [_clientId: string, _index: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssessmentCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssessmentHistory"
+  ): TypedContractMethod<
+    [_clientId: string, _offset: BigNumberish, _limit: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssessmentHistoryLength"
+  ): TypedContractMethod<[_clientId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssessmentResult"
+  ): TypedContractMethod<
+    [_clientId: string],
+    [
+      [bigint, bigint, boolean, bigint] & {
+        creditLimit: bigint;
+        riskScore: bigint;
+        approved: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssessmentStatus"
+  ): TypedContractMethod<
+    [_clientId: string],
+    [[bigint, bigint] & { status: bigint; expiresAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAssessmentsPage"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchAssessmentResults"
+  ): TypedContractMethod<
+    [_clientIds: string[]],
+    [RiskControl.AssessmentResultStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchOutcome"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish],
+    [RiskControl.BatchOutcomeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getClientIds"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getDecisionOverride"
+  ): TypedContractMethod<
+    [_clientId: string, _index: BigNumberish],
+    [RiskControl.DecisionOverrideStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getExpiredClients"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [[string[], bigint] & { clientIds: string[]; nextOffset: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInputRanges"
+  ): TypedContractMethod<[], [RiskControl.InputRangeStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getLatestAssessment"
+  ): TypedContractMethod<
+    [_clientId: string],
+    [RiskControl.AssessmentResultStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getPendingAppeals"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRiskParameters"
+  ): TypedContractMethod<[], [RiskControl.RiskParametersStructOutput], "view">;
+  getFunction(
+    nameOrSignature: "getRiskTier"
+  ): TypedContractMethod<
+    [_tier: BigNumberish],
+    [RiskControl.TierConfigStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getScoringFactor"
+  ): TypedContractMethod<
+    [_factor: BigNumberish],
+    [RiskControl.ScoringFactorStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "initialize"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "initializeInputRanges"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "overrideDecision"
+  ): TypedContractMethod<
+    [
+      _clientId: string,
+      _tier: BigNumberish,
+      _creditLimit: BigNumberish,
+      _reason: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "proxiableUUID"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "renewalWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "resolveAppeal"
+  ): TypedContractMethod<[_clientId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setValidityPeriod"
+  ): TypedContractMethod<
+    [_validityPeriod: BigNumberish, _renewalWindow: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[_newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateInputRange"
+  ): TypedContractMethod<
+    [_factor: BigNumberish, _min: BigNumberish, _max: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateRiskTiers"
+  ): TypedContractMethod<
+    [
+      _tiers: [
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct,
+        RiskControl.TierConfigStruct
+      ]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateScoringFactor"
+  ): TypedContractMethod<
+    [
+      _factor: BigNumberish,
+      _weight: BigNumberish,
+      _cap: BigNumberish,
+      _inverse: boolean,
+      _breakpoints: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "upgradeToAndCall"
+  ): TypedContractMethod<
+    [newImplementation: AddressLike, data: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "validityPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "AppealFlagged"
+  ): TypedContractEvent<
+    AppealFlaggedEvent.InputTuple,
+    AppealFlaggedEvent.OutputTuple,
+    AppealFlaggedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AppealResolved"
+  ): TypedContractEvent<
+    AppealResolvedEvent.InputTuple,
+    AppealResolvedEvent.OutputTuple,
+    AppealResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AssessmentPerformed"
+  ): TypedContractEvent<
+    AssessmentPerformedEvent.InputTuple,
+    AssessmentPerformedEvent.OutputTuple,
+    AssessmentPerformedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchAssessmentPerformed"
+  ): TypedContractEvent<
+    BatchAssessmentPerformedEvent.InputTuple,
+    BatchAssessmentPerformedEvent.OutputTuple,
+    BatchAssessmentPerformedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemAssessed"
+  ): TypedContractEvent<
+    BatchItemAssessedEvent.InputTuple,
+    BatchItemAssessedEvent.OutputTuple,
+    BatchItemAssessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemFailed"
+  ): TypedContractEvent<
+    BatchItemFailedEvent.InputTuple,
+    BatchItemFailedEvent.OutputTuple,
+    BatchItemFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecisionOverridden"
+  ): TypedContractEvent<
+    DecisionOverriddenEvent.InputTuple,
+    DecisionOverriddenEvent.OutputTuple,
+    DecisionOverriddenEvent.OutputObject
+  >;
+  getEvent(
+    key: "Initialized"
+  ): TypedContractEvent<
+    InitializedEvent.InputTuple,
+    InitializedEvent.OutputTuple,
+    InitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParametersUpdated"
+  ): TypedContractEvent<
+    ParametersUpdatedEvent.InputTuple,
+    ParametersUpdatedEvent.OutputTuple,
+    ParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Upgraded"
+  ): TypedContractEvent<
+    UpgradedEvent.InputTuple,
+    UpgradedEvent.OutputTuple,
+    UpgradedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidityPeriodUpdated"
+  ): TypedContractEvent<
+    ValidityPeriodUpdatedEvent.InputTuple,
+    ValidityPeriodUpdatedEvent.OutputTuple,
+    ValidityPeriodUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AppealFlagged(string,address,uint256)": TypedContractEvent<
+      AppealFlaggedEvent.InputTuple,
+      AppealFlaggedEvent.OutputTuple,
+      AppealFlaggedEvent.OutputObject
+    >;
+    AppealFlagged: TypedContractEvent<
+      AppealFlaggedEvent.InputTuple,
+      AppealFlaggedEvent.OutputTuple,
+      AppealFlaggedEvent.OutputObject
+    >;
+
+    "AppealResolved(string,address,bool,uint256)": TypedContractEvent<
+      AppealResolvedEvent.InputTuple,
+      AppealResolvedEvent.OutputTuple,
+      AppealResolvedEvent.OutputObject
+    >;
+    AppealResolved: TypedContractEvent<
+      AppealResolvedEvent.InputTuple,
+      AppealResolvedEvent.OutputTuple,
+      AppealResolvedEvent.OutputObject
+    >;
+
+    "AssessmentPerformed(string,uint256,uint256,bool,uint8,uint256)": TypedContractEvent<
+      AssessmentPerformedEvent.InputTuple,
+      AssessmentPerformedEvent.OutputTuple,
+      AssessmentPerformedEvent.OutputObject
+    >;
+    AssessmentPerformed: TypedContractEvent<
+      AssessmentPerformedEvent.InputTuple,
+      AssessmentPerformedEvent.OutputTuple,
+      AssessmentPerformedEvent.OutputObject
+    >;
+
+    "BatchAssessmentPerformed(uint256,uint256,uint256)": TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+    BatchAssessmentPerformed: TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+
+    "BatchItemAssessed(uint256,uint256,string)": TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+    BatchItemAssessed: TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+
+    "BatchItemFailed(uint256,uint256,string,string)": TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+    BatchItemFailed: TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+
+    "DecisionOverridden(string,uint256,bool,uint8,uint256,bool,uint8,uint256,uint8,address,uint256)": TypedContractEvent<
+      DecisionOverriddenEvent.InputTuple,
+      DecisionOverriddenEvent.OutputTuple,
+      DecisionOverriddenEvent.OutputObject
+    >;
+    DecisionOverridden: TypedContractEvent<
+      DecisionOverriddenEvent.InputTuple,
+      DecisionOverriddenEvent.OutputTuple,
+      DecisionOverriddenEvent.OutputObject
+    >;
+
+    "Initialized(uint64)": TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+    Initialized: TypedContractEvent<
+      InitializedEvent.InputTuple,
+      InitializedEvent.OutputTuple,
+      InitializedEvent.OutputObject
+    >;
+
+    "ParametersUpdated(uint256)": TypedContractEvent<
+      ParametersUpdatedEvent.InputTuple,
+      ParametersUpdatedEvent.OutputTuple,
+      ParametersUpdatedEvent.OutputObject
+    >;
+    ParametersUpdated: TypedContractEvent<
+      ParametersUpdatedEvent.InputTuple,
+      ParametersUpdatedEvent.OutputTuple,
+      ParametersUpdatedEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "Upgraded(address)": TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+    Upgraded: TypedContractEvent<
+      UpgradedEvent.InputTuple,
+      UpgradedEvent.OutputTuple,
+      UpgradedEvent.OutputObject
+    >;
+
+    "ValidityPeriodUpdated(uint256,uint256)": TypedContractEvent<
+      ValidityPeriodUpdatedEvent.InputTuple,
+      ValidityPeriodUpdatedEvent.OutputTuple,
+      ValidityPeriodUpdatedEvent.OutputObject
+    >;
+    ValidityPeriodUpdated: TypedContractEvent<
+      ValidityPeriodUpdatedEvent.InputTuple,
+      ValidityPeriodUpdatedEvent.OutputTuple,
+      ValidityPeriodUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,1475 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace RiskControlFHE {
+  export type EncryptedClientProfileStruct = {
+    age: BytesLike;
+    annualIncome: BytesLike;
+    debtToIncome: BytesLike;
+    employmentYears: BytesLike;
+    existingObligations: BytesLike;
+    delinquencyCount: BytesLike;
+  };
+
+  export type EncryptedClientProfileStructOutput = [
+    age: string,
+    annualIncome: string,
+    debtToIncome: string,
+    employmentYears: string,
+    existingObligations: string,
+    delinquencyCount: string
+  ] & {
+    age: string;
+    annualIncome: string;
+    debtToIncome: string;
+    employmentYears: string;
+    existingObligations: string;
+    delinquencyCount: string;
+  };
+
+  export type BatchOutcomeStruct = {
+    submittedBy: AddressLike;
+    timestamp: BigNumberish;
+    successCount: BigNumberish;
+    failedIndexes: BigNumberish[];
+    failureReasons: string[];
+  };
+
+  export type BatchOutcomeStructOutput = [
+    submittedBy: string,
+    timestamp: bigint,
+    successCount: bigint,
+    failedIndexes: bigint[],
+    failureReasons: string[]
+  ] & {
+    submittedBy: string;
+    timestamp: bigint;
+    successCount: bigint;
+    failedIndexes: bigint[];
+    failureReasons: string[];
+  };
+
+  export type EncryptedAssessmentStruct = {
+    creditLimit: BytesLike;
+    riskScore: BytesLike;
+    approved: BytesLike;
+    tier: BytesLike;
+    clientId: string;
+    timestamp: BigNumberish;
+  };
+
+  export type EncryptedAssessmentStructOutput = [
+    creditLimit: string,
+    riskScore: string,
+    approved: string,
+    tier: string,
+    clientId: string,
+    timestamp: bigint
+  ] & {
+    creditLimit: string;
+    riskScore: string;
+    approved: string;
+    tier: string;
+    clientId: string;
+    timestamp: bigint;
+  };
+
+  export type EncryptedTierConfigStruct = {
+    minScore: BytesLike;
+    incomeMultiplier: BytesLike;
+    maxCreditLimit: BytesLike;
+    minInterestRate: BigNumberish;
+    maxInterestRate: BigNumberish;
+  };
+
+  export type EncryptedTierConfigStructOutput = [
+    minScore: string,
+    incomeMultiplier: string,
+    maxCreditLimit: string,
+    minInterestRate: bigint,
+    maxInterestRate: bigint
+  ] & {
+    minScore: string;
+    incomeMultiplier: string;
+    maxCreditLimit: string;
+    minInterestRate: bigint;
+    maxInterestRate: bigint;
+  };
+
+  export type EncryptedScoringFactorStruct = {
+    weight: BytesLike;
+    cap: BytesLike;
+    bucketPoints: BytesLike;
+    inverse: boolean;
+    breakpoints: BytesLike[];
+  };
+
+  export type EncryptedScoringFactorStructOutput = [
+    weight: string,
+    cap: string,
+    bucketPoints: string,
+    inverse: boolean,
+    breakpoints: string[]
+  ] & {
+    weight: string;
+    cap: string;
+    bucketPoints: string;
+    inverse: boolean;
+    breakpoints: string[];
+  };
+
+  export type InputRangeStruct = { min: BigNumberish; max: BigNumberish };
+
+  export type InputRangeStructOutput = [min: bigint, max: bigint] & {
+    min: bigint;
+    max: bigint;
+  };
+
+  export type EncryptedTierInputStruct = {
+    minScore: BytesLike;
+    incomeMultiplier: BytesLike;
+    maxCreditLimit: BytesLike;
+    minInterestRate: BigNumberish;
+    maxInterestRate: BigNumberish;
+  };
+
+  export type EncryptedTierInputStructOutput = [
+    minScore: string,
+    incomeMultiplier: string,
+    maxCreditLimit: string,
+    minInterestRate: bigint,
+    maxInterestRate: bigint
+  ] & {
+    minScore: string;
+    incomeMultiplier: string;
+    maxCreditLimit: string;
+    minInterestRate: bigint;
+    maxInterestRate: bigint;
+  };
+}
+
+export interface RiskControlFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "AUDITOR_ROLE"
+      | "FACTOR_COUNT"
+      | "MAX_BATCH_SIZE"
+      | "PARAMETER_ADMIN_ROLE"
+      | "PAUSER_ROLE"
+      | "RISK_OFFICER_ROLE"
+      | "SENIOR_OFFICER_ROLE"
+      | "TIER_COUNT"
+      | "assessBatchItemEncrypted"
+      | "assessRiskEncrypted"
+      | "batchAssessRiskEncrypted"
+      | "batchCount"
+      | "batchGrantAuditAccess"
+      | "encryptedAssessments"
+      | "getAllClientIds"
+      | "getAssessmentCount"
+      | "getAssessmentStatus"
+      | "getAuditAccess"
+      | "getBatchOutcome"
+      | "getClientIds"
+      | "getEncryptedAssessmentResult"
+      | "getEncryptedAssessmentsPage"
+      | "getEncryptedRiskTier"
+      | "getEncryptedScoringFactor"
+      | "getExpiredClients"
+      | "getInputRanges"
+      | "getOwner"
+      | "grantAuditAccess"
+      | "grantRole"
+      | "hasRole"
+      | "pause"
+      | "paused"
+      | "protocolId"
+      | "renewalWindow"
+      | "revokeRole"
+      | "setValidityPeriod"
+      | "transferOwnership"
+      | "unpause"
+      | "updateInputRange"
+      | "updateRiskTiersEncrypted"
+      | "updateScoringFactorEncrypted"
+      | "validityPeriod"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssessmentPerformed"
+      | "AuditAccessGranted"
+      | "BatchAssessmentPerformed"
+      | "BatchItemAssessed"
+      | "BatchItemFailed"
+      | "ParametersUpdated"
+      | "Paused"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "Unpaused"
+      | "ValidityPeriodUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FACTOR_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BATCH_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PARAMETER_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RISK_OFFICER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SENIOR_OFFICER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TIER_COUNT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessBatchItemEncrypted",
+    values: [BytesLike[], string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assessRiskEncrypted",
+    values: [RiskControlFHE.EncryptedClientProfileStruct, BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchAssessRiskEncrypted",
+    values: [RiskControlFHE.EncryptedClientProfileStruct[], BytesLike, string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchGrantAuditAccess",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedAssessments",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllClientIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssessmentStatus",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAuditAccess",
+    values: [string[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchOutcome",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClientIds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAssessmentResult",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAssessmentsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedRiskTier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedScoringFactor",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getExpiredClients",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInputRanges",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "getOwner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "grantAuditAccess",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewalWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setValidityPeriod",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateInputRange",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRiskTiersEncrypted",
+    values: [
+      [
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct
+      ],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateScoringFactorEncrypted",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      boolean,
+      BytesLike[],
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "validityPeriod",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FACTOR_COUNT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BATCH_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PARAMETER_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RISK_OFFICER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SENIOR_OFFICER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "TIER_COUNT", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "assessBatchItemEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assessRiskEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchAssessRiskEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchGrantAuditAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedAssessments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllClientIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssessmentStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAuditAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchOutcome",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClientIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAssessmentResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAssessmentsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedRiskTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedScoringFactor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getExpiredClients",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInputRanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getOwner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantAuditAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renewalWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setValidityPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateInputRange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRiskTiersEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateScoringFactorEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "validityPeriod",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssessmentPerformedEvent {
+  export type InputTuple = [
+    clientId: string,
+    encryptedCreditLimit: BytesLike,
+    encryptedRiskScore: BytesLike,
+    encryptedApproved: BytesLike,
+    encryptedTier: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    encryptedCreditLimit: string,
+    encryptedRiskScore: string,
+    encryptedApproved: string,
+    encryptedTier: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    encryptedCreditLimit: string;
+    encryptedRiskScore: string;
+    encryptedApproved: string;
+    encryptedTier: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuditAccessGrantedEvent {
+  export type InputTuple = [
+    clientId: string,
+    auditor: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    auditor: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    auditor: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchAssessmentPerformedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    count: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, count: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    count: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemAssessedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string
+  ];
+  export type OutputTuple = [batchId: bigint, index: bigint, clientId: string];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemFailedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string,
+    reason: string
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    index: bigint,
+    clientId: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParametersUpdatedEvent {
+  export type InputTuple = [timestamp: BigNumberish];
+  export type OutputTuple = [timestamp: bigint];
+  export interface OutputObject {
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ValidityPeriodUpdatedEvent {
+  export type InputTuple = [
+    validityPeriod: BigNumberish,
+    renewalWindow: BigNumberish
+  ];
+  export type OutputTuple = [validityPeriod: bigint, renewalWindow: bigint];
+  export interface OutputObject {
+    validityPeriod: bigint;
+    renewalWindow: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RiskControlFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): RiskControlFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: RiskControlFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  FACTOR_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BATCH_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  PARAMETER_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  RISK_OFFICER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SENIOR_OFFICER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  TIER_COUNT: TypedContractMethod<[], [bigint], "view">;
+
+  assessBatchItemEncrypted: TypedContractMethod<
+    [values: BytesLike[], _clientId: string, _officer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  assessRiskEncrypted: TypedContractMethod<
+    [
+      _profile: RiskControlFHE.EncryptedClientProfileStruct,
+      inputProof: BytesLike,
+      _clientId: string
+    ],
+    [
+      [string, string, string, string] & {
+        encryptedCreditLimit: string;
+        encryptedRiskScore: string;
+        encryptedApproved: string;
+        encryptedTier: string;
+      }
+    ],
+    "nonpayable"
+  >;
+
+  batchAssessRiskEncrypted: TypedContractMethod<
+    [
+      _profiles: RiskControlFHE.EncryptedClientProfileStruct[],
+      inputProof: BytesLike,
+      _clientIds: string[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  batchCount: TypedContractMethod<[], [bigint], "view">;
+
+  batchGrantAuditAccess: TypedContractMethod<
+    [_clientIds: string[]],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedAssessments: TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, string, string, string, bigint] & {
+        creditLimit: string;
+        riskScore: string;
+        approved: string;
+        tier: string;
+        clientId: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getAllClientIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAssessmentCount: TypedContractMethod<[], [bigint], "view">;
+
+  getAssessmentStatus: TypedContractMethod<
+    [_clientId: string],
+    [[bigint, bigint] & { status: bigint; expiresAt: bigint }],
+    "view"
+  >;
+
+  getAuditAccess: TypedContractMethod<
+    [_clientIds: string[], _account: AddressLike],
+    [boolean[]],
+    "view"
+  >;
+
+  getBatchOutcome: TypedContractMethod<
+    [_batchId: BigNumberish],
+    [RiskControlFHE.BatchOutcomeStructOutput],
+    "view"
+  >;
+
+  getClientIds: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedAssessmentResult: TypedContractMethod<
+    [_clientId: string],
+    [
+      [string, string, string, bigint] & {
+        encryptedCreditLimit: string;
+        encryptedRiskScore: string;
+        encryptedApproved: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedAssessmentsPage: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [RiskControlFHE.EncryptedAssessmentStructOutput[]],
+    "view"
+  >;
+
+  getEncryptedRiskTier: TypedContractMethod<
+    [_tier: BigNumberish],
+    [RiskControlFHE.EncryptedTierConfigStructOutput],
+    "view"
+  >;
+
+  getEncryptedScoringFactor: TypedContractMethod<
+    [_factor: BigNumberish],
+    [RiskControlFHE.EncryptedScoringFactorStructOutput],
+    "view"
+  >;
+
+  getExpiredClients: TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [[string[], bigint] & { clientIds: string[]; nextOffset: bigint }],
+    "view"
+  >;
+
+  getInputRanges: TypedContractMethod<
+    [],
+    [RiskControlFHE.InputRangeStructOutput[]],
+    "view"
+  >;
+
+  getOwner: TypedContractMethod<[], [string], "view">;
+
+  grantAuditAccess: TypedContractMethod<
+    [_clientId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  renewalWindow: TypedContractMethod<[], [bigint], "view">;
+
+  revokeRole: TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setValidityPeriod: TypedContractMethod<
+    [_validityPeriod: BigNumberish, _renewalWindow: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [_newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  updateInputRange: TypedContractMethod<
+    [_factor: BigNumberish, _min: BigNumberish, _max: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRiskTiersEncrypted: TypedContractMethod<
+    [
+      _tiers: [
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct
+      ],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  updateScoringFactorEncrypted: TypedContractMethod<
+    [
+      _factor: BigNumberish,
+      encryptedWeight: BytesLike,
+      encryptedCap: BytesLike,
+      _inverse: boolean,
+      encryptedBreakpoints: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  validityPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "FACTOR_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BATCH_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PARAMETER_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "RISK_OFFICER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SENIOR_OFFICER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TIER_COUNT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "assessBatchItemEncrypted"
+  ): TypedContractMethod<
+    [values: BytesLike[], _clientId: string, _officer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "assessRiskEncrypted"
+  ): TypedContractMethod<
+    [
+      _profile: RiskControlFHE.EncryptedClientProfileStruct,
+      inputProof: BytesLike,
+      _clientId: string
+    ],
+    [
+      [string, string, string, string] & {
+        encryptedCreditLimit: string;
+        encryptedRiskScore: string;
+        encryptedApproved: string;
+        encryptedTier: string;
+      }
+    ],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchAssessRiskEncrypted"
+  ): TypedContractMethod<
+    [
+      _profiles: RiskControlFHE.EncryptedClientProfileStruct[],
+      inputProof: BytesLike,
+      _clientIds: string[]
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "batchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchGrantAuditAccess"
+  ): TypedContractMethod<[_clientIds: string[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedAssessments"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, string, string, string, bigint] & {
+        creditLimit: string;
+        riskScore: string;
+        approved: string;
+        tier: string;
+        clientId: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAllClientIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAssessmentCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAssessmentStatus"
+  ): TypedContractMethod<
+    [_clientId: string],
+    [[bigint, bigint] & { status: bigint; expiresAt: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAuditAccess"
+  ): TypedContractMethod<
+    [_clientIds: string[], _account: AddressLike],
+    [boolean[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchOutcome"
+  ): TypedContractMethod<
+    [_batchId: BigNumberish],
+    [RiskControlFHE.BatchOutcomeStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getClientIds"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedAssessmentResult"
+  ): TypedContractMethod<
+    [_clientId: string],
+    [
+      [string, string, string, bigint] & {
+        encryptedCreditLimit: string;
+        encryptedRiskScore: string;
+        encryptedApproved: string;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedAssessmentsPage"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [RiskControlFHE.EncryptedAssessmentStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedRiskTier"
+  ): TypedContractMethod<
+    [_tier: BigNumberish],
+    [RiskControlFHE.EncryptedTierConfigStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedScoringFactor"
+  ): TypedContractMethod<
+    [_factor: BigNumberish],
+    [RiskControlFHE.EncryptedScoringFactorStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getExpiredClients"
+  ): TypedContractMethod<
+    [_offset: BigNumberish, _limit: BigNumberish],
+    [[string[], bigint] & { clientIds: string[]; nextOffset: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInputRanges"
+  ): TypedContractMethod<[], [RiskControlFHE.InputRangeStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "grantAuditAccess"
+  ): TypedContractMethod<[_clientId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "renewalWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [_role: BytesLike, _account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setValidityPeriod"
+  ): TypedContractMethod<
+    [_validityPeriod: BigNumberish, _renewalWindow: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[_newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateInputRange"
+  ): TypedContractMethod<
+    [_factor: BigNumberish, _min: BigNumberish, _max: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateRiskTiersEncrypted"
+  ): TypedContractMethod<
+    [
+      _tiers: [
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct,
+        RiskControlFHE.EncryptedTierInputStruct
+      ],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateScoringFactorEncrypted"
+  ): TypedContractMethod<
+    [
+      _factor: BigNumberish,
+      encryptedWeight: BytesLike,
+      encryptedCap: BytesLike,
+      _inverse: boolean,
+      encryptedBreakpoints: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "validityPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "AssessmentPerformed"
+  ): TypedContractEvent<
+    AssessmentPerformedEvent.InputTuple,
+    AssessmentPerformedEvent.OutputTuple,
+    AssessmentPerformedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AuditAccessGranted"
+  ): TypedContractEvent<
+    AuditAccessGrantedEvent.InputTuple,
+    AuditAccessGrantedEvent.OutputTuple,
+    AuditAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchAssessmentPerformed"
+  ): TypedContractEvent<
+    BatchAssessmentPerformedEvent.InputTuple,
+    BatchAssessmentPerformedEvent.OutputTuple,
+    BatchAssessmentPerformedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemAssessed"
+  ): TypedContractEvent<
+    BatchItemAssessedEvent.InputTuple,
+    BatchItemAssessedEvent.OutputTuple,
+    BatchItemAssessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemFailed"
+  ): TypedContractEvent<
+    BatchItemFailedEvent.InputTuple,
+    BatchItemFailedEvent.OutputTuple,
+    BatchItemFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParametersUpdated"
+  ): TypedContractEvent<
+    ParametersUpdatedEvent.InputTuple,
+    ParametersUpdatedEvent.OutputTuple,
+    ParametersUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ValidityPeriodUpdated"
+  ): TypedContractEvent<
+    ValidityPeriodUpdatedEvent.InputTuple,
+    ValidityPeriodUpdatedEvent.OutputTuple,
+    ValidityPeriodUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssessmentPerformed(string,bytes32,bytes32,bytes32,bytes32,uint256)": TypedContractEvent<
+      AssessmentPerformedEvent.InputTuple,
+      AssessmentPerformedEvent.OutputTuple,
+      AssessmentPerformedEvent.OutputObject
+    >;
+    AssessmentPerformed: TypedContractEvent<
+      AssessmentPerformedEvent.InputTuple,
+      AssessmentPerformedEvent.OutputTuple,
+      AssessmentPerformedEvent.OutputObject
+    >;
+
+    "AuditAccessGranted(string,address,uint256)": TypedContractEvent<
+      AuditAccessGrantedEvent.InputTuple,
+      AuditAccessGrantedEvent.OutputTuple,
+      AuditAccessGrantedEvent.OutputObject
+    >;
+    AuditAccessGranted: TypedContractEvent<
+      AuditAccessGrantedEvent.InputTuple,
+      AuditAccessGrantedEvent.OutputTuple,
+      AuditAccessGrantedEvent.OutputObject
+    >;
+
+    "BatchAssessmentPerformed(uint256,uint256,uint256)": TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+    BatchAssessmentPerformed: TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+
+    "BatchItemAssessed(uint256,uint256,string)": TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+    BatchItemAssessed: TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+
+    "BatchItemFailed(uint256,uint256,string,string)": TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+    BatchItemFailed: TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+
+    "ParametersUpdated(uint256)": TypedContractEvent<
+      ParametersUpdatedEvent.InputTuple,
+      ParametersUpdatedEvent.OutputTuple,
+      ParametersUpdatedEvent.OutputObject
+    >;
+    ParametersUpdated: TypedContractEvent<
+      ParametersUpdatedEvent.InputTuple,
+      ParametersUpdatedEvent.OutputTuple,
+      ParametersUpdatedEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "ValidityPeriodUpdated(uint256,uint256)": TypedContractEvent<
+      ValidityPeriodUpdatedEvent.InputTuple,
+      ValidityPeriodUpdatedEvent.OutputTuple,
+      ValidityPeriodUpdatedEvent.OutputObject
+    >;
+    ValidityPeriodUpdated: TypedContractEvent<
+      ValidityPeriodUpdatedEvent.InputTuple,
+      ValidityPeriodUpdatedEvent.OutputTuple,
+      ValidityPeriodUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,346 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  FunctionFragment,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+} from "../common";
+
+export interface RiskControlLogicInterface extends Interface {
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AppealFlagged"
+      | "AppealResolved"
+      | "BatchAssessmentPerformed"
+      | "BatchItemAssessed"
+      | "BatchItemFailed"
+      | "DecisionOverridden"
+  ): EventFragment;
+}
+
+export namespace AppealFlaggedEvent {
+  export type InputTuple = [
+    clientId: string,
+    flaggedBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    flaggedBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    flaggedBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AppealResolvedEvent {
+  export type InputTuple = [
+    clientId: string,
+    resolvedBy: AddressLike,
+    overridden: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    resolvedBy: string,
+    overridden: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    resolvedBy: string;
+    overridden: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchAssessmentPerformedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    count: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, count: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    count: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemAssessedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string
+  ];
+  export type OutputTuple = [batchId: bigint, index: bigint, clientId: string];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchItemFailedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    index: BigNumberish,
+    clientId: string,
+    reason: string
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    index: bigint,
+    clientId: string,
+    reason: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    index: bigint;
+    clientId: string;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecisionOverriddenEvent {
+  export type InputTuple = [
+    clientId: string,
+    index: BigNumberish,
+    approved: boolean,
+    tier: BigNumberish,
+    creditLimit: BigNumberish,
+    originalApproved: boolean,
+    originalTier: BigNumberish,
+    originalCreditLimit: BigNumberish,
+    reason: BigNumberish,
+    overriddenBy: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    clientId: string,
+    index: bigint,
+    approved: boolean,
+    tier: bigint,
+    creditLimit: bigint,
+    originalApproved: boolean,
+    originalTier: bigint,
+    originalCreditLimit: bigint,
+    reason: bigint,
+    overriddenBy: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    clientId: string;
+    index: bigint;
+    approved: boolean;
+    tier: bigint;
+    creditLimit: bigint;
+    originalApproved: boolean;
+    originalTier: bigint;
+    originalCreditLimit: bigint;
+    reason: bigint;
+    overriddenBy: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RiskControlLogic extends BaseContract {
+  connect(runner?: ContractRunner | null): RiskControlLogic;
+  waitForDeployment(): Promise<this>;
+
+  interface: RiskControlLogicInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getEvent(
+    key: "AppealFlagged"
+  ): TypedContractEvent<
+    AppealFlaggedEvent.InputTuple,
+    AppealFlaggedEvent.OutputTuple,
+    AppealFlaggedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AppealResolved"
+  ): TypedContractEvent<
+    AppealResolvedEvent.InputTuple,
+    AppealResolvedEvent.OutputTuple,
+    AppealResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchAssessmentPerformed"
+  ): TypedContractEvent<
+    BatchAssessmentPerformedEvent.InputTuple,
+    BatchAssessmentPerformedEvent.OutputTuple,
+    BatchAssessmentPerformedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemAssessed"
+  ): TypedContractEvent<
+    BatchItemAssessedEvent.InputTuple,
+    BatchItemAssessedEvent.OutputTuple,
+    BatchItemAssessedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchItemFailed"
+  ): TypedContractEvent<
+    BatchItemFailedEvent.InputTuple,
+    BatchItemFailedEvent.OutputTuple,
+    BatchItemFailedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecisionOverridden"
+  ): TypedContractEvent<
+    DecisionOverriddenEvent.InputTuple,
+    DecisionOverriddenEvent.OutputTuple,
+    DecisionOverriddenEvent.OutputObject
+  >;
+
+  filters: {
+    "AppealFlagged(string,address,uint256)": TypedContractEvent<
+      AppealFlaggedEvent.InputTuple,
+      AppealFlaggedEvent.OutputTuple,
+      AppealFlaggedEvent.OutputObject
+    >;
+    AppealFlagged: TypedContractEvent<
+      AppealFlaggedEvent.InputTuple,
+      AppealFlaggedEvent.OutputTuple,
+      AppealFlaggedEvent.OutputObject
+    >;
+
+    "AppealResolved(string,address,bool,uint256)": TypedContractEvent<
+      AppealResolvedEvent.InputTuple,
+      AppealResolvedEvent.OutputTuple,
+      AppealResolvedEvent.OutputObject
+    >;
+    AppealResolved: TypedContractEvent<
+      AppealResolvedEvent.InputTuple,
+      AppealResolvedEvent.OutputTuple,
+      AppealResolvedEvent.OutputObject
+    >;
+
+    "BatchAssessmentPerformed(uint256,uint256,uint256)": TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+    BatchAssessmentPerformed: TypedContractEvent<
+      BatchAssessmentPerformedEvent.InputTuple,
+      BatchAssessmentPerformedEvent.OutputTuple,
+      BatchAssessmentPerformedEvent.OutputObject
+    >;
+
+    "BatchItemAssessed(uint256,uint256,string)": TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+    BatchItemAssessed: TypedContractEvent<
+      BatchItemAssessedEvent.InputTuple,
+      BatchItemAssessedEvent.OutputTuple,
+      BatchItemAssessedEvent.OutputObject
+    >;
+
+    "BatchItemFailed(uint256,uint256,string,string)": TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+    BatchItemFailed: TypedContractEvent<
+      BatchItemFailedEvent.InputTuple,
+      BatchItemFailedEvent.OutputTuple,
+      BatchItemFailedEvent.OutputObject
+    >;
+
+    "DecisionOverridden(string,uint256,bool,uint8,uint256,bool,uint8,uint256,uint8,address,uint256)": TypedContractEvent<
+      DecisionOverriddenEvent.InputTuple,
+      DecisionOverriddenEvent.OutputTuple,
+      DecisionOverriddenEvent.OutputObject
+    >;
+    DecisionOverridden: TypedContractEvent<
+      DecisionOverriddenEvent.InputTuple,
+      DecisionOverriddenEvent.OutputTuple,
+      DecisionOverriddenEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,11 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { RiskAccessControl } from "./RiskAccessControl";
+export type { RiskAssessmentExpiry } from "./RiskAssessmentExpiry";
+export type { RiskControl } from "./RiskControl";
+export type { RiskControlFHE } from "./RiskControlFHE";
+export type { RiskControlLogic } from "./RiskControlLogic";
+export type { RiskControlProxy } from "./RiskControlProxy";
+export type { RiskPausable } from "./RiskPausable";
+export type { RiskScoringSpec } from "./RiskScoringSpec";
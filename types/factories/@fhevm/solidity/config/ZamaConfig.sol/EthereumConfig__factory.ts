@@ -0,0 +1,85 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../../../common";
+import type {
+  EthereumConfig,
+  EthereumConfigInterface,
+} from "../../../../../@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f80fd5b5061013661005a60408051608080820183525f808352602080840182905283850182905260609384018290528451928301855281835282018190529281018390529081019190915290565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b604b806101425f395ff3fe6080604052348015600e575f80fd5b50600436106026575f3560e01c8063da1f12ab14602a575b5f80fd5b600160405190815260200160405180910390f3fea164736f6c6343000818000a";
+
+type EthereumConfigConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EthereumConfigConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EthereumConfig__factory extends ContractFactory {
+  constructor(...args: EthereumConfigConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EthereumConfig & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): EthereumConfig__factory {
+    return super.connect(runner) as EthereumConfig__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EthereumConfigInterface {
+    return new Interface(_abi) as EthereumConfigInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): EthereumConfig {
+    return new Contract(address, _abi, runner) as unknown as EthereumConfig;
+  }
+}
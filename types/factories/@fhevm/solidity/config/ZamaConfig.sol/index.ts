@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { EthereumConfig__factory } from "./EthereumConfig__factory";
+export { SepoliaConfig__factory } from "./SepoliaConfig__factory";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { FHE__factory } from "./FHE__factory";
+export { IDecryptionOracle__factory } from "./IDecryptionOracle__factory";
+export { IKMSVerifier__factory } from "./IKMSVerifier__factory";
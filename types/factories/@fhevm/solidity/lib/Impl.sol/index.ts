@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IACL__factory } from "./IACL__factory";
+export { IFHEVMExecutor__factory } from "./IFHEVMExecutor__factory";
+export { IInputVerifier__factory } from "./IInputVerifier__factory";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { Initializable__factory } from "./Initializable__factory";
+export { UUPSUpgradeable__factory } from "./UUPSUpgradeable__factory";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as interfaces from "./interfaces";
+export * as proxy from "./proxy";
+export * as utils from "./utils";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as contracts from "./contracts";
+export * as contractsUpgradeable from "./contracts-upgradeable";
@@ -0,0 +1,1405 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RiskControlFHE,
+  RiskControlFHEInterface,
+} from "../../contracts/RiskControlFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "maxLength",
+        type: "uint256",
+      },
+    ],
+    name: "BatchTooLarge",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyClientId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InputLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InputOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidInputRange",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedCreditLimit",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "encryptedRiskScore",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "ebool",
+        name: "encryptedApproved",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint8",
+        name: "encryptedTier",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AssessmentPerformed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "auditor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AuditAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchAssessmentPerformed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+    ],
+    name: "BatchItemAssessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "BatchItemFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "validityPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "renewalWindow",
+        type: "uint256",
+      },
+    ],
+    name: "ValidityPeriodUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FACTOR_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BATCH_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PARAMETER_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RISK_OFFICER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SENIOR_OFFICER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TIER_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32[6]",
+        name: "values",
+        type: "bytes32[6]",
+      },
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "_officer",
+        type: "address",
+      },
+    ],
+    name: "assessBatchItemEncrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "externalEuint32",
+            name: "age",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "annualIncome",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "debtToIncome",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "employmentYears",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "existingObligations",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "delinquencyCount",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedClientProfile",
+        name: "_profile",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "assessRiskEncrypted",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedCreditLimit",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedRiskScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedApproved",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedTier",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "externalEuint32",
+            name: "age",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "annualIncome",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "debtToIncome",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "employmentYears",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "existingObligations",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "delinquencyCount",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedClientProfile[]",
+        name: "_profiles",
+        type: "tuple[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string[]",
+        name: "_clientIds",
+        type: "string[]",
+      },
+    ],
+    name: "batchAssessRiskEncrypted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "successCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "_clientIds",
+        type: "string[]",
+      },
+    ],
+    name: "batchGrantAuditAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "encryptedAssessments",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "creditLimit",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "riskScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "approved",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "tier",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllClientIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAssessmentCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getAssessmentStatus",
+    outputs: [
+      {
+        internalType: "enum RiskAssessmentExpiry.AssessmentStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "_clientIds",
+        type: "string[]",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "getAuditAccess",
+    outputs: [
+      {
+        internalType: "bool[]",
+        name: "allowed",
+        type: "bool[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchOutcome",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "submittedBy",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "successCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256[]",
+            name: "failedIndexes",
+            type: "uint256[]",
+          },
+          {
+            internalType: "string[]",
+            name: "failureReasons",
+            type: "string[]",
+          },
+        ],
+        internalType: "struct RiskControlFHE.BatchOutcome",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getClientIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "clientIds",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedAssessmentResult",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedCreditLimit",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedRiskScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "encryptedApproved",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedAssessmentsPage",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "creditLimit",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "riskScore",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "approved",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint8",
+            name: "tier",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedAssessment[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "_tier",
+        type: "uint8",
+      },
+    ],
+    name: "getEncryptedRiskTier",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "minScore",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "incomeMultiplier",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "maxCreditLimit",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "minInterestRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxInterestRate",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedTierConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+    ],
+    name: "getEncryptedScoringFactor",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "weight",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "cap",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "bucketPoints",
+            type: "bytes32",
+          },
+          {
+            internalType: "bool",
+            name: "inverse",
+            type: "bool",
+          },
+          {
+            internalType: "euint32[]",
+            name: "breakpoints",
+            type: "bytes32[]",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedScoringFactor",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getExpiredClients",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "clientIds",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextOffset",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getInputRanges",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "min",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "max",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct RiskControlFHE.InputRange[6]",
+        name: "",
+        type: "tuple[6]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "grantAuditAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renewalWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_validityPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_renewalWindow",
+        type: "uint256",
+      },
+    ],
+    name: "setValidityPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint32",
+        name: "_min",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "_max",
+        type: "uint32",
+      },
+    ],
+    name: "updateInputRange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "externalEuint32",
+            name: "minScore",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "incomeMultiplier",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "maxCreditLimit",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "minInterestRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxInterestRate",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControlFHE.EncryptedTierInput[4]",
+        name: "_tiers",
+        type: "tuple[4]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateRiskTiersEncrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedWeight",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedCap",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "_inverse",
+        type: "bool",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "encryptedBreakpoints",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateScoringFactorEncrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "validityPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801562000010575f80fd5b5062000169620000b1604080516080810182525f80825260208201819052918101829052606081019190915250604080516080810182527350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c2881291810191909152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606082015290565b80515f8051602062005c4183398151915280546001600160a01b03199081166001600160a01b039384161790915560208301515f8051602062005c218339815191528054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054831691841691909117905560608301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054909216921691909117905550565b5f80546001600160a01b031916331790556200018f6301e1338060325562278d00603355565b5f5b6004811015620001fb575f80808080620001ab86620002cc565b94509450945094509450620001e986620001cb876200036060201b60201c565b620001d68762000360565b620001e18762000360565b86866200037a565b50506001909301925062000191915050565b505f5b6006811015620002af575f805f806200022b85600581111562000225576200022562000f3a565b620003f8565b9350935093509350620002568560058111156200024c576200024c62000f3a565b85858585620008d4565b5f806200027787600581111562000271576200027162000f3a565b620009db565b915091506200029c87600581111562000294576200029462000f3a565b838362000a8a565b505060019094019350620001fe92505050565b505f54620002c6906001600160a01b031662000b4c565b6200104b565b5f805f805f855f03620002f5575060329350600192506113889150610708905061096062000357565b856001036200031a5750603c935060029250613a9891506104b0905061070862000357565b856002036200033f5750604b935060039250619c40915061032090506104b062000357565b50605a935060049250620186a091506101f490506103205b91939590929450565b5f6200037463ffffffff8316600462000cfd565b92915050565b6040518060a001604052808681526020018581526020018481526020018381526020018281525060965f018760048110620003b957620003b962000f4e565b600502015f820151815f015560208201518160010155604082015181600201556060820151816003015560808201518160040155905050505050505050565b5f808060608185600581111562000413576200041362000f3a565b03620004a55760408051600580825260c08201909252906020820160a0803683370190505090505f5b600581101562000493576200045381600562000f8a565b6200046090601462000fa4565b82828151811062000475576200047562000f4e565b63ffffffff909216602092830291909101909101526001016200043c565b50606460285f935093509350620008cd565b6001856005811115620004bc57620004bc62000f3a565b036200054f5760408051600680825260e08201909252906020820160c0803683370190505090505f5b60068110156200053d57620004fc81600162000fa4565b6200050a9061271062000f8a565b8282815181106200051f576200051f62000f4e565b63ffffffff90921660209283029190910190910152600101620004e5565b506064603c5f935093509350620008cd565b600285600581111562000566576200056662000f3a565b0362000633576040805160038082526080820190925290602082016060803683370190505090506014815f81518110620005a457620005a462000f4e565b602002602001019063ffffffff16908163ffffffff1681525050602381600181518110620005d657620005d662000f4e565b602002602001019063ffffffff16908163ffffffff168152505060328160028151811062000608576200060862000f4e565b602002602001019063ffffffff16908163ffffffff16815250505f601e6001935093509350620008cd565b60038560058111156200064a576200064a62000f3a565b03620007485760408051600480825260a0820190925290602082016080803683370190505090506001815f8151811062000688576200068862000f4e565b602002602001019063ffffffff16908163ffffffff1681525050600381600181518110620006ba57620006ba62000f4e565b602002602001019063ffffffff16908163ffffffff1681525050600581600281518110620006ec57620006ec62000f4e565b602002602001019063ffffffff16908163ffffffff1681525050600a816003815181106200071e576200071e62000f4e565b602002602001019063ffffffff16908163ffffffff16815250505f60145f935093509350620008cd565b604080516003808252608082019092529060208201606080368337019050509050600485600581111562000780576200078062000f3a565b036200082c576002815f815181106200079d576200079d62000f4e565b602002602001019063ffffffff16908163ffffffff1681525050600481600181518110620007cf57620007cf62000f4e565b602002602001019063ffffffff16908163ffffffff168152505060068160028151811062000801576200080162000f4e565b602002602001019063ffffffff16908163ffffffff16815250505f600f6001935093509350620008cd565b6001815f8151811062000843576200084362000f4e565b602002602001019063ffffffff16908163ffffffff168152505060028160018151811062000875576200087562000f4e565b602002602001019063ffffffff16908163ffffffff1681525050600381600281518110620008a757620008a762000f4e565b602002602001019063ffffffff16908163ffffffff16815250505f601e60019350935093505b9193509193565b5f81516001600160401b03811115620008f157620008f162000f62565b6040519080825280602002602001820160405280156200091b578160200160208202803683370190505b5090505f5b825181101562000980576200095783828151811062000943576200094362000f4e565b60200260200101516200036060201b60201c565b8282815181106200096c576200096c62000f4e565b602090810291909101015260010162000920565b505f620009a28563ffffffff168763ffffffff16855162000d9b60201b60201c565b9050620009d287620009b48862000360565b620009bf8862000360565b620009ca8562000360565b888762000dd7565b50505050505050565b5f8080836005811115620009f357620009f362000f3a565b0362000a055750601292607892509050565b600183600581111562000a1c5762000a1c62000f3a565b0362000a2f57505f926298968092509050565b600283600581111562000a465762000a4662000f3a565b0362000a5757505f92606492509050565b600383600581111562000a6e5762000a6e62000f3a565b0362000a7f57505f92605092509050565b505f92606492509050565b8063ffffffff168263ffffffff16111562000ac957828282604051632fb2722f60e11b815260040162000ac09392919062000fba565b60405180910390fd5b60405180604001604052808363ffffffff1681526020018263ffffffff1681525060cd84600581111562000b015762000b0162000f3a565b6006811062000b145762000b1462000f4e565b82519101805460209093015163ffffffff908116640100000000026001600160401b0319909416921691909117919091179055505050565b5f5b600481101562000be3575f6096826004811062000b6f5762000b6f62000f4e565b60050201805490915062000b839062000e4b565b50600181015462000b949062000e4b565b50600281015462000ba59062000e4b565b50805462000bb4908462000e5c565b50600181015462000bc6908462000e5c565b50600281015462000bd8908462000e5c565b505060010162000b4e565b505f5b600681101562000cf9575f60aa826006811062000c075762000c0762000f4e565b60050201805490915062000c1b9062000e4b565b50600181015462000c2c9062000e4b565b50600281015462000c3d9062000e4b565b50805462000c4c908462000e5c565b50600181015462000c5e908462000e5c565b50600281015462000c70908462000e5c565b505f5b600482015481101562000cee5762000cb182600401828154811062000c9c5762000c9c62000f4e565b905f5260205f20015462000e4b60201b60201c565b5062000ce482600401828154811062000cce5762000cce62000f4e565b905f5260205f2001548562000e5c60201b60201c565b5060010162000c73565b505060010162000be6565b5050565b5f8051602062005c2183398151915254604051639cd07acb60e01b81525f915f8051602062005c41833981519152916001600160a01b0390911690639cd07acb9062000d50908790879060040162000fec565b6020604051808303815f875af115801562000d6d573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019062000d93919062001013565b949350505050565b5f811562000dce5762000db082606462000f8a565b62000dbc848662000f8a565b62000dc891906200102b565b62000d93565b5f949350505050565b5f60aa87600581111562000def5762000def62000f3a565b6006811062000e025762000e0262000f4e565b60050201868155600181018690556002810185905560038101805460ff1916851515179055825190915062000e41906004830190602085019062000ee0565b5050505050505050565b5f62000e58823062000e70565b5090565b5f62000e69838362000e70565b5090919050565b5f5f8051602062005c418339815191528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b15801562000ecd575f80fd5b505af1158015620009d2573d5f803e3d5ffd5b828054828255905f5260205f2090810192821562000f1c579160200282015b8281111562000f1c57825182559160200191906001019062000eff565b5062000e589291505b8082111562000e58575f815560010162000f25565b634e487b7160e01b5f52602160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b808202811582820484141762000374576200037462000f76565b8082018082111562000374576200037462000f76565b606081016006851062000fd15762000fd162000f3a565b93815263ffffffff9283166020820152911660409091015290565b828152604081016054831062001006576200100662000f3a565b8260208301529392505050565b5f6020828403121562001024575f80fd5b5051919050565b5f826200104657634e487b7160e01b5f52601260045260245ffd5b500490565b614bc880620010595f395ff3fe608060405234801561000f575f80fd5b50600436106102cd575f3560e01c80637d1b0cbe1161017c578063b626de1b116100dd578063e087ca7d11610093578063f2fde38b1161006e578063f2fde38b1461068c578063f49acd551461069f578063fc193645146106b2575f80fd5b8063e087ca7d14610632578063e134aa1314610652578063e63ab1e914610665575f80fd5b8063cfdbf254116100c3578063cfdbf2541461060f578063d547741f14610617578063da1f12ab1461062a575f80fd5b8063b626de1b146105e0578063caf2742014610607575f80fd5b806396c284b9116101325780639ad9dc0c116101185780639ad9dc0c14610595578063a50143af146105ba578063acda6f39146105cd575f80fd5b806396c284b91461057857806398dda7321461058d575f80fd5b806387c9663e1161016257806387c9663e14610538578063893d20e81461054b57806391d1485414610565575f80fd5b80637d1b0cbe146105105780638456cb5914610530575f80fd5b806336331c8f116102315780635c975abb116101e75780636e1d616e116101c25780636e1d616e146104ce5780637145b8e8146104f557806372f386f4146104fd575f80fd5b80635c975abb146104885780635ce23a93146104a5578063604f9e83146104c5575f80fd5b806348d8b5441161021757806348d8b5441461040157806349c9a0c71461045557806355254e8814610475575f80fd5b806336331c8f146103f15780633f4ba83a146103f9575f80fd5b80631e6c3850116102865780632f2ff15d1161026c5780632f2ff15d146103b6578063342b4164146103cb5780633579274d146103de575f80fd5b80631e6c38501461037a57806322ef3c8d14610383575f80fd5b806319efd5fc116102b657806319efd5fc146103125780631a48f1ee146103325780631cf27cfe14610353575f80fd5b806303e23320146102d157806306f13056146102fb575b5f80fd5b6102e46102df366004613ded565b6106d9565b6040516102f2929190613eb2565b60405180910390f35b61030460cb5481565b6040519081526020016102f2565b610325610320366004613ded565b610895565b6040516102f29190613ed3565b610345610340366004613fbf565b610a39565b6040516102f2929190614005565b6103047f1c594a920bb77aa84d4d5d27db612c9e3bae95534e15fd2841ab43f7714de5bf81565b61030460325481565b610396610391366004614061565b610a79565b6040805194855260208501939093529183015260608201526080016102f2565b6103c96103c43660046140f9565b610ba5565b005b6103c96103d93660046141bd565b610cee565b6103c96103ec366004614210565b610d9b565b610304600481565b6103c9610e52565b61041461040f366004614250565b610f4e565b6040516102f291905f60a082019050825182526020830151602083015260408301516040830152606083015160608301526080830151608083015292915050565b61046861046336600461426e565b611058565b6040516102f291906142d0565b6103c9610483366004614373565b6111f8565b6064546104959060ff1681565b60405190151581526020016102f2565b6104b86104b3366004614440565b611472565b6040516102f29190614482565b61030460335481565b6103047f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b61032561157d565b61039661050b366004613fbf565b611651565b61052361051e366004613ded565b6117e7565b6040516102f291906144c7565b6103c96119a3565b6103c9610546366004614569565b611aa3565b5f546040516001600160a01b0390911681526020016102f2565b6104956105733660046140f9565b611d1e565b610580611d62565b6040516102f291906145be565b60c954610304565b6105a86105a3366004613fbf565b611dbe565b6040516102f296959493929190614604565b6103046105c8366004614641565b611e86565b6103c96105db366004613fbf565b612222565b6103047f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c81565b610304600681565b610304600381565b6103c96106253660046140f9565b61229e565b612711610304565b6106456106403660046146f9565b61238c565b6040516102f29190614712565b6103c9610660366004613ded565b61247f565b6103047f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81565b6103c961069a36600461478c565b6125ff565b6103c96106ad3660046147a5565b612681565b6103047ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db44781565b60605f806106e660c95490565b90508085116106f557846106f7565b805b91505f6107048383614843565b8510610719576107148383614843565b61071b565b845b67ffffffffffffffff81111561073357610733613ee5565b60405190808252806020026020018201604052801561076657816020015b60608152602001906001900390816107515790505b5090505f5b828410801561077a5750815181105b156107f1575f61078985612707565b9050600361079e610799836127b2565b6127dc565b60038111156107af576107af613ff1565b036107de578083836107c081614856565b9450815181106107d2576107d261486e565b60200260200101819052505b846107e881614856565b9550505061076b565b8067ffffffffffffffff81111561080a5761080a613ee5565b60405190808252806020026020018201604052801561083d57816020015b60608152602001906001900390816108285790505b5094505f5b818110156108895782818151811061085c5761085c61486e565b60200260200101518682815181106108765761087661486e565b6020908102919091010152600101610842565b505050505b9250929050565b60c95460609083106108d357604080515f80825260208201909252906108cb565b60608152602001906001900390816108b65790505b509050610a33565b60c9545f906108e28486614882565b116108f6576108f18385614882565b6108fa565b60c9545b90506109068482614843565b67ffffffffffffffff81111561091e5761091e613ee5565b60405190808252806020026020018201604052801561095157816020015b606081526020019060019003908161093c5790505b509150835b81811015610a305760c981815481106109715761097161486e565b905f5260205f2001805461098490614895565b80601f01602080910402602001604051908101604052809291908181526020018280546109b090614895565b80156109fb5780601f106109d2576101008083540402835291602001916109fb565b820191905f5260205f20905b8154815290600101906020018083116109de57829003601f168201915b5050505050838683610a0d9190614843565b81518110610a1d57610a1d61486e565b6020908102919091010152600101610956565b50505b92915050565b5f805f610a45846127b2565b9050805f03610a5957505f93849350915050565b610a62816127dc565b603254610a6f9083614882565b9250925050915091565b5f805f807ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db447610aa88133611d1e565b610af55760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b60648201526084015b60405180910390fd5b60645460ff1615610b485760405162461bcd60e51b815260206004820152601260248201527f436f6e74726163742069732070617573656400000000000000000000000000006044820152606401610aec565b85515f03610b69576040516358f0ef4f60e11b815260040160405180910390fd5b5f610b7f610b788b8b8b612832565b8833612aca565b805160208201516040830151606090930151919d909c50919a5098509650505050505050565b5f546001600160a01b03163314610c125760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610aec565b6001600160a01b038116610c685760405162461bcd60e51b815260206004820152601e60248201527f4163636f756e742063616e6e6f74206265207a65726f206164647265737300006044820152606401610aec565b5f8281526001602090815260408083206001600160a01b038516845290915290205460ff16610cea575f8281526001602081815260408084206001600160a01b0386168086529252808420805460ff19169093179092559051339285917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a45b5050565b7f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f5610d198133611d1e565b610d615760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b5f5b8251811015610d9657610d8e838281518110610d8157610d8161486e565b6020026020010151612cfe565b600101610d63565b505050565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c610dc68133611d1e565b610e0e5760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b610e19848484612ed2565b6040514281527f78a481a9bf05238fc2e4b0fbe31376a20f5e458b448f89fb9305ab9be8c4651e9060200160405180910390a150505050565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a610e7d8133611d1e565b610ec55760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b60645460ff16610f175760405162461bcd60e51b815260206004820152601660248201527f436f6e7472616374206973206e6f7420706175736564000000000000000000006044820152606401610aec565b6064805460ff1916905560405133907f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa905f90a250565b6040805160a0810182525f80825260208201819052918101829052606081018290526080810182905290826004811115610f8a57610f8a613ff1565b03610fe15760405162461bcd60e51b815260206004820152602160248201527f4465636c696e6520686173206e6f207469657220636f6e66696775726174696f6044820152603760f91b6064820152608401610aec565b60966001836004811115610ff757610ff7613ff1565b6110019190614843565b600481106110115761101161486e565b600502016040518060a00160405290815f82015481526020016001820154815260200160028201548152602001600382015481526020016004820154815250509050919050565b6110906040518060a001604052805f6001600160a01b031681526020015f81526020015f815260200160608152602001606081525090565b5f82815260cc6020908152604091829020825160a08101845281546001600160a01b03168152600182015481840152600282015481850152600382018054855181860281018601909652808652919492936060860193929083018282801561111557602002820191905f5260205f20905b815481526020019060010190808311611101575b5050505050815260200160048201805480602002602001604051908101604052809291908181526020015f905b828210156111ea578382905f5260205f2001805461115f90614895565b80601f016020809104026020016040519081016040528092919081815260200182805461118b90614895565b80156111d65780601f106111ad576101008083540402835291602001916111d6565b820191905f5260205f20905b8154815290600101906020018083116111b957829003601f168201915b505050505081526020019060010190611142565b505050915250909392505050565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c6112238133611d1e565b61126b5760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b5f8467ffffffffffffffff81111561128557611285613ee5565b6040519080825280602002602001820160405280156112ae578160200160208202803683370190505b5090505f5b85811015611337576113128787838181106112d0576112d061486e565b9050602002013586868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b8282815181106113245761132461486e565b60209081029190910101526001016112b3565b505f6113788a86868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b90505f6113ba8a87878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b90505f83515f146113e9576113e46113d28385612f90565b85516113df9060646148c7565b612fbe565b6113f2565b6113f25f612fe0565b90506114028d8484848e89612ff2565b5f54611416906001600160a01b031661305e565b5f546001600160a01b03163314611430576114303361305e565b6040514281527f78a481a9bf05238fc2e4b0fbe31376a20f5e458b448f89fb9305ab9be8c4651e9060200160405180910390a150505050505050505050505050565b6060825167ffffffffffffffff81111561148e5761148e613ee5565b6040519080825280602002602001820160405280156114b7578160200160208202803683370190505b5090505f5b8351811015611576575f60c88583815181106114da576114da61486e565b60200260200101516040516114ef91906148de565b9081526020016040518091039020905061150c815f0154856131c9565b801561152157506115218160010154856131c9565b801561153657506115368160020154856131c9565b801561154b575061154b8160030154856131c9565b83838151811061155d5761155d61486e565b91151560209283029190910190910152506001016114bc565b5092915050565b606060c9805480602002602001604051908101604052809291908181526020015f905b82821015611648578382905f5260205f200180546115bd90614895565b80601f01602080910402602001604051908101604052809291908181526020018280546115e990614895565b80156116345780601f1061160b57610100808354040283529160200191611634565b820191905f5260205f20905b81548152906001019060200180831161161757829003601f168201915b5050505050815260200190600101906115a0565b50505050905090565b5f805f8084515f03611676576040516358f0ef4f60e11b815260040160405180910390fd5b5f60c88660405161168791906148de565b90815260200160405180910390206040518060c00160405290815f82015481526020016001820154815260200160028201548152602001600382015481526020016004820180546116d790614895565b80601f016020809104026020016040519081016040528092919081815260200182805461170390614895565b801561174e5780601f106117255761010080835404028352916020019161174e565b820191905f5260205f20905b81548152906001019060200180831161173157829003601f168201915b5050505050815260200160058201548152505090505f816080015151116117c65760405162461bcd60e51b815260206004820152602660248201527f4e6f206173736573736d656e7420666f756e6420666f72207468697320636c69604482015265195b9d08125160d21b6064820152608401610aec565b80516020820151604083015160a09093015191989097509195509350915050565b60605f6117f48484610895565b9050805167ffffffffffffffff81111561181057611810613ee5565b60405190808252806020026020018201604052801561186d57816020015b6040805160c0810182525f80825260208083018290529282018190526060808301829052608083015260a082015282525f1990920191018161182e5790505b5091505f5b8151811015610a305760c882828151811061188f5761188f61486e565b60200260200101516040516118a491906148de565b90815260200160405180910390206040518060c00160405290815f82015481526020016001820154815260200160028201548152602001600382015481526020016004820180546118f490614895565b80601f016020809104026020016040519081016040528092919081815260200182805461192090614895565b801561196b5780601f106119425761010080835404028352916020019161196b565b820191905f5260205f20905b81548152906001019060200180831161194e57829003601f168201915b505050505081526020016005820154815250508382815181106119905761199061486e565b6020908102919091010152600101611872565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a6119ce8133611d1e565b611a165760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b60645460ff1615611a695760405162461bcd60e51b815260206004820152601a60248201527f436f6e747261637420697320616c7265616479207061757365640000000000006044820152606401610aec565b6064805460ff1916600117905560405133907f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258905f90a250565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c611ace8133611d1e565b611b165760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b5f5b6004811015611cef57848160048110611b3357611b3361486e565b60a0020160800135858260048110611b4d57611b4d61486e565b60a00201606001351115611ba35760405162461bcd60e51b815260206004820152601e60248201527f496e74657265737420726174652062616e6420697320696e76657274656400006044820152606401610aec565b611ce781611bfe878460048110611bbc57611bbc61486e565b60a002015f013587878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b611c56888560048110611c1357611c1361486e565b60a002016020013588888080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b611cae898660048110611c6b57611c6b61486e565b60a002016040013589898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b898660048110611cc057611cc061486e565b60a00201606001358a8760048110611cda57611cda61486e565b60a00201608001356131d4565b600101611b18565b505f54611d04906001600160a01b031661305e565b5f546001600160a01b03163314610e1957610e193361305e565b5f80546001600160a01b0383811691161480611d5b57505f8381526001602090815260408083206001600160a01b038616845290915290205460ff165b9392505050565b611d6a613d43565b6040805160c0810190915260cd60065f835b8282101561164857604080518082019091528285015463ffffffff80821683526401000000009091041660208083019190915290825260019092019101611d7c565b805160208183018101805160c882529282019190930120915280546001820154600283015460038401546004850180549495939492939192611dff90614895565b80601f0160208091040260200160405190810160405280929190818152602001828054611e2b90614895565b8015611e765780601f10611e4d57610100808354040283529160200191611e76565b820191905f5260205f20905b815481529060010190602001808311611e5957829003601f168201915b5050505050908060050154905086565b5f7ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db447611eb28133611d1e565b611efa5760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b60645460ff1615611f4d5760405162461bcd60e51b815260206004820152601260248201527f436f6e74726163742069732070617573656400000000000000000000000000006044820152606401610aec565b82518614611f6e5760405163aaad13f760e01b815260040160405180910390fd5b6003861115611f9a5760405163bb1cb70b60e01b81526004810187905260036024820152604401610aec565b5f60cb5f8154611fa990614856565b91829055505f81815260cc60205260408120805473ffffffffffffffffffffffffffffffffffffffff191633178155426001820155909450909150835b888110156121d4578581815181106120005761200061486e565b6020026020010151515f0361206f5761206a8284838985815181106120275761202761486e565b60200260200101516040518060400160405280601981526020017f436c69656e742049442063616e6e6f7420626520656d7074790000000000000081525061324f565b6121cc565b5f6120928b8b848181106120855761208561486e565b905060c002018a8a612832565b9050306001600160a01b031663f49acd55828985815181106120b6576120b661486e565b6020026020010151336040518463ffffffff1660e01b81526004016120dd939291906148f9565b5f604051808303815f87803b1580156120f4575f80fd5b505af1925050508015612105575060015b612169576121648385848a86815181106121215761212161486e565b60200260200101516040518060400160405280601381526020017f4173736573736d656e742072657665727465640000000000000000000000000081525061324f565b6121ca565b8561217381614856565b965050837f6e1bd06b6a8a47e6222df6805adbbd0b8e49859eb7f937183e0fdc7ef399f3ad838985815181106121ab576121ab61486e565b60200260200101516040516121c192919061494f565b60405180910390a25b505b600101611fe6565b50600281018490556040805185815242602082015283917f3ac6281dd79aaadfa55a90ce64751c70e436c60cf6c1dc8e1c3dd5edac9aeeb7910160405180910390a250505095945050505050565b7f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f561224d8133611d1e565b6122955760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b610cea82612cfe565b5f546001600160a01b0316331461230b5760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610aec565b5f8281526001602090815260408083206001600160a01b038516845290915290205460ff1615610cea575f8281526001602090815260408083206001600160a01b0385168085529252808320805460ff1916905551339285917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a45050565b6040805160a0810182525f80825260208201819052918101829052606080820192909252608081019190915260aa8260058111156123cc576123cc613ff1565b600681106123dc576123dc61486e565b600502016040518060a00160405290815f82015481526020016001820154815260200160028201548152602001600382015f9054906101000a900460ff161515151581526020016004820180548060200260200160405190810160405280929190818152602001828054801561246f57602002820191905f5260205f20905b81548152602001906001019080831161245b575b5050505050815250509050919050565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c6124aa8133611d1e565b6124f25760405162461bcd60e51b815260206004820152602660248201525f80516020614b9c8339815191526044820152656420726f6c6560d01b6064820152608401610aec565b5f83116125415760405162461bcd60e51b815260206004820181905260248201527f56616c696469747920706572696f64206d75737420626520706f7369746976656044820152606401610aec565b828211156125b75760405162461bcd60e51b815260206004820152602660248201527f52656e6577616c2077696e646f7720657863656564732076616c69646974792060448201527f706572696f6400000000000000000000000000000000000000000000000000006064820152608401610aec565b6032839055603382905560408051848152602081018490527ffb645c6072fb9449c25b08a7a70f4f468051bc0dc34e5347f514a7fb41ad7f37910160405180910390a1505050565b5f546001600160a01b0316331461266c5760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610aec565b612675816132c9565b61267e8161305e565b50565b3330146126f65760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c792063616c6c61626c652066726f6d206261746368417373657373526960448201527f736b456e637279707465640000000000000000000000000000000000000000006064820152608401610aec565b612701838383612aca565b50505050565b606060c9828154811061271c5761271c61486e565b905f5260205f2001805461272f90614895565b80601f016020809104026020016040519081016040528092919081815260200182805461275b90614895565b80156127a65780601f1061277d576101008083540402835291602001916127a6565b820191905f5260205f20905b81548152906001019060200180831161278957829003601f168201915b50505050509050919050565b5f60c8826040516127c391906148de565b9081526020016040518091039020600501549050919050565b5f815f036127eb57505f919050565b5f603254836127fa9190614882565b905080421061280c5750600392915050565b806033544261281b9190614882565b106128295750600292915050565b50600192915050565b61283a613d7b565b61287c845f013584848080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b8152604080516020601f85018190048102820181019092528381526128c09186810135919086908690819084018382808284375f92019190915250612f8392505050565b60208083019190915260408051601f8501839004830281018301825284815261290792918701359186908690819084018382808284375f92019190915250612f8392505050565b816002602002018181525050612956846060013584848080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250612f8392505050565b6060820152604080516020601f850181900481028201810190925283815261299e916080870135919086908690819084018382808284375f92019190915250612f8392505050565b6080820152604080516020601f85018190048102820181019092528381526129e69160a0870135919086908690819084018382808284375f92019190915250612f8392505050565b60a08201525f5b6006811015612ac2575f60cd8260068110612a0a57612a0a61486e565b01805490915063ffffffff1615612a5a57612a42838360068110612a3057612a3061486e565b6020020151825463ffffffff166133ba565b838360068110612a5457612a5461486e565b60200201525b805463ffffffff64010000000090910481161015612ab957612aa1838360068110612a8757612a8761486e565b60200201518254640100000000900463ffffffff166133de565b838360068110612ab357612ab361486e565b60200201525b506001016129ed565b509392505050565b6040805160c0810182525f808252602082018190529181018290526060808201839052608082015260a0810191909152612b0384613402565b6020828101829052850151612b189190613468565b80845260408401919091526060830191909152608082018490524260a0830152612b419061353e565b50612b4f816020015161353e565b50612b5d816040015161353e565b50612b6b816060015161353e565b50612b76818361354d565b5f546001600160a01b03838116911614612ba0575f54612ba09082906001600160a01b031661354d565b8060c884604051612bb191906148de565b90815260408051602092819003830190208351815591830151600183015582015160028201556060820151600382015560808201516004820190612bf590826149b2565b5060a08201518160050155905050612c238380516020918201205f90815260ca909152604090205460ff1690565b612c875782516020808501919091205f90815260ca90915260408120805460ff1916600190811790915560c9805491820181559091527f66be4f155c5ef2ebd3772b228f2f00681e4ed5826cdb3b1943cc11ad15ad1d2801612c8584826149b2565b505b82604051612c9591906148de565b604080519182900382208351602080860151868501516060808901519488529287019190915285850152840152426080840152905190917fd786bdeaebeb385281a7eff354dc5c20518958123862a3837f6c64c2ff320737919081900360a00190a29392505050565b80515f03612d1f576040516358f0ef4f60e11b815260040160405180910390fd5b5f60c882604051612d3091906148de565b908152602001604051809103902090505f816004018054612d5090614895565b905011612dae5760405162461bcd60e51b815260206004820152602660248201527f4e6f206173736573736d656e7420666f756e6420666f72207468697320636c69604482015265195b9d08125160d21b6064820152608401610aec565b612e84816040518060c00160405290815f8201548152602001600182015481526020016002820154815260200160038201548152602001600482018054612df490614895565b80601f0160208091040260200160405190810160405280929190818152602001828054612e2090614895565b8015612e6b5780601f10612e4257610100808354040283529160200191612e6b565b820191905f5260205f20905b815481529060010190602001808311612e4e57829003601f168201915b505050505081526020016005820154815250503361354d565b6040513390612e949084906148de565b604051908190038120428252907f8c55785c3e6e8a6a3b1a2cd3adbaba6953547b8e5d0096f9f3b85d0ef63f3e919060200160405180910390a35050565b8063ffffffff168263ffffffff161115612f0557828282604051632fb2722f60e11b8152600401610aec93929190614a72565b60405180604001604052808363ffffffff1681526020018263ffffffff1681525060cd846005811115612f3a57612f3a613ff1565b60068110612f4a57612f4a61486e565b82519101805460209093015163ffffffff9081166401000000000267ffffffffffffffff19909416921691909117919091179055505050565b5f611d5b83836004613586565b5f82612fa257612f9f5f612fe0565b92505b81612fb357612fb05f612fe0565b91505b611d5b83835f613680565b5f82612fd057612fcd5f612fe0565b92505b611d5b8363ffffffff841661373d565b5f610a338263ffffffff1660046137e3565b5f60aa87600581111561300757613007613ff1565b600681106130175761301761486e565b60050201868155600181018690556002810185905560038101805460ff191685151517905582519091506130549060048301906020850190613d99565b5050505050505050565b5f5b60048110156130e0575f6096826004811061307d5761307d61486e565b60050201905061308f815f015461353e565b5061309d816001015461353e565b506130ab816002015461353e565b5080546130b8908461387a565b506130c781600101548461387a565b506130d681600201548461387a565b5050600101613060565b505f5b6006811015610cea575f60aa82600681106131005761310061486e565b600502019050613112815f015461353e565b50613120816001015461353e565b5061312e816002015461353e565b50805461313b908461387a565b5061314a81600101548461387a565b5061315981600201548461387a565b505f5b60048201548110156131bf5761318e8260040182815481106131805761318061486e565b905f5260205f20015461353e565b506131b68260040182815481106131a7576131a761486e565b905f5260205f2001548561387a565b5060010161315c565b50506001016130e3565b5f611d5b838361388c565b6040518060a001604052808681526020018581526020018481526020018381526020018281525060965f0187600481106132105761321061486e565b600502015f820151815f015560208201518160010155604082015181600201556060820151816003015560808201518160040155905050505050505050565b600385018054600181810183555f92835260208084209092018690556004880180549182018155835291200161328582826149b2565b50837fb41733d306106548e3beee205224a8b4a322eda3e394890dd286b03a2065c2558484846040516132ba93929190614aa1565b60405180910390a25050505050565b5f546001600160a01b031633146133365760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610aec565b6001600160a01b03811661338c5760405162461bcd60e51b815260206004820181905260248201527f4e6577206f776e65722063616e6e6f74206265207a65726f20616464726573736044820152606401610aec565b5f805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0392909216919091179055565b5f826133cc576133c95f612fe0565b92505b611d5b8363ffffffff84166001613910565b5f826133f0576133ed5f612fe0565b92505b611d5b8363ffffffff84166001613987565b5f61341560aa83835b60200201516139fe565b905060015b6006811015613462576134588261345360aa846006811061343d5761343d61486e565b6005020186856006811061340b5761340b61486e565b613ade565b915060010161341a565b50919050565b5f8080613475815b613b0c565b92505f6134815f612fe0565b90505f61348d5f612fe0565b90505f5b6004811015613515575f609682600481106134ae576134ae61486e565b6005020190505f6134c28a835f0154613b1b565b9050825f036134cf578096505b6134e7816134e1613470866001614882565b8a613b49565b97506134f881836001015487613b49565b945061350981836002015486613b49565b93505050600101613491565b5061353361352d61352788600c612fbe565b84612f90565b82613b55565b925050509250925092565b5f6135498230613b83565b5090565b8151613559908261387a565b5061356882602001518261387a565b5061357782604001518261387a565b50610d9682606001518261387a565b5f80516020614b5c8339815191525460405163196d0b9b60e01b81525f915f80516020614b7c833981519152916001600160a01b039091169063196d0b9b906135d9908890339089908990600401614adf565b6020604051808303815f875af11580156135f5573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906136199190614b15565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015613662575f80fd5b505af1158015613674573d5f803e3d5ffd5b50505050509392505050565b5f8082156136935750600160f81b613696565b505f5b5f80516020614b5c83398151915254604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f80516020614b7c833981519152916001600160a01b0316906357f0a568906064015b6020604051808303815f875af115801561370f573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906137339190614b15565b9695505050505050565b5f80516020614b5c83398151915254604051635a53accb60e01b81526004810184905260248101839052600160f81b604482018190525f9290915f80516020614b7c833981519152916001600160a01b031690635a53accb906064015b6020604051808303815f875af11580156137b6573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906137da9190614b15565b95945050505050565b5f80516020614b5c83398151915254604051639cd07acb60e01b81525f915f80516020614b7c833981519152916001600160a01b0390911690639cd07acb906138329087908790600401614b2c565b6020604051808303815f875af115801561384e573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906138729190614b15565b949350505050565b5f6138858383613b83565b5090919050565b5f805f80516020614b7c83398151915280546040516382027b6d60e01b8152600481018790526001600160a01b0386811660248301529293509116906382027b6d90604401602060405180830381865afa1580156138ec573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906138729190614b40565b5f8082156139235750600160f81b613926565b505f5b5f80516020614b5c83398151915254604051630d8c635960e21b815260048101879052602481018690526001600160f81b0319831660448201525f80516020614b7c833981519152916001600160a01b0316906336318d64906064016136f3565b5f80821561399a5750600160f81b61399d565b505f5b5f80516020614b5c833981519152546040516304559f7160e01b815260048101879052602481018690526001600160f81b0319831660448201525f80516020614b7c833981519152916001600160a01b0316906304559f71906064016136f3565b60048201545f90808203613a1d57613a155f612fe0565b915050610a33565b60038401545f9060ff16613a35578460020154613a3e565b613a3e5f612fe0565b60038601549091505f9060ff16613a5d57613a585f612fe0565b613a63565b85600201545b9050613a96613a8f86886004015f81548110613a8157613a8161486e565b905f5260205f200154613b1b565b8383613b49565b935060015b83811015613ad457613aca85613453613ac3898b6004018681548110613a8157613a8161486e565b8686613b49565b9450600101613a9b565b5050505092915050565b5f82613af057613aed5f612fe0565b92505b81613b0157613afe5f612fe0565b91505b611d5b83835f613bf9565b5f610a338260ff1660026137e3565b5f82613b2d57613b2a5f612fe0565b92505b81613b3e57613b3b5f612fe0565b91505b611d5b83835f613c70565b5f613872848484613ce7565b5f82613b6757613b645f612fe0565b92505b81613b7857613b755f612fe0565b91505b611d5b83835f613987565b5f5f80516020614b7c8339815191528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015613bde575f80fd5b505af1158015613bf0573d5f803e3d5ffd5b50505050505050565b5f808215613c0c5750600160f81b613c0f565b505f5b5f80516020614b5c8339815191525460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f80516020614b7c833981519152916001600160a01b03169063117b2f38906064016136f3565b5f808215613c835750600160f81b613c86565b505f5b5f80516020614b5c83398151915254604051631391547f60e01b815260048101879052602481018690526001600160f81b0319831660448201525f80516020614b7c833981519152916001600160a01b031690631391547f906064016136f3565b5f80516020614b5c83398151915254604051637702dcff60e01b81526004810185905260248101849052604481018390525f915f80516020614b7c833981519152916001600160a01b0390911690637702dcff9060640161379a565b6040518060c001604052806006905b604080518082019091525f8082526020820152815260200190600190039081613d525790505090565b6040518060c001604052806006906020820280368337509192915050565b828054828255905f5260205f20908101928215613dd2579160200282015b82811115613dd2578251825591602001919060010190613db7565b506135499291505b80821115613549575f8155600101613dda565b5f8060408385031215613dfe575f80fd5b50508035926020909101359150565b5f5b83811015613e27578181015183820152602001613e0f565b50505f910152565b5f8151808452613e46816020860160208601613e0d565b601f01601f19169290920160200192915050565b5f8282518085526020808601955060208260051b840101602086015f5b84811015613ea557601f19868403018952613e93838351613e2f565b98840198925090830190600101613e77565b5090979650505050505050565b604081525f613ec46040830185613e5a565b90508260208301529392505050565b602081525f611d5b6020830184613e5a565b634e487b7160e01b5f52604160045260245ffd5b60405160c0810167ffffffffffffffff81118282101715613f1c57613f1c613ee5565b60405290565b604051601f8201601f1916810167ffffffffffffffff81118282101715613f4b57613f4b613ee5565b604052919050565b5f82601f830112613f62575f80fd5b813567ffffffffffffffff811115613f7c57613f7c613ee5565b613f8f601f8201601f1916602001613f22565b818152846020838601011115613fa3575f80fd5b816020850160208301375f918101602001919091529392505050565b5f60208284031215613fcf575f80fd5b813567ffffffffffffffff811115613fe5575f80fd5b61387284828501613f53565b634e487b7160e01b5f52602160045260245ffd5b604081016004841061401957614019613ff1565b9281526020015290565b5f8083601f840112614033575f80fd5b50813567ffffffffffffffff81111561404a575f80fd5b60208301915083602082850101111561088e575f80fd5b5f805f80848603610100811215614076575f80fd5b60c0811215614083575f80fd5b5084935060c085013567ffffffffffffffff808211156140a1575f80fd5b6140ad88838901614023565b909550935060e08701359150808211156140c5575f80fd5b506140d287828801613f53565b91505092959194509250565b80356001600160a01b03811681146140f4575f80fd5b919050565b5f806040838503121561410a575f80fd5b8235915061411a602084016140de565b90509250929050565b5f82601f830112614132575f80fd5b8135602067ffffffffffffffff8083111561414f5761414f613ee5565b8260051b61415e838201613f22565b9384528581018301938381019088861115614177575f80fd5b84880192505b858310156141b157823584811115614193575f80fd5b6141a18a87838c0101613f53565b835250918401919084019061417d565b98975050505050505050565b5f602082840312156141cd575f80fd5b813567ffffffffffffffff8111156141e3575f80fd5b61387284828501614123565b8035600681106140f4575f80fd5b803563ffffffff811681146140f4575f80fd5b5f805f60608486031215614222575f80fd5b61422b846141ef565b9250614239602085016141fd565b9150614247604085016141fd565b90509250925092565b5f60208284031215614260575f80fd5b813560058110611d5b575f80fd5b5f6020828403121561427e575f80fd5b5035919050565b5f8282518085526020808601955060208260051b840101602086015f5b84811015613ea557601f198684030189526142be838351613e2f565b988401989250908301906001016142a2565b5f602080835260c083016001600160a01b038551168285015281850151604085015260408501516060850152606085015160a0608086015281815180845260e08701915084830193505f92505b8083101561433d578351825292840192600192909201919084019061431d565b506080870151868203601f190160a0880152935061435b8185614285565b979650505050505050565b801515811461267e575f80fd5b5f805f805f805f8060c0898b03121561438a575f80fd5b614393896141ef565b9750602089013596506040890135955060608901356143b181614366565b9450608089013567ffffffffffffffff808211156143cd575f80fd5b818b0191508b601f8301126143e0575f80fd5b8135818111156143ee575f80fd5b8c60208260051b8501011115614402575f80fd5b6020830196508095505060a08b013591508082111561441f575f80fd5b5061442c8b828c01614023565b999c989b5096995094979396929594505050565b5f8060408385031215614451575f80fd5b823567ffffffffffffffff811115614467575f80fd5b61447385828601614123565b92505061411a602084016140de565b602080825282518282018190525f9190848201906040850190845b818110156144bb57835115158352928401929184019160010161449d565b50909695505050505050565b5f60208083018184528085518083526040925060408601915060408160051b8701018488015f5b8381101561455b57603f19898403018552815160c081518552888201518986015287820151888601526060808301518187015250608080830151828288015261453983880182613e2f565b60a09485015197909401969096525050948701949250908601906001016144ee565b509098975050505050505050565b5f805f6102a0848603121561457c575f80fd5b61028084018581111561458d575f80fd5b8493503567ffffffffffffffff8111156145a5575f80fd5b6145b186828701614023565b9497909650939450505050565b610180810181835f5b60068110156145fb578151805163ffffffff90811685526020918201511681850152604090930192909101906001016145c7565b50505092915050565b86815285602082015284604082015283606082015260c060808201525f61462e60c0830185613e2f565b90508260a0830152979650505050505050565b5f805f805f60608688031215614655575f80fd5b853567ffffffffffffffff8082111561466c575f80fd5b818801915088601f83011261467f575f80fd5b81358181111561468d575f80fd5b89602060c0830285010111156146a1575f80fd5b6020928301975095509087013590808211156146bb575f80fd5b6146c789838a01614023565b909550935060408801359150808211156146df575f80fd5b506146ec88828901614123565b9150509295509295909350565b5f60208284031215614709575f80fd5b611d5b826141ef565b5f602080835260c0830184518285015281850151604085015260408501516060850152606085015115156080850152608085015160a08086015281815180845260e08701915084830193505f92505b808310156147815783518252928401926001929092019190840190614761565b509695505050505050565b5f6020828403121561479c575f80fd5b611d5b826140de565b5f805f61010084860312156147b8575f80fd5b84601f8501126147c6575f80fd5b6147ce613ef9565b8060c08601878111156147df575f80fd5b865b818110156147f95780358452602093840193016147e1565b5090945035905067ffffffffffffffff811115614814575f80fd5b61482086828701613f53565b92505061424760e085016140de565b634e487b7160e01b5f52601160045260245ffd5b81810381811115610a3357610a3361482f565b5f600182016148675761486761482f565b5060010190565b634e487b7160e01b5f52603260045260245ffd5b80820180821115610a3357610a3361482f565b600181811c908216806148a957607f821691505b60208210810361346257634e487b7160e01b5f52602260045260245ffd5b8082028115828204841417610a3357610a3361482f565b5f82516148ef818460208701613e0d565b9190910192915050565b5f6101008286835b6006811015614920578151835260209283019290910190600101614901565b5050508060c084015261493581840186613e2f565b9150506001600160a01b03831660e0830152949350505050565b828152604060208201525f6138726040830184613e2f565b601f821115610d9657805f5260205f20601f840160051c8101602085101561498c5750805b601f840160051c820191505b818110156149ab575f8155600101614998565b5050505050565b815167ffffffffffffffff8111156149cc576149cc613ee5565b6149e0816149da8454614895565b84614967565b602080601f831160018114614a13575f84156149fc5750858301515b5f19600386901b1c1916600185901b178555614a6a565b5f85815260208120601f198616915b82811015614a4157888601518255948401946001909101908401614a22565b5085821015614a5e57878501515f19600388901b60f8161c191681555b505060018460011b0185555b505050505050565b6060810160068510614a8657614a86613ff1565b93815263ffffffff9283166020820152911660409091015290565b838152606060208201525f614ab96060830185613e2f565b82810360408401526137338185613e2f565b60548110614adb57614adb613ff1565b9052565b8481526001600160a01b0384166020820152608060408201525f614b066080830185613e2f565b90506137da6060830184614acb565b5f60208284031215614b25575f80fd5b5051919050565b82815260408101611d5b6020830184614acb565b5f60208284031215614b50575f80fd5b8151611d5b8161436656fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970043616c6c657220646f6573206e6f742068617665207468652072657175697265a164736f6c6343000818000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
+
+type RiskControlFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RiskControlFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RiskControlFHE__factory extends ContractFactory {
+  constructor(...args: RiskControlFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RiskControlFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RiskControlFHE__factory {
+    return super.connect(runner) as RiskControlFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RiskControlFHEInterface {
+    return new Interface(_abi) as RiskControlFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RiskControlFHE {
+    return new Contract(address, _abi, runner) as unknown as RiskControlFHE;
+  }
+}
@@ -0,0 +1,277 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RiskControlLogic,
+  RiskControlLogicInterface,
+} from "../../contracts/RiskControlLogic";
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "flaggedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AppealFlagged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolvedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overridden",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AppealResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchAssessmentPerformed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+    ],
+    name: "BatchItemAssessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "BatchItemFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "tier",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "originalApproved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "originalTier",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "originalCreditLimit",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskControl.OverrideReason",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "overriddenBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DecisionOverridden",
+    type: "event",
+  },
+] as const;
+
+const _bytecode =
+  "0x611cfc610035600b8282823980515f1a60731461002957634e487b7160e01b5f525f60045260245ffd5b305f52607381538281f3fe730000000000000000000000000000000000000000301460806040526004361061006f575f3560e01c80637cf09b51116100585780637cf09b51146100c55780639aafda83146100e4578063e2afe56b14610103575f80fd5b80633ce4c129146100735780634089ce9b14610094575b5f80fd5b81801561007e575f80fd5b5061009261008d36600461138c565b610122565b005b81801561009f575f80fd5b506100b36100ae36600461153f565b6102a3565b60405190815260200160405180910390f35b8180156100d0575f80fd5b506100926100df36600461164f565b61049b565b8180156100ef575f80fd5b506100926100fe366004611699565b610610565b81801561010e575f80fd5b5061009261011d36600461171b565b61081e565b5f8151118061012f575082155b6101a65760405162461bcd60e51b815260206004820152602760248201527f427265616b706f696e747320726571756972656420666f722061206e6f6e2d7a60448201527f65726f206361700000000000000000000000000000000000000000000000000060648201526084015b60405180910390fd5b60015b815181101561026b57816101be6001836117aa565b815181106101ce576101ce6117bd565b60200260200101518282815181106101e8576101e86117bd565b6020026020010151116102635760405162461bcd60e51b815260206004820152602660248201527f427265616b706f696e7473206d757374206265207374726963746c792061736360448201527f656e64696e670000000000000000000000000000000000000000000000000000606482015260840161019d565b6001016101a9565b508385556001850183905560028501805460ff1916831515179055805161029b9060038701906020840190611257565b505050505050565b83547fffffffffffffffffffffffff000000000000000000000000000000000000000016331784554260018501555f805b8351811015610451573073ffffffffffffffffffffffffffffffffffffffff1663e5efa7c185838151811061030b5761030b6117bd565b6020026020010151858481518110610325576103256117bd565b60200260200101516040518363ffffffff1660e01b815260040161034a92919061181e565b6080604051808303815f875af1925050508015610384575060408051601f3d908101601f1916820190925261038191810190611871565b60015b6103e3573d8080156103b1576040519150601f19603f3d011682016040523d82523d5f602084013e6103b6565b606091505b506103dd8787848786815181106103cf576103cf6117bd565b602002602001015185610ada565b50610449565b5050505081806103f2906118b9565b925050847f6e1bd06b6a8a47e6222df6805adbbd0b8e49859eb7f937183e0fdc7ef399f3ad8285848151811061042a5761042a6117bd565b60200260200101516040516104409291906118d1565b60405180910390a25b6001016102d4565b50600285018190556040805182815242602082015285917f3ac6281dd79aaadfa55a90ce64751c70e436c60cf6c1dc8e1c3dd5edac9aeeb7910160405180910390a2949350505050565b600184826040516104ac91906118fd565b9081526040519081900360200190205460ff1660028111156104d0576104d06118e9565b036105435760405162461bcd60e51b815260206004820152602960248201527f41707065616c20616c72656164792070656e64696e6720666f7220746869732060448201527f636c69656e742049440000000000000000000000000000000000000000000000606482015260840161019d565b6001848260405161055491906118fd565b908152604051908190036020019020805460ff1916600183600281111561057d5761057d6118e9565b021790555082546001810184555f848152602090200161059d828261199c565b50825460405183906105b09084906118fd565b9081526040519081900360200181209190915533906105d09083906118fd565b604051908190038120428252907fba291554d92e05fa4e918f7a36cb99da25fbab29e2ef13842113759ce95961969060200160405180910390a350505050565b5f838360405161062091906118fd565b90815260200160405180910390205490505f856001878054905061064491906117aa565b81548110610654576106546117bd565b905f5260205f2001805461066790611918565b80601f016020809104026020016040519081016040528092919081815260200182805461069390611918565b80156106de5780601f106106b5576101008083540402835291602001916106de565b820191905f5260205f20905b8154815290600101906020018083116106c157829003601f168201915b5050505050905080866001846106f491906117aa565b81548110610704576107046117bd565b905f5260205f20019081610718919061199c565b5081858260405161072991906118fd565b90815260405190819003602001902055855486908061074a5761074a611a58565b600190038181905f5260205f20015f61076391906112a0565b9055848460405161077491906118fd565b90815260200160405180910390205f90556002878560405161079691906118fd565b908152604051908190036020019020805460ff191660018360028111156107bf576107bf6118e9565b021790555060405133906107d49086906118fd565b604080519182900382208615158352426020840152917f5264d05f03e661cf5d3da1c56a4cb1d0a5c668a0014aef05177f81c61308d171910160405180910390a350505050505050565b5f80846004811115610832576108326118e9565b141590508080610840575082155b6108b25760405162461bcd60e51b815260206004820152602e60248201527f4465636c696e6564206465636973696f6e732063616e6e6f742063617272792060448201527f6120637265646974206c696d6974000000000000000000000000000000000000606482015260840161019d565b86546109265760405162461bcd60e51b815260206004820152602660248201527f4e6f206173736573736d656e7420666f756e6420666f72207468697320636c6960448201527f656e742049440000000000000000000000000000000000000000000000000000606482015260840161019d565b86545f90610936906001906117aa565b90505f88828154811061094b5761094b6117bd565b5f9182526020808320858452908b90526040909220600591909102909101600281015490925062010000900460ff166109ce57600282018054825460ff918216151560ff1991821617845584546001858101919091559254600685018054610100909204909316939116908360048111156109c8576109c86118e9565b02179055505b60028101805460ff191685151517905560068101805488919061ff001916610100836004811115610a0157610a016118e9565b02179055506003810186905560048101805486919060ff19166001836005811115610a2e57610a2e6118e9565b0217905550600481810180547fffffffffffffffffffffff0000000000000000000000000000000000000000ff16336101009081029190911790915542600584015560028401805460ff19811688151590811783558b94929361ffff1990921661ff001990911617918490811115610aa857610aa86118e9565b021790555085825560028201805462ff0000191662010000179055610ace888483610b62565b50505050505050505050565b5f610ae482610c16565b600387018054600181810183555f928352602080842090920188905560048a01805491820181558352912091925001610b1d828261199c565b50847fb41733d306106548e3beee205224a8b4a322eda3e394890dd286b03a2065c255858584604051610b5293929190611a6c565b60405180910390a2505050505050565b600481015460405161010090910473ffffffffffffffffffffffffffffffffffffffff1690610b929085906118fd565b60405190819003812060028401546006850154600386015486546001880154600489015460058a015496977fd3eede1b2fe0201a9971966fab9527e3fd9337bc73ef2ace6d4c050935fc25d297610c09978d9760ff9182169761010082048316979096908316959183169490939190921691611ab4565b60405180910390a3505050565b60605f610c2283611b1a565b905063270f10b160e11b6001600160e01b0319821601610c7757505060408051808201909152601981527f436c69656e742049442063616e6e6f7420626520656d707479000000000000006020820152919050565b6001600160e01b0319811663fd2468d760e01b148015610c98575082516084145b15610de2575f60048451610cac91906117aa565b67ffffffffffffffff811115610cc457610cc46112fb565b6040519080825280601f01601f191660200182016040528015610cee576020820181803683370190505b5090505f5b8151811015610d6b5784610d08826004611b51565b81518110610d1857610d186117bd565b602001015160f81c60f81b828281518110610d3557610d356117bd565b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191690815f1a905350600101610cf3565b505f805f8084806020019051810190610d849190611b64565b9350935093509350610d9584610e1d565b610d9f8585610fd7565b610da98685610fd7565b610db38785610fd7565b604051602001610dc69493929190611ba0565b6040516020818303038152906040529650505050505050919050565b505060408051808201909152601381527f4173736573736d656e74207265766572746564000000000000000000000000006020820152919050565b60605f826005811115610e3257610e326118e9565b03610e5657505060408051808201909152600381526241676560e81b602082015290565b6001826005811115610e6a57610e6a6118e9565b03610ea857505060408051808201909152600681527f496e636f6d650000000000000000000000000000000000000000000000000000602082015290565b6002826005811115610ebc57610ebc6118e9565b03610efa57505060408051808201909152600e81527f446562742d746f2d696e636f6d65000000000000000000000000000000000000602082015290565b6003826005811115610f0e57610f0e6118e9565b03610f4c57505060408051808201909152601081527f456d706c6f796d656e7420796561727300000000000000000000000000000000602082015290565b6004826005811115610f6057610f606118e9565b03610f9e57505060408051808201909152600b81527f4f626c69676174696f6e73000000000000000000000000000000000000000000602082015290565b505060408051808201909152600d81527f44656c696e7175656e6369657300000000000000000000000000000000000000602082015290565b60606001836005811115610fed57610fed6118e9565b1461100257610ffb826110d9565b90506110d3565b620f42405f6110196110148386611c51565b6110d9565b90505f6110268386611c64565b9050805f03611039575091506110d39050565b60065b611047600a83611c64565b5f0361106c57611058600a83611c51565b91508061106481611c77565b91505061103c565b5f611076836110d9565b90505b81815110156110a957806040516020016110939190611c8c565b6040516020818303038152906040529050611079565b83816040516020016110bc929190611cb4565b604051602081830303815290604052955050505050505b92915050565b60605f6110e583611176565b60010190505f8167ffffffffffffffff811115611104576111046112fb565b6040519080825280601f01601f19166020018201604052801561112e576020820181803683370190505b5090508181016020015b5f19017f3031323334353637383961626364656600000000000000000000000000000000600a86061a8153600a850494508461113857509392505050565b5f807a184f03e93ff9f4daa797ed6e38ed64bf6a1f01000000000000000083106111be577a184f03e93ff9f4daa797ed6e38ed64bf6a1f010000000000000000830492506040015b6d04ee2d6d415b85acef810000000083106111ea576d04ee2d6d415b85acef8100000000830492506020015b662386f26fc10000831061120857662386f26fc10000830492506010015b6305f5e1008310611220576305f5e100830492506008015b612710831061123457612710830492506004015b60648310611246576064830492506002015b600a83106110d35760010192915050565b828054828255905f5260205f20908101928215611290579160200282015b82811115611290578251825591602001919060010190611275565b5061129c9291506112da565b5090565b5080546112ac90611918565b5f825580601f106112bb575050565b601f0160209004905f5260205f20908101906112d791906112da565b50565b5b8082111561129c575f81556001016112db565b80151581146112d7575f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405160c0810167ffffffffffffffff81118282101715611332576113326112fb565b60405290565b604051601f8201601f1916810167ffffffffffffffff81118282101715611361576113616112fb565b604052919050565b5f67ffffffffffffffff821115611382576113826112fb565b5060051b60200190565b5f805f805f60a086880312156113a0575f80fd5b8535945060208087013594506040870135935060608701356113c1816112ee565b9250608087013567ffffffffffffffff8111156113dc575f80fd5b8701601f810189136113ec575f80fd5b80356113ff6113fa82611369565b611338565b81815260059190911b8201830190838101908b83111561141d575f80fd5b928401925b8284101561143b57833582529284019290840190611422565b80955050505050509295509295909350565b5f82601f83011261145c575f80fd5b813567ffffffffffffffff811115611476576114766112fb565b611489601f8201601f1916602001611338565b81815284602083860101111561149d575f80fd5b816020850160208301375f918101602001919091529392505050565b5f82601f8301126114c8575f80fd5b813560206114d86113fa83611369565b82815260059290921b840181019181810190868411156114f6575f80fd5b8286015b8481101561153457803567ffffffffffffffff811115611518575f80fd5b6115268986838b010161144d565b8452509183019183016114fa565b509695505050505050565b5f805f8060808587031215611552575f80fd5b84359350602080860135935060408087013567ffffffffffffffff80821115611579575f80fd5b818901915089601f83011261158c575f80fd5b813561159a6113fa82611369565b81815260c0918202840186019186820191908d8411156115b8575f80fd5b948701945b8386101561161c5780868f0312156115d3575f80fd5b6115db61130f565b8635815288870135898201528787013588820152606080880135908201526080808801359082015260a08088013590820152835294850194918701916115bd565b50975050506060890135935080841115611634575f80fd5b505050611643878288016114b9565b91505092959194509250565b5f805f8060808587031215611662575f80fd5b843593506020850135925060408501359150606085013567ffffffffffffffff81111561168d575f80fd5b6116438782880161144d565b5f805f805f60a086880312156116ad575f80fd5b853594506020860135935060408601359250606086013567ffffffffffffffff8111156116d8575f80fd5b6116e48882890161144d565b92505060808601356116f5816112ee565b809150509295509295909350565b600581106112d7575f80fd5b600681106112d7575f80fd5b5f805f805f8060c08789031215611730575f80fd5b8635955060208701359450604087013567ffffffffffffffff811115611754575f80fd5b61176089828a0161144d565b945050606087013561177181611703565b92506080870135915060a08701356117888161170f565b809150509295509295509295565b634e487b7160e01b5f52601160045260245ffd5b818103818111156110d3576110d3611796565b634e487b7160e01b5f52603260045260245ffd5b5f5b838110156117eb5781810151838201526020016117d3565b50505f910152565b5f815180845261180a8160208601602086016117d1565b601f01601f19169290920160200192915050565b825181526020830151602082015260408301516040820152606083015160608201526080830151608082015260a083015160a082015260e060c08201525f61186960e08301846117f3565b949350505050565b5f805f8060808587031215611884575f80fd5b8451935060208501519250604085015161189d816112ee565b60608601519092506118ae81611703565b939692955090935050565b5f600182016118ca576118ca611796565b5060010190565b828152604060208201525f61186960408301846117f3565b634e487b7160e01b5f52602160045260245ffd5b5f825161190e8184602087016117d1565b9190910192915050565b600181811c9082168061192c57607f821691505b60208210810361194a57634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561199757805f5260205f20601f840160051c810160208510156119755750805b601f840160051c820191505b81811015611994575f8155600101611981565b50505b505050565b815167ffffffffffffffff8111156119b6576119b66112fb565b6119ca816119c48454611918565b84611950565b602080601f8311600181146119fd575f84156119e65750858301515b5f19600386901b1c1916600185901b17855561029b565b5f85815260208120601f198616915b82811015611a2b57888601518255948401946001909101908401611a0c565b5085821015611a4857878501515f19600388901b60f8161c191681555b5050505050600190811b01905550565b634e487b7160e01b5f52603160045260245ffd5b838152606060208201525f611a8460608301856117f3565b8281036040840152611a9681856117f3565b9695505050505050565b60058110611ab057611ab06118e9565b9052565b89815288151560208201526101208101611ad1604083018a611aa0565b8760608301528615156080830152611aec60a0830187611aa0565b8460c083015260068410611b0257611b026118e9565b60e08201939093526101000152979650505050505050565b805160208201516001600160e01b03198082169291906004831015611b495780818460040360031b1b83161693505b505050919050565b808201808211156110d3576110d3611796565b5f805f8060808587031215611b77575f80fd5b8451611b828161170f565b60208601516040870151606090970151919890975090945092505050565b5f85516020611bb28285838b016117d1565b600160fd1b9184019182528651611bcf8160018501848b016117d1565b7f206973206f757473696465207468652076616c69642072616e67652000000000600193909101928301528551611c0c81601d8501848a016117d1565b62e2809360e81b601d93909101928301528451611c2e818385018489016117d1565b91909101019695505050505050565b634e487b7160e01b5f52601260045260245ffd5b5f82611c5f57611c5f611c3d565b500490565b5f82611c7257611c72611c3d565b500690565b5f81611c8557611c85611796565b505f190190565b600360fc1b81525f8251611ca78160018501602087016117d1565b9190910160010192915050565b5f8351611cc58184602088016117d1565b601760f91b9083019081528351611ce38160018401602088016117d1565b0160010194935050505056fea164736f6c6343000818000a";
+
+type RiskControlLogicConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RiskControlLogicConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RiskControlLogic__factory extends ContractFactory {
+  constructor(...args: RiskControlLogicConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RiskControlLogic & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RiskControlLogic__factory {
+    return super.connect(runner) as RiskControlLogic__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RiskControlLogicInterface {
+    return new Interface(_abi) as RiskControlLogicInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RiskControlLogic {
+    return new Contract(address, _abi, runner) as unknown as RiskControlLogic;
+  }
+}
@@ -0,0 +1,2059 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RiskControl,
+  RiskControlInterface,
+} from "../../contracts/RiskControl";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+    ],
+    name: "AddressEmptyCode",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "ERC1967InvalidImplementation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC1967NonPayable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyClientId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InputLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InputOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidInitialization",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidInputRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitializing",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UUPSUnauthorizedCallContext",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "slot",
+        type: "bytes32",
+      },
+    ],
+    name: "UUPSUnsupportedProxiableUUID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "flaggedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AppealFlagged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "resolvedBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overridden",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AppealResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "riskScore",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "tier",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "AssessmentPerformed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchAssessmentPerformed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+    ],
+    name: "BatchItemAssessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "BatchItemFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "clientId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "tier",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "originalApproved",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "originalTier",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "originalCreditLimit",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum RiskControl.OverrideReason",
+        name: "reason",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "overriddenBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DecisionOverridden",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "version",
+        type: "uint64",
+      },
+    ],
+    name: "Initialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ParametersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "implementation",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "validityPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "renewalWindow",
+        type: "uint256",
+      },
+    ],
+    name: "ValidityPeriodUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FACTOR_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PARAMETER_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RISK_OFFICER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SENIOR_OFFICER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TIER_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UPGRADE_INTERFACE_VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "age",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "annualIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "debtToIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "employmentYears",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "existingObligations",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "delinquencyCount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.ClientProfile",
+        name: "_profile",
+        type: "tuple",
+      },
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "assessBatchItem",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "riskScore",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "tier",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "age",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "annualIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "debtToIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "employmentYears",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "existingObligations",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "delinquencyCount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.ClientProfile",
+        name: "_profile",
+        type: "tuple",
+      },
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "assessRisk",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "riskScore",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "tier",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "age",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "annualIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "debtToIncome",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "employmentYears",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "existingObligations",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "delinquencyCount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.ClientProfile[]",
+        name: "_profiles",
+        type: "tuple[]",
+      },
+      {
+        internalType: "string[]",
+        name: "_clientIds",
+        type: "string[]",
+      },
+    ],
+    name: "batchAssessRisk",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "successCount",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "flagForAppeal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllClientIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getAppealStatus",
+    outputs: [
+      {
+        internalType: "enum RiskControl.AppealStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_index",
+        type: "uint256",
+      },
+    ],
+    name: "getAssessmentAt",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "riskScore",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "overridden",
+            type: "bool",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.AssessmentResult",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAssessmentCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAssessmentHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "riskScore",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "overridden",
+            type: "bool",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.AssessmentResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getAssessmentHistoryLength",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getAssessmentResult",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "creditLimit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "riskScore",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getAssessmentStatus",
+    outputs: [
+      {
+        internalType: "enum RiskAssessmentExpiry.AssessmentStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getAssessmentsPage",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "riskScore",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "overridden",
+            type: "bool",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.AssessmentResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "_clientIds",
+        type: "string[]",
+      },
+    ],
+    name: "getBatchAssessmentResults",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "riskScore",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "overridden",
+            type: "bool",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.AssessmentResult[]",
+        name: "results",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchOutcome",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "submittedBy",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "successCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256[]",
+            name: "failedIndexes",
+            type: "uint256[]",
+          },
+          {
+            internalType: "string[]",
+            name: "failureReasons",
+            type: "string[]",
+          },
+        ],
+        internalType: "struct RiskControl.BatchOutcome",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getClientIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "clientIds",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_index",
+        type: "uint256",
+      },
+    ],
+    name: "getDecisionOverride",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "originalApproved",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "originalCreditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "enum RiskControl.OverrideReason",
+            name: "reason",
+            type: "uint8",
+          },
+          {
+            internalType: "address",
+            name: "overriddenBy",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "originalTier",
+            type: "uint8",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct RiskControl.DecisionOverride",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+    ],
+    name: "getExpiredClients",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "clientIds",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextOffset",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getInputRanges",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "min",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "max",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.InputRange[6]",
+        name: "",
+        type: "tuple[6]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "getLatestAssessment",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "creditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "riskScore",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "approved",
+            type: "bool",
+          },
+          {
+            internalType: "enum RiskScoringSpec.RiskTier",
+            name: "tier",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "overridden",
+            type: "bool",
+          },
+          {
+            internalType: "string",
+            name: "clientId",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.AssessmentResult",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPendingAppeals",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getRiskParameters",
+    outputs: [
+      {
+        components: [
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "minScore",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "incomeMultiplier",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxCreditLimit",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "minInterestRate",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "maxInterestRate",
+                type: "uint256",
+              },
+            ],
+            internalType: "struct RiskControl.TierConfig[4]",
+            name: "tiers",
+            type: "tuple[4]",
+          },
+          {
+            components: [
+              {
+                internalType: "uint256",
+                name: "weight",
+                type: "uint256",
+              },
+              {
+                internalType: "uint256",
+                name: "cap",
+                type: "uint256",
+              },
+              {
+                internalType: "bool",
+                name: "inverse",
+                type: "bool",
+              },
+              {
+                internalType: "uint256[]",
+                name: "breakpoints",
+                type: "uint256[]",
+              },
+            ],
+            internalType: "struct RiskControl.ScoringFactor[6]",
+            name: "factors",
+            type: "tuple[6]",
+          },
+        ],
+        internalType: "struct RiskControl.RiskParameters",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "_tier",
+        type: "uint8",
+      },
+    ],
+    name: "getRiskTier",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "minScore",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "incomeMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxCreditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minInterestRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxInterestRate",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.TierConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+    ],
+    name: "getScoringFactor",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "weight",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "cap",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "inverse",
+            type: "bool",
+          },
+          {
+            internalType: "uint256[]",
+            name: "breakpoints",
+            type: "uint256[]",
+          },
+        ],
+        internalType: "struct RiskControl.ScoringFactor",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initializeInputRanges",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+      {
+        internalType: "enum RiskScoringSpec.RiskTier",
+        name: "_tier",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_creditLimit",
+        type: "uint256",
+      },
+      {
+        internalType: "enum RiskControl.OverrideReason",
+        name: "_reason",
+        type: "uint8",
+      },
+    ],
+    name: "overrideDecision",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proxiableUUID",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renewalWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_clientId",
+        type: "string",
+      },
+    ],
+    name: "resolveAppeal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_validityPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_renewalWindow",
+        type: "uint256",
+      },
+    ],
+    name: "setValidityPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_max",
+        type: "uint256",
+      },
+    ],
+    name: "updateInputRange",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "minScore",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "incomeMultiplier",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxCreditLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "minInterestRate",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxInterestRate",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RiskControl.TierConfig[4]",
+        name: "_tiers",
+        type: "tuple[4]",
+      },
+    ],
+    name: "updateRiskTiers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "_factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_weight",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "_inverse",
+        type: "bool",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_breakpoints",
+        type: "uint256[]",
+      },
+    ],
+    name: "updateScoringFactor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newImplementation",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "upgradeToAndCall",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "validityPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523060805234801562000014575f80fd5b506200001f62000025565b620000d9565b7ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00805468010000000000000000900460ff1615620000765760405163f92ee8a960e01b815260040160405180910390fd5b80546001600160401b0390811614620000d65780546001600160401b0319166001600160401b0390811782556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b50565b608051615e2c620001005f395f81816138e8015281816139110152613ae50152615e2c5ff3fe60806040526004361061033a575f3560e01c80638129fc1c116101b2578063ba94626c116100f2578063e5efa7c111610092578063edcba4d01161006d578063edcba4d014610a03578063f0c79c2814610a22578063f2fde38b14610a41578063fc19364514610a60575f80fd5b8063e5efa7c114610985578063e63ab1e9146109a4578063e88c8869146109d7575f80fd5b8063d547741f116100cd578063d547741f146108fc578063d714495b1461091b578063dad0fa1214610947578063e134aa1314610966575f80fd5b8063ba94626c146108b3578063caf27420146108d4578063cb12234b146108e8575f80fd5b806398dda7321161015d578063ad3cb1cc11610138578063ad3cb1cc146107dd578063b2444e0614610832578063b2b56a4214610851578063b626de1b14610880575f80fd5b806398dda732146107965780639e4f3d3b146107aa578063a7759f0d146107be575f80fd5b8063893d20e81161018d578063893d20e81461073057806391d148541461075657806396c284b914610775575f80fd5b80638129fc1c146106e9578063822e72de146106fd5780638456cb591461071c575f80fd5b8063390139151161027d5780635c975abb116102285780636e1d616e116102035780636e1d616e146106575780637145b8e81461068a57806373cb396c1461069e57806381146138146106ca575f80fd5b80635c975abb146105fa578063604f9e83146106235780636b222aff14610638575f80fd5b806349c9a0c71161025857806349c9a0c7146105a75780634f1ef286146105d357806352d1902d146105e6575f80fd5b806339013915146105485780633f4ba83a1461056757806340ed78a01461057b575f80fd5b80631a48f1ee116102e85780631e6c3850116102c35780631e6c3850146104df5780632f2ff15d146104f457806336331c8f14610515578063381f435314610529575f80fd5b80631a48f1ee146104605780631cc3b2f11461048d5780631cf27cfe146104ac575f80fd5b80630aea7b56116103185780630aea7b56146103c3578063191d3fc81461040857806319efd5fc14610434575f80fd5b80630242e3f91461033e57806303e233201461037357806306f13056146103a0575b5f80fd5b348015610349575f80fd5b5061035d610358366004614ddd565b610a93565b60405161036a9190614e60565b60405180910390f35b34801561037e575f80fd5b5061039261038d366004614eec565b610cb2565b60405161036a929190614fb1565b3480156103ab575f80fd5b506103b560c95481565b60405190815260200161036a565b3480156103ce575f80fd5b506103e26103dd366004614fd2565b610e6d565b60408051948552602085019390935290151591830191909152606082015260800161036a565b348015610413575f80fd5b50610427610422366004614ddd565b610ea0565b60405161036a919061506b565b34801561043f575f80fd5b5061045361044e366004614eec565b61109f565b60405161036a919061507d565b34801561046b575f80fd5b5061047f61047a366004614fd2565b611242565b60405161036a92919061508f565b348015610498575f80fd5b506103b56104a73660046151d3565b611282565b3480156104b7575f80fd5b506103b57f1c594a920bb77aa84d4d5d27db612c9e3bae95534e15fd2841ab43f7714de5bf81565b3480156104ea575f80fd5b506103b560325481565b3480156104ff575f80fd5b5061051361050e3660046152b4565b611408565b005b348015610520575f80fd5b506103b5600481565b348015610534575f80fd5b506103b5610543366004614fd2565b611551565b348015610553575f80fd5b50610513610562366004614fd2565b611578565b348015610572575f80fd5b50610513611734565b348015610586575f80fd5b5061059a6105953660046152de565b611830565b60405161036a9190615310565b3480156105b2575f80fd5b506105c66105c1366004615372565b611a74565b60405161036a91906153c3565b6105136105e136600461546b565b611c14565b3480156105f1575f80fd5b506103b5611c2f565b348015610605575f80fd5b506064546106139060ff1681565b604051901515815260200161036a565b34801561062e575f80fd5b506103b560335481565b348015610643575f80fd5b506105136106523660046154bf565b611c5d565b348015610662575f80fd5b506103b57f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f581565b348015610695575f80fd5b50610453611d11565b3480156106a9575f80fd5b506106bd6106b836600461556b565b611de5565b60405161036a91906155ba565b3480156106d5575f80fd5b5061059a6106e43660046155cc565b611ecc565b3480156106f4575f80fd5b5061051361218a565b348015610708575f80fd5b5061059a610717366004614eec565b6124b8565b348015610727575f80fd5b506105136124c7565b34801561073b575f80fd5b505f546040516001600160a01b03909116815260200161036a565b348015610761575f80fd5b506106136107703660046152b4565b6125c7565b348015610780575f80fd5b50610789612609565b60405161036a9190615616565b3480156107a1575f80fd5b5060c3546103b5565b3480156107b5575f80fd5b5061045361265e565b3480156107c9575f80fd5b506104276107d8366004614fd2565b612729565b3480156107e8575f80fd5b506108256040518060400160405280600581526020017f352e302e3000000000000000000000000000000000000000000000000000000081525081565b60405161036a9190615653565b34801561083d575f80fd5b5061051361084c366004615665565b61294f565b34801561085c575f80fd5b5061087061086b366004615697565b612a06565b60405161036a94939291906156d9565b34801561088b575f80fd5b506103b57f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c81565b3480156108be575f80fd5b506108c7612ae0565b60405161036a91906156fc565b3480156108df575f80fd5b506103b5600681565b3480156108f3575f80fd5b50610513612c23565b348015610907575f80fd5b506105136109163660046152b4565b612dde565b348015610926575f80fd5b5061093a6109353660046157c3565b612ecc565b60405161036a91906157dc565b348015610952575f80fd5b50610513610961366004615815565b612fda565b348015610971575f80fd5b50610513610980366004614eec565b61322f565b348015610990575f80fd5b5061087061099f366004615697565b6133af565b3480156109af575f80fd5b506103b57f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81565b3480156109e2575f80fd5b506109f66109f1366004614fd2565b613427565b60405161036a919061587b565b348015610a0e575f80fd5b50610513610a1d366004614fd2565b613451565b348015610a2d575f80fd5b50610513610a3c366004615895565b6135c9565b348015610a4c575f80fd5b50610513610a5b36600461595e565b613684565b348015610a6b575f80fd5b506103b57ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db44781565b610a9b614b99565b60c283604051610aab9190615977565b9081526040519081900360200190205482108015610b11575060c283604051610ad49190615977565b90815260200160405180910390208281548110610af357610af3615992565b905f5260205f20906005020160020160029054906101000a900460ff165b610b885760405162461bcd60e51b815260206004820152602860248201527f4e6f206f76657272696465207265636f7264656420666f72207468697320617360448201527f736573736d656e7400000000000000000000000000000000000000000000000060648201526084015b60405180910390fd5b60c583604051610b989190615977565b9081526040805191829003602090810183205f86815290825282902061012084018352805460ff90811615158552600182015492850192909252600281015482161515928401929092526003820154606084015260048201546080840191166005811115610c0857610c08614e1f565b6005811115610c1957610c19614e1f565b815260048281015461010090046001600160a01b0316602083015260058301546040830152600683015460609092019160ff1690811115610c5c57610c5c614e1f565b6004811115610c6d57610c6d614e1f565b81526020016006820160019054906101000a900460ff166004811115610c9557610c95614e1f565b6004811115610ca657610ca6614e1f565b90525090505b92915050565b60605f80610cbf60c35490565b9050808511610cce5784610cd0565b805b91505f610cdd83836159ba565b8510610cf257610ced83836159ba565b610cf4565b845b67ffffffffffffffff811115610d0c57610d0c614cd9565b604051908082528060200260200182016040528015610d3f57816020015b6060815260200190600190039081610d2a5790505b5090505f5b8284108015610d535750815181105b15610dca575f610d6285613775565b90506003610d77610d7283613820565b613887565b6003811115610d8857610d88614e1f565b03610db757808383610d99816159cd565b945081518110610dab57610dab615992565b60200260200101819052505b84610dc1816159cd565b95505050610d44565b8067ffffffffffffffff811115610de357610de3614cd9565b604051908082528060200260200182016040528015610e1657816020015b6060815260200190600190039081610e015790505b5094505f5b81811015610e6257828181518110610e3557610e35615992565b6020026020010151868281518110610e4f57610e4f615992565b6020908102919091010152600101610e1b565b505050509250929050565b5f805f805f610e7b86612729565b80516020820151604083015160c09093015191975095509093509150505b9193509193565b6040805160e0810182525f8082526020820181905281830181905260608083018290526080830182905260a083015260c0820152905160c290610ee4908590615977565b908152604051908190036020019020548210610f425760405162461bcd60e51b815260206004820152601d60248201527f4173736573736d656e7420696e646578206f7574206f662072616e67650000006044820152606401610b7f565b60c283604051610f529190615977565b90815260200160405180910390208281548110610f7157610f71615992565b5f9182526020918290206040805160e081018252600590930290910180548352600181015493830193909352600283015460ff8082161515928401929092529192916060840191610100909104166004811115610fd057610fd0614e1f565b6004811115610fe157610fe1614e1f565b8152600282015462010000900460ff161515602082015260038201805460409092019161100d906159e5565b80601f0160208091040260200160405190810160405280929190818152602001828054611039906159e5565b80156110845780601f1061105b57610100808354040283529160200191611084565b820191905f5260205f20905b81548152906001019060200180831161106757829003601f168201915b50505050508152602001600482015481525050905092915050565b60c35460609083106110dd57604080515f80825260208201909252906110d5565b60608152602001906001900390816110c05790505b509050610cac565b60c3545f906110ec8486615a17565b11611100576110fb8385615a17565b611104565b60c3545b905061111084826159ba565b67ffffffffffffffff81111561112857611128614cd9565b60405190808252806020026020018201604052801561115b57816020015b60608152602001906001900390816111465790505b509150835b8181101561123a5760c3818154811061117b5761117b615992565b905f5260205f2001805461118e906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546111ba906159e5565b80156112055780601f106111dc57610100808354040283529160200191611205565b820191905f5260205f20905b8154815290600101906020018083116111e857829003601f168201915b505050505083868361121791906159ba565b8151811061122757611227615992565b6020908102919091010152600101611160565b505092915050565b5f805f61124e84613820565b9050805f0361126257505f93849350915050565b61126b81613887565b6032546112789083615a17565b9250925050915091565b5f7ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db4476112ae81336125c7565b6112f65760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff161561133e5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b6044820152606401610b7f565b82518451146113605760405163aaad13f760e01b815260040160405180910390fd5b5f60c95f815461136f906159cd565b91829055505f81815260ca6020526040908190209051634089ce9b60e01b815291925073__$01a5c7d030e128e8c401fb0c9ab92b9414$__91634089ce9b916113c09185908a908a90600401615a75565b602060405180830381865af41580156113db573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906113ff9190615b12565b95945050505050565b5f546001600160a01b031633146114755760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610b7f565b6001600160a01b0381166114cb5760405162461bcd60e51b815260206004820152601e60248201527f4163636f756e742063616e6e6f74206265207a65726f206164647265737300006044820152606401610b7f565b5f8281526001602090815260408083206001600160a01b038516845290915290205460ff1661154d575f8281526001602081815260408084206001600160a01b0386168086529252808420805460ff19169093179092559051339285917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a45b5050565b5f60c2826040516115629190615977565b9081526040519081900360200190205492915050565b7f1c594a920bb77aa84d4d5d27db612c9e3bae95534e15fd2841ab43f7714de5bf6115a381336125c7565b6115eb5760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff16156116335760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b6044820152606401610b7f565b600160c6836040516116459190615977565b9081526040519081900360200190205460ff16600281111561166957611669614e1f565b146116c25760405162461bcd60e51b8152602060048201526024808201527f4e6f2070656e64696e672061707065616c20666f72207468697320636c69656e6044820152631d08125160e21b6064820152608401610b7f565b604051639aafda8360e01b815273__$01a5c7d030e128e8c401fb0c9ab92b9414$__90639aafda83906117049060c69060c79060c89088905f90600401615b29565b5f6040518083038186803b15801561171a575f80fd5b505af415801561172c573d5f803e3d5ffd5b505050505050565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a61175f81336125c7565b6117a75760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff166117f95760405162461bcd60e51b815260206004820152601660248201527f436f6e7472616374206973206e6f7420706175736564000000000000000000006044820152606401610b7f565b6064805460ff1916905560405133907f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa905f90a250565b6060815167ffffffffffffffff81111561184c5761184c614cd9565b6040519080825280602002602001820160405280156118b057816020015b6040805160e0810182525f808252602080830182905292820181905260608083018290526080830182905260a083015260c082015282525f1990920191018161186a5790505b5090505f5b8251811015611a6e575f60c28483815181106118d3576118d3615992565b60200260200101516040516118e89190615977565b908152604051908190036020019020805490915015611a655780548190611911906001906159ba565b8154811061192157611921615992565b5f9182526020918290206040805160e081018252600590930290910180548352600181015493830193909352600283015460ff808216151592840192909252919291606084019161010090910416600481111561198057611980614e1f565b600481111561199157611991614e1f565b8152600282015462010000900460ff16151560208201526003820180546040909201916119bd906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546119e9906159e5565b8015611a345780601f10611a0b57610100808354040283529160200191611a34565b820191905f5260205f20905b815481529060010190602001808311611a1757829003601f168201915b50505050508152602001600482015481525050838381518110611a5957611a59615992565b60200260200101819052505b506001016118b5565b50919050565b611aac6040518060a001604052805f6001600160a01b031681526020015f81526020015f815260200160608152602001606081525090565b5f82815260ca6020908152604091829020825160a08101845281546001600160a01b031681526001820154818401526002820154818501526003820180548551818602810186019096528086529194929360608601939290830182828015611b3157602002820191905f5260205f20905b815481526020019060010190808311611b1d575b5050505050815260200160048201805480602002602001604051908101604052809291908181526020015f905b82821015611c06578382905f5260205f20018054611b7b906159e5565b80601f0160208091040260200160405190810160405280929190818152602001828054611ba7906159e5565b8015611bf25780601f10611bc957610100808354040283529160200191611bf2565b820191905f5260205f20905b815481529060010190602001808311611bd557829003601f168201915b505050505081526020019060010190611b5e565b505050915250909392505050565b611c1c6138dd565b611c2582613996565b61154d8282613a06565b5f611c38613ada565b507f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc90565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c611c8881336125c7565b611cd05760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b611cd982613b23565b6040514281527f78a481a9bf05238fc2e4b0fbe31376a20f5e458b448f89fb9305ab9be8c4651e906020015b60405180910390a15050565b606060c3805480602002602001604051908101604052809291908181526020015f905b82821015611ddc578382905f5260205f20018054611d51906159e5565b80601f0160208091040260200160405190810160405280929190818152602001828054611d7d906159e5565b8015611dc85780601f10611d9f57610100808354040283529160200191611dc8565b820191905f5260205f20905b815481529060010190602001808311611dab57829003601f168201915b505050505081526020019060010190611d34565b50505050905090565b611e0f60405180608001604052805f81526020015f81526020015f15158152602001606081525090565b60aa826005811115611e2357611e23614e1f565b60068110611e3357611e33615992565b600402016040518060800160405290815f820154815260200160018201548152602001600282015f9054906101000a900460ff1615151515815260200160038201805480602002602001604051908101604052809291908181526020018280548015611ebc57602002820191905f5260205f20905b815481526020019060010190808311611ea8575b5050505050815250509050919050565b60605f60c285604051611edf9190615977565b90815260405190819003602001902080549091508410611f5d57604080515f8082526020820190925290611f54565b6040805160e0810182525f808252602080830182905292820181905260608083018290526080830182905260a083015260c082015282525f19909201910181611f0e5790505b50915050612183565b80545f90611f6b8587615a17565b11611f7f57611f7a8486615a17565b611f82565b81545b9050611f8e85826159ba565b67ffffffffffffffff811115611fa657611fa6614cd9565b60405190808252806020026020018201604052801561200a57816020015b6040805160e0810182525f808252602080830182905292820181905260608083018290526080830182905260a083015260c082015282525f19909201910181611fc45790505b509250845b8181101561217f5782818154811061202957612029615992565b5f9182526020918290206040805160e081018252600590930290910180548352600181015493830193909352600283015460ff808216151592840192909252919291606084019161010090910416600481111561208857612088614e1f565b600481111561209957612099614e1f565b8152600282015462010000900460ff16151560208201526003820180546040909201916120c5906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546120f1906159e5565b801561213c5780601f106121135761010080835404028352916020019161213c565b820191905f5260205f20905b81548152906001019060200180831161211f57829003601f168201915b5050505050815260200160048201548152505084878361215c91906159ba565b8151811061216c5761216c615992565b602090810291909101015260010161200f565b5050505b9392505050565b5f612193613cd6565b805490915060ff68010000000000000000820416159067ffffffffffffffff165f811580156121bf5750825b90505f8267ffffffffffffffff1660011480156121db5750303b155b9050811580156121e9575080155b156122075760405163f92ee8a960e01b815260040160405180910390fd5b845467ffffffffffffffff19166001178555831561223b57845468ff00000000000000001916680100000000000000001785555b5f805473ffffffffffffffffffffffffffffffffffffffff19163317905561226d6301e1338060325562278d00603355565b612275614be5565b5f5b6004811015612307575f805f805f61228e86613cfe565b945094509450945094506040518060a001604052808663ffffffff1681526020018563ffffffff168152602001620f42408563ffffffff166122d09190615b61565b8152602001838152602001828152508787600481106122f1576122f1615992565b6020020152505060019093019250612277915050565b5061231181613b23565b5f5b600681101561245c575f805f8061233a85600581111561233557612335614e1f565b613d8c565b929650909450925090505f600186600581111561235957612359614e1f565b600581111561236a5761236a614e1f565b1461237657600161237b565b620f42405b90505f825167ffffffffffffffff81111561239857612398614cd9565b6040519080825280602002602001820160405280156123c1578160200160208202803683370190505b5090505f5b835181101561241f57828482815181106123e2576123e2615992565b602002602001015163ffffffff166123fa9190615b61565b82828151811061240c5761240c615992565b60209081029190910101526001016123c6565b5061244a87600581111561243557612435614e1f565b8763ffffffff168763ffffffff16878561420f565b50506001909401935061231392505050565b50612465614275565b5083156124b157845468ff000000000000000019168555604051600181527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d29060200160405180910390a15b5050505050565b6060612183610595848461109f565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a6124f281336125c7565b61253a5760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff161561258d5760405162461bcd60e51b815260206004820152601a60248201527f436f6e747261637420697320616c7265616479207061757365640000000000006044820152606401610b7f565b6064805460ff1916600117905560405133907f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a258905f90a250565b5f80546001600160a01b03838116911614806121835750505f9182526001602090815260408084206001600160a01b0393909316845291905290205460ff1690565b612611614c37565b6040805160c0810190915260cb60065f835b82821015611ddc578382600202016040518060400160405290815f820154815260200160018201548152505081526020019060010190612623565b606060c7805480602002602001604051908101604052809291908181526020015f905b82821015611ddc578382905f5260205f2001805461269e906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546126ca906159e5565b80156127155780601f106126ec57610100808354040283529160200191612715565b820191905f5260205f20905b8154815290600101906020018083116126f857829003601f168201915b505050505081526020019060010190612681565b6040805160e0810182525f8082526020820181905291810182905260608082018390526080820183905260a082015260c081019190915281515f03612781576040516358f0ef4f60e11b815260040160405180910390fd5b5f60c2836040516127929190615977565b90815260405190819003602001902080549091506128015760405162461bcd60e51b815260206004820152602660248201527f4e6f206173736573736d656e7420666f756e6420666f72207468697320636c69604482015265195b9d08125160d21b6064820152608401610b7f565b80548190612811906001906159ba565b8154811061282157612821615992565b5f9182526020918290206040805160e081018252600590930290910180548352600181015493830193909352600283015460ff808216151592840192909252919291606084019161010090910416600481111561288057612880614e1f565b600481111561289157612891614e1f565b8152600282015462010000900460ff16151560208201526003820180546040909201916128bd906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546128e9906159e5565b80156129345780601f1061290b57610100808354040283529160200191612934565b820191905f5260205f20905b81548152906001019060200180831161291757829003601f168201915b50505050508152602001600482015481525050915050919050565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c61297a81336125c7565b6129c25760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b6129cd84848461431f565b6040514281527f78a481a9bf05238fc2e4b0fbe31376a20f5e458b448f89fb9305ab9be8c4651e9060200160405180910390a150505050565b5f805f807ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db447612a3581336125c7565b612a7d5760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff1615612ac55760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b6044820152606401610b7f565b612acf878761439d565b929a91995097509095509350505050565b612ae8614c6f565b6040805160c08101825290609690829081018260045f835b82821015612b59578382600502016040518060a00160405290815f820154815260200160018201548152602001600282015481526020016003820154815260200160048201548152505081526020019060010190612b00565b505050908252506040805160c081019091526020909101906014830160065f835b82821015612c165760408051608081018252600484028601805482526001810154602080840191909152600282015460ff1615158385015260038201805485518184028101840190965280865293949293606086019392830182828015612bfe57602002820191905f5260205f20905b815481526020019060010190808311612bea575b50505050508152505081526020019060010190612b7a565b5050505081525050905090565b60025f612c2e613cd6565b805490915068010000000000000000900460ff1680612c5b5750805467ffffffffffffffff808416911610155b15612c795760405163f92ee8a960e01b815260040160405180910390fd5b805468ffffffffffffffffff191667ffffffffffffffff831617680100000000000000001781555f54336001600160a01b0390911614612d0f5760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610b7f565b5f5b6006811015612d8b5760cb8160068110612d2d57612d2d615992565b60020201600101545f14612d835760405162461bcd60e51b815260206004820152601860248201527f496e7075742072616e67657320616c72656164792073657400000000000000006044820152606401610b7f565b600101612d11565b50612d94614275565b805468ff00000000000000001916815560405167ffffffffffffffff831681527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d290602001611d05565b5f546001600160a01b03163314612e4b5760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610b7f565b5f8281526001602090815260408083206001600160a01b038516845290915290205460ff161561154d575f8281526001602090815260408083206001600160a01b0385168085529252808320805460ff1916905551339285917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a45050565b612ef96040518060a001604052805f81526020015f81526020015f81526020015f81526020015f81525090565b5f826004811115612f0c57612f0c614e1f565b03612f635760405162461bcd60e51b815260206004820152602160248201527f4465636c696e6520686173206e6f207469657220636f6e66696775726174696f6044820152603760f91b6064820152608401610b7f565b60966001836004811115612f7957612f79614e1f565b612f8391906159ba565b60048110612f9357612f93615992565b600502016040518060a00160405290815f82015481526020016001820154815260200160028201548152602001600382015481526020016004820154815250509050919050565b7f1c594a920bb77aa84d4d5d27db612c9e3bae95534e15fd2841ab43f7714de5bf61300581336125c7565b61304d5760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff16156130955760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b6044820152606401610b7f565b84515f036130b6576040516358f0ef4f60e11b815260040160405180910390fd5b73__$01a5c7d030e128e8c401fb0c9ab92b9414$__63e2afe56b60c2876040516130e09190615977565b908152602001604051809103902060c5886040516130fe9190615977565b9081526040519081900360200181207fffffffff0000000000000000000000000000000000000000000000000000000060e085901b16825261314b92918a908a908a908a90600401615b78565b5f6040518083038186803b158015613161575f80fd5b505af4158015613173573d5f803e3d5ffd5b5060019250613180915050565b60c6866040516131909190615977565b9081526040519081900360200190205460ff1660028111156131b4576131b4614e1f565b036124b157604051639aafda8360e01b815273__$01a5c7d030e128e8c401fb0c9ab92b9414$__90639aafda83906131fc9060c69060c79060c8908b90600190600401615b29565b5f6040518083038186803b158015613212575f80fd5b505af4158015613224573d5f803e3d5ffd5b505050505050505050565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c61325a81336125c7565b6132a25760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b5f83116132f15760405162461bcd60e51b815260206004820181905260248201527f56616c696469747920706572696f64206d75737420626520706f7369746976656044820152606401610b7f565b828211156133675760405162461bcd60e51b815260206004820152602660248201527f52656e6577616c2077696e646f7720657863656564732076616c69646974792060448201527f706572696f6400000000000000000000000000000000000000000000000000006064820152608401610b7f565b6032839055603382905560408051848152602081018490527ffb645c6072fb9449c25b08a7a70f4f468051bc0dc34e5347f514a7fb41ad7f37910160405180910390a1505050565b5f80808033301461340d5760405162461bcd60e51b815260206004820152602260248201527f4f6e6c792063616c6c61626c652066726f6d2062617463684173736573735269604482015261736b60f01b6064820152608401610b7f565b613417868661439d565b9299919850965090945092505050565b5f60c6826040516134389190615977565b9081526040519081900360200190205460ff1692915050565b7ffc5e340a927dfb90e4ea870f83d58633458b79a78fd1a48271b299ac1d6db44761347c81336125c7565b6134c45760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b60645460ff161561350c5760405162461bcd60e51b815260206004820152601260248201527110dbdb9d1c9858dd081a5cc81c185d5cd95960721b6044820152606401610b7f565b5f60c28360405161351d9190615977565b90815260405190819003602001902054116135895760405162461bcd60e51b815260206004820152602660248201527f4e6f206173736573736d656e7420666f756e6420666f72207468697320636c69604482015265195b9d08125160d21b6064820152608401610b7f565b604051637cf09b5160e01b815273__$01a5c7d030e128e8c401fb0c9ab92b9414$__90637cf09b51906117049060c69060c79060c8908890600401615bc5565b7f896f2fe212e7ed9631b6dfe8fc24cd35f4d47b9e9a854d5b0eb08db6295a922c6135f481336125c7565b61363c5760405162461bcd60e51b815260206004820152602660248201525f80516020615e008339815191526044820152656420726f6c6560d01b6064820152608401610b7f565b613649868686868661420f565b6040514281527f78a481a9bf05238fc2e4b0fbe31376a20f5e458b448f89fb9305ab9be8c4651e9060200160405180910390a1505050505050565b5f546001600160a01b031633146136f15760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610b7f565b6001600160a01b0381166137475760405162461bcd60e51b815260206004820181905260248201527f4e6577206f776e65722063616e6e6f74206265207a65726f20616464726573736044820152606401610b7f565b5f805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0392909216919091179055565b606060c3828154811061378a5761378a615992565b905f5260205f2001805461379d906159e5565b80601f01602080910402602001604051908101604052809291908181526020018280546137c9906159e5565b80156138145780601f106137eb57610100808354040283529160200191613814565b820191905f5260205f20905b8154815290600101906020018083116137f757829003601f168201915b50505050509050919050565b5f8060c2836040516138329190615977565b9081526040519081900360200190208054909150613850575f612183565b80548190613860906001906159ba565b8154811061387057613870615992565b905f5260205f209060050201600401549392505050565b5f815f0361389657505f919050565b5f603254836138a59190615a17565b90508042106138b75750600392915050565b80603354426138c69190615a17565b106138d45750600292915050565b50600192915050565b306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016148061397657507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031661396a7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc546001600160a01b031690565b6001600160a01b031614155b156139945760405163703e46dd60e11b815260040160405180910390fd5b565b5f546001600160a01b03163314613a035760405162461bcd60e51b815260206004820152602b60248201527f4f6e6c7920636f6e7472616374206f776e65722063616e20706572666f726d2060448201526a3a3434b99030b1ba34b7b760a91b6064820152608401610b7f565b50565b816001600160a01b03166352d1902d6040518163ffffffff1660e01b8152600401602060405180830381865afa925050508015613a60575060408051601f3d908101601f19168201909252613a5d91810190615b12565b60015b613a8857604051634c9c8ce360e01b81526001600160a01b0383166004820152602401610b7f565b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc8114613acb57604051632a87526960e21b815260048101829052602401610b7f565b613ad583836146cc565b505050565b306001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146139945760405163703e46dd60e11b815260040160405180910390fd5b5f5b600481101561154d57801580613b72575081613b426001836159ba565b60048110613b5257613b52615992565b602002015151828260048110613b6a57613b6a615992565b602002015151115b613be45760405162461bcd60e51b815260206004820152602e60248201527f54696572206d696e696d756d2073636f726573206d757374206265207374726960448201527f63746c7920617363656e64696e670000000000000000000000000000000000006064820152608401610b7f565b818160048110613bf657613bf6615992565b602002015160800151828260048110613c1157613c11615992565b6020020151606001511115613c685760405162461bcd60e51b815260206004820152601e60248201527f496e74657265737420726174652062616e6420697320696e76657274656400006044820152606401610b7f565b818160048110613c7a57613c7a615992565b602002015160968260048110613c9257613c92615992565b600502015f820151815f0155602082015181600101556040820151816002015560608201518160030155608082015181600401559050508080600101915050613b25565b5f807ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00610cac565b5f805f805f855f03613d255750603293506001925061138891506107089050610960613d83565b85600103613d485750603c935060029250613a9891506104b09050610708613d83565b85600203613d6b5750604b935060039250619c40915061032090506104b0613d83565b50605a935060049250620186a091506101f490506103205b91939590929450565b5f8080606081856005811115613da457613da4614e1f565b03613e2b5760408051600580825260c08201909252906020820160a0803683370190505090505f5b6005811015613e1a57613de0816005615b61565b613deb906014615a17565b828281518110613dfd57613dfd615992565b63ffffffff90921660209283029190910190910152600101613dcc565b50606460285f935093509350610e99565b6001856005811115613e3f57613e3f614e1f565b03613ec75760408051600680825260e08201909252906020820160c0803683370190505090505f5b6006811015613eb657613e7b816001615a17565b613e8790612710615b61565b828281518110613e9957613e99615992565b63ffffffff90921660209283029190910190910152600101613e67565b506064603c5f935093509350610e99565b6002856005811115613edb57613edb614e1f565b03613f9d576040805160038082526080820190925290602082016060803683370190505090506014815f81518110613f1557613f15615992565b602002602001019063ffffffff16908163ffffffff1681525050602381600181518110613f4457613f44615992565b602002602001019063ffffffff16908163ffffffff1681525050603281600281518110613f7357613f73615992565b602002602001019063ffffffff16908163ffffffff16815250505f601e6001935093509350610e99565b6003856005811115613fb157613fb1614e1f565b036140a15760408051600480825260a0820190925290602082016080803683370190505090506001815f81518110613feb57613feb615992565b602002602001019063ffffffff16908163ffffffff168152505060038160018151811061401a5761401a615992565b602002602001019063ffffffff16908163ffffffff168152505060058160028151811061404957614049615992565b602002602001019063ffffffff16908163ffffffff1681525050600a8160038151811061407857614078615992565b602002602001019063ffffffff16908163ffffffff16815250505f60145f935093509350610e99565b60408051600380825260808201909252906020820160608036833701905050905060048560058111156140d6576140d6614e1f565b03614177576002815f815181106140ef576140ef615992565b602002602001019063ffffffff16908163ffffffff168152505060048160018151811061411e5761411e615992565b602002602001019063ffffffff16908163ffffffff168152505060068160028151811061414d5761414d615992565b602002602001019063ffffffff16908163ffffffff16815250505f600f6001935093509350610e99565b6001815f8151811061418b5761418b615992565b602002602001019063ffffffff16908163ffffffff16815250506002816001815181106141ba576141ba615992565b602002602001019063ffffffff16908163ffffffff16815250506003816002815181106141e9576141e9615992565b63ffffffff909216602092830291909101909101525f95601e9550600194509092509050565b73__$01a5c7d030e128e8c401fb0c9ab92b9414$__633ce4c12960aa87600581111561423d5761423d614e1f565b6006811061424d5761424d615992565b60040201868686866040518663ffffffff1660e01b81526004016131fc959493929190615be9565b5f5b6006811015613a03575f8061429c83600581111561429757614297614e1f565b614721565b90925090505f60018460058111156142b6576142b6614e1f565b60058111156142c7576142c7614e1f565b146142d35760016142d8565b620f42405b90506143148460058111156142ef576142ef614e1f565b6142ff8363ffffffff8716615b61565b61430f8463ffffffff8716615b61565b61431f565b505050600101614277565b8082111561434657828282604051632fb2722f60e11b8152600401610b7f93929190615c4e565b60405180604001604052808381526020018281525060cb84600581111561436f5761436f614e1f565b6006811061437f5761437f615992565b600202015f820151815f015560208201518160010155905050505050565b5f805f8084515f036143c2576040516358f0ef4f60e11b815260040160405180910390fd5b5f6040518060c00160405280885f01518152602001886020015181526020018860400151815260200188606001518152602001886080015181526020018860a001518152509050614412816147c0565b61441b8161487f565b9350614426846148d5565b91505f82600481111561443b5761443b614e1f565b5f965014801593506144cf575f6096600184600481111561445e5761445e614e1f565b61446891906159ba565b6004811061447857614478615992565b6005020190508060010154620f424080600c8b602001516144999190615c6f565b6144a39190615c6f565b6144ad9190615b61565b6144b79190615b61565b955080600201548611156144cd57806002015495505b505b6144ef8680516020918201205f90815260c4909152604090205460ff1690565b6145535785516020808801919091205f90815260c490915260408120805460ff1916600190811790915560c3805491820181559091527f6d918f650e2b4a9f360977c4447e6376eb632ec1f687ba963aa9983e90086594016145518782615cd2565b505b60c2866040516145639190615977565b90815260200160405180910390206040518060e0016040528087815260200186815260200185151581526020018460048111156145a2576145a2614e1f565b81525f602080830182905260408084018c90524260609485015285546001818101885596845292829020855160059094020192835590840151948201949094559282015160028401805491151560ff198316811782559284015193949392909161ff001990911661ffff199091161761010083600481111561462657614626614e1f565b02179055506080820151600282018054911515620100000262ff00001990921691909117905560a082015160038201906146609082615cd2565b5060c0820151816004015550508560405161467b9190615977565b60405180910390207fbbac592e1bfa1bd49f6f5285e48ccf84461f2457ad9123bc600482dc3762e96e86868686426040516146ba959493929190615d8e565b60405180910390a25092959194509250565b6146d582614933565b6040516001600160a01b038316907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b905f90a280511561471957613ad582826149b6565b61154d614a1f565b5f808083600581111561473657614736614e1f565b036147475750601292607892509050565b600183600581111561475b5761475b614e1f565b0361476d57505f926298968092509050565b600283600581111561478157614781614e1f565b0361479157505f92606492509050565b60038360058111156147a5576147a5614e1f565b036147b557505f92605092509050565b505f92606492509050565b5f5b600681101561154d575f60cb82600681106147df576147df615992565b6002020180549091508383600681106147fa576147fa615992565b602002015110806148245750806001015483836006811061481d5761481d615992565b6020020151115b156148765781600581111561483b5761483b614e1f565b83836006811061484d5761484d615992565b60200201518254600184015460405163fd2468d760e01b8152610b7f9493929190600401615dc1565b506001016147c2565b5f805b6006811015611a6e576148c160aa82600681106148a1576148a1615992565b600402018483600681106148b7576148b7615992565b6020020151614a3e565b6148cb9083615a17565b9150600101614882565b5f60045b801561492b5760966148ec6001836159ba565b600481106148fc576148fc615992565b600502015483106149195780600481111561218357612183614e1f565b8061492381615dea565b9150506148d9565b505f92915050565b806001600160a01b03163b5f0361496857604051634c9c8ce360e01b81526001600160a01b0382166004820152602401610b7f565b7f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b0392909216919091179055565b60605f80846001600160a01b0316846040516149d29190615977565b5f60405180830381855af49150503d805f8114614a0a576040519150601f19603f3d011682016040523d82523d5f602084013e614a0f565b606091505b50915091506113ff858383614ae0565b34156139945760405163b398979f60e01b815260040160405180910390fd5b60038201545f90808203614a55575f915050610cac565b5f5b8181108015614a835750846003018181548110614a7657614a76615992565b905f5260205f2001548410155b15614a9a5780614a92816159cd565b915050614a57565b5f614aad8660010154875f015485614b3c565b600287015490915060ff16614ac25781614acc565b614acc82846159ba565b614ad69082615b61565b9695505050505050565b606082614af557614af082614b71565b612183565b8151158015614b0c57506001600160a01b0384163b155b15614b3557604051639996b31560e01b81526001600160a01b0385166004820152602401610b7f565b5080612183565b5f8115614b6757614b4e826064615b61565b614b588486615b61565b614b629190615c6f565b614b69565b5f5b949350505050565b805115614b8057805160208201fd5b60405163d6bda27560e01b815260040160405180910390fd5b60408051610120810182525f80825260208201819052918101829052606081018290526080810182905260a0810182905260c0810182905260e08101829052906101008201905b905290565b60405180608001604052806004905b614c216040518060a001604052805f81526020015f81526020015f81526020015f81526020015f81525090565b815260200190600190039081614bf45790505090565b6040518060c001604052806006905b604080518082019091525f8082526020820152815260200190600190039081614c465790505090565b6040518060400160405280614c82614be5565b8152602001614be06040518060c001604052806006905b614cc360405180608001604052805f81526020015f81526020015f15158152602001606081525090565b815260200190600190039081614c995790505090565b634e487b7160e01b5f52604160045260245ffd5b6040516080810167ffffffffffffffff81118282101715614d1057614d10614cd9565b60405290565b60405160a0810167ffffffffffffffff81118282101715614d1057614d10614cd9565b604051601f8201601f1916810167ffffffffffffffff81118282101715614d6257614d62614cd9565b604052919050565b5f67ffffffffffffffff831115614d8357614d83614cd9565b614d96601f8401601f1916602001614d39565b9050828152838383011115614da9575f80fd5b828260208301375f602084830101529392505050565b5f82601f830112614dce575f80fd5b61218383833560208501614d6a565b5f8060408385031215614dee575f80fd5b823567ffffffffffffffff811115614e04575f80fd5b614e1085828601614dbf565b95602094909401359450505050565b634e487b7160e01b5f52602160045260245ffd5b60068110613a0357613a03614e1f565b614e4c81614e33565b9052565b60058110614e4c57614e4c614e1f565b5f6101208201905082511515825260208301516020830152604083015115156040830152606083015160608301526080830151614ea06080840182614e43565b5060a0830151614ebb60a08401826001600160a01b03169052565b5060c083015160c083015260e0830151614ed860e0840182614e50565b506101008084015161123a82850182614e50565b5f8060408385031215614efd575f80fd5b50508035926020909101359150565b5f5b83811015614f26578181015183820152602001614f0e565b50505f910152565b5f8151808452614f45816020860160208601614f0c565b601f01601f19169290920160200192915050565b5f8282518085526020808601955060208260051b840101602086015f5b84811015614fa457601f19868403018952614f92838351614f2e565b98840198925090830190600101614f76565b5090979650505050505050565b604081525f614fc36040830185614f59565b90508260208301529392505050565b5f60208284031215614fe2575f80fd5b813567ffffffffffffffff811115614ff8575f80fd5b614b6984828501614dbf565b80518252602081015160208301526040810151151560408301525f60608201516150316060850182614e50565b5060808201511515608084015260a082015160e060a085015261505760e0850182614f2e565b60c093840151949093019390935250919050565b602081525f6121836020830184615004565b602081525f6121836020830184614f59565b60408101600484106150a3576150a3614e1f565b9281526020015290565b5f67ffffffffffffffff8211156150c6576150c6614cd9565b5060051b60200190565b5f60c082840312156150e0575f80fd5b60405160c0810181811067ffffffffffffffff8211171561510357615103614cd9565b8060405250809150823581526020830135602082015260408301356040820152606083013560608201526080830135608082015260a083013560a08201525092915050565b5f82601f830112615157575f80fd5b8135602061516c615167836150ad565b614d39565b82815260059290921b8401810191818101908684111561518a575f80fd5b8286015b848110156151c857803567ffffffffffffffff8111156151ac575f80fd5b6151ba8986838b0101614dbf565b84525091830191830161518e565b509695505050505050565b5f80604083850312156151e4575f80fd5b823567ffffffffffffffff808211156151fb575f80fd5b818501915085601f83011261520e575f80fd5b8135602061521e615167836150ad565b8083825260208201915060c0602060c0860288010194508a851115615241575f80fd5b6020870196505b848710156152695761525a8b886150d0565b83529586019591830191615248565b5096505050506020850135915080821115615282575f80fd5b5061528f85828601615148565b9150509250929050565b80356001600160a01b03811681146152af575f80fd5b919050565b5f80604083850312156152c5575f80fd5b823591506152d560208401615299565b90509250929050565b5f602082840312156152ee575f80fd5b813567ffffffffffffffff811115615304575f80fd5b614b6984828501615148565b5f60208083016020845280855180835260408601915060408160051b8701019250602087015f5b8281101561536557603f19888603018452615353858351615004565b94509285019290850190600101615337565b5092979650505050505050565b5f60208284031215615382575f80fd5b5035919050565b5f815180845260208085019450602084015f5b838110156153b85781518752958201959082019060010161539c565b509495945050505050565b5f60208083526001600160a01b038451168184015280840151604084015260408401516060840152606084015160a0608085015261540460c0850182615389565b6080860151601f19868303810160a088015281518084529293509084019184840190600581901b850186015f5b8281101561545d578487830301845261544b828751614f2e565b95880195938801939150600101615431565b509998505050505050505050565b5f806040838503121561547c575f80fd5b61548583615299565b9150602083013567ffffffffffffffff8111156154a0575f80fd5b8301601f810185136154b0575f80fd5b61528f85823560208401614d6a565b5f6102808083850312156154d1575f80fd5b83601f8401126154df575f80fd5b6154e7614ced565b9083019080858311156154f8575f80fd5b845b838110156155555760a08188031215615511575f80fd5b615519614d16565b8135815260208083013581830152604080840135908301526060808401359083015260808084013590830152908452929092019160a0016154fa565b5095945050505050565b60068110613a03575f80fd5b5f6020828403121561557b575f80fd5b81356121838161555f565b80518252602081015160208301526040810151151560408301525f606082015160806060850152614b696080850182615389565b602081525f6121836020830184615586565b5f805f606084860312156155de575f80fd5b833567ffffffffffffffff8111156155f4575f80fd5b61560086828701614dbf565b9660208601359650604090950135949350505050565b610180810181835f5b600681101561564a57815180518452602090810151818501526040909301929091019060010161561f565b50505092915050565b602081525f6121836020830184614f2e565b5f805f60608486031215615677575f80fd5b83356156828161555f565b95602085013595506040909401359392505050565b5f8060e083850312156156a8575f80fd5b6156b284846150d0565b915060c083013567ffffffffffffffff8111156156cd575f80fd5b61528f85828601614dbf565b848152602081018490528215156040820152608081016113ff6060830184614e50565b602080825282515f91906102c08401838584015b60048210156157625761574f81855180518252602081015160208301526040810151604083015260608101516060830152608081015160808301525050565b928401926001919091019060a001615710565b5050858301516102a08681015291506103808501905f5b60068110156157a9576102bf19878403018252615797838551615586565b93850193925090840190600101615779565b50909695505050505050565b8035600581106152af575f80fd5b5f602082840312156157d3575f80fd5b612183826157b5565b60a08101610cac828480518252602081015160208301526040810151604083015260608101516060830152608081015160808301525050565b5f805f8060808587031215615828575f80fd5b843567ffffffffffffffff81111561583e575f80fd5b61584a87828801614dbf565b945050615859602086016157b5565b92506040850135915060608501356158708161555f565b939692955090935050565b602081016003831061588f5761588f614e1f565b91905290565b5f805f805f60a086880312156158a9575f80fd5b85356158b48161555f565b9450602086810135945060408701359350606087013580151581146158d7575f80fd5b9250608087013567ffffffffffffffff8111156158f2575f80fd5b8701601f81018913615902575f80fd5b8035615910615167826150ad565b81815260059190911b8201830190838101908b83111561592e575f80fd5b928401925b8284101561594c57833582529284019290840190615933565b80955050505050509295509295909350565b5f6020828403121561596e575f80fd5b61218382615299565b5f8251615988818460208701614f0c565b9190910192915050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b81810381811115610cac57610cac6159a6565b5f600182016159de576159de6159a6565b5060010190565b600181811c908216806159f957607f821691505b602082108103611a6e57634e487b7160e01b5f52602260045260245ffd5b80820180821115610cac57610cac6159a6565b5f8282518085526020808601955060208260051b840101602086015f5b84811015614fa457601f19868403018952615a63838351614f2e565b98840198925090830190600101615a47565b5f6080808301878452602087602086015260406080604087015282885180855260a0945060a08801915060208a015f5b82811015615aee57815180518552868101518786015285810151868601526060808201519086015288810151898601528701518785015260c09093019290850190600101615aa5565b5050508681036060880152615b038189615a2a565b9b9a5050505050505050505050565b5f60208284031215615b22575f80fd5b5051919050565b85815284602082015283604082015260a060608201525f615b4d60a0830185614f2e565b905082151560808301529695505050505050565b8082028115828204841417610cac57610cac6159a6565b86815285602082015260c060408201525f615b9660c0830187614f2e565b9050615ba56060830186614e50565b836080830152615bb483614e33565b8260a0830152979650505050505050565b848152836020820152826040820152608060608201525f614ad66080830184614f2e565b5f60a082018783526020876020850152866040850152851515606085015260a0608085015281855180845260c0860191506020870193505f5b81811015615c3e57845183529383019391830191600101615c22565b50909a9950505050505050505050565b60608101615c5b85614e33565b938152602081019290925260409091015290565b5f82615c8957634e487b7160e01b5f52601260045260245ffd5b500490565b601f821115613ad557805f5260205f20601f840160051c81016020851015615cb35750805b601f840160051c820191505b818110156124b1575f8155600101615cbf565b815167ffffffffffffffff811115615cec57615cec614cd9565b615d0081615cfa84546159e5565b84615c8e565b602080601f831160018114615d33575f8415615d1c5750858301515b5f19600386901b1c1916600185901b17855561172c565b5f85815260208120601f198616915b82811015615d6157888601518255948401946001909101908401615d42565b5085821015615d7e57878501515f19600388901b60f8161c191681555b5050505050600190811b01905550565b85815260208101859052831515604082015260a08101615db16060830185614e50565b8260808301529695505050505050565b60808101615dce86614e33565b9481526020810193909352604083019190915260609091015290565b5f81615df857615df86159a6565b505f19019056fe43616c6c657220646f6573206e6f742068617665207468652072657175697265a164736f6c6343000818000a";
+
+type RiskControlConstructorParams =
+  | [linkLibraryAddresses: RiskControlLibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RiskControlConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class RiskControl__factory extends ContractFactory {
+  constructor(...args: RiskControlConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        RiskControl__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: RiskControlLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$01a5c7d030e128e8c401fb0c9ab92b9414\\$__", "g"),
+      linkLibraryAddresses["contracts/RiskControlLogic.sol:RiskControlLogic"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      RiskControl & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RiskControl__factory {
+    return super.connect(runner) as RiskControl__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RiskControlInterface {
+    return new Interface(_abi) as RiskControlInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): RiskControl {
+    return new Contract(address, _abi, runner) as unknown as RiskControl;
+  }
+}
+
+export interface RiskControlLibraryAddresses {
+  ["contracts/RiskControlLogic.sol:RiskControlLogic"]: string;
+}
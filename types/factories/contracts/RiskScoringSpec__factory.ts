@@ -0,0 +1,108 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  RiskScoringSpec,
+  RiskScoringSpecInterface,
+} from "../../contracts/RiskScoringSpec";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "EmptyClientId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InputLengthMismatch",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InputOutOfRange",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum RiskScoringSpec.Factor",
+        name: "factor",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "min",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "max",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidInputRange",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FACTOR_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TIER_COUNT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class RiskScoringSpec__factory {
+  static readonly abi = _abi;
+  static createInterface(): RiskScoringSpecInterface {
+    return new Interface(_abi) as RiskScoringSpecInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RiskScoringSpec {
+    return new Contract(address, _abi, runner) as unknown as RiskScoringSpec;
+  }
+}
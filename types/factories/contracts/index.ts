@@ -0,0 +1,11 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { RiskAccessControl__factory } from "./RiskAccessControl__factory";
+export { RiskAssessmentExpiry__factory } from "./RiskAssessmentExpiry__factory";
+export { RiskControl__factory } from "./RiskControl__factory";
+export { RiskControlFHE__factory } from "./RiskControlFHE__factory";
+export { RiskControlLogic__factory } from "./RiskControlLogic__factory";
+export { RiskControlProxy__factory } from "./RiskControlProxy__factory";
+export { RiskPausable__factory } from "./RiskPausable__factory";
+export { RiskScoringSpec__factory } from "./RiskScoringSpec__factory";
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { RiskControl__factory } from "./RiskControl__factory";
+export * as fhevm from "./@fhevm";
+export * as openzeppelin from "./@openzeppelin";
+export * as contracts from "./contracts";
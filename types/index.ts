@@ -1,6 +1,66 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { RiskControl } from "./RiskControl";
+import type * as fhevm from "./@fhevm";
+export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
+import type * as contracts from "./contracts";
+export type { contracts };
 export * as factories from "./factories";
-export { RiskControl__factory } from "./factories/RiskControl__factory";
+export type { EthereumConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
+export { EthereumConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig__factory";
+export type { SepoliaConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig";
+export { SepoliaConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig__factory";
+export type { FHE } from "./@fhevm/solidity/lib/FHE.sol/FHE";
+export { FHE__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/FHE__factory";
+export type { IDecryptionOracle } from "./@fhevm/solidity/lib/FHE.sol/IDecryptionOracle";
+export { IDecryptionOracle__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IDecryptionOracle__factory";
+export type { IKMSVerifier } from "./@fhevm/solidity/lib/FHE.sol/IKMSVerifier";
+export { IKMSVerifier__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IKMSVerifier__factory";
+export type { IACL } from "./@fhevm/solidity/lib/Impl.sol/IACL";
+export { IACL__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
+export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor";
+export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
+export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
+export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { Initializable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/Initializable";
+export { Initializable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/Initializable__factory";
+export type { UUPSUpgradeable } from "./@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable";
+export { UUPSUpgradeable__factory } from "./factories/@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable__factory";
+export type { IERC1822Proxiable } from "./@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable";
+export { IERC1822Proxiable__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC1822.sol/IERC1822Proxiable__factory";
+export type { IERC1967 } from "./@openzeppelin/contracts/interfaces/IERC1967";
+export { IERC1967__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1967__factory";
+export type { IBeacon } from "./@openzeppelin/contracts/proxy/beacon/IBeacon";
+export { IBeacon__factory } from "./factories/@openzeppelin/contracts/proxy/beacon/IBeacon__factory";
+export type { ERC1967Proxy } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy";
+export { ERC1967Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy__factory";
+export type { ERC1967Utils } from "./@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils";
+export { ERC1967Utils__factory } from "./factories/@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils__factory";
+export type { Proxy } from "./@openzeppelin/contracts/proxy/Proxy";
+export { Proxy__factory } from "./factories/@openzeppelin/contracts/proxy/Proxy__factory";
+export type { Address } from "./@openzeppelin/contracts/utils/Address";
+export { Address__factory } from "./factories/@openzeppelin/contracts/utils/Address__factory";
+export type { Errors } from "./@openzeppelin/contracts/utils/Errors";
+export { Errors__factory } from "./factories/@openzeppelin/contracts/utils/Errors__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { RiskAccessControl } from "./contracts/RiskAccessControl";
+export { RiskAccessControl__factory } from "./factories/contracts/RiskAccessControl__factory";
+export type { RiskAssessmentExpiry } from "./contracts/RiskAssessmentExpiry";
+export { RiskAssessmentExpiry__factory } from "./factories/contracts/RiskAssessmentExpiry__factory";
+export type { RiskControl } from "./contracts/RiskControl";
+export { RiskControl__factory } from "./factories/contracts/RiskControl__factory";
+export type { RiskControlFHE } from "./contracts/RiskControlFHE";
+export { RiskControlFHE__factory } from "./factories/contracts/RiskControlFHE__factory";
+export type { RiskControlLogic } from "./contracts/RiskControlLogic";
+export { RiskControlLogic__factory } from "./factories/contracts/RiskControlLogic__factory";
+export type { RiskControlProxy } from "./contracts/RiskControlProxy";
+export { RiskControlProxy__factory } from "./factories/contracts/RiskControlProxy__factory";
+export type { RiskPausable } from "./contracts/RiskPausable";
+export { RiskPausable__factory } from "./factories/contracts/RiskPausable__factory";
+export type { RiskScoringSpec } from "./contracts/RiskScoringSpec";
+export { RiskScoringSpec__factory } from "./factories/contracts/RiskScoringSpec__factory";